@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import fs from 'fs/promises'
+import { resolveDataFilePath, getPublicDataFilePath } from '@/lib/data-file-paths'
+import { COMPETITIVE_INTELLIGENCE_FILE, validateCompetitiveIntelligence } from '@/lib/competitive-intelligence-data'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * API Route to load a market's competitive intelligence file
+ *
+ * Query parameters:
+ * - path: (optional) Path to the file within public/data (default competitive_intelligence.json)
+ * - market: (optional) Market name of the loaded dataset; a file describing another market is rejected
+ *
+ * Returns { data, issues } with the validated CompetitiveIntelligenceData (see lib/competitive-intelligence-data.ts).
+ * A path outside public/data is a 400, a missing file is a 404, and a file with error-severity issues
+ * is a 422 carrying those issues.
+ *
+ * Example: /api/competitive-intelligence?market=Global%20Spices%20Market
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const filePath = searchParams.get('path') || COMPETITIVE_INTELLIGENCE_FILE
+    const market = searchParams.get('market')?.trim()
+
+    const publicPath = getPublicDataFilePath(filePath)
+    if (!publicPath) {
+      return NextResponse.json(
+        { error: `${filePath} is not a file in public/data` },
+        { status: 400 }
+      )
+    }
+    const resolvedPath = await resolveDataFilePath(publicPath)
+    if (!resolvedPath) {
+      return NextResponse.json(
+        { error: `Competitive intelligence file not found: ${publicPath}` },
+        { status: 404 }
+      )
+    }
+
+    let raw: unknown
+    try {
+      raw = JSON.parse(await fs.readFile(resolvedPath, 'utf-8'))
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Failed to parse competitive intelligence JSON',
+          details: error instanceof Error ? error.message : String(error)
+        },
+        { status: 400 }
+      )
+    }
+
+    const { data, issues } = validateCompetitiveIntelligence(raw)
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Competitive intelligence file failed validation', issues },
+        { status: 422 }
+      )
+    }
+
+    // Showing another market's companies is worse than showing none
+    if (market && data.metadata.market.toLowerCase() !== market.toLowerCase()) {
+      return NextResponse.json(
+        { error: `${filePath} describes "${data.metadata.market}", not "${market}"` },
+        { status: 404 }
+      )
+    }
+
+    console.log(`Loaded competitive intelligence for ${data.metadata.market}: ${data.companies.length} companies, ${issues.length} issues`)
+    return NextResponse.json({ data, issues })
+  } catch (error) {
+    console.error('Error loading competitive intelligence:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load competitive intelligence',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    )
+  }
+}
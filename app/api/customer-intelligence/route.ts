@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import fs from 'fs/promises'
+import path from 'path'
+import { resolveDataFilePath, getPublicDataFilePath } from '@/lib/data-file-paths'
+import { CUSTOMER_INTELLIGENCE_FILES, parseCustomerFile } from '@/lib/customer-intelligence-data'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * API Route to load a market's customer list
+ *
+ * Query parameters:
+ * - path: (optional) Path to a .json or .csv/.tsv file within public/data
+ *   (default customer_intelligence.json, then customer_intelligence.csv)
+ * - market: (optional) Market name of the loaded dataset; rows tagged with another market are left out
+ *
+ * Returns { data, issues } with the validated CustomerIntelligenceData (see lib/customer-intelligence-data.ts).
+ * A path outside public/data is a 400, a missing file is a 404, and a file without usable customers
+ * is a 422 carrying the issues.
+ *
+ * Example: /api/customer-intelligence?market=Global%20Spices%20Market
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const requestedPath = searchParams.get('path')
+    const market = searchParams.get('market')?.trim() || undefined
+
+    const candidates = requestedPath ? [requestedPath] : CUSTOMER_INTELLIGENCE_FILES
+    const publicPaths = candidates.map(candidate => getPublicDataFilePath(candidate))
+    if (publicPaths.includes(null)) {
+      return NextResponse.json(
+        { error: `${requestedPath} is not a file in public/data` },
+        { status: 400 }
+      )
+    }
+
+    let filePath = candidates[0]
+    let resolvedPath: string | null = null
+    for (const [index, candidate] of candidates.entries()) {
+      resolvedPath = await resolveDataFilePath(publicPaths[index])
+      if (resolvedPath) {
+        filePath = candidate
+        break
+      }
+    }
+    if (!resolvedPath) {
+      return NextResponse.json(
+        { error: `Customer intelligence file not found: ${publicPaths.join(' or ')}` },
+        { status: 404 }
+      )
+    }
+
+    let result: ReturnType<typeof parseCustomerFile>
+    try {
+      result = parseCustomerFile(await fs.readFile(resolvedPath, 'utf-8'), path.basename(resolvedPath), market)
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: `Failed to parse ${filePath}`,
+          details: error instanceof Error ? error.message : String(error)
+        },
+        { status: 400 }
+      )
+    }
+
+    const { data, issues } = result
+    if (!data) {
+      return NextResponse.json(
+        { error: `${filePath} has no usable customers${market ? ` for ${market}` : ''}`, issues },
+        { status: 422 }
+      )
+    }
+
+    console.log(`Loaded ${data.customers.length} customers from ${filePath}, ${issues.length} issues`)
+    return NextResponse.json({ data: { ...data, metadata: { ...data.metadata, source: data.metadata.source ?? filePath } }, issues })
+  } catch (error) {
+    console.error('Error loading customer intelligence:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load customer intelligence',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sanitizePreset, type SavedFilterPreset } from '@/lib/filter-presets'
+import { deletePreset, listPresets, savePresets } from '@/lib/preset-store'
+import { errorResponse } from '@/lib/api-errors'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_PRESETS_PER_REQUEST = 200
+
+/**
+ * API Route for custom filter presets, stored per market (see lib/preset-store.ts)
+ *
+ * GET    /api/presets?market=<name>           -> { presets }
+ * POST   /api/presets  { market, presets: [] } -> { presets } (adds or replaces by id; also used for imports)
+ * DELETE /api/presets?market=<name>&id=<id>   -> { presets }
+ */
+export async function GET(request: NextRequest) {
+  const market = request.nextUrl.searchParams.get('market')
+  if (!market) {
+    return NextResponse.json({ error: 'market is required' }, { status: 400 })
+  }
+  try {
+    return NextResponse.json({ presets: await listPresets(market) })
+  } catch (error) {
+    return errorResponse('Failed to load presets', error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: { market?: unknown; presets?: unknown }
+  try {
+    body = await request.json()
+  } catch (error) {
+    return errorResponse('Invalid JSON body', error, 400)
+  }
+
+  const market = typeof body.market === 'string' ? body.market.trim() : ''
+  if (!market || !Array.isArray(body.presets)) {
+    return NextResponse.json({ error: 'market and presets are required' }, { status: 400 })
+  }
+  if (body.presets.length > MAX_PRESETS_PER_REQUEST) {
+    return NextResponse.json({ error: `At most ${MAX_PRESETS_PER_REQUEST} presets per request` }, { status: 400 })
+  }
+
+  const presets = body.presets
+    .map(preset => sanitizePreset(preset, market))
+    .filter((preset): preset is SavedFilterPreset => preset !== null)
+  if (presets.length === 0) {
+    return NextResponse.json({ error: 'No valid presets (each needs a name)' }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json({ presets: await savePresets(market, presets) })
+  } catch (error) {
+    return errorResponse('Failed to save presets', error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const market = request.nextUrl.searchParams.get('market')
+  const id = request.nextUrl.searchParams.get('id')
+  if (!market || !id) {
+    return NextResponse.json({ error: 'market and id are required' }, { status: 400 })
+  }
+  try {
+    return NextResponse.json({ presets: await deletePreset(market, id) })
+  } catch (error) {
+    return errorResponse('Failed to delete preset', error)
+  }
+}
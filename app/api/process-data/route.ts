@@ -1,12 +1,188 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { loadAndProcessJsonFiles } from '@/lib/json-processor'
+import { runJsonProcessingWorker } from '@/lib/workers/run-json-processor'
+import {
+  computeDatasetCacheKey,
+  decompressDataset,
+  describeSourceFiles,
+  matchesETag,
+  readCachedDataset,
+  toETag,
+  writeCachedDataset
+} from '@/lib/dataset-cache'
+import { readYearManifest } from '@/lib/json-file-loader'
+import { withDatasetSource } from '@/lib/dataset-bundle'
+import { normalizeYearConfig, parseYearConfigParams } from '@/lib/year-config'
+import { getDataFileCandidates, resolveDataFilePath } from '@/lib/data-file-paths'
+import type { ComparisonData, YearConfig } from '@/lib/types'
 import path from 'path'
-import fs from 'fs/promises'
 
 // Increase timeout for large file processing (5 minutes)
 export const maxDuration = 300
 export const dynamic = 'force-dynamic'
 
+type ProcessingRequest = Parameters<typeof runJsonProcessingWorker>[0]
+
+/**
+ * Location of an explicit manifest; one that doesn't exist resolves to its public/data path and reads as no manifest
+ */
+async function resolveManifestPath(manifestPath: string | null | undefined): Promise<string | null> {
+  if (!manifestPath) return null
+  return (await resolveDataFilePath(manifestPath)) ?? getDataFileCandidates(manifestPath)[0]
+}
+
+/**
+ * Year configuration for a request
+ * Explicit parameters win; otherwise the manifest (manifestPath, or manifest.json next to the value file) is used
+ */
+async function resolveRequestYearConfig(
+  fromParams: YearConfig | null,
+  manifestPath: string | null,
+  valuePath: string
+): Promise<YearConfig | null> {
+  if (fromParams) return fromParams
+  return readYearManifest(manifestPath || path.join(path.dirname(valuePath), 'manifest.json'))
+}
+
+/**
+ * Process in the worker and record the source files as the dataset's provenance
+ */
+async function processWithSource(
+  request: ProcessingRequest,
+  onProgress?: Parameters<typeof runJsonProcessingWorker>[1],
+  signal?: AbortSignal
+): Promise<ComparisonData> {
+  const comparisonData = await runJsonProcessingWorker(request, onProgress, signal)
+  return withDatasetSource(comparisonData, await describeSourceFiles(request), request.yearConfig)
+}
+
+/**
+ * Run processing in the worker and stream progress to the client as NDJSON
+ * A successful result is written to the dataset cache under cacheKey.
+ * The result (or error) is the last event; a client disconnect terminates the worker.
+ */
+function streamProcessing(request: ProcessingRequest, cacheKey: string, headers: Record<string, string>): Response {
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+  let closed = false
+  
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (closed) return
+        closed = true
+        controller.close()
+      }
+      const send = (event: Record<string, unknown>) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+      }
+      
+      let comparisonData: ComparisonData
+      try {
+        comparisonData = await processWithSource(request, (progress, message) => {
+          send({ type: 'progress', progress, message })
+        }, abort.signal)
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error('Error processing JSON files:', error)
+          send({
+            type: 'error',
+            error: 'Failed to process JSON files',
+            details: error instanceof Error ? error.message : String(error)
+          })
+        }
+        close()
+        return
+      }
+      
+      send({ type: 'result', data: comparisonData })
+      close()
+      await writeCachedDataset(cacheKey, comparisonData)
+    },
+    cancel() {
+      closed = true
+      abort.abort()
+    }
+  })
+  
+  return new Response(body, {
+    headers: {
+      ...headers,
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
+
+/**
+ * Serve processed data from the disk cache when the inputs are unchanged, otherwise process and cache it
+ * Responses carry an ETag derived from the input file hashes and processor version
+ */
+async function respondWithDataset(
+  request: NextRequest,
+  processingRequest: ProcessingRequest,
+  stream: boolean
+): Promise<Response> {
+  const cacheKey = await computeDatasetCacheKey(processingRequest)
+  const etag = toETag(cacheKey)
+  const headers: Record<string, string> = {
+    ETag: etag,
+    'Cache-Control': 'no-cache'
+  }
+  
+  if (matchesETag(request.headers.get('if-none-match'), etag)) {
+    return new Response(null, { status: 304, headers })
+  }
+  
+  const cached = await readCachedDataset(cacheKey)
+  if (cached) {
+    console.log(`Serving processed dataset ${cacheKey.slice(0, 12)} from cache`)
+    headers['X-Dataset-Cache'] = 'HIT'
+    
+    if (stream) {
+      // Same NDJSON shape as a fresh run, just without progress events
+      const json = await decompressDataset(cached)
+      return new Response(`{"type":"result","data":${json}}\n`, {
+        headers: {
+          ...headers,
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Cache-Control': 'no-cache, no-transform'
+        }
+      })
+    }
+    
+    // The cache entry is already gzipped, so pass it through when the client accepts it
+    const acceptsGzip = /\bgzip\b/.test(request.headers.get('accept-encoding') || '')
+    if (acceptsGzip) {
+      return new Response(new Uint8Array(cached), {
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Encoding': 'gzip',
+          Vary: 'Accept-Encoding'
+        }
+      })
+    }
+    return new Response(await decompressDataset(cached), {
+      headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' }
+    })
+  }
+  
+  headers['X-Dataset-Cache'] = 'MISS'
+  if (stream) {
+    return streamProcessing(processingRequest, cacheKey, headers)
+  }
+  
+  // Process the JSON files
+  console.log('Starting JSON processing...')
+  const comparisonData = await processWithSource(processingRequest)
+  console.log('JSON processing completed successfully')
+  await writeCachedDataset(cacheKey, comparisonData)
+  
+  return NextResponse.json(comparisonData, { headers })
+}
+
 /**
  * API Route to process JSON files and return ComparisonData
  * 
@@ -14,8 +190,25 @@ export const dynamic = 'force-dynamic'
  * - valuePath: Path to value.json file (relative to project root)
  * - volumePath: (optional) Path to volume.json file
  * - segmentationPath: (optional) Path to segmentation_analysis.json file
+ * - stream: (optional) When "1", respond with NDJSON progress events instead of a single JSON body
+ * - baseYear, historicalYears, forecastYears: (optional) Explicit year split, e.g. baseYear=2024 or
+ *   historicalYears=2019-2024&forecastYears=2025-2032
+ * - manifestPath: (optional) Manifest file with base_year/historical_years/forecast_years
+ *   (defaults to manifest.json next to the value file)
+ * 
+ * Year split precedence: query params, manifest, a "_metadata" block embedded in the JSON,
+ * then the midpoint of the year range as a last resort.
  * 
- * Example: /api/process-data?valuePath=value.json&volumePath=volume.json
+ * Processing runs in lib/workers/json-processor.worker.ts, off the request thread.
+ * Results are cached on disk (lib/dataset-cache.ts) keyed by the input file hashes and
+ * processor version; the key doubles as the ETag, so If-None-Match revalidation returns 304.
+ * Cache hits in stream mode emit only the result event.
+ * Streamed events are one JSON object per line:
+ *   { "type": "progress", "progress": 42.5, "message": "..." }
+ *   { "type": "result", "data": ComparisonData }
+ *   { "type": "error", "error": "...", "details": "..." }
+ * 
+ * Example: /api/process-data?valuePath=value.json&volumePath=volume.json&stream=1
  */
 export async function GET(request: NextRequest) {
   try {
@@ -24,101 +217,38 @@ export async function GET(request: NextRequest) {
     const volumePath = searchParams.get('volumePath') || 'data/volume.json'
     const segmentationPath = searchParams.get('segmentationPath') || 'data/segmentation_analysis.json'
     
-    // Resolve paths relative to project root
-    // JSON files are in public/data directory for Vercel deployment
-    const currentDir = process.cwd()
-    const publicDataDir = path.join(currentDir, 'public', 'data')
-    
-    // For local development, also check parent directory
-    const parentDir = path.resolve(currentDir, '..')
-    
-    // Try public/data first, then fallback to parent directory for local dev
-    const resolvePath = (filePath: string): string => {
-      if (path.isAbsolute(filePath)) return filePath
-      
-      // Remove 'data/' prefix if present since we're already in public/data
-      const cleanPath = filePath.replace(/^data\//, '')
-      const publicPath = path.join(publicDataDir, cleanPath)
-      const parentPath = path.join(parentDir, cleanPath)
-      
-      // Return public path (for Vercel), fallback to parent for local dev
-      return publicPath
+    // public/data first (Vercel), then the parent directory (local development)
+    const finalValuePath = await resolveDataFilePath(valuePath)
+    if (!finalValuePath) {
+      return NextResponse.json(
+        { 
+          error: `Value file not found: ${getDataFileCandidates(valuePath).join(' or ')}`,
+          debug: {
+            currentDir: process.cwd(),
+            requestedPath: valuePath
+          }
+        },
+        { status: 404 }
+      )
     }
     
-    const resolvedValuePath = resolvePath(valuePath)
-    const resolvedVolumePath = volumePath ? resolvePath(volumePath) : null
-    const resolvedSegmentationPath = segmentationPath ? resolvePath(segmentationPath) : null
+    // Volume and segmentation files are optional
+    const finalVolumePath = await resolveDataFilePath(volumePath)
+    const finalSegmentationPath = await resolveDataFilePath(segmentationPath)
     
-    // Check file existence asynchronously - try public/data first, then parent directory
-    let finalValuePath = resolvedValuePath
-    let finalVolumePath = resolvedVolumePath
-    let finalSegmentationPath = resolvedSegmentationPath
-    
-    try {
-      await fs.access(resolvedValuePath)
-    } catch {
-      // Fallback to parent directory for local development
-      const fallbackPath = path.join(parentDir, valuePath.replace(/^data\//, ''))
-      try {
-        await fs.access(fallbackPath)
-        finalValuePath = fallbackPath
-      } catch {
-        return NextResponse.json(
-          { 
-            error: `Value file not found: ${resolvedValuePath} or ${fallbackPath}`,
-            debug: {
-              currentDir,
-              publicDataDir,
-              parentDir,
-              requestedPath: valuePath,
-              resolvedPath: resolvedValuePath,
-              fallbackPath
-            }
-          },
-          { status: 404 }
-        )
-      }
-    }
-    
-    // Try fallback for volume and segmentation if needed
-    if (finalVolumePath) {
-      try {
-        await fs.access(finalVolumePath)
-      } catch {
-        const fallbackPath = path.join(parentDir, (volumePath || '').replace(/^data\//, ''))
-        try {
-          await fs.access(fallbackPath)
-          finalVolumePath = fallbackPath
-        } catch {
-          finalVolumePath = null // Optional file
-        }
-      }
-    }
-    
-    if (finalSegmentationPath) {
-      try {
-        await fs.access(finalSegmentationPath)
-      } catch {
-        const fallbackPath = path.join(parentDir, (segmentationPath || '').replace(/^data\//, ''))
-        try {
-          await fs.access(fallbackPath)
-          finalSegmentationPath = fallbackPath
-        } catch {
-          finalSegmentationPath = null // Optional file
-        }
-      }
+    const manifestParam = searchParams.get('manifestPath')
+    const processingRequest = {
+      valuePath: finalValuePath,
+      volumePath: finalVolumePath,
+      segmentationPath: finalSegmentationPath,
+      yearConfig: await resolveRequestYearConfig(
+        parseYearConfigParams(searchParams),
+        await resolveManifestPath(manifestParam),
+        finalValuePath
+      )
     }
     
-    // Process the JSON files
-    console.log('Starting JSON processing...')
-    const comparisonData = await loadAndProcessJsonFiles(
-      finalValuePath,
-      finalVolumePath,
-      finalSegmentationPath
-    )
-    console.log('JSON processing completed successfully')
-    
-    return NextResponse.json(comparisonData)
+    return await respondWithDataset(request, processingRequest, searchParams.get('stream') === '1')
   } catch (error) {
     console.error('Error processing JSON files:', error)
     const errorMessage = error instanceof Error ? error.message : String(error)
@@ -145,7 +275,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { valuePath = 'data/value.json', volumePath = 'data/volume.json', segmentationPath = 'data/segmentation_analysis.json' } = body
+    const { valuePath = 'data/value.json', volumePath = 'data/volume.json', segmentationPath = 'data/segmentation_analysis.json', manifestPath } = body
     
     if (!valuePath) {
       return NextResponse.json(
@@ -155,44 +285,26 @@ export async function POST(request: NextRequest) {
     }
     
     // Resolve paths - same logic as GET
-    const currentDir = process.cwd()
-    const publicDataDir = path.join(currentDir, 'public', 'data')
-    const parentDir = path.resolve(currentDir, '..')
-    
-    const resolvePath = (filePath: string): string => {
-      if (path.isAbsolute(filePath)) return filePath
-      const cleanPath = filePath.replace(/^data\//, '')
-      return path.join(publicDataDir, cleanPath)
-    }
-    
-    let finalValuePath = resolvePath(valuePath)
-    let finalVolumePath = volumePath ? resolvePath(volumePath) : null
-    let finalSegmentationPath = segmentationPath ? resolvePath(segmentationPath) : null
-    
-    // Check file existence with fallback
-    try {
-      await fs.access(finalValuePath)
-    } catch {
-      const fallbackPath = path.join(parentDir, valuePath.replace(/^data\//, ''))
-      try {
-        await fs.access(fallbackPath)
-        finalValuePath = fallbackPath
-      } catch {
-        return NextResponse.json(
-          { error: `Value file not found: ${finalValuePath} or ${fallbackPath}` },
-          { status: 404 }
-        )
-      }
+    const finalValuePath = await resolveDataFilePath(valuePath)
+    if (!finalValuePath) {
+      return NextResponse.json(
+        { error: `Value file not found: ${getDataFileCandidates(valuePath).join(' or ')}` },
+        { status: 404 }
+      )
     }
+    const finalVolumePath = await resolveDataFilePath(volumePath)
+    const finalSegmentationPath = await resolveDataFilePath(segmentationPath)
     
-    // Process the JSON files
-    const comparisonData = await loadAndProcessJsonFiles(
-      finalValuePath,
-      finalVolumePath,
-      finalSegmentationPath
-    )
-    
-    return NextResponse.json(comparisonData)
+    return await respondWithDataset(request, {
+      valuePath: finalValuePath,
+      volumePath: finalVolumePath,
+      segmentationPath: finalSegmentationPath,
+      yearConfig: await resolveRequestYearConfig(
+        normalizeYearConfig(body),
+        await resolveManifestPath(manifestPath),
+        finalValuePath
+      )
+    }, false)
   } catch (error) {
     console.error('Error processing JSON files:', error)
     return NextResponse.json(
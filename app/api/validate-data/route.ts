@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readJsonFile, readYearManifest } from '@/lib/json-file-loader'
+import { resolveDataFilePath, getDataFileCandidates } from '@/lib/data-file-paths'
+import { validateMarketData, type ValidationFile, type ValidationOptions } from '@/lib/data-validator'
+import { parseYearConfigParams } from '@/lib/year-config'
+import type { RawJsonData } from '@/lib/json-processor'
+import path from 'path'
+
+export const maxDuration = 300
+export const dynamic = 'force-dynamic'
+
+/**
+ * Tolerance query parameter: undefined when absent (the validator default applies), NaN when invalid
+ */
+function parseTolerance(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined
+  const tolerance = Number(value)
+  return Number.isFinite(tolerance) && tolerance >= 0 ? tolerance : NaN
+}
+
+/**
+ * API Route to validate market JSON files before publishing
+ * 
+ * Query parameters (same as /api/process-data):
+ * - valuePath: Path to value.json file (relative to project root)
+ * - volumePath: (optional) Path to volume.json file
+ * - segmentationPath: (optional) Path to segmentation_analysis.json file
+ * - baseYear, historicalYears, forecastYears, manifestPath: (optional) Year split used for the CAGR check
+ * - sumTolerance: (optional) Allowed relative parent/children difference (default 0.005)
+ * - cagrTolerance: (optional) Allowed CAGR difference in percentage points (default 0.5)
+ * 
+ * Returns a ValidationReport (see lib/data-validator.ts). Missing optional files and files
+ * that cannot be parsed are reported as structure issues rather than failing the request.
+ * 
+ * Example: /api/validate-data?valuePath=value.json&segmentationPath=segmentation_analysis.json
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const valuePath = searchParams.get('valuePath') || 'data/value.json'
+    const volumePath = searchParams.get('volumePath')
+    const segmentationPath = searchParams.get('segmentationPath')
+    
+    // A tolerance that isn't a number would turn its check off, so it is rejected rather than ignored
+    const sumTolerance = parseTolerance(searchParams.get('sumTolerance'))
+    const cagrTolerance = parseTolerance(searchParams.get('cagrTolerance'))
+    if (Number.isNaN(sumTolerance) || Number.isNaN(cagrTolerance)) {
+      return NextResponse.json(
+        { error: 'sumTolerance and cagrTolerance must be non-negative numbers' },
+        { status: 400 }
+      )
+    }
+    
+    const resolvedValuePath = await resolveDataFilePath(valuePath)
+    if (!resolvedValuePath) {
+      return NextResponse.json(
+        { error: `Value file not found: ${getDataFileCandidates(valuePath).join(' or ')}` },
+        { status: 404 }
+      )
+    }
+    const resolvedVolumePath = await resolveDataFilePath(volumePath)
+    const resolvedSegmentationPath = await resolveDataFilePath(segmentationPath)
+    
+    // Missing optional files and parse failures are reported as structure issues rather than failing the request
+    const fileErrors: NonNullable<ValidationOptions['fileErrors']> = []
+    if (volumePath && !resolvedVolumePath) {
+      fileErrors.push({ file: 'volume', severity: 'warning', message: `Volume file not found: ${volumePath}` })
+    }
+    if (segmentationPath && !resolvedSegmentationPath) {
+      fileErrors.push({ file: 'segmentation', severity: 'warning', message: `Segmentation file not found: ${segmentationPath}` })
+    }
+    
+    const parseFile = async (file: ValidationFile, filePath: string | null): Promise<RawJsonData | null> => {
+      if (!filePath) return null
+      try {
+        return await readJsonFile(filePath)
+      } catch (error) {
+        fileErrors.push({
+          file,
+          severity: 'error',
+          message: `Failed to parse ${file} JSON: ${error instanceof Error ? error.message : String(error)}`
+        })
+        return null
+      }
+    }
+    
+    const valueData = await parseFile('value', resolvedValuePath)
+    const volumeData = await parseFile('volume', resolvedVolumePath)
+    const segmentationData = await parseFile('segmentation', resolvedSegmentationPath)
+    
+    const manifestParam = searchParams.get('manifestPath')
+    const manifestPath = manifestParam
+      ? await resolveDataFilePath(manifestParam)
+      : path.join(path.dirname(resolvedValuePath), 'manifest.json')
+    const yearConfig = parseYearConfigParams(searchParams) ?? (manifestPath ? await readYearManifest(manifestPath) : null)
+    
+    console.log('Validating market data...')
+    const report = await validateMarketData(valueData, volumeData, segmentationData, {
+      yearConfig,
+      fileErrors,
+      sumTolerance,
+      cagrTolerance
+    })
+    
+    console.log(`Validation complete: ${report.summary.errors} errors, ${report.summary.warnings} warnings`)
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error validating JSON files:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to validate JSON files',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  sanitizeStoryboard,
+  sanitizeView,
+  type SavedItemKind,
+  type SavedView,
+  type Storyboard
+} from '@/lib/saved-views'
+import { deleteView, storyboardStore, viewStore } from '@/lib/view-store'
+import { errorResponse } from '@/lib/api-errors'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_ITEMS_PER_REQUEST = 200
+
+/**
+ * API Route for saved views and storyboards, stored per market (see lib/view-store.ts)
+ *
+ * GET    /api/views?market=<name>                                -> { views, storyboards }
+ * POST   /api/views  { market, views?: [], storyboards?: [] }     -> { views, storyboards } (adds or replaces by id)
+ * DELETE /api/views?market=<name>&kind=view|storyboard&id=<id>   -> { views, storyboards }
+ *
+ * Deleting a view also removes its slides from the market's storyboards.
+ */
+export async function GET(request: NextRequest) {
+  const market = request.nextUrl.searchParams.get('market')
+  if (!market) {
+    return NextResponse.json({ error: 'market is required' }, { status: 400 })
+  }
+  try {
+    const [views, storyboards] = await Promise.all([viewStore.list(market), storyboardStore.list(market)])
+    return NextResponse.json({ views, storyboards })
+  } catch (error) {
+    return errorResponse('Failed to load views', error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: { market?: unknown; views?: unknown; storyboards?: unknown }
+  try {
+    body = await request.json()
+  } catch (error) {
+    return errorResponse('Invalid JSON body', error, 400)
+  }
+
+  const market = typeof body.market === 'string' ? body.market.trim() : ''
+  const rawViews = Array.isArray(body.views) ? body.views : []
+  const rawStoryboards = Array.isArray(body.storyboards) ? body.storyboards : []
+  if (!market) {
+    return NextResponse.json({ error: 'market is required' }, { status: 400 })
+  }
+  if (rawViews.length + rawStoryboards.length > MAX_ITEMS_PER_REQUEST) {
+    return NextResponse.json({ error: `At most ${MAX_ITEMS_PER_REQUEST} items per request` }, { status: 400 })
+  }
+
+  const views = rawViews
+    .map(view => sanitizeView(view, market))
+    .filter((view): view is SavedView => view !== null)
+  const storyboards = rawStoryboards
+    .map(storyboard => sanitizeStoryboard(storyboard, market))
+    .filter((storyboard): storyboard is Storyboard => storyboard !== null)
+  if (views.length === 0 && storyboards.length === 0) {
+    return NextResponse.json({ error: 'No valid views or storyboards' }, { status: 400 })
+  }
+
+  try {
+    const savedViews = views.length > 0 ? await viewStore.save(market, views) : await viewStore.list(market)
+    const savedStoryboards = storyboards.length > 0
+      ? await storyboardStore.save(market, storyboards)
+      : await storyboardStore.list(market)
+    return NextResponse.json({ views: savedViews, storyboards: savedStoryboards })
+  } catch (error) {
+    return errorResponse('Failed to save views', error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const market = searchParams.get('market')
+  const id = searchParams.get('id')
+  const kind = searchParams.get('kind') as SavedItemKind | null
+  if (!market || !id || (kind !== 'view' && kind !== 'storyboard')) {
+    return NextResponse.json({ error: 'market, kind (view or storyboard) and id are required' }, { status: 400 })
+  }
+
+  try {
+    if (kind === 'view') {
+      return NextResponse.json(await deleteView(market, id))
+    }
+    const [views, storyboards] = await Promise.all([viewStore.list(market), storyboardStore.remove(market, id)])
+    return NextResponse.json({ views, storyboards })
+  } catch (error) {
+    return errorResponse('Failed to delete', error)
+  }
+}
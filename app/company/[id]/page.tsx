@@ -0,0 +1,22 @@
+'use client'
+
+import { useParams, useSearchParams } from 'next/navigation'
+import { CompanyProfile } from '@/components/CompanyProfile'
+import { Footer } from '@/components/Footer'
+
+export default function CompanyPage() {
+  const params = useParams<{ id: string }>()
+  // The market comes from the query string, like the dashboard's shared links
+  const market = useSearchParams().get('market') ?? ''
+
+  const companyId = params?.id ? decodeURIComponent(params.id) : ''
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <main className="flex-1">
+        {companyId && <CompanyProfile companyId={companyId} market={market} />}
+      </main>
+      <Footer />
+    </div>
+  )
+}
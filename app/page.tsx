@@ -14,20 +14,50 @@ import { D3BubbleChartIndependent } from '@/components/charts/D3BubbleChartIndep
 import { CompetitiveIntelligence } from '@/components/charts/CompetitiveIntelligence'
 import CustomerIntelligenceHeatmap from '@/components/charts/CustomerIntelligenceHeatmap'
 import DistributorsIntelligence from '@/components/charts/DistributorsIntelligenceTable'
+import { CrossMarketComparison } from '@/components/charts/CrossMarketComparison'
+import { MarketVersionDiff } from '@/components/charts/MarketVersionDiff'
 import { InsightsPanel } from '@/components/InsightsPanel'
+import { DataLoader } from '@/components/DataLoader'
 import { FilterPresets } from '@/components/filters/FilterPresets'
+import { SavedViewsPanel } from '@/components/SavedViewsPanel'
+import { StoryboardPlayer } from '@/components/StoryboardPlayer'
+import { ReportBuilder } from '@/components/ReportBuilder'
 import { ChartGroupSelector } from '@/components/filters/ChartGroupSelector'
 import { CustomScrollbar } from '@/components/ui/CustomScrollbar'
 import { GlobalKPICards } from '@/components/GlobalKPICards'
-import { getChartsForGroup } from '@/lib/chart-groups'
-import { Lightbulb, X, Layers, LayoutGrid } from 'lucide-react'
+import { MarketSwitcher } from '@/components/MarketSwitcher'
+import { getChartsForGroup, type ChartGroupId } from '@/lib/chart-groups'
+import { resolvePresetFilters } from '@/lib/filter-presets'
+import type { SavedView, Storyboard } from '@/lib/saved-views'
+import {
+  hasDashboardState,
+  parseDashboardState,
+  reconcileUrlFilters,
+  serializeDashboardState,
+  type DashboardTab,
+  type DashboardUrlState
+} from '@/lib/url-state'
+import { Lightbulb, X, Layers, LayoutGrid, Link2, Check, Presentation, Loader2, FileSpreadsheet, FileText } from 'lucide-react'
 import { Footer } from '@/components/Footer'
 import Image from 'next/image'
 
 export default function DashboardPage() {
-  const { setData, setLoading, setError, data, isLoading, error, filters, selectedChartGroup } = useDashboardStore()
+  const {
+    setData, setLoading, setError, data, isLoading, error, filters, selectedChartGroup,
+    markets, activeMarket, switchMarket, updateFilters, setSelectedChartGroup,
+    opportunityFilters, updateOpportunityFilters, updateChartSettings
+  } = useDashboardStore()
   const [mounted, setMounted] = useState(false)
-  const [activeTab, setActiveTab] = useState<'bar' | 'line' | 'heatmap' | 'table' | 'waterfall' | 'bubble' | 'competitive-intelligence' | 'customer-intelligence'>('bar')
+  const [activeTab, setActiveTab] = useState<DashboardTab>('bar')
+  const [urlStateRestored, setUrlStateRestored] = useState(false)
+  const [pageNotice, setPageNotice] = useState<string | null>(null)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [isExportingPptx, setIsExportingPptx] = useState(false)
+  const [isExportingXlsx, setIsExportingXlsx] = useState(false)
+  const [showReportBuilder, setShowReportBuilder] = useState(false)
+  const linkStateRef = useRef<DashboardUrlState | null>(null) // State from the opened link, applied once data loads
+  const pendingTabRef = useRef<DashboardTab | null>(null) // Tab from a link or saved view, kept across the chart group switch
+  const [playingStoryboard, setPlayingStoryboard] = useState<{ storyboard: Storyboard; views: SavedView[] } | null>(null)
   const [showInsights, setShowInsights] = useState(false)
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
   const [viewMode, setViewMode] = useState<'tabs' | 'vertical'>('tabs')
@@ -50,11 +80,22 @@ export default function DashboardPage() {
     'waterfall': 'waterfall',
     'bubble': 'bubble',
     'competitive-intelligence': 'competitive-intelligence',
-    'customer-intelligence': 'customer-intelligence'
+    'customer-intelligence': 'customer-intelligence',
+    'cross-market': 'cross-market',
+    'version-diff': 'version-diff'
   }
 
   // Auto-switch to first available tab when chart group changes
   useEffect(() => {
+    // A tab restored from a shared link or saved view wins over the group's first chart
+    const pendingTab = pendingTabRef.current
+    if (pendingTab) {
+      pendingTabRef.current = null
+      if (visibleCharts.some(chartId => chartIdToTab[chartId] === pendingTab)) {
+        setActiveTab(pendingTab)
+        return
+      }
+    }
     const firstVisibleChart = visibleCharts[0]
     if (firstVisibleChart && chartIdToTab[firstVisibleChart]) {
       setActiveTab(chartIdToTab[firstVisibleChart])
@@ -68,8 +109,117 @@ export default function DashboardPage() {
     }
   }, [filters.viewMode])
 
+  // Switch chart group and tab together; the tab is kept only if the group has that chart
+  const showChartGroupAndTab = (chartGroup: ChartGroupId | null, tab: DashboardTab | null) => {
+    if (tab) {
+      const group = chartGroup ?? selectedChartGroup
+      if (getChartsForGroup(group).some(chartId => chartIdToTab[chartId] === tab)) {
+        pendingTabRef.current = chartGroup && chartGroup !== selectedChartGroup ? tab : null
+        setActiveTab(tab)
+      }
+    }
+    if (chartGroup) setSelectedChartGroup(chartGroup)
+  }
+
+  // Show a saved view; returns what the loaded dataset is missing
+  const applySavedView = (view: SavedView): string[] => {
+    if (!data) return []
+    const resolved = resolvePresetFilters(view.filters, data, filters)
+    const resolvedOpportunity = resolvePresetFilters(view.opportunityFilters, data, opportunityFilters)
+    updateFilters(resolved.filters)
+    updateOpportunityFilters(resolvedOpportunity.filters)
+    updateChartSettings(view.chartSettings)
+    showChartGroupAndTab(view.chartGroup, view.tab)
+    return Array.from(new Set([...resolved.missing, ...resolvedOpportunity.missing]))
+  }
+
+  // Apply the state from a shared link once data is loaded
+  // Anything the dataset lacks is dropped and reported instead of breaking the view
+  useEffect(() => {
+    if (!data || urlStateRestored) return
+    const link = linkStateRef.current
+    if (link) {
+      if (link.market && link.market !== activeMarket && markets[link.market]) {
+        switchMarket(link.market) // Runs again with the linked market's data
+        return
+      }
+      const dropped: string[] = []
+      if (link.market && link.market !== activeMarket) {
+        // The filters belong to a market that isn't loaded, so they are not applied to this one
+        dropped.push(`market "${link.market}" and its filters`)
+      } else {
+        const reconciled = reconcileUrlFilters(link.filters, data, filters)
+        updateFilters(reconciled.filters)
+        dropped.push(...reconciled.dropped)
+      }
+      showChartGroupAndTab(link.chartGroup, link.tab)
+      if (dropped.length > 0) {
+        console.warn('Shared link refers to data not in this dataset:', dropped)
+        setPageNotice(`Some parts of this link are not in the loaded data and were skipped: ${dropped.join(', ')}`)
+      }
+      linkStateRef.current = null
+    }
+    setUrlStateRestored(true)
+  }, [data, urlStateRestored])
+
+  // Keep the URL in sync so the current view can be shared
+  useEffect(() => {
+    if (!urlStateRestored) return
+    const query = serializeDashboardState({ market: activeMarket, chartGroup: selectedChartGroup, tab: activeTab, filters })
+    if (`?${query}` !== window.location.search) {
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}?${query}`)
+    }
+  }, [urlStateRestored, activeMarket, selectedChartGroup, activeTab, filters])
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy link:', err)
+    }
+  }
+
+  const handleExportPptx = async () => {
+    if (!data) return
+    setIsExportingPptx(true)
+    try {
+      const { generatePPTXDeck } = await import('@/lib/pptx-export')
+      const { skipped } = await generatePPTXDeck(data, filters, selectedChartGroup)
+      if (skipped.length > 0) {
+        setPageNotice(`Not in the PowerPoint export (open the chart's tab and export again to include it): ${skipped.join(', ')}`)
+      }
+    } catch (err) {
+      console.error('Failed to export PowerPoint deck:', err)
+      setPageNotice(`PowerPoint export failed: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setIsExportingPptx(false)
+    }
+  }
+
+  const handleExportXlsx = async () => {
+    if (!data) return
+    setIsExportingXlsx(true)
+    try {
+      const { generateXLSXWorkbook } = await import('@/lib/xlsx-export')
+      const { recordCount } = await generateXLSXWorkbook(data, filters)
+      if (recordCount === 0) {
+        setPageNotice('The Excel export has no data rows: no records match the current filters.')
+      }
+    } catch (err) {
+      console.error('Failed to export Excel workbook:', err)
+      setPageNotice(`Excel export failed: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setIsExportingXlsx(false)
+    }
+  }
+
   useEffect(() => {
     setMounted(true)
+    if (hasDashboardState(window.location.search)) {
+      linkStateRef.current = parseDashboardState(window.location.search)
+    }
     
     // Load data from API
     async function loadData() {
@@ -182,8 +332,10 @@ export default function DashboardPage() {
             </div>
           </div>
           
-          {/* Empty space on the right to balance the logo */}
-          <div className="flex-shrink-0 w-[150px]"></div>
+          {/* Market switcher on the right (also balances the logo) */}
+          <div className="flex-shrink-0 min-w-[150px] flex justify-end">
+            <MarketSwitcher />
+          </div>
         </div>
 
         {/* Global KPI Cards */}
@@ -221,7 +373,13 @@ export default function DashboardPage() {
                   <CustomScrollbar containerRef={sidebarScrollRef}>
                     <div ref={sidebarScrollRef} className="overflow-y-auto pr-6 space-y-3 sidebar-scroll max-h-[calc(100vh-6rem)]">
                       <ChartGroupSelector />
+                      <DataLoader />
                       <FilterPresets />
+                      <SavedViewsPanel
+                        activeTab={activeTab}
+                        onApplyView={applySavedView}
+                        onPlayStoryboard={(storyboard, views) => setPlayingStoryboard({ storyboard, views })}
+                      />
                       <EnhancedFilterPanel />
                     </div>
                   </CustomScrollbar>
@@ -241,6 +399,16 @@ export default function DashboardPage() {
                 : 'col-span-12 lg:col-span-9'
           } space-y-6`}>
 
+            {/* Shared link and export notices */}
+            {pageNotice && (
+              <div className="flex items-start justify-between gap-2 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-700">
+                <span>{pageNotice}</span>
+                <button onClick={() => setPageNotice(null)} className="hover:text-orange-900" title="Dismiss">
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+
             {/* Tab Navigation */}
             <div className="bg-white rounded-lg shadow">
               <div className="border-b border-gray-200">
@@ -359,12 +527,70 @@ export default function DashboardPage() {
                             👥 Customer Intelligence
                           </button>
                         )}
+                        {isChartVisible('cross-market') && (
+                          <button
+                            onClick={() => setActiveTab('cross-market')}
+                            className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                              activeTab === 'cross-market'
+                                ? 'border-blue-500 text-blue-600'
+                                : 'border-transparent text-black hover:text-black hover:border-gray-300'
+                            }`}
+                          >
+                            🔀 Cross-Market
+                          </button>
+                        )}
+                        {isChartVisible('version-diff') && (
+                          <button
+                            onClick={() => setActiveTab('version-diff')}
+                            className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                              activeTab === 'version-diff'
+                                ? 'border-blue-500 text-blue-600'
+                                : 'border-transparent text-black hover:text-black hover:border-gray-300'
+                            }`}
+                          >
+                            🕘 Version Diff
+                          </button>
+                        )}
                       </>
                     )}
                   </nav>
                 
-                  {/* Insights Button */}
+                  {/* Share, Export and Insights Buttons */}
                   <div className="flex gap-2 px-4">
+                    <button
+                      onClick={() => setShowReportBuilder(true)}
+                      className="flex items-center gap-1 px-3 py-1 text-sm rounded text-black hover:bg-gray-100 transition-colors"
+                      title="Build a PDF report from chosen sections"
+                    >
+                      <FileText className="h-4 w-4" />
+                      PDF
+                    </button>
+                    <button
+                      onClick={handleExportPptx}
+                      disabled={isExportingPptx}
+                      className="flex items-center gap-1 px-3 py-1 text-sm rounded text-black hover:bg-gray-100 disabled:text-gray-400 transition-colors"
+                      title="Export the charts in this group as a PowerPoint deck"
+                    >
+                      {isExportingPptx ? <Loader2 className="h-4 w-4 animate-spin" /> : <Presentation className="h-4 w-4" />}
+                      PPTX
+                    </button>
+                    <button
+                      onClick={handleExportXlsx}
+                      disabled={isExportingXlsx}
+                      className="flex items-center gap-1 px-3 py-1 text-sm rounded text-black hover:bg-gray-100 disabled:text-gray-400 transition-colors"
+                      title="Export the filtered data as an Excel workbook"
+                    >
+                      {isExportingXlsx ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileSpreadsheet className="h-4 w-4" />}
+                      XLSX
+                    </button>
+                    <button
+                      onClick={handleCopyLink}
+                      className="flex items-center gap-1 px-3 py-1 text-sm rounded text-black hover:bg-gray-100 transition-colors"
+                      title="Copy a link to this view (filters, chart group and tab)"
+                    >
+                      {linkCopied ? <Check className="h-4 w-4 text-green-600" /> : <Link2 className="h-4 w-4" />}
+                      {linkCopied ? 'Copied' : 'Share'}
+                    </button>
                     <button
                       onClick={() => {
                         setShowInsights(!showInsights)
@@ -465,6 +691,24 @@ export default function DashboardPage() {
                         </div>
                       </div>
                     )}
+                    
+                    {activeTab === 'cross-market' && (
+                      <div id="cross-market-chart">
+                        <CrossMarketComparison 
+                          title="Cross-Market Comparison" 
+                          height={450}
+                        />
+                      </div>
+                    )}
+                    
+                    {activeTab === 'version-diff' && (
+                      <div id="version-diff-chart">
+                        <MarketVersionDiff 
+                          title="Version Diff" 
+                          height={600}
+                        />
+                      </div>
+                    )}
                   </>
                 ) : (
                   <div className="space-y-8">
@@ -554,6 +798,26 @@ export default function DashboardPage() {
                         </div>
                       </div>
                     )}
+                    
+                    {isChartVisible('cross-market') && (
+                      <div className="border-b pb-8">
+                        <h3 className="text-lg font-semibold text-black mb-4">🔀 Cross-Market Comparison</h3>
+                        <CrossMarketComparison 
+                          title="Cross-Market Comparison" 
+                          height={400}
+                        />
+                      </div>
+                    )}
+                    
+                    {isChartVisible('version-diff') && (
+                      <div className="border-b pb-8">
+                        <h3 className="text-lg font-semibold text-black mb-4">🕘 Version Diff</h3>
+                        <MarketVersionDiff 
+                          title="Version Diff" 
+                          height={500}
+                        />
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -606,6 +870,28 @@ export default function DashboardPage() {
       
       {/* Footer */}
       <Footer />
+
+      {/* Storyboard playback */}
+      {playingStoryboard && (
+        <StoryboardPlayer
+          storyboard={playingStoryboard.storyboard}
+          views={playingStoryboard.views}
+          onApplyView={applySavedView}
+          onExit={() => setPlayingStoryboard(null)}
+        />
+      )}
+
+      {/* PDF report builder */}
+      {showReportBuilder && (
+        <ReportBuilder
+          onClose={() => setShowReportBuilder(false)}
+          onComplete={({ skipped }) => {
+            if (skipped.length > 0) {
+              setPageNotice(`Not in the PDF report (open the chart's tab and generate again to include it): ${skipped.join(', ')}`)
+            }
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import type { AggregationReport } from '@/lib/types'
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight } from 'lucide-react'
+
+interface AggregationReportPanelProps {
+  report: AggregationReport
+}
+
+/**
+ * Summarises the aggregation rollup of the loaded dataset:
+ * how many parent rows were derived and which supplied parents disagree with their leaves
+ */
+export function AggregationReportPanel({ report }: AggregationReportPanelProps) {
+  const [expanded, setExpanded] = useState(false)
+  const derivedTotal = report.derived_records.value + report.derived_records.volume
+  const hasDiscrepancies = report.discrepancy_count > 0
+
+  if (derivedTotal === 0 && !hasDiscrepancies) return null
+
+  return (
+    <div className="border border-gray-200 rounded-md text-xs text-black">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        disabled={!hasDiscrepancies}
+        className={`w-full flex items-center gap-1.5 px-2 py-1.5 text-left rounded-t-md ${
+          hasDiscrepancies ? 'bg-orange-50 text-orange-700' : 'bg-green-50 text-green-700'
+        }`}
+      >
+        {hasDiscrepancies ? (
+          expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />
+        ) : (
+          <CheckCircle2 className="h-3 w-3" />
+        )}
+        <span className="flex-1 font-semibold">
+          {hasDiscrepancies
+            ? `${report.discrepancy_count} aggregate${report.discrepancy_count === 1 ? '' : 's'} disagree with their segments`
+            : 'Aggregates consistent with segments'}
+        </span>
+      </button>
+
+      {derivedTotal > 0 && (
+        <p className="px-2 py-1 text-gray-600 border-t border-gray-200">
+          {report.derived_records.value} value / {report.derived_records.volume} volume parent rows derived from leaf data
+        </p>
+      )}
+
+      {expanded && hasDiscrepancies && (
+        <ul className="max-h-48 overflow-y-auto bg-gray-50 px-2 py-1 space-y-1 border-t border-gray-200">
+          {report.discrepancies.map((discrepancy, index) => {
+            const path = discrepancy.segment_path.length > 0 ? discrepancy.segment_path.join(' > ') : 'Total'
+            return (
+              <li key={index} className="flex items-start gap-1">
+                <AlertTriangle className="h-3 w-3 text-orange-500 flex-shrink-0 mt-0.5" />
+                <div className="min-w-0">
+                  <p
+                    className="text-gray-600 truncate"
+                    title={`${discrepancy.geography} > ${discrepancy.segment_type} > ${path}`}
+                  >
+                    {discrepancy.data_type}: {discrepancy.geography} · {discrepancy.segment_type} · {path}
+                  </p>
+                  <p>
+                    {discrepancy.year}: supplied {discrepancy.supplied.toLocaleString()} vs rolled-up{' '}
+                    {discrepancy.rolled_up.toLocaleString(undefined, { maximumFractionDigits: 2 })} (
+                    {discrepancy.difference_pct}% off
+                    {discrepancy.years_affected > 1 && `, ${discrepancy.years_affected} years affected`})
+                  </p>
+                </div>
+              </li>
+            )
+          })}
+          {report.discrepancies.length < report.discrepancy_count && (
+            <li className="text-gray-600 italic">
+              Showing largest {report.discrepancies.length} of {report.discrepancy_count} discrepancies
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,259 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { ArrowLeft, Building2, Loader2, Save } from 'lucide-react'
+import { CHART_THEME } from '@/lib/chart-theme'
+import {
+  formatRevenue,
+  getRevenueUnitLabel,
+  loadCompetitiveIntelligence,
+  type CompetitiveIntelligenceResult
+} from '@/lib/competitive-intelligence-data'
+import { getCompanyBenchmark, loadCompanyNote, saveCompanyNote, type CompanyNote } from '@/lib/company-profile'
+
+interface CompanyProfileProps {
+  companyId: string
+  market: string
+}
+
+const MUTED_COLOR = '#cbd5e1'
+
+/**
+ * Company detail view: profile, peer benchmark and locally saved notes
+ */
+export function CompanyProfile({ companyId, market }: CompanyProfileProps) {
+  const [result, setResult] = useState<CompetitiveIntelligenceResult | null>(null)
+  const [noteText, setNoteText] = useState('')
+  const [savedNote, setSavedNote] = useState<CompanyNote | null>(null)
+
+  // The note is read from local storage with the profile data, so it is never read during server rendering
+  useEffect(() => {
+    let cancelled = false
+    loadCompetitiveIntelligence(market || undefined).then(loaded => {
+      if (cancelled) return
+      const note = loadCompanyNote(market, companyId)
+      setResult(loaded)
+      setSavedNote(note)
+      setNoteText(note?.text ?? '')
+    })
+    return () => { cancelled = true }
+  }, [market, companyId])
+
+  const benchmark = useMemo(
+    () => result?.data ? getCompanyBenchmark(result.data, companyId) : null,
+    [result, companyId]
+  )
+
+  if (!result) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh] gap-2 text-black">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        Loading company profile...
+      </div>
+    )
+  }
+
+  if (!result.data || !benchmark) {
+    return (
+      <div className="max-w-xl mx-auto mt-16 bg-white rounded-lg border border-gray-200 p-8 text-center">
+        <p className="text-black font-medium">Company not found</p>
+        <p className="text-sm text-gray-600 mt-1">
+          {result.error ?? `${result.data?.metadata.market ?? market} has no company with the id "${companyId}".`}
+        </p>
+      </div>
+    )
+  }
+
+  const competitiveData = result.data
+  const { company } = benchmark
+  const unit = getRevenueUnitLabel(competitiveData)
+  const unitSuffix = unit ? ` (${unit})` : ''
+  const year = competitiveData.metadata.year
+  const isDirty = noteText !== (savedNote?.text ?? '')
+
+  const profileFields: Array<[string, string | number]> = [
+    ['Headquarters', company.headquarters || 'N/A'],
+    ['Key Management (CEO)', company.ceo || 'N/A'],
+    ['Year of Establishment', company.yearEstablished ?? 'N/A'],
+    ['Product/Service Portfolio', company.portfolio || 'N/A'],
+    [`Overall Revenue${unitSuffix}`, formatRevenue(company.overallRevenue)],
+    [`Segmental Revenue${unitSuffix}${year ? `, ${year}` : ''}`, formatRevenue(company.segmentalRevenue)],
+  ]
+
+  const handleSaveNote = () => {
+    setSavedNote(saveCompanyNote(market, company.id, noteText))
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 py-8 space-y-6">
+      <Link href="/" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline">
+        <ArrowLeft className="h-4 w-4" />
+        Back to dashboard
+      </Link>
+
+      {/* Profile */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="bg-gradient-to-r from-[#168AAD] to-[#1A759F] px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Building2 className="h-6 w-6 text-white" />
+            <div>
+              <h1 className="text-xl font-semibold text-white">{company.name}</h1>
+              <p className="text-sm text-white/90">{competitiveData.metadata.market}</p>
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-xs text-white/70">Market Share{year ? ` ${year}` : ''}</div>
+            <div className="text-2xl font-bold text-white">{company.marketShare.toFixed(1)}%</div>
+          </div>
+        </div>
+        <div className="grid md:grid-cols-2 gap-x-8 gap-y-3 p-6">
+          {profileFields.map(([label, value]) => (
+            <div key={label} className="flex justify-between gap-4 border-b border-gray-100 pb-2 text-sm">
+              <span className="text-gray-600">{label}</span>
+              <span className="font-medium text-black text-right">{value}</span>
+            </div>
+          ))}
+          <div className="md:col-span-2 text-sm">
+            <div className="text-gray-600 mb-1">Strategies/Recent Developments</div>
+            {company.strategies.length > 0 ? (
+              <ul className="space-y-1">
+                {company.strategies.map(strategy => (
+                  <li key={strategy} className="flex items-start text-black">
+                    <span className="text-[#52B69A] mr-1">▸</span>
+                    {strategy}
+                  </li>
+                ))}
+              </ul>
+            ) : <span className="text-black">N/A</span>}
+          </div>
+        </div>
+      </div>
+
+      {/* Benchmark KPIs */}
+      <div className="grid md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-lg p-4 border border-gray-200">
+          <div className="text-sm text-black mb-1">Share Rank</div>
+          <div className="text-lg font-bold text-black">#{benchmark.shareRank} of {benchmark.companyCount}</div>
+          <div className="text-xs text-black mt-1">
+            {benchmark.leader
+              ? `${(benchmark.leader.marketShare - company.marketShare).toFixed(1)} pp behind ${benchmark.leader.name}`
+              : 'Market leader'}
+          </div>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-200">
+          <div className="text-sm text-black mb-1">Segmental Revenue vs. Peer Median</div>
+          <div className="text-lg font-bold text-black">
+            {benchmark.revenueVsMedian !== null ? `${benchmark.revenueVsMedian.toFixed(2)}×` : 'N/A'}
+          </div>
+          <div className="text-xs text-black mt-1">Peer median {formatRevenue(benchmark.peerMedianRevenue)}{unit ? ` ${unit}` : ''}</div>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-200">
+          <div className="text-sm text-black mb-1">Regional Strength</div>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {benchmark.regionOverlaps.length > 0 ? benchmark.regionOverlaps.map(({ region }) => (
+              <span key={region} className="px-2 py-1 bg-[#D9ED92] text-[#184E77] rounded text-xs font-medium">{region}</span>
+            )) : <span className="text-sm text-black">N/A</span>}
+          </div>
+        </div>
+      </div>
+
+      {/* Peer revenue benchmark */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h2 className="text-sm font-semibold text-black mb-4">Segmental Revenue vs. Peers{unitSuffix}{year ? `, ${year}` : ''}</h2>
+        <ResponsiveContainer width="100%" height={Math.max(200, benchmark.peers.length * 32)}>
+          <BarChart data={benchmark.peers} layout="vertical" margin={{ top: 0, right: 30, left: 10, bottom: 0 }}>
+            <CartesianGrid {...CHART_THEME.grid} />
+            <XAxis type="number" tick={{ fontSize: 12 }} />
+            <YAxis type="category" dataKey="name" width={180} tick={{ fontSize: 12 }} />
+            <Tooltip formatter={(value: number) => formatRevenue(value)} />
+            <Bar dataKey="segmentalRevenue" name="Segmental Revenue">
+              {benchmark.peers.map(peer => (
+                <Cell key={peer.name} fill={peer.isSelected ? peer.color : MUTED_COLOR} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+        {benchmark.peers.some(peer => peer.segmentalRevenue === null) && (
+          <p className="text-xs text-gray-600 mt-2">Companies without a segmental revenue in the file have no bar.</p>
+        )}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Share rank by region */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h2 className="text-sm font-semibold text-black mb-4">Share Rank by Region</h2>
+          {benchmark.regionalRanks.length === 0 ? (
+            <p className="text-sm text-black">The file has no regional shares for {company.name}.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-600 border-b border-gray-200">
+                  <th className="py-2">Region</th>
+                  <th className="py-2">Year</th>
+                  <th className="py-2 text-right">Share</th>
+                  <th className="py-2 text-right">Rank</th>
+                </tr>
+              </thead>
+              <tbody>
+                {benchmark.regionalRanks.map(rank => (
+                  <tr key={rank.geography} className="border-b border-gray-100 text-black">
+                    <td className="py-2">{rank.geography}</td>
+                    <td className="py-2">{rank.year}</td>
+                    <td className="py-2 text-right">{rank.share.toFixed(1)}%</td>
+                    <td className="py-2 text-right">#{rank.rank} of {rank.companyCount}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Peers with the same regional strengths */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h2 className="text-sm font-semibold text-black mb-4">Peers in the Same Regions</h2>
+          {benchmark.regionOverlaps.length === 0 ? (
+            <p className="text-sm text-black">No regional strength is listed for {company.name}.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {benchmark.regionOverlaps.map(({ region, peers }) => (
+                <li key={region}>
+                  <span className="font-medium text-black">{region}:</span>{' '}
+                  <span className="text-black">{peers.length > 0 ? peers.join(', ') : 'no other listed company'}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Notes */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-sm font-semibold text-black">Notes</h2>
+          <span className="text-xs text-gray-600">
+            {savedNote ? `Saved in this browser ${new Date(savedNote.updatedAt).toLocaleString()}` : 'Saved in this browser only'}
+          </span>
+        </div>
+        <textarea
+          value={noteText}
+          onChange={(e) => setNoteText(e.target.value)}
+          rows={6}
+          placeholder={`Notes on ${company.name}...`}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex justify-end mt-2">
+          <button
+            onClick={handleSaveNote}
+            disabled={!isDirty}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+          >
+            <Save className="h-4 w-4" />
+            Save Notes
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,53 +1,173 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useRef } from 'react'
 import { useDashboardStore } from '@/lib/store'
-import { Loader2, Upload, CheckCircle2, XCircle } from 'lucide-react'
+import {
+  assignUploadedFiles,
+  processUploadedJsonFiles,
+  validateUploadedJsonFiles,
+  EMPTY_UPLOADED_FILES,
+  type UploadedMarketFiles
+} from '@/lib/json-upload'
+import { fetchProcessedDataWithProgress, fetchValidationReport } from '@/lib/process-data-client'
+import type { ValidationReport } from '@/lib/data-validator'
+import { ValidationReportPanel } from './ValidationReportPanel'
+import { AggregationReportPanel } from './AggregationReportPanel'
+import { TabularImporter } from './TabularImporter'
+import { createDatasetBundle, getDatasetBundleFileName, isDatasetBundleFile, readDatasetBundle } from '@/lib/dataset-bundle'
+import { saveAs } from 'file-saver'
+import { Loader2, Upload, CheckCircle2, XCircle, FileJson, X, ShieldCheck, Package } from 'lucide-react'
 
 /**
  * Component for loading and processing JSON files
+ * Supports server-side paths (via /api/process-data), browser uploads and CSV/XLSX tables.
+ * Dataset bundles (.dataset.json.gz) dropped on the upload area load without re-processing
  */
 export function DataLoader() {
-  const { setData, setLoading, setError } = useDashboardStore()
+  const { data: loadedData, setData } = useDashboardStore()
+  const [source, setSource] = useState<'server' | 'upload' | 'table'>('server')
   const [valuePath, setValuePath] = useState('data/value.json')
   const [volumePath, setVolumePath] = useState('data/volume.json')
   const [segmentationPath, setSegmentationPath] = useState('data/segmentation_analysis.json')
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedMarketFiles>(EMPTY_UPLOADED_FILES)
+  const [isDragging, setIsDragging] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const [status, setStatus] = useState<'idle' | 'success' | 'error'>('idle')
   const [statusMessage, setStatusMessage] = useState('')
+  const [progress, setProgress] = useState<{ percent: number; message: string } | null>(null)
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
 
-  const handleLoadData = async () => {
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList) return
+    const files = Array.from(fileList)
+    const bundle = files.find(file => isDatasetBundleFile(file.name))
+    if (bundle) {
+      handleLoadBundle(bundle)
+      return
+    }
+    setUploadedFiles(current => assignUploadedFiles(files, current))
+  }
+
+  const handleLoadBundle = async (file: File) => {
     try {
       setIsProcessing(true)
       setStatus('idle')
       setStatusMessage('')
-      setLoading(true)
-      setError(null)
 
-      // Build query parameters
-      const params = new URLSearchParams({
-        valuePath: valuePath || 'data/value.json',
-      })
-      
-      if (volumePath) {
-        params.append('volumePath', volumePath)
-      }
-      
-      if (segmentationPath) {
-        params.append('segmentationPath', segmentationPath)
-      }
+      const { manifest, data, warnings } = await readDatasetBundle(file)
+      setData(data)
+      setStatus('success')
+      setStatusMessage(
+        [`Loaded bundle "${manifest.market_name}" exported ${manifest.exported_at.split('T')[0]}`, ...warnings].join('. ')
+      )
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred'
+      setStatus('error')
+      setStatusMessage(errorMessage)
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleExportBundle = async () => {
+    if (!loadedData) return
+    try {
+      const blob = await createDatasetBundle(loadedData)
+      saveAs(blob, getDatasetBundleFileName(loadedData))
+    } catch (err) {
+      setStatus('error')
+      setStatusMessage(err instanceof Error ? err.message : 'Failed to export dataset')
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setIsDragging(false)
+    if (!isProcessing) {
+      addFiles(e.dataTransfer.files)
+    }
+  }
+
+  const removeFile = (role: keyof UploadedMarketFiles) => {
+    setUploadedFiles(current => ({ ...current, [role]: null }))
+  }
+
+  const handleUploadData = async () => {
+    try {
+      setIsProcessing(true)
+      setStatus('idle')
+      setStatusMessage('')
+
+      // Process in the browser with the same logic used by /api/process-data
+      const data = await processUploadedJsonFiles(uploadedFiles)
+      setData(data)
+      setStatus('success')
+      setStatusMessage('Uploaded data processed successfully!')
+
+      // Clear status message after 3 seconds
+      setTimeout(() => {
+        setStatus('idle')
+        setStatusMessage('')
+      }, 3000)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred'
+      setStatus('error')
+      setStatusMessage(errorMessage)
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const buildServerParams = () => {
+    const params = new URLSearchParams({
+      valuePath: valuePath || 'data/value.json',
+    })
+    
+    if (volumePath) {
+      params.append('volumePath', volumePath)
+    }
+    
+    if (segmentationPath) {
+      params.append('segmentationPath', segmentationPath)
+    }
+    return params
+  }
+
+  const handleValidate = async () => {
+    try {
+      setIsProcessing(true)
+      setStatus('idle')
+      setStatusMessage('')
+      setValidationReport(null)
+
+      const report = source === 'server'
+        ? await fetchValidationReport(buildServerParams())
+        : await validateUploadedJsonFiles(uploadedFiles)
+      setValidationReport(report)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred'
+      setStatus('error')
+      setStatusMessage(errorMessage)
+    } finally {
+      setIsProcessing(false)
+    }
+  }
 
-      const response = await fetch(`/api/process-data?${params.toString()}`)
+  const handleLoadData = async () => {
+    try {
+      setIsProcessing(true)
+      setStatus('idle')
+      setStatusMessage('')
+      setProgress({ percent: 0, message: 'Starting...' })
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        const errorMessage = errorData.error || errorData.details || `Failed to load data: ${response.statusText}`
-        const debugInfo = errorData.debug ? `\nDebug: ${JSON.stringify(errorData.debug, null, 2)}` : ''
-        const stackInfo = errorData.stack ? `\nStack: ${errorData.stack}` : ''
-        throw new Error(`${errorMessage}${debugInfo}${stackInfo}`)
-      }
+      const params = buildServerParams()
 
-      const data = await response.json()
+      // Processing runs in a server worker; progress events stream back while it works.
+      // Global loading/error state is left untouched so this panel stays mounted to show progress
+      const data = await fetchProcessedDataWithProgress(params, (percent, message) => {
+        setProgress({ percent, message })
+      })
       setData(data)
       setStatus('success')
       setStatusMessage('Data loaded successfully!')
@@ -59,12 +179,11 @@ export function DataLoader() {
       }, 3000)
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred'
-      setError(errorMessage)
       setStatus('error')
       setStatusMessage(errorMessage)
     } finally {
       setIsProcessing(false)
-      setLoading(false)
+      setProgress(null)
     }
   }
 
@@ -73,65 +192,217 @@ export function DataLoader() {
       <h3 className="text-sm font-semibold text-black mb-3">Load Market Data</h3>
       
       <div className="space-y-3">
-        <div>
-          <label className="block text-xs font-medium text-black mb-1">
-            Value JSON Path <span className="text-red-500">*</span>
-          </label>
-          <input
-            type="text"
-            value={valuePath}
-            onChange={(e) => setValuePath(e.target.value)}
-            placeholder="value.json"
-            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            disabled={isProcessing}
-          />
+        <div className="flex gap-1 p-1 bg-gray-100 rounded-md">
+          {([
+            ['server', 'Server Paths'],
+            ['upload', 'Upload Files'],
+            ['table', 'CSV / Excel'],
+          ] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => {
+                setSource(mode)
+                setValidationReport(null)
+              }}
+              disabled={isProcessing}
+              className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+                source === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-black hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
 
-        <div>
-          <label className="block text-xs font-medium text-black mb-1">
-            Volume JSON Path (optional)
-          </label>
-          <input
-            type="text"
-            value={volumePath}
-            onChange={(e) => setVolumePath(e.target.value)}
-            placeholder="volume.json"
-            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            disabled={isProcessing}
-          />
-        </div>
+        {source === 'server' ? (
+          <>
+            <div>
+              <label className="block text-xs font-medium text-black mb-1">
+                Value JSON Path <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={valuePath}
+                onChange={(e) => setValuePath(e.target.value)}
+                placeholder="value.json"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={isProcessing}
+              />
+            </div>
 
-        <div>
-          <label className="block text-xs font-medium text-black mb-1">
-            Segmentation JSON Path (optional)
-          </label>
-          <input
-            type="text"
-            value={segmentationPath}
-            onChange={(e) => setSegmentationPath(e.target.value)}
-            placeholder="segmentation_analysis.json"
-            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            disabled={isProcessing}
+            <div>
+              <label className="block text-xs font-medium text-black mb-1">
+                Volume JSON Path (optional)
+              </label>
+              <input
+                type="text"
+                value={volumePath}
+                onChange={(e) => setVolumePath(e.target.value)}
+                placeholder="volume.json"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={isProcessing}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-black mb-1">
+                Segmentation JSON Path (optional)
+              </label>
+              <input
+                type="text"
+                value={segmentationPath}
+                onChange={(e) => setSegmentationPath(e.target.value)}
+                placeholder="segmentation_analysis.json"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={isProcessing}
+              />
+            </div>
+
+            {progress ? (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs text-black">
+                  <span className="truncate pr-2" title={progress.message}>{progress.message}</span>
+                  <span className="font-medium">{Math.round(progress.percent)}%</span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all duration-300"
+                    style={{ width: `${Math.min(100, Math.max(0, progress.percent))}%` }}
+                  />
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={handleLoadData}
+                disabled={isProcessing || !valuePath}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                <Upload className="h-4 w-4" />
+                Load Data
+              </button>
+            )}
+            <button
+              onClick={handleValidate}
+              disabled={isProcessing || !valuePath}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 disabled:text-gray-400 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              <ShieldCheck className="h-4 w-4" />
+              Validate
+            </button>
+          </>
+        ) : source === 'table' ? (
+          <TabularImporter
+            isProcessing={isProcessing}
+            onProcessingChange={(processing) => {
+              setIsProcessing(processing)
+              if (processing) {
+                setStatus('idle')
+                setStatusMessage('')
+              }
+            }}
+            onLoaded={(data, warnings) => {
+              setData(data)
+              setStatus('success')
+              setStatusMessage(
+                warnings.length > 0
+                  ? `Table imported with ${warnings.length} skipped or replaced row${warnings.length === 1 ? '' : 's'}`
+                  : 'Table imported successfully!'
+              )
+            }}
+            onError={(message) => {
+              setStatus('error')
+              setStatusMessage(message)
+            }}
           />
-        </div>
+        ) : (
+          <>
+            <div
+              onDragOver={(e) => {
+                e.preventDefault()
+                setIsDragging(true)
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              onClick={() => !isProcessing && fileInputRef.current?.click()}
+              className={`flex flex-col items-center justify-center gap-1 p-4 border-2 border-dashed rounded-md cursor-pointer transition-colors ${
+                isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400'
+              }`}
+            >
+              <Upload className="h-5 w-5 text-blue-500" />
+              <p className="text-xs text-black text-center">
+                Drop value.json, volume.json, segmentation_analysis.json and an optional manifest.json here, or an exported dataset bundle, or click to browse
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json,.gz"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(e.target.files)
+                  e.target.value = ''
+                }}
+                disabled={isProcessing}
+              />
+            </div>
 
-        <button
-          onClick={handleLoadData}
-          disabled={isProcessing || !valuePath}
-          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
-        >
-          {isProcessing ? (
-            <>
-              <Loader2 className="h-4 w-4 animate-spin" />
-              Processing...
-            </>
-          ) : (
-            <>
-              <Upload className="h-4 w-4" />
-              Load Data
-            </>
-          )}
-        </button>
+            <div className="space-y-1">
+              {(['value', 'volume', 'segmentation', 'manifest'] as const).map((role) => {
+                const file = uploadedFiles[role]
+                return (
+                  <div key={role} className="flex items-center gap-2 text-xs text-black">
+                    <FileJson className={`h-3 w-3 flex-shrink-0 ${file ? 'text-blue-500' : 'text-gray-300'}`} />
+                    <span className="font-medium capitalize w-24">
+                      {role}{role === 'value' && <span className="text-red-500"> *</span>}
+                    </span>
+                    <span className="truncate flex-1" title={file?.name}>
+                      {file ? file.name : <span className="text-gray-400">Not selected</span>}
+                    </span>
+                    {file && !isProcessing && (
+                      <button
+                        onClick={() => removeFile(role)}
+                        className="hover:text-red-500"
+                        title="Remove file"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            <button
+              onClick={handleUploadData}
+              disabled={isProcessing || !uploadedFiles.value}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {isProcessing ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Processing...
+                </>
+              ) : (
+                <>
+                  <Upload className="h-4 w-4" />
+                  Process Files
+                </>
+              )}
+            </button>
+            <button
+              onClick={handleValidate}
+              disabled={isProcessing || !uploadedFiles.value}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 disabled:text-gray-400 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              <ShieldCheck className="h-4 w-4" />
+              Validate
+            </button>
+          </>
+        )}
+
+        {validationReport && (
+          <ValidationReportPanel report={validationReport} onClose={() => setValidationReport(null)} />
+        )}
 
         {status !== 'idle' && (
           <div
@@ -150,9 +421,29 @@ export function DataLoader() {
           </div>
         )}
 
+        {loadedData?.aggregation && <AggregationReportPanel report={loadedData.aggregation} />}
+
+        {loadedData && (
+          <button
+            onClick={handleExportBundle}
+            disabled={isProcessing}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-black border border-gray-300 rounded-md hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+            title={`Save "${loadedData.metadata.market_name}" as a processed dataset bundle`}
+          >
+            <Package className="h-4 w-4" />
+            Export Dataset
+          </button>
+        )}
+
         <div className="text-xs text-black pt-2 border-t border-gray-200">
-          <p className="mb-1"><strong>Note:</strong> Paths are relative to the project root (parent of frontend-clean folder).</p>
-          <p>Example: If your JSON files are in the root directory, use: <code className="bg-gray-100 px-1 rounded">value.json</code></p>
+          {source === 'server' ? (
+            <>
+              <p className="mb-1"><strong>Note:</strong> Paths are relative to the project root (parent of frontend-clean folder).</p>
+              <p>Example: If your JSON files are in the root directory, use: <code className="bg-gray-100 px-1 rounded">value.json</code></p>
+            </>
+          ) : (
+            <p><strong>Note:</strong> Uploaded files are processed in your browser and are not sent to the server.</p>
+          )}
         </div>
       </div>
     </div>
@@ -1,129 +1,193 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { useDashboardStore } from '@/lib/store'
-import { TrendingUp, DollarSign, Calendar, Activity } from 'lucide-react'
+import {
+  KPI_METRIC_OPTIONS,
+  DEFAULT_KPI_CONFIG,
+  calculateKpiValues,
+  loadKpiConfig,
+  type KpiMetricId,
+  type KpiValues
+} from '@/lib/kpi-config'
+import { TrendingUp, DollarSign, Calendar, Activity, Percent, Settings2, RotateCcw } from 'lucide-react'
 
-export function GlobalKPICards() {
-  const { data } = useDashboardStore()
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 })
 
-  const kpiData = useMemo(() => {
-    if (!data) return null
+interface KpiCard {
+  label: string
+  value: string
+  icon: React.ReactNode
+  iconClassName: string
+}
 
-    // Get all records from value data - use first geography if available
-    // If no global geography, use all records or first geography
-    const allGeographies = data.dimensions.geographies.all_geographies || []
-    const targetGeo = data.dimensions.geographies.global?.[0] || allGeographies[0] || null
-    
-    // If we have a target geography, filter by it; otherwise use all records
-    // CRITICAL: Only use leaf records (is_aggregated === false) to prevent double-counting
-    // Aggregated records already contain the sum of their children, so including both would count values twice
-    let globalRecords = targetGeo 
-      ? data.data.value.geography_segment_matrix.filter(record => record.geography === targetGeo)
-      : data.data.value.geography_segment_matrix
-    
-    // Filter to only leaf records to prevent double-counting
-    globalRecords = globalRecords.filter(record => record.is_aggregated === false)
+function buildKpiCard(metric: KpiMetricId, kpi: KpiValues): KpiCard {
+  switch (metric) {
+    case 'start-size':
+      return {
+        label: `Market Size ${kpi.startYear}`,
+        value: `${kpi.currency} ${formatAmount(kpi.startSize)} ${kpi.unit}`,
+        icon: <DollarSign className="h-4 w-4 text-blue-600" />,
+        iconClassName: 'bg-blue-100'
+      }
+    case 'end-size':
+      return {
+        label: `Market Size ${kpi.endYear}`,
+        value: `${kpi.currency} ${formatAmount(kpi.endSize)} ${kpi.unit}`,
+        icon: <Calendar className="h-4 w-4 text-green-600" />,
+        iconClassName: 'bg-green-100'
+      }
+    case 'cagr':
+      return {
+        label: `CAGR (${kpi.startYear}-${kpi.endYear})`,
+        value: `${kpi.cagr.toFixed(2)}%`,
+        icon: <TrendingUp className="h-4 w-4 text-purple-600" />,
+        iconClassName: 'bg-purple-100'
+      }
+    case 'absolute-growth':
+      return {
+        label: 'Absolute Growth',
+        value: `${kpi.growthPercentage >= 0 ? '+' : ''}${kpi.growthPercentage.toFixed(1)}% (${kpi.currency} ${formatAmount(kpi.absoluteGrowth)} ${kpi.unit})`,
+        icon: <Activity className="h-4 w-4 text-orange-600" />,
+        iconClassName: 'bg-orange-100'
+      }
+    case 'yoy-growth':
+      return {
+        label: `YoY Growth ${kpi.endYear}`,
+        value: kpi.yoyGrowth === null ? 'N/A' : `${kpi.yoyGrowth >= 0 ? '+' : ''}${kpi.yoyGrowth.toFixed(1)}%`,
+        icon: <Percent className="h-4 w-4 text-teal-600" />,
+        iconClassName: 'bg-teal-100'
+      }
+  }
+}
 
-    if (globalRecords.length === 0) return null
+export function GlobalKPICards() {
+  const { data, kpiConfig, setKpiConfig } = useDashboardStore()
+  const [showSettings, setShowSettings] = useState(false)
+  const settingsRef = useRef<HTMLDivElement>(null)
 
-    // Calculate total market size for 2024 and 2032
-    let marketSize2024 = 0
-    let marketSize2032 = 0
+  // Restore the saved configuration once on the client
+  useEffect(() => {
+    setKpiConfig(loadKpiConfig())
+  }, [setKpiConfig])
 
-    globalRecords.forEach(record => {
-      marketSize2024 += record.time_series[2024] || 0
-      marketSize2032 += record.time_series[2032] || 0
-    })
+  useEffect(() => {
+    if (!showSettings) return
+    const handleClickOutside = (event: MouseEvent) => {
+      if (settingsRef.current && !settingsRef.current.contains(event.target as Node)) {
+        setShowSettings(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [showSettings])
 
-    // Calculate CAGR from 2024 to 2032
-    const years = 2032 - 2024
-    const cagr = marketSize2024 > 0 
-      ? (Math.pow(marketSize2032 / marketSize2024, 1 / years) - 1) * 100
-      : 0
+  const kpiData = useMemo(() => {
+    if (!data) return null
+    return calculateKpiValues(data, kpiConfig)
+  }, [data, kpiConfig])
 
-    // Calculate absolute growth
-    const absoluteGrowth = marketSize2032 - marketSize2024
-    const growthPercentage = marketSize2024 > 0 
-      ? ((marketSize2032 - marketSize2024) / marketSize2024) * 100
-      : 0
+  if (!data || !kpiData) return null
 
-    return {
-      marketSize2024,
-      marketSize2032,
-      cagr,
-      absoluteGrowth,
-      growthPercentage,
-      currency: data.metadata.currency,
-      unit: data.metadata.value_unit
-    }
-  }, [data])
+  const cards = kpiConfig.metrics.map(metric => ({ metric, ...buildKpiCard(metric, kpiData) }))
 
-  if (!kpiData) return null
+  const toggleMetric = (metric: KpiMetricId) => {
+    const metrics = kpiConfig.metrics.includes(metric)
+      ? kpiConfig.metrics.filter(m => m !== metric)
+      : KPI_METRIC_OPTIONS.map(option => option.id).filter(id => id === metric || kpiConfig.metrics.includes(id))
+    setKpiConfig({ ...kpiConfig, metrics })
+  }
+
+  const yearSelect = (
+    label: string,
+    value: number | null,
+    defaultLabel: string,
+    onChange: (year: number | null) => void
+  ) => (
+    <label className="block">
+      <span className="block text-xs font-medium text-black mb-1">{label}</span>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+        className="w-full px-2 py-1 text-xs border border-gray-300 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">{defaultLabel}</option>
+        {data.metadata.years.map(year => (
+          <option key={year} value={year}>{year}</option>
+        ))}
+      </select>
+    </label>
+  )
 
   return (
     <div className="bg-gradient-to-r from-gray-50 to-gray-100 border-y border-gray-200">
-      <div className="container mx-auto px-6 py-3">
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 md:gap-6">
-          {/* Market Size 2024 */}
-          <div className="flex items-center gap-2">
-            <div className="p-1.5 bg-blue-100 rounded">
-              <DollarSign className="h-4 w-4 text-blue-600" />
-            </div>
-            <div>
-              <p className="text-[10px] text-black uppercase tracking-wider font-semibold">
-                Market Size 2024
-              </p>
-              <p className="text-base font-bold text-black leading-tight">
-                {kpiData.currency} {kpiData.marketSize2024.toLocaleString('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} {kpiData.unit}
-              </p>
-            </div>
-          </div>
-
-          {/* Market Size 2032 */}
-          <div className="flex items-center gap-2">
-            <div className="p-1.5 bg-green-100 rounded">
-              <Calendar className="h-4 w-4 text-green-600" />
-            </div>
-            <div>
-              <p className="text-[10px] text-black uppercase tracking-wider font-semibold">
-                Market Size 2032
-              </p>
-              <p className="text-base font-bold text-black leading-tight">
-                {kpiData.currency} {kpiData.marketSize2032.toLocaleString('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} {kpiData.unit}
-              </p>
+      <div className="container mx-auto px-6 py-3 flex items-center gap-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 md:gap-6 flex-1">
+          {cards.map(card => (
+            <div key={card.metric} className="flex items-center gap-2">
+              <div className={`p-1.5 rounded ${card.iconClassName}`}>
+                {card.icon}
+              </div>
+              <div>
+                <p className="text-[10px] text-black uppercase tracking-wider font-semibold">
+                  {card.label}
+                </p>
+                <p className="text-base font-bold text-black leading-tight">
+                  {card.value}
+                </p>
+              </div>
             </div>
-          </div>
-
-          {/* CAGR */}
-          <div className="flex items-center gap-2">
-            <div className="p-1.5 bg-purple-100 rounded">
-              <TrendingUp className="h-4 w-4 text-purple-600" />
-            </div>
-            <div>
-              <p className="text-[10px] text-black uppercase tracking-wider font-semibold">
-                CAGR (2024-2032)
-              </p>
-              <p className="text-base font-bold text-black leading-tight">
-                {kpiData.cagr.toFixed(2)}%
-              </p>
-            </div>
-          </div>
+          ))}
+          {cards.length === 0 && (
+            <p className="text-xs text-black col-span-full">No KPIs selected. Use the settings button to choose metrics.</p>
+          )}
+        </div>
 
-          {/* Absolute Growth */}
-          <div className="flex items-center gap-2">
-            <div className="p-1.5 bg-orange-100 rounded">
-              <Activity className="h-4 w-4 text-orange-600" />
-            </div>
-            <div>
-              <p className="text-[10px] text-black uppercase tracking-wider font-semibold">
-                Absolute Growth
-              </p>
-              <p className="text-base font-bold text-black leading-tight">
-                +{kpiData.growthPercentage.toFixed(1)}% ({kpiData.currency} {kpiData.absoluteGrowth.toLocaleString('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} {kpiData.unit})
-              </p>
+        {/* KPI configuration */}
+        <div className="relative" ref={settingsRef}>
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="p-1.5 rounded hover:bg-gray-200 text-black"
+            title="Configure KPIs"
+          >
+            <Settings2 className="h-4 w-4" />
+          </button>
+          {showSettings && (
+            <div className="absolute right-0 top-full mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-50 space-y-3">
+              <div>
+                <p className="text-xs font-semibold text-black mb-2">Metrics</p>
+                <div className="space-y-1">
+                  {KPI_METRIC_OPTIONS.map(option => (
+                    <label key={option.id} className="flex items-center gap-2 text-xs text-black cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={kpiConfig.metrics.includes(option.id)}
+                        onChange={() => toggleMetric(option.id)}
+                        className="rounded border-gray-300"
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {yearSelect('Start year', kpiConfig.startYear, `Base (${data.metadata.base_year})`, (year) =>
+                  setKpiConfig({ ...kpiConfig, startYear: year })
+                )}
+                {yearSelect('End year', kpiConfig.endYear, `Forecast (${data.metadata.forecast_year})`, (year) =>
+                  setKpiConfig({ ...kpiConfig, endYear: year })
+                )}
+              </div>
+              <button
+                onClick={() => setKpiConfig(DEFAULT_KPI_CONFIG)}
+                className="w-full flex items-center justify-center gap-1 px-2 py-1 text-xs text-black border border-gray-300 rounded hover:bg-gray-50"
+              >
+                <RotateCcw className="h-3 w-3" />
+                Reset to defaults
+              </button>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,52 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useDashboardStore } from '@/lib/store'
+import { Briefcase, X } from 'lucide-react'
+
+/**
+ * Header control for switching between markets loaded into the workspace
+ * Each market keeps its own filters in the store's market registry
+ */
+export function MarketSwitcher() {
+  const { markets, activeMarket, switchMarket, removeMarket } = useDashboardStore()
+
+  // Order markets by load time so newly loaded markets appear last
+  const marketNames = useMemo(() => {
+    return Object.entries(markets)
+      .sort((a, b) => a[1].loadedAt - b[1].loadedAt)
+      .map(([name]) => name)
+  }, [markets])
+
+  if (marketNames.length === 0) return null
+
+  return (
+    <div className="flex items-center gap-1">
+      <Briefcase className="h-4 w-4 text-black flex-shrink-0" />
+      <select
+        value={activeMarket || ''}
+        onChange={(e) => switchMarket(e.target.value)}
+        className="max-w-[180px] px-2 py-1 text-xs text-black border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="Switch market"
+      >
+        {marketNames.map(name => (
+          <option key={name} value={name}>
+            {name}
+          </option>
+        ))}
+      </select>
+      {marketNames.length > 1 && activeMarket && (
+        <button
+          onClick={() => removeMarket(activeMarket)}
+          className="p-1 text-black hover:text-red-500"
+          title="Close this market"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+      <span className="text-[10px] text-black whitespace-nowrap">
+        {marketNames.length} loaded
+      </span>
+    </div>
+  )
+}
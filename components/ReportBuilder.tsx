@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import { FileText, Loader2, X } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+import type { PdfReportResult } from '@/lib/pdf-report'
+import {
+  REPORT_SECTIONS,
+  getDefaultReportSections,
+  type ReportSection,
+  type ReportSectionId
+} from '@/lib/report-sections'
+
+interface ReportBuilderProps {
+  onClose: () => void
+  onComplete: (result: PdfReportResult) => void
+}
+
+/**
+ * Dialog for picking the sections of a PDF report
+ */
+export function ReportBuilder({ onClose, onComplete }: ReportBuilderProps) {
+  const { data, filters, selectedChartGroup } = useDashboardStore()
+  const [selected, setSelected] = useState<ReportSectionId[]>(() => getDefaultReportSections(selectedChartGroup))
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Parameters and insights first, then charts under their chart group
+  const groups = REPORT_SECTIONS.reduce<Array<{ label: string; sections: ReportSection[] }>>((result, section) => {
+    const label = section.group ?? 'Report'
+    const group = result.find(entry => entry.label === label)
+    if (group) group.sections.push(section)
+    else result.push({ label, sections: [section] })
+    return result
+  }, [])
+
+  const toggleSection = (id: ReportSectionId) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(entry => entry !== id) : [...prev, id])
+  }
+
+  const handleGenerate = async () => {
+    if (!data || selected.length === 0) return
+    setIsGenerating(true)
+    setError(null)
+    try {
+      const { generatePDFReport } = await import('@/lib/pdf-report')
+      onComplete(await generatePDFReport(data, filters, selected))
+      onClose()
+    } catch (err) {
+      console.error('Failed to generate PDF report:', err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50" style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+      <div className="bg-white rounded-lg p-6 w-[32rem] max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-black">PDF Report</h3>
+          <button onClick={onClose} className="p-1 text-black hover:bg-gray-100 rounded" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Pick the sections to include. Tables are written as PDF tables; charts are captured when they are on screen.
+        </p>
+
+        <div className="flex gap-3 mb-3 text-sm">
+          <button onClick={() => setSelected(REPORT_SECTIONS.map(section => section.id))} className="text-blue-600 hover:underline">
+            Select all
+          </button>
+          <button onClick={() => setSelected([])} className="text-blue-600 hover:underline">
+            Clear
+          </button>
+          <button onClick={() => setSelected(getDefaultReportSections(selectedChartGroup))} className="text-blue-600 hover:underline">
+            Current group
+          </button>
+        </div>
+
+        <div className="overflow-y-auto space-y-4 pr-1 flex-1">
+          {groups.map(group => (
+            <div key={group.label}>
+              <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{group.label}</p>
+              <div className="space-y-1">
+                {group.sections.map(section => (
+                  <label key={section.id} className="flex items-center gap-2 text-sm text-black cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(section.id)}
+                      onChange={() => toggleSection(section.id)}
+                      className="rounded border-gray-300"
+                    />
+                    {section.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button onClick={onClose} className="px-4 py-2 text-black hover:text-black">
+            Cancel
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || selected.length === 0 || !data}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+          >
+            {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+            Generate ({selected.length})
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,351 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useDashboardStore } from '@/lib/store'
+import { getChartGroup } from '@/lib/chart-groups'
+import type { DashboardTab } from '@/lib/url-state'
+import {
+  captureView,
+  createStoryboard,
+  getStoryboardSlides,
+  moveStoryboardSlide,
+  type SavedItemKind,
+  type SavedView,
+  type Storyboard
+} from '@/lib/saved-views'
+import { Bookmark, BookmarkPlus, ChevronDown, ChevronUp, ArrowUp, ArrowDown, Play, Plus, Trash2, X } from 'lucide-react'
+
+interface SavedViewsPanelProps {
+  activeTab: DashboardTab
+  onApplyView: (view: SavedView) => string[] // Returns what the loaded dataset is missing
+  onPlayStoryboard: (storyboard: Storyboard, views: SavedView[]) => void
+}
+
+interface SavedItems {
+  views: SavedView[]
+  storyboards: Storyboard[]
+}
+
+const NO_ITEMS: SavedItems = { views: [], storyboards: [] }
+
+async function requestSavedItems(
+  init?: RequestInit & { query?: Record<string, string> }
+): Promise<SavedItems> {
+  const query = init?.query ? `?${new URLSearchParams(init.query)}` : ''
+  const response = await fetch(`/api/views${query}`, init)
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Request failed (${response.status})`)
+  }
+  return { views: body.views ?? [], storyboards: body.storyboards ?? [] }
+}
+
+/**
+ * Saved views (chart group, tab, filters and chart settings) and the storyboards built from them
+ */
+export function SavedViewsPanel({ activeTab, onApplyView, onPlayStoryboard }: SavedViewsPanelProps) {
+  const { data, filters, opportunityFilters, selectedChartGroup, chartSettings } = useDashboardStore()
+  // Items are kept with the market they belong to, so switching markets never shows another market's views
+  const [loaded, setLoaded] = useState<{ market: string | null; items: SavedItems }>({ market: null, items: NO_ITEMS })
+  const [isExpanded, setIsExpanded] = useState(true)
+  const [viewName, setViewName] = useState('')
+  const [storyboardName, setStoryboardName] = useState('')
+  const [selectedStoryboardId, setSelectedStoryboardId] = useState<string | null>(null)
+  const [captionEdits, setCaptionEdits] = useState<{ storyboardId: string | null; captions: Record<number, string> }>({
+    storyboardId: null,
+    captions: {},
+  })
+  const [notice, setNotice] = useState<{ type: 'warning' | 'error'; message: string } | null>(null)
+  const market = data?.metadata.market_name ?? null
+  const items = market && loaded.market === market ? loaded.items : NO_ITEMS
+
+  useEffect(() => {
+    if (!market) return
+    let cancelled = false
+    requestSavedItems({ query: { market } })
+      .then(saved => {
+        if (!cancelled) setLoaded({ market, items: saved })
+      })
+      .catch(e => {
+        console.error('Error loading saved views:', e)
+        if (!cancelled) setNotice({ type: 'error', message: `Could not load saved views: ${e instanceof Error ? e.message : String(e)}` })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [market])
+
+  const selectedStoryboard = items.storyboards.find(storyboard => storyboard.id === selectedStoryboardId)
+    ?? items.storyboards[0]
+    ?? null
+
+  // Caption edits belong to the storyboard they were made in
+  const captions = captionEdits.storyboardId === selectedStoryboard?.id ? captionEdits.captions : {}
+  const setCaptions = (edited: Record<number, string>) => {
+    setCaptionEdits({ storyboardId: selectedStoryboard?.id ?? null, captions: edited })
+  }
+
+  const run = async (action: () => Promise<SavedItems>, failure: string) => {
+    try {
+      setLoaded({ market, items: await action() })
+      setNotice(null)
+    } catch (e) {
+      console.error(`${failure}:`, e)
+      setNotice({ type: 'error', message: `${failure}: ${e instanceof Error ? e.message : String(e)}` })
+    }
+  }
+
+  const post = (body: Partial<SavedItems>) => requestSavedItems({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ market, ...body }),
+  })
+
+  const remove = (kind: SavedItemKind, id: string) =>
+    run(() => requestSavedItems({ method: 'DELETE', query: { market: market!, kind, id } }), `Could not delete ${kind}`)
+
+  const saveView = () => {
+    if (!market || !viewName.trim()) return
+    const view = captureView(viewName, market, {
+      chartGroup: selectedChartGroup,
+      tab: activeTab,
+      filters,
+      opportunityFilters,
+      chartSettings,
+    })
+    setViewName('')
+    run(() => post({ views: [view] }), 'Could not save view')
+  }
+
+  const saveStoryboard = (storyboard: Storyboard) => {
+    setCaptions({}) // Edited captions are part of the saved storyboard from here on
+    return run(() => post({ storyboards: [storyboard] }), 'Could not save storyboard')
+  }
+
+  const addStoryboard = () => {
+    if (!market || !storyboardName.trim()) return
+    const storyboard = createStoryboard(storyboardName, market)
+    setStoryboardName('')
+    setSelectedStoryboardId(storyboard.id)
+    saveStoryboard(storyboard)
+  }
+
+  const addViewToStoryboard = (view: SavedView) => {
+    if (!selectedStoryboard) return
+    saveStoryboard({ ...selectedStoryboard, slides: [...selectedStoryboard.slides, { viewId: view.id, caption: '' }] })
+  }
+
+  const saveCaption = (index: number) => {
+    if (!selectedStoryboard || captions[index] === undefined) return
+    if (captions[index] === selectedStoryboard.slides[index].caption) return
+    saveStoryboard({
+      ...selectedStoryboard,
+      slides: selectedStoryboard.slides.map((slide, i) => i === index ? { ...slide, caption: captions[index] } : slide),
+    })
+  }
+
+  const applyView = (view: SavedView) => {
+    const missing = onApplyView(view)
+    setNotice(missing.length > 0
+      ? { type: 'warning', message: `"${view.name}" references data not in this dataset: ${missing.join(', ')}` }
+      : null)
+  }
+
+  if (!data) return null
+
+  const viewsById = new Map(items.views.map(view => [view.id, view]))
+  const playableSlides = selectedStoryboard ? getStoryboardSlides(selectedStoryboard, items.views) : []
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-3 py-2 flex items-center justify-between hover:bg-gray-50 transition-colors"
+      >
+        <h3 className="text-xs font-semibold text-black uppercase tracking-wider flex items-center gap-1">
+          <Bookmark className="h-3 w-3 text-blue-500" />
+          Views & Storyboards
+        </h3>
+        {isExpanded ? (
+          <ChevronUp className="h-3 w-3 text-black" />
+        ) : (
+          <ChevronDown className="h-3 w-3 text-black" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="p-2 pt-0 space-y-3 text-xs text-black">
+          {notice && (
+            <div className={`flex items-start gap-1 p-2 rounded ${
+              notice.type === 'error' ? 'bg-red-50 text-red-700' : 'bg-orange-50 text-orange-700'
+            }`}>
+              <span className="flex-1">{notice.message}</span>
+              <button onClick={() => setNotice(null)} title="Dismiss">
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          )}
+
+          {/* Views */}
+          <div className="space-y-1">
+            <div className="flex gap-1">
+              <input
+                type="text"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && saveView()}
+                placeholder="Name this view..."
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={saveView}
+                disabled={!viewName.trim()}
+                className="px-2 py-1 text-blue-600 hover:bg-blue-50 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+                title="Save the current chart group, tab, filters and chart settings"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </button>
+            </div>
+            {items.views.length === 0 ? (
+              <p className="text-gray-500 px-1">No saved views for this market yet.</p>
+            ) : (
+              items.views.map(view => (
+                <div key={view.id} className="group flex items-center gap-1 px-1 py-1 rounded hover:bg-blue-50">
+                  <button onClick={() => applyView(view)} className="flex-1 min-w-0 text-left" title="Show this view">
+                    <span className="block font-medium truncate">{view.name}</span>
+                    <span className="block text-gray-500 truncate">
+                      {getChartGroup(view.chartGroup)?.label ?? view.chartGroup} · {view.tab}
+                    </span>
+                  </button>
+                  {selectedStoryboard && (
+                    <button
+                      onClick={() => addViewToStoryboard(view)}
+                      className="opacity-0 group-hover:opacity-100 hover:text-blue-600"
+                      title={`Add to "${selectedStoryboard.name}"`}
+                    >
+                      <Plus className="h-3 w-3" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => remove('view', view.id)}
+                    className="opacity-0 group-hover:opacity-100 hover:text-red-500"
+                    title="Delete view (also removes it from storyboards)"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Storyboards */}
+          <div className="space-y-1 border-t border-gray-100 pt-2">
+            <p className="font-semibold">Storyboards</p>
+            <div className="flex gap-1">
+              <input
+                type="text"
+                value={storyboardName}
+                onChange={(e) => setStoryboardName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addStoryboard()}
+                placeholder="New storyboard..."
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={addStoryboard}
+                disabled={!storyboardName.trim()}
+                className="px-2 py-1 text-blue-600 hover:bg-blue-50 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+                title="Create storyboard"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+
+            {selectedStoryboard && (
+              <>
+                <div className="flex items-center gap-1">
+                  <select
+                    value={selectedStoryboard.id}
+                    onChange={(e) => setSelectedStoryboardId(e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {items.storyboards.map(storyboard => (
+                      <option key={storyboard.id} value={storyboard.id}>
+                        {storyboard.name} ({storyboard.slides.length})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => onPlayStoryboard(selectedStoryboard, items.views)}
+                    disabled={playableSlides.length === 0}
+                    className="p-1 text-green-600 hover:bg-green-50 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+                    title="Play storyboard"
+                  >
+                    <Play className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => remove('storyboard', selectedStoryboard.id)}
+                    className="p-1 hover:text-red-500"
+                    title="Delete storyboard"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+
+                {selectedStoryboard.slides.length === 0 ? (
+                  <p className="text-gray-500 px-1">Add views with the + next to each view.</p>
+                ) : (
+                  <ol className="space-y-1">
+                    {selectedStoryboard.slides.map((slide, index) => (
+                      <li key={`${slide.viewId}-${index}`} className="p-1 rounded bg-gray-50 space-y-1">
+                        <div className="flex items-center gap-1">
+                          <span className="w-4 text-gray-500">{index + 1}.</span>
+                          <span className="flex-1 truncate font-medium">
+                            {viewsById.get(slide.viewId)?.name ?? <span className="text-gray-400">Deleted view</span>}
+                          </span>
+                          <button
+                            onClick={() => saveStoryboard(moveStoryboardSlide(selectedStoryboard, index, -1))}
+                            disabled={index === 0}
+                            className="hover:text-blue-600 disabled:text-gray-300"
+                            title="Move up"
+                          >
+                            <ArrowUp className="h-3 w-3" />
+                          </button>
+                          <button
+                            onClick={() => saveStoryboard(moveStoryboardSlide(selectedStoryboard, index, 1))}
+                            disabled={index === selectedStoryboard.slides.length - 1}
+                            className="hover:text-blue-600 disabled:text-gray-300"
+                            title="Move down"
+                          >
+                            <ArrowDown className="h-3 w-3" />
+                          </button>
+                          <button
+                            onClick={() => saveStoryboard({
+                              ...selectedStoryboard,
+                              slides: selectedStoryboard.slides.filter((_, i) => i !== index),
+                            })}
+                            className="hover:text-red-500"
+                            title="Remove slide"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </div>
+                        <input
+                          type="text"
+                          value={captions[index] ?? slide.caption}
+                          onChange={(e) => setCaptions({ ...captions, [index]: e.target.value })}
+                          onBlur={() => saveCaption(index)}
+                          placeholder="Caption (optional)"
+                          className="w-full px-2 py-0.5 border border-gray-200 rounded placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { getStoryboardSlides, type SavedView, type Storyboard } from '@/lib/saved-views'
+import { AlertTriangle, ChevronLeft, ChevronRight, X } from 'lucide-react'
+
+interface StoryboardPlayerProps {
+  storyboard: Storyboard
+  views: SavedView[]
+  onApplyView: (view: SavedView) => string[] // Returns what the loaded dataset is missing
+  onExit: () => void
+}
+
+/**
+ * Slide-by-slide playback of a storyboard
+ * Each slide applies its view to the dashboard; arrow keys move between slides and Escape exits
+ */
+export function StoryboardPlayer({ storyboard, views, onApplyView, onExit }: StoryboardPlayerProps) {
+  const slides = useMemo(() => getStoryboardSlides(storyboard, views), [storyboard, views])
+  const [index, setIndex] = useState(0)
+  const [missing, setMissing] = useState<string[]>([])
+  const current = slides[index]
+
+  // Latest callback kept in a ref so a view is applied only when the slide changes
+  const applyViewRef = useRef(onApplyView)
+  useEffect(() => {
+    applyViewRef.current = onApplyView
+  }, [onApplyView])
+
+  useEffect(() => {
+    if (current) setMissing(applyViewRef.current(current.view))
+  }, [current])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return
+      if (e.key === 'ArrowRight' || e.key === 'PageDown') {
+        setIndex(i => Math.min(i + 1, slides.length - 1))
+      } else if (e.key === 'ArrowLeft' || e.key === 'PageUp') {
+        setIndex(i => Math.max(i - 1, 0))
+      } else if (e.key === 'Escape') {
+        onExit()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [slides.length, onExit])
+
+  if (!current) return null
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[min(48rem,calc(100vw-2rem))] bg-gray-900 text-white rounded-lg shadow-2xl">
+      <div className="flex items-center gap-3 px-4 py-3">
+        <button
+          onClick={() => setIndex(i => Math.max(i - 1, 0))}
+          disabled={index === 0}
+          className="p-1 rounded hover:bg-gray-700 disabled:opacity-30"
+          title="Previous slide (←)"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-gray-400 truncate">
+            {storyboard.name} · Slide {index + 1} of {slides.length}
+          </p>
+          <p className="font-semibold truncate">{current.view.name}</p>
+          {current.slide.caption && <p className="text-sm text-gray-200">{current.slide.caption}</p>}
+          {missing.length > 0 && (
+            <p className="flex items-center gap-1 text-xs text-orange-300" title={missing.join(', ')}>
+              <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate">Not in this dataset: {missing.join(', ')}</span>
+            </p>
+          )}
+        </div>
+        <button
+          onClick={() => setIndex(i => Math.min(i + 1, slides.length - 1))}
+          disabled={index === slides.length - 1}
+          className="p-1 rounded hover:bg-gray-700 disabled:opacity-30"
+          title="Next slide (→)"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+        <button onClick={onExit} className="p-1 rounded hover:bg-gray-700" title="Exit (Esc)">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,340 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import type { ComparisonData } from '@/lib/types'
+import {
+  alignColumnMapping,
+  processTabularData,
+  readTabularFile,
+  suggestColumnMapping,
+  TABULAR_FILE_ACCEPT,
+  parseYearHeader,
+  type TabularColumnMapping,
+  type TabularSheet
+} from '@/lib/tabular-import'
+import { describeUploadedFiles, withDatasetSource } from '@/lib/dataset-bundle'
+import { FileSpreadsheet, Loader2, Plus, Upload, X } from 'lucide-react'
+
+interface TabularImporterProps {
+  isProcessing: boolean
+  onProcessingChange: (processing: boolean) => void
+  onLoaded: (data: ComparisonData, warnings: string[]) => void
+  onError: (message: string) => void
+}
+
+interface LoadedWorkbook {
+  file: File
+  sheets: TabularSheet[]
+  sheetIndex: number
+}
+
+const selectClassName =
+  'w-full px-2 py-1 text-xs text-black border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+/**
+ * CSV/XLSX import with a column-mapping step
+ * The mapping is made against the value sheet and applied to the volume sheet by header name
+ */
+export function TabularImporter({ isProcessing, onProcessingChange, onLoaded, onError }: TabularImporterProps) {
+  const [valueWorkbook, setValueWorkbook] = useState<LoadedWorkbook | null>(null)
+  const [volumeWorkbook, setVolumeWorkbook] = useState<LoadedWorkbook | null>(null)
+  const [mapping, setMapping] = useState<TabularColumnMapping | null>(null)
+  const [baseYear, setBaseYear] = useState<number | null>(null)
+  const [warnings, setWarnings] = useState<string[]>([])
+  const valueInputRef = useRef<HTMLInputElement>(null)
+  const volumeInputRef = useRef<HTMLInputElement>(null)
+
+  const valueSheet = valueWorkbook ? valueWorkbook.sheets[valueWorkbook.sheetIndex] : null
+  const volumeSheet = volumeWorkbook ? volumeWorkbook.sheets[volumeWorkbook.sheetIndex] : null
+
+  const loadFile = async (file: File | undefined, role: 'value' | 'volume') => {
+    if (!file) return
+    try {
+      const sheets = await readTabularFile(file)
+      if (sheets.length === 0) {
+        throw new Error(`${file.name} has no data`)
+      }
+      const workbook = { file, sheets, sheetIndex: 0 }
+      if (role === 'value') {
+        setValueWorkbook(workbook)
+        setMapping(suggestColumnMapping(sheets[0].headers))
+        setBaseYear(null)
+      } else {
+        setVolumeWorkbook(workbook)
+      }
+      setWarnings([])
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to read file')
+    }
+  }
+
+  const selectValueSheet = (sheetIndex: number) => {
+    if (!valueWorkbook) return
+    setValueWorkbook({ ...valueWorkbook, sheetIndex })
+    setMapping(suggestColumnMapping(valueWorkbook.sheets[sheetIndex].headers))
+    setBaseYear(null)
+  }
+
+  const updateMapping = (changes: Partial<TabularColumnMapping>) => {
+    if (mapping) setMapping({ ...mapping, ...changes })
+  }
+
+  const toggleYearColumn = (column: number, year: number) => {
+    if (!mapping) return
+    const selected = mapping.years.some(entry => entry.column === column)
+    updateMapping({
+      years: selected
+        ? mapping.years.filter(entry => entry.column !== column)
+        : [...mapping.years, { column, year }].sort((a, b) => a.year - b.year),
+    })
+  }
+
+  const handleImport = async () => {
+    if (!valueWorkbook || !valueSheet || !mapping) return
+    try {
+      onProcessingChange(true)
+      setWarnings([])
+      const volume = volumeSheet
+        ? { sheet: volumeSheet, mapping: alignColumnMapping(mapping, valueSheet.headers, volumeSheet.headers) }
+        : null
+      const yearConfig = baseYear !== null ? { base_year: baseYear } : null
+      const result = await processTabularData({ sheet: valueSheet, mapping }, volume, yearConfig)
+      const sourceFiles = await describeUploadedFiles({ value: valueWorkbook.file, volume: volumeWorkbook?.file })
+      setWarnings(result.warnings)
+      onLoaded(withDatasetSource(result.data, sourceFiles, yearConfig), result.warnings)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      onProcessingChange(false)
+    }
+  }
+
+  const columnSelect = (
+    value: number | null,
+    onChange: (column: number | null) => void,
+    noneLabel?: string
+  ) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+      className={selectClassName}
+      disabled={isProcessing}
+    >
+      {noneLabel && <option value="">{noneLabel}</option>}
+      {!noneLabel && value === null && <option value="">Select column</option>}
+      {valueSheet?.headers.map((header, column) => (
+        <option key={column} value={column}>{header}</option>
+      ))}
+    </select>
+  )
+
+  const yearCandidates = valueSheet
+    ? valueSheet.headers
+        .map((header, column) => ({ column, header, year: parseYearHeader(header) }))
+        .filter((entry): entry is { column: number; header: string; year: number } => entry.year !== null)
+    : []
+
+  const fileRow = (
+    role: 'value' | 'volume',
+    workbook: LoadedWorkbook | null,
+    inputRef: React.RefObject<HTMLInputElement | null>
+  ) => (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-xs text-black">
+        <FileSpreadsheet className={`h-3 w-3 flex-shrink-0 ${workbook ? 'text-blue-500' : 'text-gray-300'}`} />
+        <span className="font-medium capitalize w-14">
+          {role}{role === 'value' && <span className="text-red-500"> *</span>}
+        </span>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isProcessing}
+          className="truncate flex-1 text-left hover:text-blue-600"
+          title={workbook?.file.name}
+        >
+          {workbook ? workbook.file.name : <span className="text-gray-400">Choose CSV or XLSX...</span>}
+        </button>
+        {workbook && !isProcessing && (
+          <button
+            onClick={() => {
+              if (role === 'value') {
+                setValueWorkbook(null)
+                setMapping(null)
+              } else {
+                setVolumeWorkbook(null)
+              }
+            }}
+            className="hover:text-red-500"
+            title="Remove file"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={TABULAR_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            loadFile(e.target.files?.[0], role)
+            e.target.value = ''
+          }}
+          disabled={isProcessing}
+        />
+      </div>
+      {workbook && workbook.sheets.length > 1 && (
+        <select
+          value={workbook.sheetIndex}
+          onChange={(e) => {
+            const sheetIndex = Number(e.target.value)
+            if (role === 'value') {
+              selectValueSheet(sheetIndex)
+            } else {
+              setVolumeWorkbook({ ...workbook, sheetIndex })
+            }
+          }}
+          className={selectClassName}
+          disabled={isProcessing}
+        >
+          {workbook.sheets.map((sheet, index) => (
+            <option key={sheet.name} value={index}>{sheet.name} ({sheet.rows.length} rows)</option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+
+  return (
+    <>
+      <div className="space-y-2">
+        {fileRow('value', valueWorkbook, valueInputRef)}
+        {fileRow('volume', volumeWorkbook, volumeInputRef)}
+      </div>
+
+      {valueSheet && mapping && (
+        <div className="space-y-2 p-2 bg-gray-50 rounded-md text-xs text-black">
+          <p className="font-semibold">Column mapping</p>
+
+          <div>
+            <label className="block font-medium mb-1">Geography <span className="text-red-500">*</span></label>
+            {columnSelect(mapping.geography, column => updateMapping({ geography: column }))}
+          </div>
+
+          <div>
+            <label className="block font-medium mb-1">Segment type</label>
+            {columnSelect(mapping.segmentType, column => updateMapping({ segmentType: column }), 'Single segment type')}
+            {mapping.segmentType === null && (
+              <input
+                type="text"
+                value={mapping.defaultSegmentType}
+                onChange={(e) => updateMapping({ defaultSegmentType: e.target.value })}
+                placeholder="By Segment"
+                className="mt-1 w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={isProcessing}
+              />
+            )}
+          </div>
+
+          <div>
+            <label className="block font-medium mb-1">Segment levels</label>
+            <div className="space-y-1">
+              {mapping.segmentLevels.map((column, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  <span className="w-12 text-gray-600">Level {index + 1}</span>
+                  {columnSelect(column, selected => {
+                    const segmentLevels = [...mapping.segmentLevels]
+                    if (selected === null) {
+                      segmentLevels.splice(index, 1)
+                    } else {
+                      segmentLevels[index] = selected
+                    }
+                    updateMapping({ segmentLevels })
+                  }, 'Remove level')}
+                </div>
+              ))}
+              <button
+                onClick={() => updateMapping({ segmentLevels: [...mapping.segmentLevels, 0] })}
+                disabled={isProcessing}
+                className="flex items-center gap-1 text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="h-3 w-3" />
+                Add level
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block font-medium mb-1">Year columns <span className="text-red-500">*</span></label>
+            {yearCandidates.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {yearCandidates.map(({ column, header, year }) => {
+                  const selected = mapping.years.some(entry => entry.column === column)
+                  return (
+                    <button
+                      key={column}
+                      onClick={() => toggleYearColumn(column, year)}
+                      disabled={isProcessing}
+                      title={header}
+                      className={`px-1.5 py-0.5 rounded border ${
+                        selected ? 'bg-blue-600 text-white border-blue-600' : 'bg-white border-gray-300 hover:border-blue-400'
+                      }`}
+                    >
+                      {year}
+                    </button>
+                  )
+                })}
+              </div>
+            ) : (
+              <p className="text-red-600">No year columns detected. Headers must be years such as 2024, FY2024 or 2025E.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block font-medium mb-1">CAGR</label>
+            {columnSelect(mapping.cagr, column => updateMapping({ cagr: column }), 'Not provided')}
+          </div>
+
+          <div>
+            <label className="block font-medium mb-1">Base year</label>
+            <select
+              value={baseYear ?? ''}
+              onChange={(e) => setBaseYear(e.target.value === '' ? null : Number(e.target.value))}
+              className={selectClassName}
+              disabled={isProcessing}
+            >
+              <option value="">Auto</option>
+              {mapping.years.map(({ year }) => (
+                <option key={year} value={year}>{year}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={handleImport}
+        disabled={isProcessing || !valueSheet || !mapping || mapping.geography === null || mapping.years.length === 0}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+      >
+        {isProcessing ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Processing...
+          </>
+        ) : (
+          <>
+            <Upload className="h-4 w-4" />
+            Import Table
+          </>
+        )}
+      </button>
+
+      {warnings.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto p-2 bg-orange-50 text-orange-700 rounded-md text-xs space-y-0.5">
+          {warnings.map((warning, index) => (
+            <li key={index}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,107 @@
+'use client'
+
+import { useState } from 'react'
+import type { ValidationCheckId, ValidationReport } from '@/lib/data-validator'
+import { CheckCircle2, XCircle, AlertTriangle, Info, ChevronDown, ChevronRight, X } from 'lucide-react'
+
+interface ValidationReportPanelProps {
+  report: ValidationReport
+  onClose?: () => void
+}
+
+/**
+ * Displays a dataset validation report: overall status, per-check results and the issue list
+ */
+export function ValidationReportPanel({ report, onClose }: ValidationReportPanelProps) {
+  const [expandedCheck, setExpandedCheck] = useState<ValidationCheckId | null>(null)
+
+  const statusIcon = (status: 'pass' | 'warn' | 'fail') => {
+    if (status === 'pass') return <CheckCircle2 className="h-3 w-3 text-green-600 flex-shrink-0" />
+    if (status === 'warn') return <AlertTriangle className="h-3 w-3 text-orange-500 flex-shrink-0" />
+    return <XCircle className="h-3 w-3 text-red-600 flex-shrink-0" />
+  }
+
+  const severityIcon = (severity: 'error' | 'warning' | 'info') => {
+    if (severity === 'error') return <XCircle className="h-3 w-3 text-red-600 flex-shrink-0 mt-0.5" />
+    if (severity === 'warning') return <AlertTriangle className="h-3 w-3 text-orange-500 flex-shrink-0 mt-0.5" />
+    return <Info className="h-3 w-3 text-blue-500 flex-shrink-0 mt-0.5" />
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-md text-xs text-black">
+      <div
+        className={`flex items-center justify-between gap-2 px-2 py-1.5 rounded-t-md ${
+          report.valid ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}
+      >
+        <div className="flex items-center gap-1 font-semibold">
+          {report.valid ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+          {report.valid ? 'Ready to publish' : 'Validation failed'}
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="hover:text-black" title="Close report">
+            <X className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+
+      <div className="px-2 py-1.5 border-b border-gray-200 space-y-0.5">
+        <p>
+          {report.summary.errors} errors · {report.summary.warnings} warnings · {report.summary.info} notes
+        </p>
+        <p className="text-gray-600">
+          {report.summary.dataNodes.toLocaleString()} data nodes in {report.summary.geographies} geographies
+          {report.years.length > 0 && ` · ${report.years[0]}-${report.years[report.years.length - 1]}`}
+          {report.baseYear !== null && ` · base ${report.baseYear}`}
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {report.checks.map(check => {
+          const checkIssues = report.issues.filter(issue => issue.check === check.id)
+          const isExpanded = expandedCheck === check.id
+          return (
+            <li key={check.id}>
+              <button
+                onClick={() => setExpandedCheck(isExpanded ? null : check.id)}
+                disabled={check.issueCount === 0}
+                className="w-full flex items-center gap-1.5 px-2 py-1 text-left hover:bg-gray-50 disabled:hover:bg-transparent"
+              >
+                {check.issueCount > 0 ? (
+                  isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />
+                ) : (
+                  <span className="w-3" />
+                )}
+                {statusIcon(check.status)}
+                <span className="flex-1">{check.label}</span>
+                {check.issueCount > 0 && <span className="font-medium">{check.issueCount}</span>}
+              </button>
+              {isExpanded && (
+                <ul className="max-h-48 overflow-y-auto bg-gray-50 px-2 py-1 space-y-1">
+                  {checkIssues.map((issue, index) => (
+                    <li key={index} className="flex items-start gap-1">
+                      {severityIcon(issue.severity)}
+                      <div className="min-w-0">
+                        {issue.path && (
+                          <p className="text-gray-600 truncate" title={issue.path.join(' > ')}>
+                            {issue.file}: {issue.path.join(' > ')}
+                          </p>
+                        )}
+                        <p>{issue.message}</p>
+                      </div>
+                    </li>
+                  ))}
+                  {checkIssues.length < check.issueCount && (
+                    <li className="text-gray-600 italic">
+                      Showing first {checkIssues.length} of {check.issueCount} issues
+                    </li>
+                  )}
+                </ul>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useState } from 'react'
+import { FileImage, FileCode, Loader2 } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+import { downloadSvg, downloadSvgAsPng, getChartExportFileName } from '@/lib/svg-export'
+
+interface ChartExportButtonsProps {
+  chartName: string // Used in the file name, e.g. "grouped-bar"
+  buildSvg: () => Promise<string | null> | string | null
+}
+
+/**
+ * SVG / PNG download buttons shown in a chart header
+ */
+export function ChartExportButtons({ chartName, buildSvg }: ChartExportButtonsProps) {
+  const { data } = useDashboardStore()
+  const [exporting, setExporting] = useState<'svg' | 'png' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async (format: 'svg' | 'png') => {
+    setExporting(format)
+    setError(null)
+    try {
+      const svg = await buildSvg()
+      if (!svg) {
+        setError('Nothing to export')
+        return
+      }
+      const fileName = getChartExportFileName(data?.metadata.market_name || 'market', chartName)
+      if (format === 'svg') {
+        downloadSvg(svg, fileName)
+      } else {
+        await downloadSvgAsPng(svg, fileName)
+      }
+    } catch (err) {
+      console.error('Chart export failed:', err)
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-red-600">{error}</span>}
+      <button
+        onClick={() => handleExport('svg')}
+        disabled={exporting !== null}
+        className="flex items-center gap-1 px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 text-black disabled:opacity-50"
+        title="Download as vector SVG"
+      >
+        {exporting === 'svg' ? <Loader2 className="h-3 w-3 animate-spin" /> : <FileCode className="h-3 w-3" />}
+        SVG
+      </button>
+      <button
+        onClick={() => handleExport('png')}
+        disabled={exporting !== null}
+        className="flex items-center gap-1 px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 text-black disabled:opacity-50"
+        title="Download as high-resolution PNG"
+      >
+        {exporting === 'png' ? <Loader2 className="h-3 w-3 animate-spin" /> : <FileImage className="h-3 w-3" />}
+        PNG
+      </button>
+    </div>
+  )
+}
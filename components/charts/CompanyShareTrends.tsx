@@ -0,0 +1,216 @@
+'use client'
+
+import { useMemo } from 'react'
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+  type TooltipContentProps
+} from 'recharts'
+import { CHART_THEME, getHeatmapColor } from '@/lib/chart-theme'
+import { useDashboardStore } from '@/lib/store'
+import type { CompetitiveIntelligenceData } from '@/lib/competitive-intelligence-data'
+import {
+  getShareScope,
+  prepareRegionalShareData,
+  prepareShareShiftData,
+  prepareShareTrendData,
+  type ShareShiftPoint
+} from '@/lib/company-share-analysis'
+
+interface CompanyShareTrendsProps {
+  competitiveData: CompetitiveIntelligenceData
+  height?: number
+}
+
+const POSITIVE_COLOR = '#52B69A'
+const NEGATIVE_COLOR = '#D9ED92'
+
+const formatShare = (value: number) => `${value.toFixed(1)}%`
+const formatChange = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)} pp`
+
+/**
+ * Company share over time, share shift between two years and share by region,
+ * all for the geographies, segments and year range selected in the main filters
+ */
+export function CompanyShareTrends({ competitiveData, height = 360 }: CompanyShareTrendsProps) {
+  const { data, filters } = useDashboardStore()
+
+  const views = useMemo(() => {
+    if (!data) return null
+    return {
+      scope: getShareScope(data, filters),
+      trend: prepareShareTrendData(competitiveData, data, filters),
+      shift: prepareShareShiftData(competitiveData, data, filters),
+      regional: prepareRegionalShareData(competitiveData, data, filters)
+    }
+  }, [competitiveData, data, filters])
+
+  if (!data || !views) return null
+
+  const { scope, trend, shift, regional } = views
+  const [startYear, endYear] = filters.yearRange
+  const coveredYears = trend.points.length - trend.missingYears.length
+  const maxRegionalShare = Math.max(0, ...regional.rows.flatMap(row => row.shares.map(share => share ?? 0)))
+
+  const ShiftTooltip = ({ active, payload }: TooltipContentProps<number, string>) => {
+    if (!active || !payload.length) return null
+    const point = payload[0].payload as ShareShiftPoint
+    return (
+      <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg text-sm">
+        <p className="font-semibold text-black mb-2">{point.company}</p>
+        <div className="flex justify-between gap-4"><span className="text-black">{shift?.startYear}:</span><span className="text-black">{formatShare(point.startShare)}</span></div>
+        <div className="flex justify-between gap-4"><span className="text-black">{shift?.endYear}:</span><span className="text-black">{formatShare(point.endShare)}</span></div>
+        <div className="flex justify-between gap-4 mt-1 pt-1 border-t border-gray-200">
+          <span className="text-black">Change:</span>
+          <span className={`font-semibold ${point.change > 0 ? 'text-green-600' : 'text-red-600'}`}>{formatChange(point.change)}</span>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="text-lg font-semibold text-black">Company Share Trends</h3>
+        <p className="text-sm text-gray-600">{scope.label} · {startYear}–{endYear} · share of market value</p>
+      </div>
+
+      {/* Share trend lines */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h4 className="text-sm font-semibold text-black mb-4">Market Share by Year</h4>
+        {trend.companies.length === 0 ? (
+          <p className="text-sm text-black">
+            {competitiveData.metadata.market} has no company shares for this selection in {startYear}–{endYear}.
+          </p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={height}>
+              <LineChart data={trend.points} margin={{ top: 10, right: 30, left: 10, bottom: 10 }}>
+                <CartesianGrid {...CHART_THEME.grid} />
+                <XAxis dataKey="year" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} tickFormatter={(value: number) => `${value}%`} />
+                <Tooltip formatter={(value: number) => formatShare(value)} />
+                <Legend formatter={(value) => <span style={{ color: '#000000' }}>{value}</span>} />
+                {trend.companies.map(company => (
+                  <Line
+                    key={company.name}
+                    type="monotone"
+                    dataKey={company.name}
+                    stroke={company.color}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    activeDot={{ r: 5 }}
+                    connectNulls={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+            {trend.missingYears.length > 0 && (
+              <p className="text-xs text-gray-600 mt-2">
+                No share data for {trend.missingYears.join(', ')}{coveredYears === 1 ? ' — add yearly shares to see a trend' : ''}.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Share shift waterfall */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h4 className="text-sm font-semibold text-black mb-4">Share Shift {startYear} → {endYear}</h4>
+        {!shift ? (
+          <p className="text-sm text-black">
+            {startYear === endYear
+              ? 'Select a year range to compare two years.'
+              : `Share data is needed for both ${startYear} and ${endYear}.`}
+          </p>
+        ) : shift.points.length === 0 ? (
+          <p className="text-sm text-black">No company gained or lost share between {startYear} and {endYear}.</p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={height}>
+              <BarChart data={shift.points} margin={{ top: 10, right: 30, left: 10, bottom: 60 }}>
+                <CartesianGrid {...CHART_THEME.grid} />
+                <XAxis dataKey="company" angle={-35} textAnchor="end" height={90} interval={0} tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 12 }} tickFormatter={(value: number) => `${value} pp`} />
+                <Tooltip content={ShiftTooltip} />
+                <ReferenceLine y={0} stroke="#9ca3af" />
+                {/* Invisible base positions each floating bar */}
+                <Bar dataKey="base" stackId="shift" fill="transparent" stroke="none" />
+                <Bar dataKey="size" stackId="shift">
+                  {shift.points.map(point => (
+                    <Cell key={point.company} fill={point.type === 'positive' ? POSITIVE_COLOR : NEGATIVE_COLOR} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+            <div className="flex items-center justify-center gap-6 text-sm mt-2">
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded" style={{ backgroundColor: POSITIVE_COLOR }}></div>
+                <span className="text-black">Gained share</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded" style={{ backgroundColor: NEGATIVE_COLOR }}></div>
+                <span className="text-black">Lost share</span>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Regional share matrix */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h4 className="text-sm font-semibold text-black mb-4">Market Share by Region, {regional.year}</h4>
+        {regional.geographies.length === 0 || regional.rows.length === 0 ? (
+          <p className="text-sm text-black">No regional company shares for {regional.year}.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-black border-b border-gray-200">Company</th>
+                  {regional.geographies.map(geography => (
+                    <th key={geography} className="px-3 py-2 text-center text-xs font-semibold text-black border-b border-gray-200">
+                      {geography}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {regional.rows.map(row => (
+                  <tr key={row.company}>
+                    <td className="px-3 py-2 text-black border-b border-gray-100">
+                      <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: row.color }} />
+                      {row.company}
+                    </td>
+                    {row.shares.map((share, idx) => (
+                      <td
+                        key={regional.geographies[idx]}
+                        className={`px-3 py-2 text-center border-b border-gray-100 ${
+                          share !== null && maxRegionalShare > 0 && share / maxRegionalShare >= 0.6 ? 'text-white' : 'text-black'
+                        }`}
+                        style={share !== null ? { backgroundColor: getHeatmapColor(share, 0, maxRegionalShare) } : undefined}
+                      >
+                        {share !== null ? formatShare(share) : '—'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-600 mt-2">— means the file has no company shares for that region in {regional.year}.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
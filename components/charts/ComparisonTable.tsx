@@ -3,7 +3,7 @@
 import { useMemo, useState } from 'react'
 import { useDashboardStore } from '@/lib/store'
 import { filterData } from '@/lib/data-processor'
-import { ArrowUp, ArrowDown, Download } from 'lucide-react'
+import { ArrowUp, ArrowDown, Download, FileSpreadsheet, Loader2 } from 'lucide-react'
 
 interface ComparisonTableProps {
   title?: string
@@ -14,6 +14,7 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
   const { data, filters } = useDashboardStore()
   const [sortField, setSortField] = useState<string>('geography')
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc')
+  const [isExportingXlsx, setIsExportingXlsx] = useState(false)
 
   const tableData = useMemo(() => {
     if (!data) return []
@@ -113,6 +114,20 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
     a.click()
   }
 
+  // Full workbook of the filtered records (every year, summary, filters and metadata)
+  const exportToXLSX = async () => {
+    if (!data) return
+    setIsExportingXlsx(true)
+    try {
+      const { generateXLSXWorkbook } = await import('@/lib/xlsx-export')
+      await generateXLSXWorkbook(data, filters)
+    } catch (error) {
+      console.error('Failed to export Excel workbook:', error)
+    } finally {
+      setIsExportingXlsx(false)
+    }
+  }
+
   const renderSparkline = (values: number[]) => {
     if (values.length === 0) return null
     const max = Math.max(...values)
@@ -164,13 +179,23 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
             Year: {year} | Values in {valueUnit}
           </p>
         </div>
-        <button
-          onClick={exportToCSV}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-        >
-          <Download className="h-4 w-4" />
-          Export CSV
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={exportToCSV}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            Export CSV
+          </button>
+          <button
+            onClick={exportToXLSX}
+            disabled={isExportingXlsx}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors"
+          >
+            {isExportingXlsx ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileSpreadsheet className="h-4 w-4" />}
+            Export XLSX
+          </button>
+        </div>
       </div>
 
       <div className="overflow-auto border rounded-lg" style={{ maxHeight: height }}>
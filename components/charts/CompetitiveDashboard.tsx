@@ -1,29 +1,17 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { getCompanyComparison } from '@/lib/competitive-intelligence-data'
+import { useMemo } from 'react'
+import { getCompanyComparison, type CompetitiveIntelligenceData } from '@/lib/competitive-intelligence-data'
+import { getCompanyProfileHref } from '@/lib/company-profile'
 
-export function CompetitiveDashboard() {
-  const [comparisonData, setComparisonData] = useState<{
-    headers: string[];
-    rows: { label: string; values: (string | number)[] }[];
-  } | null>(null)
-
-  useEffect(() => {
-    async function loadData() {
-      const data = await getCompanyComparison()
-      setComparisonData(data)
-    }
-    loadData()
-  }, [])
+interface CompetitiveDashboardProps {
+  competitiveData: CompetitiveIntelligenceData
+}
 
-  if (!comparisonData) {
-    return (
-      <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
-        <p className="text-black">Loading competitive data...</p>
-      </div>
-    )
-  }
+export function CompetitiveDashboard({ competitiveData }: CompetitiveDashboardProps) {
+  const comparisonData = useMemo(() => getCompanyComparison(competitiveData), [competitiveData])
+  const { metadata } = competitiveData
+  const leader = competitiveData.companies.find(c => c.name !== 'Others')
 
   return (
     <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
@@ -31,12 +19,12 @@ export function CompetitiveDashboard() {
         <div className="flex items-center justify-between">
           <div>
             <p className="text-sm text-white/90">
-              Key Players Comparison - India Spices Market
+              Key Players Comparison - {metadata.market}
             </p>
           </div>
           <div className="text-right">
             <div className="text-xs text-white/70">Analysis Year</div>
-            <div className="text-lg font-bold text-white">2024</div>
+            <div className="text-lg font-bold text-white">{metadata.year ?? '—'}</div>
           </div>
         </div>
       </div>
@@ -49,14 +37,21 @@ export function CompetitiveDashboard() {
                 Company Name
               </th>
               {comparisonData.headers.map((header, idx) => (
-                <th 
-                  key={header} 
+                <th
+                  key={header}
                   className="px-4 py-3 text-center text-xs font-semibold text-black min-w-[150px] border-r border-gray-200"
                 >
                   <div className="flex flex-col items-center">
-                    <span className="text-[#168AAD] font-semibold">
+                    {/* Opens in a new tab: the dashboard reloads its default data on mount */}
+                    <a
+                      href={getCompanyProfileHref(comparisonData.ids[idx], metadata.market)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={`Open ${header} profile`}
+                      className="text-[#168AAD] font-semibold hover:underline"
+                    >
                       {header.length > 20 ? header.substring(0, 20) + '...' : header}
-                    </span>
+                    </a>
                   </div>
                 </th>
               ))}
@@ -69,12 +64,12 @@ export function CompetitiveDashboard() {
                   {row.label}
                 </td>
                 {row.values.map((value, colIdx) => (
-                  <td 
-                    key={`${row.label}-${colIdx}`} 
+                  <td
+                    key={`${row.label}-${colIdx}`}
                     className="px-4 py-3 text-sm text-black text-center border-r border-gray-200"
                   >
                     {/* Special formatting for certain rows */}
-                    {row.label === "Strategies/Recent Developments" ? (
+                    {row.label === "Strategies/Recent Developments" && value !== 'N/A' ? (
                       <div className="max-w-[200px] mx-auto">
                         <ul className="text-xs text-left space-y-1">
                           {String(value).split(', ').map((strategy, idx) => (
@@ -97,12 +92,12 @@ export function CompetitiveDashboard() {
                       <span className="font-semibold text-green-600">
                         {value}
                       </span>
-                    ) : row.label === "Regional Strength" ? (
+                    ) : row.label === "Regional Strength" && value !== 'N/A' ? (
                       <div className="text-xs">
                         <div className="inline-flex flex-wrap gap-1 justify-center">
                           {String(value).split(', ').map((region, idx) => (
-                            <span 
-                              key={idx} 
+                            <span
+                              key={idx}
                               className="px-2 py-1 bg-[#D9ED92] text-[#184E77] rounded text-xs font-medium"
                             >
                               {region}
@@ -125,12 +120,10 @@ export function CompetitiveDashboard() {
       <div className="bg-gray-50 px-6 py-4 border-t border-gray-200">
         <div className="flex items-center justify-between">
           <div className="text-sm text-black">
-            <span className="font-semibold">Market Leader:</span> {comparisonData.headers[0]} 
-            {comparisonData.rows.find(r => r.label.includes('Market Share'))?.values[0] && 
-              ` (${comparisonData.rows.find(r => r.label.includes('Market Share'))?.values[0]}% market share)`}
+            <span className="font-semibold">Market Leader:</span> {leader ? `${leader.name} (${leader.marketShare.toFixed(1)}% market share)` : '—'}
           </div>
           <div className="text-sm text-black">
-            <span className="font-semibold">Total Companies Analyzed:</span> {comparisonData.headers.length}
+            <span className="font-semibold">Total Companies Analyzed:</span> {metadata.total_companies}
           </div>
         </div>
       </div>
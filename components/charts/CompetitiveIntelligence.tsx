@@ -1,45 +1,57 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { CompanyShareTrends } from './CompanyShareTrends'
 import { CompetitiveDashboard } from './CompetitiveDashboard'
+import { MarketConcentration } from './MarketConcentration'
 import { MarketShareAnalysis } from './MarketShareAnalysis'
-import { loadCompetitiveIntelligenceData, calculateMarketConcentration } from '@/lib/competitive-intelligence-data'
+import {
+  COMPETITIVE_INTELLIGENCE_FILE,
+  loadCompetitiveIntelligence,
+  type CompetitiveIntelligenceResult
+} from '@/lib/competitive-intelligence-data'
+import { calculateConcentrationMetrics } from '@/lib/market-concentration'
+import { useDashboardStore } from '@/lib/store'
 
 interface CompetitiveIntelligenceProps {
   height?: number
 }
 
 export function CompetitiveIntelligence({ height = 600 }: CompetitiveIntelligenceProps) {
-  const [insights, setInsights] = useState<{
-    marketLeader: string
-    marketLeaderShare: number
-    concentration: string
-    totalCompanies: number
-  } | null>(null)
+  const { data: dashboardData } = useDashboardStore()
+  const marketName = dashboardData?.metadata.market_name
+  // Kept with its market so a previous market's result is never shown while the next one loads
+  const [loaded, setLoaded] = useState<{ market: string | undefined; result: CompetitiveIntelligenceResult } | null>(null)
+  const result = loaded && loaded.market === marketName ? loaded.result : null
 
   useEffect(() => {
-    async function loadInsights() {
-      const data = await loadCompetitiveIntelligenceData()
-      if (data && data.companies.length > 0) {
-        // Find market leader
-        const sorted = [...data.companies].sort((a, b) => b.marketShare - a.marketShare)
-        const leader = sorted[0]
-        
-        // Calculate concentration
-        const top3Share = sorted.slice(0, 3).reduce((sum, c) => sum + c.marketShare, 0)
-        const concentration = top3Share >= 75 ? 'Highly Concentrated' : 
-                             top3Share >= 50 ? 'Moderately Concentrated' : 'Competitive'
-        
-        setInsights({
-          marketLeader: leader.name,
-          marketLeaderShare: leader.marketShare,
-          concentration,
-          totalCompanies: data.companies.length
-        })
-      }
+    let cancelled = false
+    loadCompetitiveIntelligence(marketName).then(next => {
+      if (!cancelled) setLoaded({ market: marketName, result: next })
+    })
+    return () => { cancelled = true }
+  }, [marketName])
+
+  const competitiveData = result?.data ?? null
+  const warnings = result?.issues.filter(issue => issue.severity !== 'error') ?? []
+
+  const insights = useMemo(() => {
+    const companies = competitiveData?.companies.filter(c => c.name !== 'Others') ?? []
+    if (companies.length === 0) return null
+    // Companies arrive sorted by market share
+    const leader = companies[0]
+
+    const { concentration, hhi } = calculateConcentrationMetrics(companies.map(c => c.marketShare))
+
+    return {
+      marketLeader: leader.name,
+      marketLeaderShare: leader.marketShare,
+      concentration,
+      hhi,
+      totalCompanies: companies.length
     }
-    loadInsights()
-  }, [])
+  }, [competitiveData])
 
   return (
     <div className="w-full space-y-6">
@@ -52,7 +64,7 @@ export function CompetitiveIntelligence({ height = 600 }: CompetitiveIntelligenc
             </svg>
           </div>
           <div>
-            <h2 className="text-xl font-semibold text-black">Competitive Intelligence 2024</h2>
+            <h2 className="text-xl font-semibold text-black">Competitive Intelligence</h2>
             <p className="text-sm text-black mt-0.5">
               Market landscape analysis and competitive positioning
             </p>
@@ -60,51 +72,92 @@ export function CompetitiveIntelligence({ height = 600 }: CompetitiveIntelligenc
         </div>
       </div>
 
-      {/* Market Share Analysis Section */}
-      <div>
-        <h3 className="text-lg font-semibold text-black mb-4">
-          Company Market Share Analysis 2024
-        </h3>
-        <MarketShareAnalysis year={2024} />
-      </div>
-
-      {/* Competitive Dashboard Section */}
-      <div>
-        <CompetitiveDashboard />
-      </div>
-
-      {/* Key Insights */}
-      <div className="bg-gray-50 rounded-lg p-6 border border-gray-200">
-        <div className="grid md:grid-cols-3 gap-4">
-          <div className="bg-white rounded-lg p-4 border border-gray-200">
-            <div className="text-sm text-black mb-1">Market Concentration</div>
-            <div className="text-lg font-bold text-black">
-              {insights?.concentration || 'Loading...'}
-            </div>
-            <div className="text-xs text-black mt-1">
-              {insights ? `${insights.totalCompanies} companies analyzed` : 'Calculating...'}
+      {!result ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
+          <p className="text-black">Loading competitive data...</p>
+        </div>
+      ) : !competitiveData ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-8">
+          <p className="text-black font-medium">No competitive intelligence data for {marketName || 'this market'}</p>
+          <p className="text-sm text-gray-600 mt-1">{result.error}</p>
+          <p className="text-sm text-gray-600 mt-1">
+            Add a validated <code>{COMPETITIVE_INTELLIGENCE_FILE}</code> for this market to <code>public/data</code> to show company shares and profiles.
+          </p>
+          {result.issues.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm">
+              {result.issues.map((issue, idx) => (
+                <li key={idx} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}>
+                  {issue.company ? `${issue.company}: ` : ''}{issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <>
+          {warnings.length > 0 && (
+            <div className="flex gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              <ul className="space-y-1">
+                {warnings.map((issue, idx) => (
+                  <li key={idx}>{issue.company ? `${issue.company}: ` : ''}{issue.message}</li>
+                ))}
+              </ul>
             </div>
+          )}
+
+          {/* Market Share Analysis Section */}
+          <div>
+            <h3 className="text-lg font-semibold text-black mb-4">
+              Company Market Share Analysis{competitiveData.metadata.year ? ` ${competitiveData.metadata.year}` : ''}
+            </h3>
+            <MarketShareAnalysis competitiveData={competitiveData} />
           </div>
-          <div className="bg-white rounded-lg p-4 border border-gray-200">
-            <div className="text-sm text-black mb-1">Market Leader</div>
-            <div className="text-lg font-bold text-black">
-              {insights?.marketLeader || 'Loading...'}
-            </div>
-            <div className="text-xs text-black mt-1">
-              {insights ? `${insights.marketLeaderShare.toFixed(1)}% market share` : 'Calculating...'}
-            </div>
+
+          {/* Share by year and region, driven by the main filters */}
+          <CompanyShareTrends competitiveData={competitiveData} />
+
+          <MarketConcentration competitiveData={competitiveData} />
+
+          {/* Competitive Dashboard Section */}
+          <div>
+            <CompetitiveDashboard competitiveData={competitiveData} />
           </div>
-          <div className="bg-white rounded-lg p-4 border border-gray-200">
-            <div className="text-sm text-black mb-1">Total Companies</div>
-            <div className="text-lg font-bold text-black">
-              {insights?.totalCompanies || 'Loading...'}
-            </div>
-            <div className="text-xs text-black mt-1">
-              Key players in India Spices Market
+
+          {/* Key Insights */}
+          <div className="bg-gray-50 rounded-lg p-6 border border-gray-200">
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="bg-white rounded-lg p-4 border border-gray-200">
+                <div className="text-sm text-black mb-1">Market Concentration</div>
+                <div className="text-lg font-bold text-black">
+                  {insights?.concentration || '—'}
+                </div>
+                <div className="text-xs text-black mt-1">
+                  {insights ? `HHI ${insights.hhi.toLocaleString()} · ${insights.totalCompanies} companies analyzed` : ''}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-4 border border-gray-200">
+                <div className="text-sm text-black mb-1">Market Leader</div>
+                <div className="text-lg font-bold text-black">
+                  {insights?.marketLeader || '—'}
+                </div>
+                <div className="text-xs text-black mt-1">
+                  {insights ? `${insights.marketLeaderShare.toFixed(1)}% market share` : ''}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-4 border border-gray-200">
+                <div className="text-sm text-black mb-1">Total Companies</div>
+                <div className="text-lg font-bold text-black">
+                  {insights?.totalCompanies ?? '—'}
+                </div>
+                <div className="text-xs text-black mt-1">
+                  Key players in {competitiveData.metadata.market}
+                </div>
+              </div>
             </div>
           </div>
-        </div>
-      </div>
+        </>
+      )}
     </div>
   )
 }
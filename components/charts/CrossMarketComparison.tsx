@@ -0,0 +1,327 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceArea,
+  ResponsiveContainer
+} from 'recharts'
+import { CHART_THEME, getChartColor } from '@/lib/chart-theme'
+import { useDashboardStore } from '@/lib/store'
+import { prepareCrossMarketData, calculatePeriodCAGR } from '@/lib/cross-market'
+import { getForecastArea } from '@/lib/data-processor'
+import { assignUploadedFiles, processUploadedJsonFiles, EMPTY_UPLOADED_FILES } from '@/lib/json-upload'
+import { Upload, Loader2, AlertTriangle } from 'lucide-react'
+
+interface CrossMarketComparisonProps {
+  title?: string
+  height?: number
+}
+
+export function CrossMarketComparison({ title, height = 400 }: CrossMarketComparisonProps) {
+  const { data, filters, markets, activeMarket, comparisonMarket, setComparisonMarket, addMarket } = useDashboardStore()
+  const [fxRate, setFxRate] = useState(1)
+  const [isUploading, setIsUploading] = useState(false)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const otherMarkets = useMemo(() => {
+    return Object.keys(markets).filter(name => name !== activeMarket)
+  }, [markets, activeMarket])
+
+  const secondary = comparisonMarket && comparisonMarket !== activeMarket
+    ? markets[comparisonMarket]?.data || null
+    : null
+
+  const comparison = useMemo(() => {
+    if (!data || !secondary) return null
+    return prepareCrossMarketData(data, secondary, filters, fxRate)
+  }, [data, secondary, filters, fxRate])
+
+  const handleUpload = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return
+    try {
+      setIsUploading(true)
+      setUploadError(null)
+      const files = assignUploadedFiles(Array.from(fileList), EMPTY_UPLOADED_FILES)
+      const uploaded = await processUploadedJsonFiles(files)
+      addMarket(uploaded)
+      setComparisonMarket(uploaded.metadata.market_name || 'Unknown Market')
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to load comparison market')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center h-96 bg-gray-50 rounded-lg">
+        <p className="text-black">No data to display</p>
+      </div>
+    )
+  }
+
+  const periodYears = filters.yearRange[1] - filters.yearRange[0]
+  // Shade the active market's forecast period
+  const forecastArea = comparison
+    ? getForecastArea(comparison.lineData.map(point => point.year), data.metadata.forecast_years)
+    : null
+  const unitLabel = comparison?.reconciliation.primaryLabel
+    || (filters.dataType === 'value' ? `${data.metadata.currency} ${data.metadata.value_unit}` : data.metadata.volume_unit)
+
+  // Segment names repeated at other hierarchy positions are labelled with their path
+  const rowLabelCounts = new Map<string, number>()
+  comparison?.rows.forEach(row => {
+    const label = `${row.geography} - ${row.segment}`
+    rowLabelCounts.set(label, (rowLabelCounts.get(label) || 0) + 1)
+  })
+  const cagrData = (comparison?.rows || []).map(row => ({
+    name: (rowLabelCounts.get(`${row.geography} - ${row.segment}`) || 0) > 1
+      ? `${row.geography} - ${row.segmentPath}`
+      : `${row.geography} - ${row.segment}`,
+    [data.metadata.market_name]: row.primary
+      ? calculatePeriodCAGR(row.primary.baseYear, row.primary.forecastYear, periodYears)
+      : null,
+    [secondary?.metadata.market_name || 'Comparison']: row.secondary
+      ? calculatePeriodCAGR(row.secondary.baseYear, row.secondary.forecastYear, periodYears)
+      : null,
+  }))
+
+  const formatValue = (value: number | null | undefined) =>
+    value === null || value === undefined
+      ? '—'
+      : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+  return (
+    <div className="w-full space-y-6">
+      {title && (
+        <h3 className="text-lg font-semibold text-black">{title}</h3>
+      )}
+
+      {/* Market selection */}
+      <div className="flex flex-wrap items-end gap-4 p-4 bg-gray-50 rounded-lg">
+        <div>
+          <p className="text-xs font-medium text-black mb-1">Primary market</p>
+          <p className="text-sm font-semibold text-black">{data.metadata.market_name}</p>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-black mb-1">Compare with</label>
+          <select
+            value={secondary ? comparisonMarket || '' : ''}
+            onChange={(e) => setComparisonMarket(e.target.value || null)}
+            className="px-2 py-1.5 text-sm text-black border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Select a market...</option>
+            {otherMarkets.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            Load second market
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleUpload(e.target.files)
+              e.target.value = ''
+            }}
+          />
+        </div>
+        {comparison && !comparison.reconciliation.sameCurrency && (
+          <div>
+            <label className="block text-xs font-medium text-black mb-1">
+              1 {secondary?.metadata.currency} = ? {data.metadata.currency}
+            </label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={fxRate}
+              onChange={(e) => setFxRate(parseFloat(e.target.value) || 0)}
+              className="w-28 px-2 py-1.5 text-sm text-black border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
+      </div>
+
+      {uploadError && (
+        <div className="flex items-center gap-2 text-sm p-2 rounded bg-red-50 text-red-700">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{uploadError}</span>
+        </div>
+      )}
+
+      {!comparison ? (
+        <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg">
+          <div className="text-center">
+            <p className="text-black">No comparison market selected</p>
+            <p className="text-sm text-black mt-1">
+              Load a second market file or pick one already loaded in the workspace
+            </p>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Unit reconciliation summary */}
+          <div className="text-xs text-black">
+            All values shown in <strong>{comparison.reconciliation.primaryLabel}</strong>.
+            {(!comparison.reconciliation.sameUnit || !comparison.reconciliation.sameCurrency) && (
+              <> {secondary?.metadata.market_name} converted from {comparison.reconciliation.secondaryLabel} (× {comparison.reconciliation.factor.toLocaleString()}).</>
+            )}
+            {comparison.secondaryRecordCount === 0 && (
+              <span className="ml-2 text-orange-600">
+                {secondary?.metadata.market_name} has no records matching the current geography/segment filters.
+              </span>
+            )}
+          </div>
+
+          {/* Time series overlay */}
+          <div>
+            <h4 className="text-sm font-semibold text-black mb-2">Time Series</h4>
+            <ResponsiveContainer width="100%" height={height}>
+              <LineChart data={comparison.lineData}>
+                <CartesianGrid {...CHART_THEME.grid} />
+                {forecastArea && (
+                  <ReferenceArea {...forecastArea} {...CHART_THEME.forecastArea} />
+                )}
+                <XAxis dataKey="year" tick={{ fontSize: 12 }} />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  label={{ value: unitLabel, angle: -90, position: 'insideLeft' }}
+                />
+                <Tooltip
+                  formatter={(value: number) => `${formatValue(value)} ${unitLabel}`}
+                />
+                <Legend
+                  {...CHART_THEME.legend}
+                  formatter={(value) => <span style={{ color: '#000000' }}>{value}</span>}
+                />
+                {comparison.primarySeries.map((seriesKey, index) => (
+                  <Line
+                    key={seriesKey}
+                    type="monotone"
+                    dataKey={seriesKey}
+                    stroke={getChartColor(index)}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    connectNulls={true}
+                  />
+                ))}
+                {comparison.secondarySeries.map((seriesKey, index) => (
+                  <Line
+                    key={seriesKey}
+                    type="monotone"
+                    dataKey={seriesKey}
+                    stroke={getChartColor(index)}
+                    strokeWidth={2}
+                    strokeDasharray="6 3"
+                    dot={{ r: 3 }}
+                    connectNulls={true}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-black text-center mt-1">
+              Solid lines: {data.metadata.market_name} · Dashed lines: {secondary?.metadata.market_name}
+            </p>
+          </div>
+
+          {/* CAGR comparison */}
+          <div>
+            <h4 className="text-sm font-semibold text-black mb-2">
+              CAGR {filters.yearRange[0]}–{filters.yearRange[1]} (%)
+            </h4>
+            <ResponsiveContainer width="100%" height={Math.max(200, height * 0.75)}>
+              <BarChart data={cagrData}>
+                <CartesianGrid {...CHART_THEME.grid} />
+                <XAxis dataKey="name" tick={{ fontSize: 11 }} interval={0} angle={-20} textAnchor="end" height={70} />
+                <YAxis tick={{ fontSize: 12 }} unit="%" />
+                <Tooltip formatter={(value: number) => `${formatValue(value)}%`} />
+                <Legend
+                  {...CHART_THEME.legend}
+                  formatter={(value) => <span style={{ color: '#000000' }}>{value}</span>}
+                />
+                <Bar dataKey={data.metadata.market_name} fill={getChartColor(0)} />
+                <Bar dataKey={secondary?.metadata.market_name || 'Comparison'} fill={getChartColor(3)} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Side-by-side table */}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-black">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold" rowSpan={2}>Geography</th>
+                  <th className="px-3 py-2 text-left font-semibold" rowSpan={2}>Segment</th>
+                  <th className="px-3 py-2 text-center font-semibold border-l border-gray-200" colSpan={3}>
+                    {data.metadata.market_name}
+                  </th>
+                  <th className="px-3 py-2 text-center font-semibold border-l border-gray-200" colSpan={3}>
+                    {secondary?.metadata.market_name}
+                  </th>
+                </tr>
+                <tr>
+                  {[0, 1].flatMap(side => [
+                    <th key={`${side}-value`} className="px-3 py-2 text-right font-medium border-l border-gray-200">
+                      {filters.yearRange[1]}
+                    </th>,
+                    <th key={`${side}-cagr`} className="px-3 py-2 text-right font-medium">CAGR</th>,
+                    <th key={`${side}-share`} className="px-3 py-2 text-right font-medium">Share</th>,
+                  ])}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {comparison.rows.map(row => (
+                  <tr key={row.key} className="hover:bg-gray-50">
+                    <td className="px-3 py-2">{row.geography}</td>
+                    <td className="px-3 py-2" title={row.segmentPath}>
+                      {row.segment}
+                      {row.segmentPath !== row.segment && (
+                        <div className="text-xs text-gray-500">{row.segmentPath}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right border-l border-gray-200">{formatValue(row.primary?.forecastYear)}</td>
+                    <td className="px-3 py-2 text-right">
+                      {row.primary ? `${formatValue(calculatePeriodCAGR(row.primary.baseYear, row.primary.forecastYear, periodYears))}%` : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {row.primaryShare !== null ? `${formatValue(row.primaryShare)}%` : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right border-l border-gray-200">{formatValue(row.secondary?.forecastYear)}</td>
+                    <td className="px-3 py-2 text-right">
+                      {row.secondary ? `${formatValue(calculatePeriodCAGR(row.secondary.baseYear, row.secondary.forecastYear, periodYears))}%` : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {row.secondaryShare !== null ? `${formatValue(row.secondaryShare)}%` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
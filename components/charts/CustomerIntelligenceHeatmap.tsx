@@ -1,13 +1,19 @@
 'use client'
 
 import { useMemo, useState, useCallback, useRef, useEffect } from 'react'
+import { AlertTriangle, Loader2, Upload } from 'lucide-react'
 import { useDashboardStore } from '@/lib/store'
-import { 
-  generateCustomerIntelligenceData, 
+import {
+  CUSTOMER_FILE_ACCEPT,
+  CUSTOMER_INTELLIGENCE_FILES,
+  getCustomerSegmentTypes,
   getCustomersForCell,
-  getCustomerCountForCell,
-  type CustomerIntelligenceData,
-  type Customer
+  getHeatmapRegions,
+  importCustomerFile,
+  loadCustomerIntelligence,
+  prepareCustomerHeatmap,
+  type Customer,
+  type CustomerIntelligenceResult
 } from '@/lib/customer-intelligence-data'
 
 interface CustomerIntelligenceHeatmapProps {
@@ -23,6 +29,8 @@ interface CustomerDetailModalProps {
   industryCategory: string
 }
 
+const segmentTypeLabel = (segmentType: string | null) => segmentType ? segmentType.replace(/^By /, '') : 'Segment'
+
 function CustomerDetailModal({ isOpen, onClose, customers, region, industryCategory }: CustomerDetailModalProps) {
   if (!isOpen) return null
 
@@ -56,12 +64,27 @@ function CustomerDetailModal({ isOpen, onClose, customers, region, industryCateg
                 className="p-4 border border-gray-200 rounded-lg hover:shadow-md transition-shadow"
               >
                 <div className="flex items-start justify-between">
-                  <div className="flex-1">
+                  <div className="flex-1 min-w-0">
                     <h3 className="font-medium text-black">{customer.name}</h3>
-                    <p className="text-sm text-black mt-1">{customer.region}</p>
+                    <p className="text-sm text-black mt-1">{customer.geography}</p>
                     <span className="inline-block mt-2 px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded">
-                      {customer.endUserSegment}
+                      {customer.segment}
                     </span>
+                    {customer.customerType && (
+                      <span className="inline-block mt-2 ml-1 px-2 py-1 text-xs bg-gray-100 text-black rounded">
+                        {customer.customerType}
+                      </span>
+                    )}
+                    {customer.website && (
+                      <a
+                        href={/^https?:\/\//i.test(customer.website) ? customer.website : `https://${customer.website}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block mt-2 text-xs text-blue-600 hover:underline truncate"
+                      >
+                        {customer.website}
+                      </a>
+                    )}
                   </div>
                 </div>
               </div>
@@ -84,8 +107,17 @@ function CustomerDetailModal({ isOpen, onClose, customers, region, industryCateg
 }
 
 export function CustomerIntelligenceHeatmap({ title, height = 600 }: CustomerIntelligenceHeatmapProps) {
-  const { data } = useDashboardStore()
-  const [hoveredCell, setHoveredCell] = useState<{ 
+  const { data, filters } = useDashboardStore()
+  const marketName = data?.metadata.market_name
+  // Kept with their market so a previous market's list or import error is never shown for the next one
+  const [loaded, setLoaded] = useState<{ market: string | undefined; result: CustomerIntelligenceResult } | null>(null)
+  const result = loaded && loaded.market === marketName ? loaded.result : null
+  const [chosenSegmentType, setChosenSegmentType] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importFailure, setImportFailure] = useState<{ market: string | undefined; message: string } | null>(null)
+  const importError = importFailure && importFailure.market === marketName ? importFailure.message : null
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [hoveredCell, setHoveredCell] = useState<{
     region: string
     endUserSegment: string
     count: number
@@ -100,43 +132,42 @@ export function CustomerIntelligenceHeatmap({ title, height = 600 }: CustomerInt
   const [isTooltipHovered, setIsTooltipHovered] = useState(false)
   const closeTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
-  // Generate customer intelligence data (memoized)
-  const customerData = useMemo(() => {
-    return generateCustomerIntelligenceData()
-  }, [])
+  useEffect(() => {
+    let cancelled = false
+    loadCustomerIntelligence(marketName).then(next => {
+      if (!cancelled) setLoaded({ market: marketName, result: next })
+    })
+    return () => { cancelled = true }
+  }, [marketName])
 
-  // Get regions and industry categories from data
-  const { regions, endUserSegments } = useMemo(() => {
-    if (!data) {
-      return { regions: [], endUserSegments: [] }
-    }
+  const customerData = result?.data ?? null
+  const warnings = result?.issues.filter(issue => issue.severity !== 'error') ?? []
 
-    // Get regions from dimensions
-    const allRegions = data.dimensions.geographies.regions || []
-    
-    // Get end user segments from dimensions and add Retail Pharmacy
-    const endUserDimension = data.dimensions.segments['By End User']
-    const segments = endUserDimension?.items || []
-    
-    // Ensure we have all 4 industry categories (add Retail Pharmacy if not present)
-    const allSegments = [...segments]
-    if (!allSegments.includes('Retail Pharmacy')) {
-      allSegments.push('Retail Pharmacy')
-    }
+  // Segment types of the loaded market that the customer list can be placed in
+  const segmentTypes = useMemo(
+    () => data && customerData ? getCustomerSegmentTypes(customerData, data) : [],
+    [data, customerData]
+  )
+  const availableTypes = segmentTypes.map(entry => entry.segmentType)
+  const segmentType = chosenSegmentType && availableTypes.includes(chosenSegmentType)
+    ? chosenSegmentType
+    : availableTypes.includes(filters.segmentType) ? filters.segmentType : availableTypes[0] ?? null
 
-    return {
-      regions: allRegions,
-      endUserSegments: allSegments
-    }
-  }, [data])
+  const heatmap = useMemo(
+    () => data && customerData && segmentType ? prepareCustomerHeatmap(customerData, data, segmentType) : null,
+    [data, customerData, segmentType]
+  )
+  const regions = heatmap?.regions ?? []
+  const endUserSegments = heatmap?.segments ?? []
+  const maxCount = heatmap?.maxCount ?? 0
 
   // Calculate color intensity based on customer count using palette colors
   const getColor = useCallback((count: number, maxCount: number) => {
     if (count === 0) return 'bg-gray-50'
     if (maxCount === 0) return 'bg-[#52B69A]'
-    
+
     const intensity = (count / maxCount) * 100
-    
+
     if (intensity < 20) return 'bg-[#D9ED92]'  // Yellow Green
     if (intensity < 40) return 'bg-[#B5E48C]'  // Light Lime
     if (intensity < 60) return 'bg-[#52B69A]'  // Teal
@@ -144,23 +175,31 @@ export function CustomerIntelligenceHeatmap({ title, height = 600 }: CustomerInt
     return 'bg-[#1A759F]'  // Blue Teal
   }, [])
 
-  // Get max count for color scaling
-  const maxCount = useMemo(() => {
-    let max = 0
-    endUserSegments.forEach(segment => {
-    regions.forEach(region => {
-        const count = getCustomerCountForCell(customerData, region, segment)
-        max = Math.max(max, count)
+  // Import a customer list for this market (replaces the loaded file for the session)
+  const handleImport = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    setIsImporting(true)
+    setImportFailure(null)
+    const imported = await importCustomerFile(file, marketName)
+    setIsImporting(false)
+    if (imported.data) {
+      setLoaded({ market: marketName, result: imported })
+    } else {
+      setImportFailure({
+        market: marketName,
+        message: [imported.error, ...imported.issues.map(issue => issue.message)].filter(Boolean).join(' · ')
       })
-    })
-    return max
-  }, [regions, endUserSegments, customerData])
+    }
+  }, [marketName])
 
   // Handle cell click
   const handleCellClick = useCallback((region: string, endUserSegment: string) => {
-    const customers = getCustomersForCell(customerData, region, endUserSegment)
+    if (!heatmap) return
+    const customers = getCustomersForCell(heatmap, region, endUserSegment)
     setSelectedCell({ region, endUserSegment, customers })
-  }, [customerData])
+  }, [heatmap])
 
   // Clear timeout when component unmounts
   useEffect(() => {
@@ -177,7 +216,7 @@ export function CustomerIntelligenceHeatmap({ title, height = 600 }: CustomerInt
     if (closeTimeoutRef.current) {
       clearTimeout(closeTimeoutRef.current)
     }
-    
+
     // Only close if tooltip is not being hovered
     closeTimeoutRef.current = setTimeout(() => {
       if (!isTooltipHovered) {
@@ -204,14 +243,83 @@ export function CustomerIntelligenceHeatmap({ title, height = 600 }: CustomerInt
     }, 150)
   }, [])
 
-  if (!data || regions.length === 0 || endUserSegments.length === 0) {
+  const header = (
+    <div className="mb-3 flex flex-wrap items-start justify-between gap-2">
+      <div>
+        <h3 className="text-base font-semibold text-black">
+          {title || 'Customer Intelligence - Industry Category × Region'}
+        </h3>
+        <p className="text-xs text-black mt-0.5">
+          Number of customers by {segmentTypeLabel(segmentType)} and Region
+          {customerData?.metadata.source ? ` · Source: ${customerData.metadata.source}` : ''}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        {segmentTypes.length > 1 && (
+          <select
+            value={segmentType ?? ''}
+            onChange={(e) => setChosenSegmentType(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs text-black bg-white"
+          >
+            {segmentTypes.map(entry => (
+              <option key={entry.segmentType} value={entry.segmentType}>
+                {entry.segmentType} ({entry.matchedCount})
+              </option>
+            ))}
+          </select>
+        )}
+        <input ref={fileInputRef} type="file" accept={CUSTOMER_FILE_ACCEPT} onChange={handleImport} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting || !data}
+          className="flex items-center gap-1 px-3 py-1 text-xs border border-gray-300 rounded-md text-black hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isImporting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Upload className="h-3 w-3" />}
+          Import Customers
+        </button>
+      </div>
+    </div>
+  )
+
+  const importErrorBox = importError && (
+    <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{importError}</div>
+  )
+
+  if (!data || !result) {
+    return (
+      <div className="w-full">
+        {header}
+        <div className="flex items-center justify-center h-96 bg-gray-50 rounded-lg">
+          <p className="text-black">Loading customer data...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!customerData || !heatmap || regions.length === 0 || endUserSegments.length === 0) {
     return (
-      <div className="flex items-center justify-center h-96 bg-gray-50 rounded-lg">
-        <div className="text-center">
-          <p className="text-black">No data to display</p>
-          <p className="text-sm text-black mt-1">
-            Customer intelligence data is being loaded...
+      <div className="w-full">
+        {header}
+        {importErrorBox}
+        <div className="bg-gray-50 rounded-lg border border-gray-200 p-8">
+          <p className="text-black font-medium">No customer data for {marketName || 'this market'}</p>
+          <p className="text-sm text-gray-600 mt-1">
+            {result.error ?? (getHeatmapRegions(data).length === 0
+              ? 'The loaded market has no regions to place customers in.'
+              : 'No customer in the file matches a region and segment of the loaded market.')}
+          </p>
+          <p className="text-sm text-gray-600 mt-1">
+            Add <code>{CUSTOMER_INTELLIGENCE_FILES[0]}</code> or <code>{CUSTOMER_INTELLIGENCE_FILES[1]}</code> to <code>public/data</code>, or import a JSON, CSV or XLSX customer list.
           </p>
+          {result.issues.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm">
+              {result.issues.map((issue, idx) => (
+                <li key={idx} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}>
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
     )
@@ -219,21 +327,23 @@ export function CustomerIntelligenceHeatmap({ title, height = 600 }: CustomerInt
 
   return (
     <div className="w-full">
-      <div className="mb-3">
-        <h3 className="text-base font-semibold text-black">
-          {title || 'Customer Intelligence - Industry Category × Region'}
-        </h3>
-        <p className="text-xs text-black mt-0.5">
-          Number of customers by Industry Category and Region
-        </p>
-      </div>
+      {header}
+      {importErrorBox}
+      {warnings.length > 0 && (
+        <div className="mb-3 flex gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+          <ul className="space-y-1">
+            {warnings.map((issue, idx) => <li key={idx}>{issue.message}</li>)}
+          </ul>
+        </div>
+      )}
 
       <div className="overflow-auto" style={{ maxHeight: height }}>
         <div className="inline-block min-w-full">
           {/* Header row with Regions */}
           <div className="flex">
             <div className="w-32 p-2 bg-gray-100 border border-gray-300 font-medium text-xs">
-              Industry Category \ Region
+              {segmentTypeLabel(segmentType)} \ Region
             </div>
             {regions.map(region => (
               <div
@@ -246,16 +356,15 @@ export function CustomerIntelligenceHeatmap({ title, height = 600 }: CustomerInt
             ))}
           </div>
 
-          {/* Data rows - Industry Categories */}
+          {/* Data rows - segments of the selected segment type */}
           {endUserSegments.map((endUserSegment) => (
             <div key={endUserSegment} className="flex">
               <div className="w-32 p-2 bg-gray-100 border border-gray-300 font-medium text-xs truncate" title={endUserSegment}>
                 {endUserSegment}
               </div>
               {regions.map((region) => {
-                const count = getCustomerCountForCell(customerData, region, endUserSegment)
-                const customers = getCustomersForCell(customerData, region, endUserSegment)
-                
+                const count = getCustomersForCell(heatmap, region, endUserSegment).length
+
                 return (
                   <div
                     key={`${region}-${endUserSegment}`}
@@ -289,7 +398,7 @@ export function CustomerIntelligenceHeatmap({ title, height = 600 }: CustomerInt
 
       {/* Custom Tooltip */}
       {hoveredCell && (() => {
-        const customers = getCustomersForCell(customerData, hoveredCell.region, hoveredCell.endUserSegment)
+        const customers = getCustomersForCell(heatmap, hoveredCell.region, hoveredCell.endUserSegment)
         const displayCustomers = customers.slice(0, 5)
         const hasMore = customers.length > 5
 
@@ -314,7 +423,7 @@ export function CustomerIntelligenceHeatmap({ title, height = 600 }: CustomerInt
                 <span className="text-sm font-medium text-black">{hoveredCell.region}</span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm text-black">Industry Category:</span>
+                <span className="text-sm text-black">{segmentTypeLabel(segmentType)}:</span>
                 <span className="text-sm font-medium text-black">{hoveredCell.endUserSegment}</span>
               </div>
               <div className="flex items-center justify-between">
@@ -394,7 +503,10 @@ export function CustomerIntelligenceHeatmap({ title, height = 600 }: CustomerInt
       </div>
 
       <div className="mt-2 text-center text-xs text-black">
-        Comparing {endUserSegments.length} industry categories &times; {regions.length} regions
+        Comparing {endUserSegments.length} segments &times; {regions.length} regions
+        {heatmap.unmatched.length > 0 && (
+          <> · {heatmap.unmatched.length.toLocaleString()} of {customerData.customers.length.toLocaleString()} customers are not in a region and {segmentTypeLabel(segmentType)} segment of this market</>
+        )}
       </div>
     </div>
   )
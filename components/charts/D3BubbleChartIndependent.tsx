@@ -11,6 +11,8 @@ import { CascadeFilter } from '@/components/filters/CascadeFilter'
 import { BusinessTypeFilter } from '@/components/filters/BusinessTypeFilter'
 import { Layers, ChevronDown, X, Tag, Plus } from 'lucide-react'
 import type { DataRecord } from '@/lib/types'
+import { buildChartSvg } from '@/lib/svg-export'
+import { ChartExportButtons } from './ChartExportButtons'
 
 // Wrapper components for opportunity matrix filters
 function OpportunityGeographyMultiSelect() {
@@ -222,13 +224,16 @@ interface SelectedSegmentItem {
 }
 
 export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartProps) {
-  const { data, filters, opportunityFilters, updateFilters, updateOpportunityFilters, selectedChartGroup } = useDashboardStore()
+  const {
+    data, filters, opportunityFilters, updateFilters, updateOpportunityFilters, selectedChartGroup,
+    chartSettings, updateChartSettings
+  } = useDashboardStore()
   const svgRef = useRef<SVGSVGElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const [dimensions, setDimensions] = useState({ width: 800, height })
   const [tooltipData, setTooltipData] = useState<BubbleDataPoint | null>(null)
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 })
-  const [maxBubbles, setMaxBubbles] = useState(50) // Slider for bubble count
+  const maxBubbles = chartSettings.bubbleMaxBubbles // Slider for bubble count (in the store so saved views keep it)
   
   // Use opportunity filters when in coherent-opportunity mode, otherwise use regular filters
   const isOpportunityMode = selectedChartGroup === 'coherent-opportunity'
@@ -497,10 +502,10 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     
     // Calculate total market value for market share calculation
     const leafRecords = filteredRecords.filter(record => record.is_aggregated === false)
-    let totalMarketValue2024 = 0
+    let totalBaseMarketValue = 0
     leafRecords.forEach(record => {
       const value = record.time_series[baseYear] || 0
-      totalMarketValue2024 += value
+      totalBaseMarketValue += value
     })
 
     // Calculate metrics for each segment group
@@ -509,7 +514,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       baseValue: number
       forecastValue: number
       cagr: number
-      marketShare2024: number
+      baseMarketShare: number
       absoluteGrowth: number
       index: number
     }> = []
@@ -531,7 +536,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       })
       
       // Calculate market share based on base year values
-      const marketShare2024 = totalMarketValue2024 > 0 ? (baseValue / totalMarketValue2024) * 100 : 0
+      const baseMarketShare = totalBaseMarketValue > 0 ? (baseValue / totalBaseMarketValue) * 100 : 0
       
       // Use CAGR from JSON if available (prefer aggregated records)
       let calculatedCAGR = 0
@@ -556,13 +561,13 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       
       const absoluteGrowth = forecastValue - baseValue
       
-      if (forecastValue > 0 && baseValue > 0 && !isNaN(marketShare2024) && !isNaN(calculatedCAGR)) {
+      if (forecastValue > 0 && baseValue > 0 && !isNaN(baseMarketShare) && !isNaN(calculatedCAGR)) {
         segmentData.push({
           segment,
           baseValue,
           forecastValue,
           cagr: Math.max(0, calculatedCAGR),
-          marketShare2024,
+          baseMarketShare,
           absoluteGrowth,
           index
         })
@@ -571,7 +576,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     
     // Find maximum values for index calculations
     const maxCAGR = Math.max(...segmentData.map(d => d.cagr))
-    const maxMarketShare2024 = Math.max(...segmentData.map(d => d.marketShare2024))
+    const maxBaseMarketShare = Math.max(...segmentData.map(d => d.baseMarketShare))
     const maxAbsoluteGrowth = Math.max(...segmentData.map(d => d.absoluteGrowth))
     
     // Debug: Log all segment data to understand the values
@@ -579,7 +584,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       segment: d.segment,
       baseValue: d.baseValue.toFixed(2),
       forecastValue: d.forecastValue.toFixed(2),
-      marketShare2024: d.marketShare2024.toFixed(2) + '%',
+      baseMarketShare: d.baseMarketShare.toFixed(2) + '%',
       absoluteGrowth: d.absoluteGrowth.toFixed(2),
       cagr: d.cagr.toFixed(2) + '%',
       growthMultiple: (d.forecastValue / d.baseValue).toFixed(2) + 'x'
@@ -587,16 +592,16 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     
     console.log('Max Values:', {
       maxCAGR: maxCAGR.toFixed(2) + '%',
-      maxMarketShare2024: maxMarketShare2024.toFixed(2) + '%',
+      maxBaseMarketShare: maxBaseMarketShare.toFixed(2) + '%',
       maxAbsoluteGrowth: maxAbsoluteGrowth.toFixed(2)
     })
     
     // Check correlation between market share and absolute growth
     const correlationCheck = segmentData.map(d => ({
       segment: d.segment,
-      shareRatio: (d.marketShare2024 / maxMarketShare2024).toFixed(3),
+      shareRatio: (d.baseMarketShare / maxBaseMarketShare).toFixed(3),
       growthRatio: (d.absoluteGrowth / maxAbsoluteGrowth).toFixed(3),
-      difference: Math.abs((d.marketShare2024 / maxMarketShare2024) - (d.absoluteGrowth / maxAbsoluteGrowth)).toFixed(4)
+      difference: Math.abs((d.baseMarketShare / maxBaseMarketShare) - (d.absoluteGrowth / maxAbsoluteGrowth)).toFixed(4)
     }))
     
     console.log('Correlation Check (Share vs Growth ratios):', correlationCheck)
@@ -608,12 +613,12 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       // Calculate indices (0-100 scale)
       // Cap all indices at 100 to ensure they never exceed the maximum
       const cagrIndex = maxCAGR > 0 ? Math.min(100, (data.cagr / maxCAGR) * 100) : 0
-      const marketShareIndex = maxMarketShare2024 > 0 ? Math.min(100, (data.marketShare2024 / maxMarketShare2024) * 100) : 0
+      const marketShareIndex = maxBaseMarketShare > 0 ? Math.min(100, (data.baseMarketShare / maxBaseMarketShare) * 100) : 0
       const incrementalOpportunityIndex = maxAbsoluteGrowth > 0 ? Math.min(100, (data.absoluteGrowth / maxAbsoluteGrowth) * 100) : 0
       
       // Debug each segment's indices
       console.log(`Indices for ${data.segment}:`, {
-        marketShare: data.marketShare2024.toFixed(2),
+        marketShare: data.baseMarketShare.toFixed(2),
         marketShareIndex: marketShareIndex.toFixed(1),
         absoluteGrowth: data.absoluteGrowth.toFixed(2),
         incrementalOpportunityIndex: incrementalOpportunityIndex.toFixed(1),
@@ -632,7 +637,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
         segmentType: selectedSegmentType,
         currentValue: data.forecastValue,
         cagr: data.cagr,                    // Store actual CAGR for tooltip
-        marketShare: data.marketShare2024,   // Store actual market share for tooltip
+        marketShare: data.baseMarketShare,   // Store actual market share for tooltip
         absoluteGrowth: data.absoluteGrowth, // Store actual growth for tooltip
         color: getChartColor(data.index % 10),
         // Store index values separately
@@ -649,7 +654,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     const limitedBubbles = bubbles.slice(0, maxBubbles)
 
     const xLabel = 'CAGR Index'
-    const yLabel = 'Market Share Index (2024)'
+    const yLabel = `Market Share Index (${baseYear})`
 
     return { bubbles: limitedBubbles, xLabel, yLabel, totalBubbles: bubbles.length }
   }, [data, activeFilters, selectedGeography, selectedSegmentType, maxBubbles, isOpportunityMode])
@@ -853,9 +858,9 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       .style('font-size', '11px')
       .style('fill', '#000000')
       .style('font-style', 'italic')
-      .text(`Bubble size represents 2032 market size in ${selectedGeography} | All values projected to 2032`)
+      .text(`Bubble size represents ${activeFilters.yearRange[1]} market size in ${selectedGeography} | All values projected to ${activeFilters.yearRange[1]}`)
 
-  }, [chartData, dimensions, selectedGeography])
+  }, [chartData, dimensions, selectedGeography, activeFilters.yearRange])
 
   if (!data) {
     return (
@@ -871,11 +876,22 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     ? `${data.metadata.currency} ${data.metadata.value_unit}`
     : data.metadata.volume_unit
 
+  // Standalone SVG; the axis note is already drawn inside the chart, so only the legend is added
+  const buildExportSvg = () => {
+    if (!svgRef.current || chartData.bubbles.length === 0) return null
+    return buildChartSvg(svgRef.current, {
+      title: title || 'Coherent Opportunity Matrix',
+      subtitle: `${data.metadata.market_name} · ${selectedGeography} · ${unit}`,
+      legend: chartData.bubbles.map(bubble => ({ label: bubble.name, color: bubble.color, shape: 'circle' as const })),
+    })
+  }
+
   return (
     <div className="w-full min-w-0 overflow-hidden" ref={containerRef}>
-      {title && (
-        <h3 className="text-lg font-semibold mb-4 text-black">{title}</h3>
-      )}
+      <div className="flex items-center justify-between mb-4">
+        {title ? <h3 className="text-lg font-semibold text-black">{title}</h3> : <span />}
+        <ChartExportButtons chartName="opportunity-matrix" buildSvg={buildExportSvg} />
+      </div>
       
       {/* Filters - Same as Market Analysis */}
       <div className="mb-4 space-y-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
@@ -1072,7 +1088,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
             max="200"
             step="10"
             value={maxBubbles}
-            onChange={(e) => setMaxBubbles(Number(e.target.value))}
+            onChange={(e) => updateChartSettings({ bubbleMaxBubbles: Number(e.target.value) })}
             className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
           />
           <div className="flex justify-between text-xs text-black mt-1">
@@ -1127,7 +1143,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-black">Market Share Index (2024):</span>
+                  <span className="text-sm text-black">Market Share Index ({activeFilters.yearRange[0]}):</span>
                   <span className="text-sm font-bold text-purple-600">
                     {tooltipData.yIndex.toFixed(1)}
                   </span>
@@ -1144,7 +1160,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
               <div className="pt-2 mt-2 border-t border-gray-200">
                 <p className="text-xs font-semibold text-black mb-2">ACTUAL VALUES</p>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-black">Market Size (2032):</span>
+                  <span className="text-sm text-black">Market Size ({activeFilters.yearRange[1]}):</span>
                   <div className="text-right">
                     <span className="text-sm font-semibold text-black">
                       {tooltipData.currentValue.toLocaleString(undefined, { 
@@ -1156,13 +1172,13 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
                   </div>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-black">Market Share (2024):</span>
+                  <span className="text-sm text-black">Market Share ({activeFilters.yearRange[0]}):</span>
                   <span className="text-sm font-semibold text-blue-600">
                     {tooltipData.marketShare.toFixed(2)}%
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-black">CAGR (2024-2032):</span>
+                  <span className="text-sm text-black">CAGR ({activeFilters.yearRange[0]}-{activeFilters.yearRange[1]}):</span>
                   <span className={`text-sm font-semibold ${
                     tooltipData.cagr > 0 ? 'text-green-600' : tooltipData.cagr < 0 ? 'text-red-600' : 'text-black'
                   }`}>
@@ -1170,7 +1186,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-black">Growth (2024-2032):</span>
+                  <span className="text-sm text-black">Growth ({activeFilters.yearRange[0]}-{activeFilters.yearRange[1]}):</span>
                   <span className={`text-sm font-semibold ${
                     tooltipData.absoluteGrowth > 0 ? 'text-green-600' : tooltipData.absoluteGrowth < 0 ? 'text-red-600' : 'text-black'
                   }`}>
@@ -1210,7 +1226,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
               </div>
               <div>
                 <p className="text-sm font-medium text-black">
-                  {isOpportunityMode ? 'Market Size Index' : 'Market Share Index (2024)'}
+                  {isOpportunityMode ? 'Market Size Index' : `Market Share Index (${activeFilters.yearRange[0]})`}
                 </p>
                 <p className="text-xs text-black">
                   {isOpportunityMode 
@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo, useState } from 'react'
+import { useMemo, useRef, useState } from 'react'
 import {
   BarChart,
   Bar,
@@ -9,12 +9,15 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceArea,
   ResponsiveContainer
 } from 'recharts'
 import { CHART_THEME, getChartColor, CHART_COLORS } from '@/lib/chart-theme'
-import { filterData, prepareGroupedBarData, getUniqueGeographies, getUniqueSegments } from '@/lib/data-processor'
+import { filterData, prepareGroupedBarData, getUniqueGeographies, getUniqueSegments, getForecastArea } from '@/lib/data-processor'
 import { useDashboardStore } from '@/lib/store'
 import type { DataRecord } from '@/lib/types'
+import { buildChartSvg, findRechartsSvg } from '@/lib/svg-export'
+import { ChartExportButtons } from './ChartExportButtons'
 
 interface GroupedBarChartProps {
   title?: string
@@ -24,6 +27,7 @@ interface GroupedBarChartProps {
 export function GroupedBarChart({ title, height = 400 }: GroupedBarChartProps) {
   const { data, filters } = useDashboardStore()
   const [hoveredBar, setHoveredBar] = useState<string | null>(null)
+  const chartContainerRef = useRef<HTMLDivElement>(null)
 
   const chartData = useMemo(() => {
     if (!data) return { data: [], series: [], stackedSeries: null }
@@ -146,10 +150,30 @@ export function GroupedBarChart({ title, height = 400 }: GroupedBarChartProps) {
     )
   }
 
+  const forecastArea = getForecastArea(
+    chartData.data.map(point => point.year),
+    data.metadata.forecast_years
+  )
+
   const yAxisLabel = filters.dataType === 'value'
     ? `Market Value (${data.metadata.currency} ${data.metadata.value_unit})`
     : `Market Volume (${data.metadata.volume_unit})`
 
+  // Standalone SVG with the legend drawn in (the on-screen legend is HTML)
+  const buildExportSvg = () => {
+    const svg = findRechartsSvg(chartContainerRef.current)
+    if (!svg) return null
+    const legend = chartData.isStacked && chartData.stackedSeries
+      ? chartData.stackedSeries.primary.map((primary, index) => ({ label: primary, color: getChartColor(index, 0) }))
+      : chartData.series.map((series, index) => ({ label: series, color: getChartColor(index) }))
+    return buildChartSvg(svg, {
+      title: title || 'Comparative Analysis',
+      subtitle: `${data.metadata.market_name} · ${yAxisLabel} · ${filters.yearRange[0]}–${filters.yearRange[1]}`,
+      legend,
+      footnote: forecastArea ? 'Shaded area marks forecast years' : undefined,
+    })
+  }
+
   // Matrix view should use heatmap instead
   if (filters.viewMode === 'matrix') {
     return (
@@ -297,13 +321,18 @@ export function GroupedBarChart({ title, height = 400 }: GroupedBarChartProps) {
 
   return (
     <div className="w-full">
-      {title && (
-        <h3 className="text-lg font-semibold mb-4 text-black">{title}</h3>
-      )}
+      <div className="flex items-center justify-between mb-4">
+        {title ? <h3 className="text-lg font-semibold text-black">{title}</h3> : <span />}
+        <ChartExportButtons chartName="grouped-bar" buildSvg={buildExportSvg} />
+      </div>
       
+      <div ref={chartContainerRef}>
       <ResponsiveContainer width="100%" height={height}>
         <BarChart data={chartData.data}>
           <CartesianGrid {...CHART_THEME.grid} />
+          {forecastArea && (
+            <ReferenceArea {...forecastArea} {...CHART_THEME.forecastArea} />
+          )}
           <XAxis 
             dataKey="year" 
             tick={{ fontSize: 12 }}
@@ -405,6 +434,7 @@ export function GroupedBarChart({ title, height = 400 }: GroupedBarChartProps) {
           )}
         </BarChart>
       </ResponsiveContainer>
+      </div>
 
       {chartData.series.length > 0 && (
         <div className="mt-4 text-sm text-black text-center">
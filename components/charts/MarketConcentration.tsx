@@ -0,0 +1,224 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts'
+import { CHART_THEME, getChartColor } from '@/lib/chart-theme'
+import { useDashboardStore } from '@/lib/store'
+import type { CompetitiveIntelligenceData } from '@/lib/competitive-intelligence-data'
+import {
+  getMergerCandidates,
+  prepareConcentrationData,
+  simulateMerger,
+  type ConcentrationMetrics
+} from '@/lib/market-concentration'
+
+interface MarketConcentrationProps {
+  competitiveData: CompetitiveIntelligenceData
+  height?: number
+}
+
+type ConcentrationMetricKey = 'hhi' | 'cr3' | 'cr5' | 'cr10' | 'gini'
+
+const METRICS: Array<{ key: ConcentrationMetricKey; label: string }> = [
+  { key: 'hhi', label: 'HHI' },
+  { key: 'cr3', label: 'CR3' },
+  { key: 'cr5', label: 'CR5' },
+  { key: 'cr10', label: 'CR10' },
+  { key: 'gini', label: 'Gini' },
+]
+
+const formatMetric = (key: ConcentrationMetricKey, value: number) =>
+  key === 'hhi' ? Math.round(value).toLocaleString()
+    : key === 'gini' ? value.toFixed(3)
+      : `${value.toFixed(1)}%`
+
+/**
+ * Concentration ratios, HHI and Gini per geography and year, with a merger HHI estimate
+ */
+export function MarketConcentration({ competitiveData, height = 320 }: MarketConcentrationProps) {
+  const { data, filters } = useDashboardStore()
+  const [metric, setMetric] = useState<ConcentrationMetricKey>('hhi')
+  const [mergerGeography, setMergerGeography] = useState<string | null>(null)
+  const [companyA, setCompanyA] = useState('')
+  const [companyB, setCompanyB] = useState('')
+
+  const concentration = useMemo(
+    () => data ? prepareConcentrationData(competitiveData, data, filters) : null,
+    [competitiveData, data, filters]
+  )
+
+  const endYear = filters.yearRange[1]
+  const geography = mergerGeography && concentration?.geographies.includes(mergerGeography)
+    ? mergerGeography
+    : concentration?.geographies[0] ?? ''
+
+  const candidates = useMemo(
+    () => data && geography ? getMergerCandidates(competitiveData, data, filters, geography, endYear) : [],
+    [competitiveData, data, filters, geography, endYear]
+  )
+  const merger = simulateMerger(candidates, companyA, companyB)
+
+  if (!data || !concentration) return null
+
+  const chartData = concentration.years.map(year => {
+    const point: Record<string, number | null> = { year }
+    concentration.geographies.forEach(name => {
+      const row = concentration.rows.find(entry => entry.geography === name && entry.year === year)
+      point[name] = row?.metrics ? row.metrics[metric] : null
+    })
+    return point
+  })
+  const endRows = concentration.rows.filter(row => row.year === endYear)
+  const hasData = concentration.rows.some(row => row.metrics)
+
+  const metricCell = (metrics: ConcentrationMetrics | null, key: ConcentrationMetricKey) =>
+    metrics ? formatMetric(key, metrics[key]) : '—'
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-black">Market Concentration</h3>
+        <div className="flex gap-1">
+          {METRICS.map(entry => (
+            <button
+              key={entry.key}
+              onClick={() => setMetric(entry.key)}
+              className={`px-3 py-1 text-xs rounded border ${
+                metric === entry.key ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-black hover:bg-gray-50'
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!hasData ? (
+        <p className="text-sm text-black">No company shares for this selection in {filters.yearRange[0]}–{endYear}.</p>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={height}>
+            <LineChart data={chartData} margin={{ top: 10, right: 30, left: 10, bottom: 10 }}>
+              <CartesianGrid {...CHART_THEME.grid} />
+              <XAxis dataKey="year" tick={{ fontSize: 12 }} />
+              <YAxis tick={{ fontSize: 12 }} tickFormatter={(value: number) => formatMetric(metric, value)} />
+              <Tooltip formatter={(value: number) => formatMetric(metric, value)} />
+              <Legend formatter={(value) => <span style={{ color: '#000000' }}>{value}</span>} />
+              {metric === 'hhi' && <ReferenceLine y={1500} stroke="#9ca3af" strokeDasharray="4 4" label={{ value: 'Moderate', fontSize: 10, position: 'right' }} />}
+              {metric === 'hhi' && <ReferenceLine y={2500} stroke="#9ca3af" strokeDasharray="4 4" label={{ value: 'High', fontSize: 10, position: 'right' }} />}
+              {concentration.geographies.map((name, index) => (
+                <Line
+                  key={name}
+                  type="monotone"
+                  dataKey={name}
+                  stroke={getChartColor(index)}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  connectNulls={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  {['Geography', 'CR3', 'CR5', 'CR10', 'HHI', 'Gini', 'Companies', 'Concentration', 'Coverage'].map(header => (
+                    <th key={header} className="px-3 py-2 text-left text-xs font-semibold text-black border-b border-gray-200">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {endRows.map(row => (
+                  <tr key={row.geography} className="border-b border-gray-100">
+                    <td className="px-3 py-2 font-medium text-black">{row.geography}</td>
+                    <td className="px-3 py-2 text-black">{metricCell(row.metrics, 'cr3')}</td>
+                    <td className="px-3 py-2 text-black">{metricCell(row.metrics, 'cr5')}</td>
+                    <td className="px-3 py-2 text-black">{metricCell(row.metrics, 'cr10')}</td>
+                    <td className="px-3 py-2 font-semibold text-black">{metricCell(row.metrics, 'hhi')}</td>
+                    <td className="px-3 py-2 text-black">{metricCell(row.metrics, 'gini')}</td>
+                    <td className="px-3 py-2 text-black">{row.metrics?.companyCount ?? '—'}</td>
+                    <td className="px-3 py-2 text-black">{row.metrics?.concentration ?? 'No share data'}</td>
+                    <td className="px-3 py-2 text-black">{row.metrics ? `${Math.round(row.coverage * 100)}%` : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-600 mt-2">
+              {endYear} values. HHI bands: below 1,500 competitive, 1,500–2,500 moderately concentrated, above 2,500 highly concentrated.
+              &quot;Others&quot; is not counted as a company, so HHI is a lower bound. Coverage is the share of market value with company data.
+            </p>
+          </div>
+
+          {/* Merger simulation */}
+          <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+            <h4 className="text-sm font-semibold text-black mb-3">Merger HHI Estimate ({endYear})</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+              <select
+                value={geography}
+                onChange={(e) => setMergerGeography(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm text-black bg-white"
+              >
+                {concentration.geographies.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              {[{ value: companyA, set: setCompanyA, label: 'First company' }, { value: companyB, set: setCompanyB, label: 'Second company' }].map(party => (
+                <select
+                  key={party.label}
+                  value={party.value}
+                  onChange={(e) => party.set(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm text-black bg-white"
+                >
+                  <option value="">{party.label}</option>
+                  {candidates.map(entry => (
+                    <option key={entry.company} value={entry.company}>
+                      {entry.company} ({entry.share.toFixed(1)}%)
+                    </option>
+                  ))}
+                </select>
+              ))}
+            </div>
+
+            {candidates.length < 2 ? (
+              <p className="text-sm text-black">{geography} has fewer than two companies with shares in {endYear}.</p>
+            ) : !merger ? (
+              <p className="text-sm text-black">Pick two different companies to estimate the post-merger HHI.</p>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="bg-white rounded p-3 border border-gray-200">
+                  <div className="text-xs text-black">Combined Share</div>
+                  <div className="text-lg font-bold text-black">{merger.combinedShare.toFixed(1)}%</div>
+                </div>
+                <div className="bg-white rounded p-3 border border-gray-200">
+                  <div className="text-xs text-black">HHI Before → After</div>
+                  <div className="text-lg font-bold text-black">{merger.preHhi.toLocaleString()} → {merger.postHhi.toLocaleString()}</div>
+                  <div className="text-xs text-black">{merger.preConcentration} → {merger.postConcentration}</div>
+                </div>
+                <div className="bg-white rounded p-3 border border-gray-200">
+                  <div className="text-xs text-black">Change in HHI</div>
+                  <div className="text-lg font-bold text-black">+{merger.deltaHhi.toLocaleString()}</div>
+                </div>
+                <div className="bg-white rounded p-3 border border-gray-200">
+                  <div className="text-xs text-black">Screen (2010 guidelines)</div>
+                  <div className="text-sm font-semibold text-black">{merger.assessment}</div>
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,64 +1,30 @@
 'use client'
 
-import { useEffect, useState, useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts'
-import { generateMarketShareData, MarketShareData, loadCompetitiveIntelligenceData } from '@/lib/competitive-intelligence-data'
-import { useDashboardStore } from '@/lib/store'
-import { GeographyMultiSelect } from '@/components/filters/GeographyMultiSelect'
-import { Filter, X } from 'lucide-react'
+import {
+  getMarketShareData,
+  getRevenueUnitLabel,
+  formatRevenue,
+  type CompetitiveIntelligenceData
+} from '@/lib/competitive-intelligence-data'
 
 interface MarketShareAnalysisProps {
-  year?: number
+  competitiveData: CompetitiveIntelligenceData
 }
 
-export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalysisProps) {
-  const { data, filters, updateFilters } = useDashboardStore()
-  const [marketShareData, setMarketShareData] = useState<MarketShareData[]>([])
-  const [allCompaniesData, setAllCompaniesData] = useState<MarketShareData[]>([])
+export function MarketShareAnalysis({ competitiveData }: MarketShareAnalysisProps) {
   const [activeTab, setActiveTab] = useState<'chart' | 'table'>('chart')
-  const [selectedYear, setSelectedYear] = useState<number>(propYear)
-  const [showFilters, setShowFilters] = useState(false)
 
-  // Get available years from metadata
-  const availableYears = useMemo(() => {
-    if (data?.metadata?.years) {
-      return data.metadata.years.sort((a, b) => a - b)
-    }
-    // Fallback: generate years from start_year to forecast_year
-    if (data?.metadata?.start_year && data?.metadata?.forecast_year) {
-      const years: number[] = []
-      for (let y = data.metadata.start_year; y <= data.metadata.forecast_year; y++) {
-        years.push(y)
-      }
-      return years
-    }
-    return [2020, 2021, 2022, 2023, 2024, 2025, 2026, 2027, 2028]
-  }, [data])
-
-  // Filter data based on selected filters
-  const filteredMarketShareData = useMemo(() => {
-    // For now, we'll use the generated data, but in the future this could filter based on geography/year
-    return marketShareData
-  }, [marketShareData, filters.geographies, selectedYear])
-
-  const filteredAllCompaniesData = useMemo(() => {
-    return allCompaniesData
-  }, [allCompaniesData, filters.geographies, selectedYear])
-
-  useEffect(() => {
-    async function loadData() {
-      const chartData = await generateMarketShareData(10) // Top 10 for chart
-      setMarketShareData(chartData)
-      
-      // Load all companies for table view
-      const jsonData = await loadCompetitiveIntelligenceData()
-      if (jsonData && jsonData.market_share_data) {
-        const sorted = [...jsonData.market_share_data].sort((a, b) => b.marketShare - a.marketShare)
-        setAllCompaniesData(sorted)
-      }
-    }
-    loadData()
-  }, [])
+  const marketShareData = useMemo(() => getMarketShareData(competitiveData, 10), [competitiveData]) // Top 10 for chart
+  const allCompaniesData = competitiveData.market_share_data
+  const topFive = allCompaniesData.filter(c => c.company !== 'Others').slice(0, 5)
+  const year = competitiveData.metadata.year
+  const unit = getRevenueUnitLabel(competitiveData)
+  const revenueLabel = unit ? `Revenue (${unit})` : 'Revenue'
+  const revenueTotal = allCompaniesData.every(c => c.revenue !== null)
+    ? allCompaniesData.reduce((sum, c) => sum + (c.revenue ?? 0), 0)
+    : null
 
   // No labels on chart - percentages only in tooltip
   const renderCustomLabel = () => null
@@ -68,9 +34,8 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
     if (!active || !payload || !payload.length) return null
 
     const data = payload[0]
-    const marketSize = 5000 // Total market size in Cr INR
-    const revenue = (data.value / 100) * marketSize
-    
+    const revenue: number | null = data.payload?.revenue ?? null
+
     return (
       <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200">
         <p className="font-semibold text-black mb-2">{data.name}</p>
@@ -80,9 +45,9 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
             <span className="text-sm font-semibold text-black">{data.value.toFixed(2)}%</span>
           </div>
           <div className="flex justify-between gap-4">
-            <span className="text-sm text-black">Revenue (Cr INR):</span>
+            <span className="text-sm text-black">{revenueLabel}:</span>
             <span className="text-sm font-semibold text-black">
-              {revenue.toFixed(0)}
+              {formatRevenue(revenue)}
             </span>
           </div>
         </div>
@@ -112,86 +77,6 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
 
   return (
     <div className="bg-white rounded-lg p-6">
-      {/* Filters Section */}
-      <div className="mb-4 border-b border-gray-200 pb-4">
-        <div className="flex items-center justify-between mb-3">
-          <h4 className="text-sm font-semibold text-black flex items-center gap-2">
-            <Filter className="h-4 w-4" />
-            Filters
-          </h4>
-          <button
-            onClick={() => setShowFilters(!showFilters)}
-            className="text-xs text-blue-600 hover:text-blue-800"
-          >
-            {showFilters ? 'Hide Filters' : 'Show Filters'}
-          </button>
-        </div>
-        
-        {showFilters && (
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-3 bg-gray-50 rounded-lg">
-            {/* Geography Filter */}
-            <div>
-              <label className="block text-xs font-medium text-black mb-2">
-                Geography
-              </label>
-              <GeographyMultiSelect />
-            </div>
-            
-            {/* Year Filter */}
-            <div>
-              <label className="block text-xs font-medium text-black mb-2">
-                Year
-              </label>
-              <select
-                value={selectedYear}
-                onChange={(e) => setSelectedYear(Number(e.target.value))}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-black bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                {availableYears.map(year => (
-                  <option key={year} value={year}>
-                    {year}
-                  </option>
-                ))}
-              </select>
-            </div>
-            
-            {/* Active Filters Summary */}
-            {(filters.geographies.length > 0 || selectedYear !== propYear) && (
-              <div className="md:col-span-2 pt-2 border-t border-gray-200">
-                <div className="flex items-center justify-between">
-                  <div className="text-xs text-black">
-                    <span className="font-medium">Active Filters:</span>
-                    <span className="ml-2">
-                      {filters.geographies.length > 0 && (
-                        <span className="inline-block mr-2">
-                          Geography: {filters.geographies.length} selected
-                        </span>
-                      )}
-                      {selectedYear !== propYear && (
-                        <span className="inline-block">
-                          Year: {selectedYear}
-                        </span>
-                      )}
-                    </span>
-                  </div>
-                  <button
-                    onClick={() => {
-                      updateFilters({ geographies: [] })
-                      setSelectedYear(propYear)
-                    }}
-                    className="flex items-center gap-1 px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
-                    title="Clear all filters"
-                  >
-                    <X className="h-3 w-3" />
-                    Clear
-                  </button>
-                </div>
-              </div>
-            )}
-          </div>
-        )}
-      </div>
-
       {/* Tabs */}
       <div className="flex gap-2 mb-6 border-b border-gray-200">
         <button
@@ -212,7 +97,7 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
               : 'text-black hover:text-black'
           }`}
         >
-          All Companies ({filteredAllCompaniesData.length})
+          All Companies ({allCompaniesData.length})
         </button>
       </div>
 
@@ -223,7 +108,7 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
             <ResponsiveContainer width="100%" height={450}>
               <PieChart>
                 <Pie
-                  data={filteredMarketShareData as any}
+                  data={marketShareData}
                   cx="50%"
                   cy="50%"
                   labelLine={false}
@@ -235,7 +120,7 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
                   nameKey="company"
                   paddingAngle={2}
                 >
-                  {filteredMarketShareData.map((entry, index) => (
+                  {marketShareData.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={entry.color} stroke="#fff" strokeWidth={2} />
                   ))}
                 </Pie>
@@ -249,7 +134,7 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
         <div className="lg:w-80">
           <div className="bg-gray-50 rounded-lg p-4 space-y-4">
             <div className="space-y-3">
-              {filteredMarketShareData.slice(0, 5).map((company, idx) => (
+              {topFive.map((company, idx) => (
                 <div key={company.company} className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <span className="text-xs font-semibold text-black w-4">{idx + 1}.</span>
@@ -270,17 +155,18 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
               <div className="flex justify-between text-sm">
                 <span className="text-black">Top 5 Total:</span>
                 <span className="font-semibold text-black">
-                  {filteredMarketShareData.slice(0, 5).reduce((sum, c) => sum + c.marketShare, 0).toFixed(1)}%
+                  {topFive.reduce((sum, c) => sum + c.marketShare, 0).toFixed(1)}%
                 </span>
               </div>
               <div className="flex justify-between text-sm mt-2">
                 <span className="text-black">Year:</span>
-                <span className="font-semibold text-black">{selectedYear}</span>
+                <span className="font-semibold text-black">{year ?? '—'}</span>
               </div>
               <div className="flex justify-between text-sm mt-1">
                 <span className="text-black">Companies Shown:</span>
                 <span className="font-semibold text-black">
-                  Top {filteredMarketShareData.filter(c => c.company !== 'Others').length} + Others
+                  Top {marketShareData.filter(c => c.company !== 'Others' && c.company !== 'Unattributed').length}
+                  {marketShareData.some(c => c.company === 'Others') ? ' + Others' : ''}
                 </span>
               </div>
             </div>
@@ -292,8 +178,8 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
         <div className="w-full">
           <div className="bg-gray-50 rounded-lg p-4 mb-4">
             <div className="flex justify-between items-center mb-2">
-              <h3 className="text-sm font-semibold text-black">All Companies Market Share ({selectedYear})</h3>
-              <span className="text-xs text-black">Total: {filteredAllCompaniesData.length} companies</span>
+              <h3 className="text-sm font-semibold text-black">All Companies Market Share{year ? ` (${year})` : ''}</h3>
+              <span className="text-xs text-black">Total: {allCompaniesData.length} companies</span>
             </div>
           </div>
           
@@ -311,7 +197,7 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
                     Market Share
                   </th>
                   <th className="px-4 py-3 text-right text-xs font-semibold text-black uppercase tracking-wider border-b border-gray-200">
-                    Revenue (Cr INR)
+                    {revenueLabel}
                   </th>
                   <th className="px-4 py-3 text-center text-xs font-semibold text-black uppercase tracking-wider border-b border-gray-200 w-16">
                     Color
@@ -319,10 +205,7 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {filteredAllCompaniesData.map((company, index) => {
-                  const marketSize = 5000 // Total market size in Cr INR
-                  const revenue = (company.marketShare / 100) * marketSize
-                  
+                {allCompaniesData.map((company, index) => {
                   return (
                     <tr key={company.company} className="hover:bg-gray-50">
                       <td className="px-4 py-3 text-sm text-black">
@@ -335,7 +218,7 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
                         {company.marketShare.toFixed(2)}%
                       </td>
                       <td className="px-4 py-3 text-sm text-black text-right">
-                        {revenue.toFixed(0)}
+                        {formatRevenue(company.revenue)}
                       </td>
                       <td className="px-4 py-3 text-center">
                         <div 
@@ -354,13 +237,10 @@ export function MarketShareAnalysis({ year: propYear = 2024 }: MarketShareAnalys
                     Total
                   </td>
                   <td className="px-4 py-3 text-sm font-semibold text-black text-right">
-                    {filteredAllCompaniesData.reduce((sum, c) => sum + c.marketShare, 0).toFixed(2)}%
+                    {allCompaniesData.reduce((sum, c) => sum + c.marketShare, 0).toFixed(2)}%
                   </td>
                   <td className="px-4 py-3 text-sm font-semibold text-black text-right">
-                    {filteredAllCompaniesData.reduce((sum, c) => {
-                      const marketSize = 5000
-                      return sum + ((c.marketShare / 100) * marketSize)
-                    }, 0).toFixed(0)}
+                    {formatRevenue(revenueTotal)}
                   </td>
                   <td></td>
                 </tr>
@@ -0,0 +1,353 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { useDashboardStore } from '@/lib/store'
+import { diffMarketVersions, getVersionLabel, type DiffStatus, type MarketDiffRow } from '@/lib/market-diff'
+import { assignUploadedFiles, processUploadedJsonFiles, EMPTY_UPLOADED_FILES } from '@/lib/json-upload'
+import { isDatasetBundleFile, readDatasetBundle } from '@/lib/dataset-bundle'
+import { ArrowUp, ArrowDown, Download, Upload, Loader2, AlertTriangle } from 'lucide-react'
+
+interface MarketVersionDiffProps {
+  title?: string
+  height?: number
+}
+
+type SortField = keyof Pick<
+  MarketDiffRow,
+  'geography' | 'segment' | 'status' | 'baseCurrent' | 'baseChangePct' | 'forecastCurrent' | 'forecastChangePct' | 'cagrCurrent' | 'cagrChange'
+>
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-orange-100 text-orange-700',
+  unchanged: 'bg-gray-100 text-gray-600',
+}
+
+export function MarketVersionDiff({ title, height = 600 }: MarketVersionDiffProps) {
+  const { data, filters, markets, activeMarket, addMarketVersion } = useDashboardStore()
+  const [previousIndex, setPreviousIndex] = useState(0)
+  const [dataType, setDataType] = useState<'value' | 'volume'>(filters.dataType)
+  const [segmentType, setSegmentType] = useState<string>(filters.segmentType)
+  const [statusFilter, setStatusFilter] = useState<DiffStatus | 'all'>('all')
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [sortField, setSortField] = useState<SortField>('baseChangePct')
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc')
+  const [isUploading, setIsUploading] = useState(false)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const versions = activeMarket ? markets[activeMarket]?.previousVersions ?? [] : []
+  const previous = versions[Math.min(previousIndex, versions.length - 1)]?.data ?? null
+  const currentLoadedAt = activeMarket ? markets[activeMarket]?.loadedAt ?? Date.now() : Date.now()
+
+  const diff = useMemo(() => {
+    if (!data || !previous) return null
+    return diffMarketVersions(data, previous, { dataType, segmentType: segmentType || null })
+  }, [data, previous, dataType, segmentType])
+
+  const visibleRows = useMemo(() => {
+    if (!diff) return []
+    const rows = diff.rows.filter(row =>
+      statusFilter === 'all' ? showUnchanged || row.status !== 'unchanged' : row.status === statusFilter
+    )
+    return rows.sort((a, b) => {
+      const aValue = a[sortField]
+      const bValue = b[sortField]
+      // Missing values always sort last
+      if (aValue === null) return bValue === null ? 0 : 1
+      if (bValue === null) return -1
+      if (typeof aValue === 'string' && typeof bValue === 'string') {
+        return sortDirection === 'asc' ? aValue.localeCompare(bValue) : bValue.localeCompare(aValue)
+      }
+      return sortDirection === 'asc'
+        ? (aValue as number) - (bValue as number)
+        : (bValue as number) - (aValue as number)
+    })
+  }, [diff, statusFilter, showUnchanged, sortField, sortDirection])
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
+    } else {
+      setSortField(field)
+      setSortDirection('asc')
+    }
+  }
+
+  const handleUpload = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0 || !activeMarket) return
+    try {
+      setIsUploading(true)
+      setUploadError(null)
+      const files = Array.from(fileList)
+      const bundle = files.find(file => isDatasetBundleFile(file.name))
+      const release = bundle
+        ? (await readDatasetBundle(bundle)).data
+        : await processUploadedJsonFiles(assignUploadedFiles(files, EMPTY_UPLOADED_FILES))
+      addMarketVersion(activeMarket, release)
+      setPreviousIndex(0)
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to load previous release')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const exportToCSV = () => {
+    if (!diff) return
+    const headers = [
+      'Geography', 'Segment Type', 'Segment', 'Hierarchy', 'Status',
+      `${diff.baseYear} Previous`, `${diff.baseYear} Current`, `${diff.baseYear} Change %`,
+      `${diff.forecastYear} Previous`, `${diff.forecastYear} Current`, `${diff.forecastYear} Change %`,
+      'CAGR Previous', 'CAGR Current', 'CAGR Change (pp)'
+    ]
+    const formatCell = (value: number | null) => (value === null ? '' : value.toFixed(2))
+    const rows = visibleRows.map(row => [
+      row.geography, row.segmentType, row.segment, row.path, row.status,
+      formatCell(row.basePrevious), formatCell(row.baseCurrent), formatCell(row.baseChangePct),
+      formatCell(row.forecastPrevious), formatCell(row.forecastCurrent), formatCell(row.forecastChangePct),
+      formatCell(row.cagrPrevious), formatCell(row.cagrCurrent), formatCell(row.cagrChange)
+    ].map(cell => `"${String(cell).replace(/"/g, '""')}"`))
+
+    const csv = [headers, ...rows].map(row => row.join(',')).join('\n')
+    const blob = new Blob([csv], { type: 'text/csv' })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `version-diff-${new Date().toISOString().split('T')[0]}.csv`
+    a.click()
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center h-96 bg-gray-50 rounded-lg">
+        <p className="text-black">No data to display</p>
+      </div>
+    )
+  }
+
+  const formatNumber = (value: number | null) =>
+    value === null ? '—' : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  const formatChange = (value: number | null, suffix: string) =>
+    value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}${suffix}`
+  const changeColor = (value: number | null) =>
+    value === null || Math.abs(value) < 0.05 ? 'text-black' : value > 0 ? 'text-green-600' : 'text-red-600'
+
+  const sortableHeader = (field: SortField, label: string, align: 'left' | 'right' = 'right') => (
+    <th
+      className={`px-3 py-3 ${align === 'right' ? 'text-right' : 'text-left'} text-xs font-medium text-black uppercase tracking-wider cursor-pointer hover:bg-gray-100`}
+      onClick={() => handleSort(field)}
+    >
+      <div className={`flex items-center gap-1 ${align === 'right' ? 'justify-end' : ''}`}>
+        {label}
+        {sortField === field && (
+          sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+        )}
+      </div>
+    </th>
+  )
+
+  return (
+    <div className="w-full min-w-0 space-y-4">
+      {title && (
+        <h3 className="text-lg font-semibold text-black">{title}</h3>
+      )}
+
+      {/* Release selection */}
+      <div className="flex flex-wrap items-end gap-4 p-4 bg-gray-50 rounded-lg">
+        <div>
+          <p className="text-xs font-medium text-black mb-1">Current release</p>
+          <p className="text-sm font-semibold text-black">
+            {data.metadata.market_name} · {getVersionLabel(data, currentLoadedAt)}
+          </p>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-black mb-1">Previous release</label>
+          <select
+            value={previous ? Math.min(previousIndex, versions.length - 1) : ''}
+            onChange={(e) => setPreviousIndex(Number(e.target.value))}
+            disabled={versions.length === 0}
+            className="px-2 py-1.5 text-sm text-black border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {versions.length === 0 && <option value="">No earlier release loaded</option>}
+            {versions.map((version, index) => (
+              <option key={version.loadedAt} value={index}>
+                {getVersionLabel(version.data, version.loadedAt)}
+                {version.data.metadata.market_name !== data.metadata.market_name && ` (${version.data.metadata.market_name})`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            Load previous release
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json,.gz"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleUpload(e.target.files)
+              e.target.value = ''
+            }}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-black mb-1">Data</label>
+          <select
+            value={dataType}
+            onChange={(e) => setDataType(e.target.value as 'value' | 'volume')}
+            className="px-2 py-1.5 text-sm text-black border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="value">Value</option>
+            <option value="volume" disabled={!data.metadata.has_volume}>Volume</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-black mb-1">Segment type</label>
+          <select
+            value={segmentType}
+            onChange={(e) => setSegmentType(e.target.value)}
+            className="px-2 py-1.5 text-sm text-black border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All segment types</option>
+            {Object.keys(data.dimensions.segments).map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {uploadError && (
+        <div className="flex items-center gap-2 text-sm p-2 rounded bg-red-50 text-red-700">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{uploadError}</span>
+        </div>
+      )}
+
+      {!diff ? (
+        <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg">
+          <div className="text-center">
+            <p className="text-black">No earlier release to compare</p>
+            <p className="text-sm text-black mt-1">
+              Reload this market after a revision, or load a previous release (JSON files or an exported dataset bundle)
+            </p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap items-center gap-2">
+              {(['all', 'changed', 'added', 'removed', 'unchanged'] as const).map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors ${
+                    statusFilter === status ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-black border-gray-300 hover:border-blue-400'
+                  }`}
+                >
+                  {status === 'all' ? 'All' : status.charAt(0).toUpperCase() + status.slice(1)}
+                  {status !== 'all' && ` (${diff.summary[status]})`}
+                </button>
+              ))}
+              {statusFilter === 'all' && (
+                <label className="flex items-center gap-1 text-xs text-black ml-2">
+                  <input
+                    type="checkbox"
+                    checked={showUnchanged}
+                    onChange={(e) => setShowUnchanged(e.target.checked)}
+                  />
+                  Include unchanged
+                </label>
+              )}
+            </div>
+            <button
+              onClick={exportToCSV}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              <Download className="h-4 w-4" />
+              Export CSV
+            </button>
+          </div>
+
+          {(diff.previousBaseYear !== diff.baseYear || diff.previousForecastYear !== diff.forecastYear) && (
+            <p className="text-xs text-orange-600">
+              The previous release used {diff.previousBaseYear}-{diff.previousForecastYear}; both releases are compared at {diff.baseYear} and {diff.forecastYear}.
+            </p>
+          )}
+
+          <div className="overflow-auto border rounded-lg" style={{ maxHeight: height }}>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {sortableHeader('geography', 'Geography', 'left')}
+                  {sortableHeader('segment', 'Segment', 'left')}
+                  {sortableHeader('status', 'Status', 'left')}
+                  {sortableHeader('baseCurrent', `${diff.baseYear}`)}
+                  {sortableHeader('baseChangePct', 'Δ %')}
+                  {sortableHeader('forecastCurrent', `${diff.forecastYear}`)}
+                  {sortableHeader('forecastChangePct', 'Δ %')}
+                  {sortableHeader('cagrCurrent', 'CAGR %')}
+                  {sortableHeader('cagrChange', 'Δ pp')}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleRows.map(row => (
+                  <tr key={row.key} className="hover:bg-gray-50">
+                    <td className="px-3 py-2 text-sm font-medium text-black">{row.geography}</td>
+                    <td className="px-3 py-2 text-sm text-black">
+                      <div>{row.segment === '__ALL_SEGMENTS__' ? 'All segments' : row.segment}</div>
+                      <div className="text-xs text-gray-500">
+                        {row.segmentType}{row.path && row.path !== row.segment && ` · ${row.path}`}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-sm">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}>
+                        {row.status}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-black">
+                      <div>{formatNumber(row.baseCurrent)}</div>
+                      <div className="text-xs text-gray-500">was {formatNumber(row.basePrevious)}</div>
+                    </td>
+                    <td className={`px-3 py-2 text-sm text-right font-medium ${changeColor(row.baseChangePct)}`}>
+                      {formatChange(row.baseChangePct, '%')}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-black">
+                      <div>{formatNumber(row.forecastCurrent)}</div>
+                      <div className="text-xs text-gray-500">was {formatNumber(row.forecastPrevious)}</div>
+                    </td>
+                    <td className={`px-3 py-2 text-sm text-right font-medium ${changeColor(row.forecastChangePct)}`}>
+                      {formatChange(row.forecastChangePct, '%')}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-black">
+                      <div>{row.cagrCurrent === null ? '—' : `${row.cagrCurrent.toFixed(1)}%`}</div>
+                      <div className="text-xs text-gray-500">
+                        was {row.cagrPrevious === null ? '—' : `${row.cagrPrevious.toFixed(1)}%`}
+                      </div>
+                    </td>
+                    <td className={`px-3 py-2 text-sm text-right font-medium ${changeColor(row.cagrChange)}`}>
+                      {formatChange(row.cagrChange, '')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="text-center text-sm text-black">
+            Showing {visibleRows.length} of {diff.rows.length} records · {diff.summary.changed} changed, {diff.summary.added} added, {diff.summary.removed} removed
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,8 @@
 import { useMemo, useState } from 'react'
 import { useDashboardStore } from '@/lib/store'
 import { filterData } from '@/lib/data-processor'
+import { buildGridSvg } from '@/lib/svg-export'
+import { ChartExportButtons } from './ChartExportButtons'
 
 interface MatrixHeatmapProps {
   title?: string
@@ -94,20 +96,20 @@ export function MatrixHeatmap({ title, height = 600 }: MatrixHeatmapProps) {
     )
   }
 
-  // Calculate color intensity using palette colors
+  // Calculate color intensity using palette colors (hex so the SVG export can reuse it)
   const getColor = (value: number) => {
-    if (value === 0) return 'bg-gray-50'
+    if (value === 0) return '#F9FAFB'  // Gray 50
     const { maxValue, minValue } = matrixData
     const range = maxValue - minValue
-    if (range === 0) return 'bg-[#52B69A]'
+    if (range === 0) return '#52B69A'
     
     const intensity = ((value - minValue) / range) * 100
     
-    if (intensity < 20) return 'bg-[#D9ED92]'  // Yellow Green
-    if (intensity < 40) return 'bg-[#B5E48C]'  // Light Lime
-    if (intensity < 60) return 'bg-[#52B69A]'  // Teal
-    if (intensity < 80) return 'bg-[#168AAD]'  // Deep Teal
-    return 'bg-[#1A759F]'  // Blue Teal
+    if (intensity < 20) return '#D9ED92'  // Yellow Green
+    if (intensity < 40) return '#B5E48C'  // Light Lime
+    if (intensity < 60) return '#52B69A'  // Teal
+    if (intensity < 80) return '#168AAD'  // Deep Teal
+    return '#1A759F'  // Blue Teal
   }
 
   const formatValue = (value: number) => {
@@ -121,15 +123,41 @@ export function MatrixHeatmap({ title, height = 600 }: MatrixHeatmapProps) {
     ? `${data.metadata.currency} ${data.metadata.value_unit}`
     : data.metadata.volume_unit
 
+  // The heatmap is an HTML grid, so the SVG is drawn from the matrix itself (all rows, not just the scrolled view)
+  const buildExportSvg = () => buildGridSvg(
+    {
+      rowHeader: 'Geo \\ Segment',
+      rowLabels: matrixData.geographyYears.map(geoYear => geoYear.label),
+      columnLabels: matrixData.segments,
+      values: matrixData.matrix,
+      cellColor: getColor,
+      formatValue,
+    },
+    {
+      title: title || 'Matrix View - Geography × Segment Comparison',
+      subtitle: `${data.metadata.market_name} · Years: ${startYear} - ${endYear} | Values in ${valueUnit}`,
+      legend: [
+        { label: 'Low (0-20%)', color: '#D9ED92' },
+        { label: '20-40%', color: '#B5E48C' },
+        { label: '40-60%', color: '#52B69A' },
+        { label: '60-80%', color: '#168AAD' },
+        { label: 'High (80-100%)', color: '#1A759F' },
+      ],
+    }
+  )
+
   return (
     <div className="w-full">
-      <div className="mb-4">
-        <h3 className="text-lg font-semibold text-black">
-          {title || 'Matrix View - Geography × Segment Comparison'}
-        </h3>
-        <p className="text-sm text-black mt-1">
-          Years: {startYear} - {endYear} | Values in {valueUnit}
-        </p>
+      <div className="mb-4 flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-black">
+            {title || 'Matrix View - Geography × Segment Comparison'}
+          </h3>
+          <p className="text-sm text-black mt-1">
+            Years: {startYear} - {endYear} | Values in {valueUnit}
+          </p>
+        </div>
+        <ChartExportButtons chartName="heatmap" buildSvg={buildExportSvg} />
       </div>
 
       <div className="overflow-auto" style={{ maxHeight: height }}>
@@ -162,7 +190,8 @@ export function MatrixHeatmap({ title, height = 600 }: MatrixHeatmapProps) {
                 return (
                   <div
                     key={`${geoYear.geography}-${geoYear.year}-${segment}`}
-                    className={`w-32 p-2 border border-gray-300 text-center cursor-pointer transition-all hover:opacity-80 ${getColor(value)}`}
+                    className="w-32 p-2 border border-gray-300 text-center cursor-pointer transition-all hover:opacity-80"
+                    style={{ backgroundColor: getColor(value) }}
                     onMouseEnter={(e) => {
                       const rect = e.currentTarget.getBoundingClientRect()
                       setHoveredCell({
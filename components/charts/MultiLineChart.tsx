@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useMemo, useRef } from 'react'
 import {
   LineChart,
   Line,
@@ -9,11 +9,14 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceArea,
   ResponsiveContainer
 } from 'recharts'
 import { CHART_THEME, getChartColor } from '@/lib/chart-theme'
-import { filterData, prepareLineChartData, getUniqueGeographies, getUniqueSegments } from '@/lib/data-processor'
+import { filterData, prepareLineChartData, getUniqueGeographies, getUniqueSegments, getForecastArea } from '@/lib/data-processor'
 import { useDashboardStore } from '@/lib/store'
+import { buildChartSvg, findRechartsSvg } from '@/lib/svg-export'
+import { ChartExportButtons } from './ChartExportButtons'
 
 interface MultiLineChartProps {
   title?: string
@@ -22,6 +25,7 @@ interface MultiLineChartProps {
 
 export function MultiLineChart({ title, height = 400 }: MultiLineChartProps) {
   const { data, filters } = useDashboardStore()
+  const chartContainerRef = useRef<HTMLDivElement>(null)
 
   const chartData = useMemo(() => {
     if (!data) return { data: [], series: [] }
@@ -79,10 +83,27 @@ export function MultiLineChart({ title, height = 400 }: MultiLineChartProps) {
     )
   }
 
+  const forecastArea = getForecastArea(
+    chartData.data.map(point => point.year),
+    data.metadata.forecast_years
+  )
+
   const yAxisLabel = filters.dataType === 'value'
     ? `Market Value (${data.metadata.currency} ${data.metadata.value_unit})`
     : `Market Volume (${data.metadata.volume_unit})`
 
+  // Standalone SVG with the legend drawn in (the on-screen legend is HTML)
+  const buildExportSvg = () => {
+    const svg = findRechartsSvg(chartContainerRef.current)
+    if (!svg) return null
+    return buildChartSvg(svg, {
+      title: title || 'Trend Analysis',
+      subtitle: `${data.metadata.market_name} · ${yAxisLabel} · ${filters.yearRange[0]}–${filters.yearRange[1]}`,
+      legend: chartData.series.map((series, index) => ({ label: series, color: getChartColor(index), shape: 'line' as const })),
+      footnote: forecastArea ? 'Shaded area marks forecast years' : undefined,
+    })
+  }
+
   // Matrix view should use heatmap instead
   if (filters.viewMode === 'matrix') {
     return (
@@ -102,13 +123,18 @@ export function MultiLineChart({ title, height = 400 }: MultiLineChartProps) {
 
   return (
     <div className="w-full">
-      {title && (
-        <h3 className="text-lg font-semibold mb-4 text-black">{title}</h3>
-      )}
+      <div className="flex items-center justify-between mb-4">
+        {title ? <h3 className="text-lg font-semibold text-black">{title}</h3> : <span />}
+        <ChartExportButtons chartName="line" buildSvg={buildExportSvg} />
+      </div>
       
+      <div ref={chartContainerRef}>
       <ResponsiveContainer width="100%" height={height}>
         <LineChart data={chartData.data}>
           <CartesianGrid {...CHART_THEME.grid} />
+          {forecastArea && (
+            <ReferenceArea {...forecastArea} {...CHART_THEME.forecastArea} />
+          )}
           <XAxis 
             dataKey="year" 
             tick={{ fontSize: 12 }}
@@ -193,6 +219,7 @@ export function MultiLineChart({ title, height = 400 }: MultiLineChartProps) {
           ))}
         </LineChart>
       </ResponsiveContainer>
+      </div>
 
       {chartData.series.length > 0 && (
         <div className="mt-4 text-sm text-black text-center">
@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useMemo, useRef } from 'react'
 import {
   BarChart,
   Bar,
@@ -15,6 +15,8 @@ import {
 import { CHART_THEME, getChartColor } from '@/lib/chart-theme'
 import { filterData, prepareWaterfallData } from '@/lib/data-processor'
 import { useDashboardStore } from '@/lib/store'
+import { buildChartSvg, findRechartsSvg } from '@/lib/svg-export'
+import { ChartExportButtons } from './ChartExportButtons'
 
 interface WaterfallChartProps {
   title?: string
@@ -32,6 +34,7 @@ interface WaterfallDataPoint {
 
 export function WaterfallChart({ title, height = 400 }: WaterfallChartProps) {
   const { data, filters } = useDashboardStore()
+  const chartContainerRef = useRef<HTMLDivElement>(null)
 
   const chartData = useMemo(() => {
     if (!data) return { data: [], totalChange: 0 }
@@ -251,12 +254,29 @@ export function WaterfallChart({ title, height = 400 }: WaterfallChartProps) {
     }
   }
 
+  // Standalone SVG with the colour key drawn in
+  const buildExportSvg = () => {
+    const svg = findRechartsSvg(chartContainerRef.current)
+    if (!svg) return null
+    return buildChartSvg(svg, {
+      title: title || 'Contribution Analysis',
+      subtitle: `${data.metadata.market_name} · ${yAxisLabel} · ${filters.yearRange[0]}–${filters.yearRange[1]}`,
+      legend: [
+        { label: 'Start/End Total', color: getColor('start') },
+        { label: 'Positive Contribution', color: getColor('positive') },
+        { label: 'Negative Contribution', color: getColor('negative') },
+      ],
+    })
+  }
+
   return (
     <div className="w-full">
-      {title && (
-        <h3 className="text-lg font-semibold mb-4 text-black">{title}</h3>
-      )}
+      <div className="flex items-center justify-between mb-4">
+        {title ? <h3 className="text-lg font-semibold text-black">{title}</h3> : <span />}
+        <ChartExportButtons chartName="waterfall" buildSvg={buildExportSvg} />
+      </div>
       
+      <div ref={chartContainerRef}>
       <ResponsiveContainer width="100%" height={height}>
         <BarChart
           data={chartData.data}
@@ -300,6 +320,7 @@ export function WaterfallChart({ title, height = 400 }: WaterfallChartProps) {
           </Bar>
         </BarChart>
       </ResponsiveContainer>
+      </div>
 
       <div className="mt-4 space-y-2">
         <div className="flex items-center justify-center gap-6 text-sm">
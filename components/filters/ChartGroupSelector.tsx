@@ -2,7 +2,7 @@
 
 import { useDashboardStore } from '@/lib/store'
 import { CHART_GROUPS, type ChartGroupId } from '@/lib/chart-groups'
-import { BarChart3, Target, Trophy, Users } from 'lucide-react'
+import { BarChart3, Target, Trophy, Users, GitCompare, History } from 'lucide-react'
 
 // Icon mapping for each chart group
 const iconMap = {
@@ -10,6 +10,8 @@ const iconMap = {
   'coherent-opportunity': Target,
   'competitive-intelligence': Trophy,
   'customer-intelligence': Users,
+  'cross-market': GitCompare,
+  'version-history': History,
 }
 
 export function ChartGroupSelector() {
@@ -1,14 +1,27 @@
 'use client'
 
-import { useState, useMemo } from 'react'
-import { Zap, TrendingUp, Globe, Target, BarChart3, Save, Trash2, ChevronDown, ChevronUp } from 'lucide-react'
+import { useState, useMemo, useEffect, useRef } from 'react'
+import { Zap, TrendingUp, Globe, Target, BarChart3, Save, Trash2, ChevronDown, ChevronUp, Download, Upload, AlertTriangle, X } from 'lucide-react'
 import { useDashboardStore } from '@/lib/store'
 import { FilterState } from '@/lib/types'
 import { 
   createTopMarketFilters, 
   createGrowthLeadersFilters, 
-  createEmergingMarketsFilters 
+  createEmergingMarketsFilters,
+  getPresetYearRanges
 } from '@/lib/preset-utils'
+import {
+  createPresetFile,
+  createPresetId,
+  describePresetFilters,
+  getPresetFileName,
+  parsePresetFile,
+  pickPresetFilters,
+  resolvePresetFilters,
+  sanitizePreset,
+  type SavedFilterPreset
+} from '@/lib/filter-presets'
+import { saveAs } from 'file-saver'
 
 interface FilterPreset {
   id: string
@@ -17,6 +30,28 @@ interface FilterPreset {
   icon: React.ReactNode
   filters: Partial<FilterState>
   isCustom?: boolean
+  missing?: string[] // References the loaded dataset does not have
+}
+
+// Browser-only presets from before presets were stored on the server
+const LEGACY_STORAGE_KEY = 'marketAnalysisPresets'
+
+async function requestPresets(init?: RequestInit & { query?: Record<string, string> }): Promise<SavedFilterPreset[]> {
+  const query = init?.query ? `?${new URLSearchParams(init.query)}` : ''
+  const response = await fetch(`/api/presets${query}`, init)
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Request failed (${response.status})`)
+  }
+  return body.presets ?? []
+}
+
+function postPresets(market: string, presets: SavedFilterPreset[]): Promise<SavedFilterPreset[]> {
+  return requestPresets({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ market, presets }),
+  })
 }
 
 // Note: defaultPresets is now computed dynamically in the component
@@ -24,10 +59,43 @@ interface FilterPreset {
 
 export function FilterPresets() {
   const { filters, updateFilters, data } = useDashboardStore()
-  const [customPresets, setCustomPresets] = useState<FilterPreset[]>([])
+  const [savedPresets, setSavedPresets] = useState<SavedFilterPreset[]>([])
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [presetName, setPresetName] = useState('')
   const [isExpanded, setIsExpanded] = useState(true)
+  const [notice, setNotice] = useState<{ type: 'warning' | 'error' | 'success'; message: string } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const market = data?.metadata.market_name ?? null
+
+  // Load the market's presets from the server, moving any browser-only presets there first
+  useEffect(() => {
+    if (!market) {
+      setSavedPresets([])
+      return
+    }
+    let cancelled = false
+    const load = async () => {
+      try {
+        const legacy = localStorage.getItem(LEGACY_STORAGE_KEY)
+        if (legacy) {
+          const migrated = (JSON.parse(legacy) as unknown[])
+            .map(preset => sanitizePreset(preset, market))
+            .filter((preset): preset is SavedFilterPreset => preset !== null)
+          if (migrated.length > 0) await postPresets(market, migrated)
+          localStorage.removeItem(LEGACY_STORAGE_KEY)
+        }
+        const presets = await requestPresets({ query: { market } })
+        if (!cancelled) setSavedPresets(presets)
+      } catch (e) {
+        console.error('Error loading custom presets:', e)
+        if (!cancelled) setNotice({ type: 'error', message: `Could not load saved presets: ${e instanceof Error ? e.message : String(e)}` })
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [market])
 
   // Dynamically compute default presets based on actual data
   const defaultPresets = useMemo<FilterPreset[]>(() => {
@@ -35,12 +103,13 @@ export function FilterPresets() {
     const topMarketFilters = createTopMarketFilters(data)
     const growthLeadersFilters = createGrowthLeadersFilters(data)
     const emergingMarketsFilters = createEmergingMarketsFilters(data)
+    const yearRanges = getPresetYearRanges(data)
 
     return [
   {
     id: 'top-markets',
     name: 'Top Markets',
-        description: 'Top 3 regions by 2024 market size',
+        description: `Top 3 regions by ${data?.metadata.base_year ?? 'base year'} market size`,
     icon: <Globe className="h-4 w-4" />,
         filters: topMarketFilters
   },
@@ -65,16 +134,36 @@ export function FilterPresets() {
     icon: <BarChart3 className="h-4 w-4" />,
     filters: {
       viewMode: 'matrix',
-      yearRange: [2024, 2028],
+      ...(yearRanges && { yearRange: yearRanges.shortTerm }),
       dataType: 'value',
     }
   },
 ]
   }, [data])
 
+  const customPresets = useMemo<FilterPreset[]>(() => savedPresets.map(preset => ({
+    id: preset.id,
+    name: preset.name,
+    description: preset.description,
+    icon: <Save className="h-4 w-4" />,
+    filters: preset.filters,
+    isCustom: true,
+    missing: data ? resolvePresetFilters(preset.filters, data, filters).missing : [],
+  })), [savedPresets, data, filters])
+
   const applyPreset = (preset: FilterPreset) => {
+    let presetFilters = preset.filters
+    if (preset.isCustom && data) {
+      // Skip what this dataset lacks instead of filtering everything out
+      const resolved = resolvePresetFilters(preset.filters, data, filters)
+      presetFilters = resolved.filters
+      setNotice(resolved.missing.length > 0
+        ? { type: 'warning', message: `"${preset.name}" references data not in this dataset: ${resolved.missing.join(', ')}` }
+        : null)
+    }
+
     // Merge preset filters with current filters
-    const newFilters: Partial<FilterState> = { ...preset.filters }
+    const newFilters: Partial<FilterState> = { ...presetFilters }
     
     // If preset doesn't specify certain filters, keep current ones
     if (!newFilters.geographies && filters.geographies.length > 0) {
@@ -90,51 +179,63 @@ export function FilterPresets() {
     updateFilters(newFilters as FilterState)
   }
 
-  const saveCurrentAsPreset = () => {
-    if (!presetName.trim()) return
+  const saveCurrentAsPreset = async () => {
+    if (!presetName.trim() || !market) return
 
-    const newPreset: FilterPreset = {
-      id: `custom-${Date.now()}`,
-      name: presetName,
-      description: `Custom preset: ${filters.geographies.length} geographies, ${filters.segments.length} segments`,
-      icon: <Save className="h-4 w-4" />,
-      filters: {
-        viewMode: filters.viewMode,
-        geographies: [...filters.geographies],
-        segments: [...filters.segments],
-        segmentType: filters.segmentType,
-        yearRange: [...filters.yearRange] as [number, number],
-        dataType: filters.dataType,
-      },
-      isCustom: true,
+    const presetFilters = pickPresetFilters(filters)
+    const newPreset: SavedFilterPreset = {
+      id: createPresetId(),
+      name: presetName.trim(),
+      description: describePresetFilters(presetFilters),
+      market,
+      filters: presetFilters,
+      created_at: new Date().toISOString(),
     }
 
-    setCustomPresets([...customPresets, newPreset])
-    setPresetName('')
-    setShowSaveDialog(false)
-    
-    // Save to localStorage
-    const savedPresets = [...customPresets, newPreset]
-    localStorage.setItem('marketAnalysisPresets', JSON.stringify(savedPresets))
+    try {
+      setSavedPresets(await postPresets(market, [newPreset]))
+      setPresetName('')
+      setShowSaveDialog(false)
+      setNotice(null)
+    } catch (e) {
+      console.error('Error saving preset:', e)
+      setNotice({ type: 'error', message: `Could not save preset: ${e instanceof Error ? e.message : String(e)}` })
+    }
   }
 
-  const deleteCustomPreset = (id: string) => {
-    const updated = customPresets.filter(p => p.id !== id)
-    setCustomPresets(updated)
-    localStorage.setItem('marketAnalysisPresets', JSON.stringify(updated))
+  const deleteCustomPreset = async (id: string) => {
+    if (!market) return
+    try {
+      setSavedPresets(await requestPresets({ method: 'DELETE', query: { market, id } }))
+    } catch (e) {
+      console.error('Error deleting preset:', e)
+      setNotice({ type: 'error', message: `Could not delete preset: ${e instanceof Error ? e.message : String(e)}` })
+    }
   }
 
-  // Load custom presets from localStorage on mount
-  useState(() => {
-    const saved = localStorage.getItem('marketAnalysisPresets')
-    if (saved) {
-      try {
-        setCustomPresets(JSON.parse(saved))
-      } catch (e) {
-        console.error('Error loading custom presets:', e)
+  const exportPresets = () => {
+    if (!market || savedPresets.length === 0) return
+    const file = createPresetFile(market, savedPresets)
+    saveAs(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), getPresetFileName(market))
+  }
+
+  const importPresets = async (file: File | undefined) => {
+    if (!file || !market) return
+    try {
+      const imported = parsePresetFile(await file.text(), market)
+      if (imported.length === 0) {
+        throw new Error('The file contains no presets')
       }
+      setSavedPresets(await postPresets(market, imported))
+      const missing = imported.filter(preset => resolvePresetFilters(preset.filters, data!, filters).missing.length > 0)
+      setNotice(missing.length > 0
+        ? { type: 'warning', message: `Imported ${imported.length} preset(s); ${missing.map(preset => `"${preset.name}"`).join(', ')} reference data not in this dataset` }
+        : { type: 'success', message: `Imported ${imported.length} preset(s)` })
+    } catch (e) {
+      console.error('Error importing presets:', e)
+      setNotice({ type: 'error', message: `Could not import presets: ${e instanceof Error ? e.message : String(e)}` })
     }
-  })
+  }
 
   if (!data) return null
 
@@ -151,6 +252,50 @@ export function FilterPresets() {
           Quick Filters
         </h3>
         <div className="flex items-center gap-2">
+          {isExpanded && (
+            <>
+              <div
+                onClick={(e) => {
+                  e.stopPropagation()
+                  importInputRef.current?.click()
+                }}
+                className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+                title="Import Presets"
+                role="button"
+                tabIndex={0}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault()
+                    e.stopPropagation()
+                    importInputRef.current?.click()
+                  }
+                }}
+              >
+                <Upload className="h-3 w-3" />
+              </div>
+              {savedPresets.length > 0 && (
+                <div
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    exportPresets()
+                  }}
+                  className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+                  title="Export Presets"
+                  role="button"
+                  tabIndex={0}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault()
+                      e.stopPropagation()
+                      exportPresets()
+                    }
+                  }}
+                >
+                  <Download className="h-3 w-3" />
+                </div>
+              )}
+            </>
+          )}
           {isExpanded && (
             <div
               onClick={(e) => {
@@ -179,6 +324,29 @@ export function FilterPresets() {
           )}
         </div>
       </button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          importPresets(e.target.files?.[0])
+          e.target.value = ''
+        }}
+      />
+
+      {notice && (
+        <div className={`mx-2 mb-2 flex items-start gap-1 p-2 rounded text-xs ${
+          notice.type === 'error' ? 'bg-red-50 text-red-700'
+            : notice.type === 'warning' ? 'bg-orange-50 text-orange-700'
+            : 'bg-green-50 text-green-700'
+        }`}>
+          <span className="flex-1">{notice.message}</span>
+          <button onClick={() => setNotice(null)} title="Dismiss">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
 
       {isExpanded && (
         <div className="grid grid-cols-2 gap-1 p-2 pt-0">
@@ -187,7 +355,9 @@ export function FilterPresets() {
             key={preset.id}
             className="group relative flex items-center gap-2 p-2 rounded text-left hover:bg-blue-50 transition-colors"
             onClick={() => applyPreset(preset)}
-            title={preset.description}
+            title={preset.missing && preset.missing.length > 0
+              ? `${preset.description}\nNot in this dataset: ${preset.missing.join(', ')}`
+              : preset.description}
           >
             <span className="text-blue-500 text-sm">
               {preset.icon}
@@ -195,6 +365,9 @@ export function FilterPresets() {
             <span className="text-xs font-medium text-black truncate flex-1">
               {preset.name}
             </span>
+            {preset.missing && preset.missing.length > 0 && (
+              <AlertTriangle className="h-3 w-3 text-orange-500 flex-shrink-0" />
+            )}
             {preset.isCustom && (
               <div
                 onClick={(e) => {
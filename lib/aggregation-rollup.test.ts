@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { rollupSegmentRecords } from './aggregation-rollup'
+import { filterData } from './data-processor'
+import type { DataRecord, FilterState } from './types'
+
+const OPTIONS = { years: [2023, 2024], baseYear: 2023, forecastYear: 2024 }
+
+function leaf(geography: string, path: string[], values: [number, number], extra: Partial<DataRecord> = {}): DataRecord {
+  return {
+    geography,
+    geography_level: 'region',
+    parent_geography: null,
+    segment_type: 'By Type',
+    segment: path[path.length - 1],
+    segment_level: 'leaf',
+    segment_hierarchy: { level_1: path[0] || '', level_2: path[1] || '', level_3: path[2] || '', level_4: path[3] || '' },
+    time_series: { 2023: values[0], 2024: values[1] },
+    cagr: 0,
+    market_share: 0,
+    ...extra
+  }
+}
+
+describe('rollupSegmentRecords', () => {
+  it('derives every missing ancestor from the leaves beneath it', () => {
+    const records = [
+      leaf('Europe', ['Powder', 'Fine'], [10, 12]),
+      leaf('Europe', ['Powder', 'Coarse'], [30, 33]),
+      leaf('Europe', ['Liquid'], [60, 66])
+    ]
+    const { derived, discrepancies } = rollupSegmentRecords(records, [['Powder', 'Fine'], ['Powder', 'Coarse'], ['Liquid']], OPTIONS)
+
+    expect(discrepancies).toEqual([])
+    expect(derived.map(record => [record.segment, record.aggregation_level, record.time_series])).toEqual([
+      ['__ALL_SEGMENTS__', 1, { 2023: 100, 2024: 111 }],
+      ['Powder', 2, { 2023: 40, 2024: 45 }]
+    ])
+    expect(derived.every(record => record.is_derived && record.is_aggregated && record.segment_level === 'parent')).toBe(true)
+    expect(derived[0].cagr).toBe(11)
+    expect(derived[1].segment_hierarchy).toEqual({ level_1: 'Powder', level_2: '', level_3: '', level_4: '' })
+  })
+
+  it('keeps geographies apart', () => {
+    const records = [leaf('Europe', ['A'], [1, 1]), leaf('Asia', ['A'], [2, 2])]
+    const { derived } = rollupSegmentRecords(records, [['A'], ['A']], OPTIONS)
+    expect(derived.map(record => [record.geography, record.time_series[2023]])).toEqual([['Europe', 1], ['Asia', 2]])
+  })
+
+  it('checks supplied parents against their leaves instead of deriving them', () => {
+    const records = [
+      leaf('Europe', ['Powder'], [40, 50], { segment_level: 'parent', is_aggregated: true, aggregation_level: 2 }),
+      leaf('Europe', ['Powder', 'Fine'], [10, 12]),
+      leaf('Europe', ['Powder', 'Coarse'], [30, 33])
+    ]
+    const paths = [['Powder'], ['Powder', 'Fine'], ['Powder', 'Coarse']]
+    const { derived, discrepancies } = rollupSegmentRecords(records, paths, OPTIONS)
+
+    expect(derived.map(record => record.segment)).toEqual(['__ALL_SEGMENTS__'])
+    expect(derived[0].time_series).toEqual({ 2023: 40, 2024: 45 })
+    expect(discrepancies).toEqual([{
+      geography: 'Europe',
+      segment_type: 'By Type',
+      segment_path: ['Powder'],
+      year: 2024,
+      supplied: 50,
+      rolled_up: 45,
+      difference_pct: 10,
+      years_affected: 1
+    }])
+  })
+
+  it('accepts differences within the tolerance', () => {
+    const records = [
+      leaf('Europe', ['Powder'], [40.1, 45], { is_aggregated: true }),
+      leaf('Europe', ['Powder', 'Fine'], [40, 45])
+    ]
+    expect(rollupSegmentRecords(records, [['Powder'], ['Powder', 'Fine']], OPTIONS).discrepancies).toEqual([])
+    expect(rollupSegmentRecords(records, [['Powder'], ['Powder', 'Fine']], { ...OPTIONS, tolerance: 0.001 }).discrepancies).toHaveLength(1)
+  })
+})
+
+describe('filterData with derived aggregates', () => {
+  const filters: FilterState = {
+    geographies: ['Europe'],
+    segments: ['Powder'],
+    segmentType: 'By Type',
+    yearRange: [2023, 2024],
+    dataType: 'value',
+    viewMode: 'segment-mode',
+    businessType: undefined,
+    aggregationLevel: null
+  }
+  const records = [leaf('Europe', ['Powder', 'Fine'], [10, 12]), leaf('Europe', ['Powder', 'Coarse'], [30, 33])]
+  const { derived } = rollupSegmentRecords(records, [['Powder', 'Fine'], ['Powder', 'Coarse']], OPTIONS)
+  const dataset = [...records, ...derived]
+
+  it('leaves derived aggregates out of All Levels so leaves are not counted twice', () => {
+    expect(filterData(dataset, filters).some(record => record.is_derived)).toBe(false)
+  })
+
+  it('shows derived aggregates when their level is selected', () => {
+    expect(filterData(dataset, { ...filters, segments: [], aggregationLevel: 2 }).map(record => record.segment)).toEqual(['Powder'])
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Aggregation Rollup
+ * Computes missing parent aggregates from leaf records and checks supplied
+ * parent aggregates against the sum of the leaves beneath them
+ */
+
+import type { AggregationDiscrepancy, DataRecord, SegmentHierarchy } from './types'
+
+export interface RollupOptions {
+  years: number[]
+  baseYear: number
+  forecastYear: number
+  tolerance?: number // Relative difference allowed between a supplied parent and its leaves
+}
+
+export interface RollupResult {
+  derived: DataRecord[]
+  discrepancies: Omit<AggregationDiscrepancy, 'data_type'>[]
+}
+
+const DEFAULT_TOLERANCE = 0.005
+
+function pathKey(path: string[]): string {
+  return path.join('|')
+}
+
+function buildHierarchy(path: string[]): SegmentHierarchy {
+  return {
+    level_1: path[0] || '',
+    level_2: path[1] || '',
+    level_3: path[2] || '',
+    level_4: path[3] || '',
+  }
+}
+
+function calculateCagr(timeSeries: Record<number, number>, baseYear: number, forecastYear: number): number {
+  const start = timeSeries[baseYear] || 0
+  const end = timeSeries[forecastYear] || 0
+  const periods = forecastYear - baseYear
+  if (start <= 0 || end <= 0 || periods <= 0) return 0
+  return Math.round((Math.pow(end / start, 1 / periods) - 1) * 10000) / 100
+}
+
+/**
+ * Roll leaf records up the segment hierarchy of one segment type
+ * `paths[i]` is the full segment path of `records[i]` (below the segment type).
+ * Every ancestor path without a record gets a derived aggregate (level = depth + 1,
+ * matching `_level` in the JSON); ancestors that do have a record are compared
+ * year by year with the sum of their leaves.
+ */
+export function rollupSegmentRecords(
+  records: DataRecord[],
+  paths: string[][],
+  options: RollupOptions
+): RollupResult {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE
+  const derived: DataRecord[] = []
+  const discrepancies: RollupResult['discrepancies'] = []
+
+  // Group record indices by geography - each geography has its own tree
+  const byGeography = new Map<string, number[]>()
+  records.forEach((record, index) => {
+    const indices = byGeography.get(record.geography)
+    if (indices) {
+      indices.push(index)
+    } else {
+      byGeography.set(record.geography, [index])
+    }
+  })
+
+  byGeography.forEach((indices, geography) => {
+    const recordByPath = new Map<string, DataRecord>()
+    const ancestorKeys = new Set<string>()
+    indices.forEach(index => {
+      const path = paths[index]
+      recordByPath.set(pathKey(path), records[index])
+      for (let depth = 0; depth < path.length; depth++) {
+        ancestorKeys.add(pathKey(path.slice(0, depth)))
+      }
+    })
+
+    // Sum every leaf into each of its ancestors
+    const rolledUp = new Map<string, { path: string[]; timeSeries: Record<number, number>; leaf: DataRecord }>()
+    indices.forEach(index => {
+      const path = paths[index]
+      if (ancestorKeys.has(pathKey(path))) return // Not a leaf
+
+      const leaf = records[index]
+      for (let depth = 0; depth < path.length; depth++) {
+        const prefix = path.slice(0, depth)
+        const key = pathKey(prefix)
+        let entry = rolledUp.get(key)
+        if (!entry) {
+          entry = { path: prefix, timeSeries: {}, leaf }
+          options.years.forEach(year => { entry!.timeSeries[year] = 0 })
+          rolledUp.set(key, entry)
+        }
+        for (const year of options.years) {
+          entry.timeSeries[year] += leaf.time_series[year] || 0
+        }
+      }
+    })
+
+    rolledUp.forEach(({ path, timeSeries, leaf }, key) => {
+      const supplied = recordByPath.get(key)
+
+      if (!supplied) {
+        derived.push({
+          geography,
+          geography_level: leaf.geography_level,
+          parent_geography: leaf.parent_geography,
+          segment_type: leaf.segment_type,
+          segment: path.length === 0 ? '__ALL_SEGMENTS__' : path[path.length - 1],
+          segment_level: 'parent',
+          segment_hierarchy: buildHierarchy(path),
+          time_series: timeSeries,
+          cagr: calculateCagr(timeSeries, options.baseYear, options.forecastYear),
+          market_share: 0,
+          is_aggregated: true,
+          aggregation_level: path.length + 1,
+          is_derived: true,
+        })
+        return
+      }
+
+      let worst: { year: number; supplied: number; rolledUp: number; difference: number } | null = null
+      let yearsAffected = 0
+      for (const year of options.years) {
+        const suppliedValue = supplied.time_series[year] || 0
+        const rolledUpValue = timeSeries[year]
+        const scale = Math.max(Math.abs(suppliedValue), Math.abs(rolledUpValue))
+        if (scale === 0) continue
+
+        const difference = Math.abs(suppliedValue - rolledUpValue) / scale
+        if (difference <= tolerance) continue
+
+        yearsAffected++
+        if (!worst || difference > worst.difference) {
+          worst = { year, supplied: suppliedValue, rolledUp: rolledUpValue, difference }
+        }
+      }
+
+      if (worst) {
+        discrepancies.push({
+          geography,
+          segment_type: supplied.segment_type,
+          segment_path: path,
+          year: worst.year,
+          supplied: worst.supplied,
+          rolled_up: worst.rolledUp,
+          difference_pct: Math.round(worst.difference * 10000) / 100,
+          years_affected: yearsAffected,
+        })
+      }
+    })
+  })
+
+  return { derived, discrepancies }
+}
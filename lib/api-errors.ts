@@ -0,0 +1,17 @@
+/**
+ * API Errors
+ * JSON error responses shared by the saved-item API routes
+ */
+
+import { NextResponse } from 'next/server'
+
+/**
+ * Log an error and respond with { error, details }
+ */
+export function errorResponse(message: string, error: unknown, status = 500) {
+  console.error(`${message}:`, error)
+  return NextResponse.json(
+    { error: message, details: error instanceof Error ? error.message : String(error) },
+    { status }
+  )
+}
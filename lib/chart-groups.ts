@@ -3,7 +3,7 @@
  * Defines the grouping of charts for different analytical perspectives
  */
 
-export type ChartGroupId = 'market-analysis' | 'coherent-opportunity' | 'competitive-intelligence' | 'customer-intelligence'
+export type ChartGroupId = 'market-analysis' | 'coherent-opportunity' | 'competitive-intelligence' | 'customer-intelligence' | 'cross-market' | 'version-history'
 
 export interface ChartGroup {
   id: ChartGroupId
@@ -30,7 +30,7 @@ export const CHART_GROUPS: ChartGroup[] = [
   },
   {
     id: 'competitive-intelligence',
-    label: 'Competitive Intelligence 2025',
+    label: 'Competitive Intelligence',
     description: 'Competitor analysis and market share',
     charts: ['competitive-intelligence'], // This includes both Market Share and Competitive Dashboard
     icon: '🏆'
@@ -41,11 +41,58 @@ export const CHART_GROUPS: ChartGroup[] = [
     description: 'Customer segmentation and insights',
     charts: ['customer-intelligence'],
     icon: '👥'
+  },
+  {
+    id: 'cross-market',
+    label: 'Cross-Market Comparison',
+    description: 'Overlay the same selection from two loaded markets',
+    charts: ['cross-market'],
+    icon: '🔀'
+  },
+  {
+    id: 'version-history',
+    label: 'Version History',
+    description: 'What changed between two releases of the active market',
+    charts: ['version-diff'],
+    icon: '🕘'
   }
 ]
 
 export const DEFAULT_CHART_GROUP: ChartGroupId = 'market-analysis'
 
+// Chart ids mapped to their container element in app/page.tsx (tabs mode), used by the exporters
+export const CHART_ELEMENT_IDS: Record<string, string> = {
+  'grouped-bar': 'grouped-bar-chart',
+  'multi-line': 'line-chart',
+  'heatmap': 'heatmap-chart',
+  'comparison-table': 'comparison-table',
+  'waterfall': 'waterfall-chart',
+  'bubble': 'bubble-chart',
+  'competitive-intelligence': 'competitive-intelligence-chart',
+  'customer-intelligence': 'customer-intelligence-chart',
+  'cross-market': 'cross-market-chart',
+  'version-diff': 'version-diff-chart',
+}
+
+/**
+ * Get chart title based on element ID
+ */
+export function getChartTitle(chartId: string): string {
+  const titles: Record<string, string> = {
+    'grouped-bar-chart': 'Comparative Bar Chart Analysis',
+    'line-chart': 'Trend Analysis Over Time',
+    'heatmap-chart': 'Matrix Heatmap Comparison',
+    'comparison-table': 'Detailed Data Table',
+    'waterfall-chart': 'Growth Contribution Waterfall',
+    'bubble-chart': 'Coherent Opportunity Matrix',
+    'competitive-intelligence-chart': 'Competitive Intelligence',
+    'customer-intelligence-chart': 'Customer Intelligence',
+    'cross-market-chart': 'Cross-Market Comparison',
+    'version-diff-chart': 'Version Comparison',
+  }
+  return titles[chartId] || 'Chart'
+}
+
 /**
  * Get chart group by ID
  */
@@ -85,6 +85,20 @@ export const CHART_THEME = {
       color: '#000000',
     },
   },
+  
+  // Shading behind forecast years on year-based charts
+  forecastArea: {
+    fill: CHART_COLORS.palette.deepTeal,
+    fillOpacity: 0.08,
+    strokeOpacity: 0,
+    ifOverflow: 'hidden' as const,
+    label: {
+      value: 'Forecast',
+      position: 'insideTopRight' as const,
+      fontSize: 11,
+      fill: CHART_COLORS.palette.blueTeal,
+    },
+  },
 }
 
 export const getChartColor = (index: number, subIndex?: number): string => {
@@ -0,0 +1,171 @@
+/**
+ * Company Profile
+ * Peer benchmark for one company of a competitive intelligence file (revenue against peers,
+ * share rank overall and per region, overlapping regional strengths) and the company notes
+ * kept in localStorage
+ */
+
+import type { CompanyData, CompanyShareEntry, CompetitiveIntelligenceData } from './competitive-intelligence-data'
+
+export interface PeerRevenue {
+  name: string
+  segmentalRevenue: number | null
+  marketShare: number
+  color: string
+  isSelected: boolean
+}
+
+export interface RegionalRank {
+  geography: string
+  year: number
+  share: number
+  rank: number
+  companyCount: number
+}
+
+export interface RegionOverlap {
+  region: string
+  peers: string[] // Other companies listing the same regional strength
+}
+
+export interface CompanyBenchmark {
+  company: CompanyData
+  shareRank: number
+  companyCount: number
+  leader: CompanyData | null // null when the company is the leader
+  peerMedianRevenue: number | null
+  revenueVsMedian: number | null // Ratio of the company's segmental revenue to the peer median
+  peers: PeerRevenue[] // Top peers by share plus the company itself
+  regionalRanks: RegionalRank[]
+  regionOverlaps: RegionOverlap[]
+}
+
+export interface CompanyNote {
+  text: string
+  updatedAt: string // ISO timestamp
+}
+
+const COMPANY_NOTES_STORAGE_KEY = 'companyNotes'
+const PEER_LIMIT = 10
+
+/**
+ * Profile page URL for a company; the market tells the page which file to load
+ */
+export function getCompanyProfileHref(companyId: string, market: string): string {
+  return `/company/${encodeURIComponent(companyId)}?market=${encodeURIComponent(market)}`
+}
+
+export function findCompany(data: CompetitiveIntelligenceData, companyId: string): CompanyData | undefined {
+  return data.companies.find(company => company.id === companyId)
+}
+
+const splitRegions = (value: string) => value.split(',').map(region => region.trim()).filter(Boolean)
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Share rank in each geography of the share history, using the latest year the company has a
+ * whole-segment share for that geography
+ */
+function getRegionalRanks(data: CompetitiveIntelligenceData, company: CompanyData): RegionalRank[] {
+  const latestYears = new Map<string, number>()
+  const isWholeSegment = (entry: CompanyShareEntry) => entry.segmentType === null && entry.segment === null
+  data.share_history.forEach(entry => {
+    if (entry.company !== company.name || entry.geography === null || !isWholeSegment(entry)) return
+    latestYears.set(entry.geography, Math.max(latestYears.get(entry.geography) ?? entry.year, entry.year))
+  })
+
+  return Array.from(latestYears.entries()).map(([geography, year]) => {
+    const cell = data.share_history
+      .filter(entry => entry.geography === geography && isWholeSegment(entry) && entry.year === year && entry.company !== 'Others')
+      .sort((a, b) => b.share - a.share)
+    const rank = cell.findIndex(entry => entry.company === company.name) + 1
+    return { geography, year, share: cell[rank - 1].share, rank, companyCount: cell.length }
+  }).sort((a, b) => b.share - a.share)
+}
+
+/**
+ * Benchmark a company against the other companies in the same file
+ */
+export function getCompanyBenchmark(data: CompetitiveIntelligenceData, companyId: string): CompanyBenchmark | null {
+  const company = findCompany(data, companyId)
+  if (!company || company.name === 'Others') return null
+
+  // Companies are sorted by share with "Others" last
+  const ranked = data.companies.filter(entry => entry.name !== 'Others')
+  const shareRank = ranked.findIndex(entry => entry.id === company.id) + 1
+  const peerRevenues = ranked
+    .filter(entry => entry.id !== company.id && entry.segmentalRevenue !== null)
+    .map(entry => entry.segmentalRevenue as number)
+  const peerMedianRevenue = median(peerRevenues)
+
+  const toPeer = (entry: CompanyData): PeerRevenue => ({
+    name: entry.name,
+    segmentalRevenue: entry.segmentalRevenue,
+    marketShare: entry.marketShare,
+    color: entry.color,
+    isSelected: entry.id === company.id
+  })
+  const peers = ranked.slice(0, PEER_LIMIT).map(toPeer)
+  if (!peers.some(peer => peer.isSelected)) peers.push(toPeer(company))
+
+  const ownRegions = splitRegions(company.regionalStrength)
+  const regionOverlaps = ownRegions.map(region => ({
+    region,
+    peers: ranked
+      .filter(entry => entry.id !== company.id && splitRegions(entry.regionalStrength).some(other => other.toLowerCase() === region.toLowerCase()))
+      .map(entry => entry.name)
+  }))
+
+  return {
+    company,
+    shareRank,
+    companyCount: ranked.length,
+    leader: shareRank > 1 ? ranked[0] : null,
+    peerMedianRevenue,
+    revenueVsMedian: company.segmentalRevenue !== null && peerMedianRevenue ? company.segmentalRevenue / peerMedianRevenue : null,
+    peers,
+    regionalRanks: getRegionalRanks(data, company),
+    regionOverlaps
+  }
+}
+
+const getNoteKey = (market: string, companyId: string) => `${market}::${companyId}`
+
+function readNotes(): Record<string, CompanyNote> {
+  try {
+    const saved = localStorage.getItem(COMPANY_NOTES_STORAGE_KEY)
+    const parsed = saved ? JSON.parse(saved) : {}
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Load the saved notes for a company from localStorage
+ */
+export function loadCompanyNote(market: string, companyId: string): CompanyNote | null {
+  if (typeof window === 'undefined') return null
+  const note = readNotes()[getNoteKey(market, companyId)]
+  return note && typeof note.text === 'string' ? note : null
+}
+
+/**
+ * Persist the notes for a company to localStorage; empty notes are removed
+ */
+export function saveCompanyNote(market: string, companyId: string, text: string): CompanyNote | null {
+  if (typeof window === 'undefined') return null
+  const notes = readNotes()
+  const key = getNoteKey(market, companyId)
+  const note = text.trim() ? { text, updatedAt: new Date().toISOString() } : null
+  if (note) notes[key] = note
+  else delete notes[key]
+  localStorage.setItem(COMPANY_NOTES_STORAGE_KEY, JSON.stringify(notes))
+  return note
+}
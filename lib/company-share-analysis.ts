@@ -0,0 +1,300 @@
+/**
+ * Company Share Analysis
+ * Joins the company share history from competitive_intelligence.json to the market totals in
+ * the loaded dataset, so shares can be combined across the geographies and segments selected
+ * in the main filters (weighted by market value) and turned into revenue.
+ */
+
+import type { ComparisonData, DataRecord, FilterState } from './types'
+import type { CompanyShareEntry, CompetitiveIntelligenceData } from './competitive-intelligence-data'
+
+export const UNATTRIBUTED_COMPANY = 'Unattributed'
+
+// Market cells covered by the current filters; null means whole market / all segments
+export interface ShareScope {
+  geographies: Array<string | null>
+  segments: Array<string | null>
+  segmentType: string
+  label: string
+}
+
+export interface ScopedCompanyShare {
+  company: string
+  share: number // percentage of the covered market
+  revenue: number // in the dataset's value unit
+}
+
+export interface ScopedShareResult {
+  year: number
+  companies: ScopedCompanyShare[] // Sorted by share, largest first
+  marketTotal: number // Market value of the whole scope
+  coverage: number // Fraction of marketTotal with share data (0-1)
+}
+
+export interface ShareTrendResult {
+  points: Array<{ year: number; [company: string]: number | null }>
+  companies: Array<{ name: string; color: string }>
+  missingYears: number[]
+}
+
+export interface ShareShiftPoint {
+  company: string
+  startShare: number
+  endShare: number
+  change: number // percentage points
+  base: number // Bottom of the floating bar
+  size: number // Height of the floating bar
+  type: 'positive' | 'negative'
+}
+
+export interface ShareShiftResult {
+  startYear: number
+  endYear: number
+  points: ShareShiftPoint[]
+}
+
+export interface RegionalShareResult {
+  year: number
+  geographies: string[]
+  rows: Array<{ company: string; color: string; shares: Array<number | null> }> // shares follow geographies
+}
+
+/**
+ * Name of the dataset's whole-market geography, e.g. "Global"
+ */
+function getGlobalGeography(data: ComparisonData): string | undefined {
+  return data.dimensions.geographies.global[0]
+}
+
+/**
+ * Resolve the market cells the filters select
+ * Selecting the global geography is the same as selecting no geography
+ */
+export function getShareScope(data: ComparisonData, filters: FilterState): ShareScope {
+  const globalGeography = getGlobalGeography(data)
+  const geographies = filters.geographies.filter(geography => geography !== globalGeography)
+  const label = [
+    geographies.length > 0 ? geographies.join(', ') : globalGeography || 'Whole market',
+    filters.segments.length > 0 ? filters.segments.join(', ') : `All ${filters.segmentType || 'segments'}`
+  ].join(' · ')
+
+  return {
+    geographies: geographies.length > 0 ? geographies : [null],
+    segments: filters.segments.length > 0 ? filters.segments : [null],
+    segmentType: filters.segmentType,
+    label
+  }
+}
+
+/**
+ * Market value of one cell from the dataset, or null when the dataset has no matching records
+ * A segment uses its own parent record when there is one, otherwise its leaf records;
+ * the whole segment type is the sum of its leaves so parents are not counted twice
+ */
+export function getMarketTotal(
+  records: DataRecord[],
+  globalGeography: string | undefined,
+  geography: string | null,
+  segmentType: string,
+  segment: string | null,
+  year: number
+): number | null {
+  const geographyName = geography ?? globalGeography
+  if (!geographyName) return null
+
+  const inCell = records.filter(record =>
+    record.geography === geographyName &&
+    record.segment_type === segmentType &&
+    (segment === null || record.segment === segment)
+  )
+  const parent = segment !== null
+    ? inCell.find(record => record.is_aggregated === true) ?? inCell.find(record => record.segment_level === 'parent')
+    : undefined
+  const summed = parent ? [parent] : inCell.filter(record => record.segment_level === 'leaf' && record.is_aggregated !== true)
+  if (summed.length === 0) return null
+  return summed.reduce((sum, record) => sum + (record.time_series[year] || 0), 0)
+}
+
+function entryMatchesCell(entry: CompanyShareEntry, geography: string | null, segmentType: string, segment: string | null): boolean {
+  if (entry.geography !== geography || entry.segment !== segment) return false
+  return segment === null || entry.segmentType === null || entry.segmentType === segmentType
+}
+
+/**
+ * Company shares for one year over the whole scope
+ * Each cell's shares are turned into revenue with the cell's market total, then summed; cells the
+ * file has no shares for are left out of the denominator and reported through coverage
+ */
+export function getScopedShares(
+  competitive: CompetitiveIntelligenceData,
+  data: ComparisonData,
+  scope: ShareScope,
+  year: number
+): ScopedShareResult {
+  const records = data.data.value.geography_segment_matrix
+  const globalGeography = getGlobalGeography(data)
+  const entries = competitive.share_history.filter(entry => entry.year === year)
+  const revenues = new Map<string, number>()
+  let marketTotal = 0
+  let coveredTotal = 0
+
+  scope.geographies.forEach(geography => {
+    scope.segments.forEach(segment => {
+      const total = getMarketTotal(records, globalGeography, geography, scope.segmentType, segment, year)
+      if (total === null || total <= 0) return
+      marketTotal += total
+
+      const cellEntries = entries.filter(entry => entryMatchesCell(entry, geography, scope.segmentType, segment))
+      if (cellEntries.length === 0) return
+      coveredTotal += total
+      cellEntries.forEach(entry => {
+        revenues.set(entry.company, (revenues.get(entry.company) || 0) + (entry.share / 100) * total)
+      })
+    })
+  })
+
+  const companies = Array.from(revenues.entries())
+    .map(([company, revenue]) => ({ company, revenue, share: coveredTotal > 0 ? (revenue / coveredTotal) * 100 : 0 }))
+    .sort((a, b) => b.share - a.share)
+
+  return {
+    year,
+    companies,
+    marketTotal,
+    coverage: marketTotal > 0 ? coveredTotal / marketTotal : 0
+  }
+}
+
+function getCompanyColor(competitive: CompetitiveIntelligenceData, company: string): string {
+  return competitive.companies.find(entry => entry.name === company)?.color ?? '#94a3b8'
+}
+
+function getYears(filters: FilterState): number[] {
+  const years: number[] = []
+  for (let year = filters.yearRange[0]; year <= filters.yearRange[1]; year++) years.push(year)
+  return years
+}
+
+/**
+ * Share of each company per year in the filter's year range
+ * Lines follow the top companies of the latest year with data; years without share data are gaps
+ */
+export function prepareShareTrendData(
+  competitive: CompetitiveIntelligenceData,
+  data: ComparisonData,
+  filters: FilterState,
+  topN: number = 8
+): ShareTrendResult {
+  const scope = getShareScope(data, filters)
+  const byYear = getYears(filters).map(year => getScopedShares(competitive, data, scope, year))
+  const covered = byYear.filter(result => result.coverage > 0)
+  const latest = covered[covered.length - 1]
+  const companies = (latest?.companies ?? [])
+    .filter(entry => entry.company !== 'Others')
+    .slice(0, topN)
+    .map(entry => ({ name: entry.company, color: getCompanyColor(competitive, entry.company) }))
+
+  const points = byYear.map(result => {
+    const point: ShareTrendResult['points'][number] = { year: result.year }
+    companies.forEach(({ name }) => {
+      point[name] = result.coverage > 0
+        ? result.companies.find(entry => entry.company === name)?.share ?? 0
+        : null
+    })
+    return point
+  })
+
+  return {
+    points,
+    companies,
+    missingYears: byYear.filter(result => result.coverage === 0).map(result => result.year)
+  }
+}
+
+/**
+ * Share gained or lost by each company between the first and last year of the filter range
+ * Share not attributed to any company is its own step, so the steps net out to zero
+ */
+export function prepareShareShiftData(
+  competitive: CompetitiveIntelligenceData,
+  data: ComparisonData,
+  filters: FilterState
+): ShareShiftResult | null {
+  const [startYear, endYear] = filters.yearRange
+  if (startYear === endYear) return null
+  const scope = getShareScope(data, filters)
+  const start = getScopedShares(competitive, data, scope, startYear)
+  const end = getScopedShares(competitive, data, scope, endYear)
+  if (start.coverage === 0 || end.coverage === 0) return null
+
+  const shareOf = (result: ScopedShareResult, company: string) =>
+    result.companies.find(entry => entry.company === company)?.share ?? 0
+  const unattributed = (result: ScopedShareResult) =>
+    Math.max(0, 100 - result.companies.reduce((sum, entry) => sum + entry.share, 0))
+
+  const names = Array.from(new Set([...start.companies, ...end.companies].map(entry => entry.company)))
+  const changes = names.map(company => ({ company, startShare: shareOf(start, company), endShare: shareOf(end, company) }))
+  changes.push({ company: UNATTRIBUTED_COMPANY, startShare: unattributed(start), endShare: unattributed(end) })
+
+  // Gainers first (largest gain first), then losers (largest loss first)
+  const steps = changes
+    .map(entry => ({ ...entry, change: entry.endShare - entry.startShare }))
+    .filter(entry => Math.abs(entry.change) >= 0.005)
+    .sort((a, b) => (b.change > 0 ? 1 : 0) - (a.change > 0 ? 1 : 0) || Math.abs(b.change) - Math.abs(a.change))
+
+  let cumulative = 0
+  const points = steps.map(step => {
+    const before = cumulative
+    cumulative += step.change
+    return {
+      ...step,
+      base: Math.min(before, cumulative),
+      size: Math.abs(step.change),
+      type: step.change > 0 ? 'positive' as const : 'negative' as const
+    }
+  })
+
+  return { startYear, endYear, points }
+}
+
+/**
+ * Company share in each geography for the last year of the filter range
+ * Uses the selected geographies, or every geography the share history covers for that year
+ */
+export function prepareRegionalShareData(
+  competitive: CompetitiveIntelligenceData,
+  data: ComparisonData,
+  filters: FilterState,
+  topN: number = 10
+): RegionalShareResult {
+  const year = filters.yearRange[1]
+  const scope = getShareScope(data, filters)
+  const geographies = scope.geographies.some(geography => geography !== null)
+    ? scope.geographies.filter((geography): geography is string => geography !== null)
+    : Array.from(new Set(
+        competitive.share_history
+          .filter(entry => entry.year === year && entry.geography !== null)
+          .map(entry => entry.geography as string)
+      ))
+
+  const columns = geographies.map(geography =>
+    getScopedShares(competitive, data, { ...scope, geographies: [geography] }, year)
+  )
+  const whole = getScopedShares(competitive, data, { ...scope, geographies: geographies.length > 0 ? geographies : [null] }, year)
+  const companies = whole.companies
+    .filter(entry => entry.company !== 'Others')
+    .slice(0, topN)
+    .map(entry => entry.company)
+
+  return {
+    year,
+    geographies,
+    rows: companies.map(company => ({
+      company,
+      color: getCompanyColor(competitive, company),
+      shares: columns.map(column =>
+        column.coverage > 0 ? column.companies.find(entry => entry.company === company)?.share ?? 0 : null
+      )
+    }))
+  }
+}
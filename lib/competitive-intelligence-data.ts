@@ -1,349 +1,457 @@
 /**
- * Competitive Intelligence Data Generator
- * Generates data for competitive dashboard and market share analysis
- * Last updated: 2024
+ * Competitive Intelligence Data
+ * Schema, validation and client loader for a market's competitive_intelligence.json,
+ * plus the derived views used by the competitive dashboard and market share analysis.
+ * Nothing here invents companies or figures: without a valid file the views are empty.
  */
 
+import type { ValidationSeverity } from './data-validator'
+import { CHART_COLORS } from './chart-theme'
+
 export interface CompanyData {
   id: string
   name: string
   headquarters: string
   ceo: string
-  yearEstablished: number
+  yearEstablished: number | null
   portfolio: string
   strategies: string[]
   regionalStrength: string
-  overallRevenue: number // in USD Mn
-  segmentalRevenue: number // in USD Mn for 2024
+  overallRevenue: number | null // in metadata.currency / revenue_unit
+  segmentalRevenue: number | null // Revenue in this market for metadata.year
   marketShare: number // percentage
+  color: string
 }
 
-export interface MarketShareData {
+// A type alias rather than an interface so the slices can be passed to recharts as chart data
+export type MarketShareData = {
   company: string
   marketShare: number
+  revenue: number | null
   color: string
 }
 
+// One company's share of a market cell: a year plus an optional geography and segment.
+// A null geography is the whole market (the dataset's global geography); a null segment is all segments
+export interface CompanyShareEntry {
+  company: string
+  year: number
+  geography: string | null
+  segmentType: string | null
+  segment: string | null
+  share: number // percentage of the cell's market value
+}
+
 export interface CompetitiveIntelligenceData {
   metadata: {
     market: string
-    year: number
+    year: number | null
     currency: string
     revenue_unit: string
     total_companies: number
   }
   companies: CompanyData[]
   market_share_data: MarketShareData[]
+  share_history: CompanyShareEntry[]
 }
 
-let cachedData: CompetitiveIntelligenceData | null = null
+export interface CompetitiveDataIssue {
+  severity: ValidationSeverity
+  message: string
+  company?: string
+}
+
+export interface CompetitiveIntelligenceResult {
+  data: CompetitiveIntelligenceData | null
+  issues: CompetitiveDataIssue[]
+  error: string | null // Why no data is available (file missing, invalid, other market)
+}
+
+export const COMPETITIVE_INTELLIGENCE_FILE = 'competitive_intelligence.json'
+
+const OTHERS_COLOR = '#94a3b8'
+const UNATTRIBUTED_COLOR = '#e2e8f0'
+// Shares may be rounded in the source, so allow half a point either way of 100%
+const SHARE_SUM_TOLERANCE = 0.5
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const readString = (value: unknown): string => typeof value === 'string' ? value.trim() : ''
+
+const readNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+
+const readOptionalString = (value: unknown): string | null => readString(value) || null
+
+// Letters and digits of any script are kept, so non-Latin names still get a readable id
+const slugify = (name: string): string =>
+  name.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '')
 
 /**
- * Load competitive intelligence data from API
+ * Key of the market cell a share entry belongs to
  */
-export async function loadCompetitiveIntelligenceData(): Promise<CompetitiveIntelligenceData | null> {
-  if (cachedData) {
-    return cachedData
+export function getShareCellKey(entry: Pick<CompanyShareEntry, 'year' | 'geography' | 'segmentType' | 'segment'>): string {
+  return [entry.year, entry.geography ?? '', entry.segmentType ?? '', entry.segment ?? ''].join('|')
+}
+
+function describeShareCell(entry: Pick<CompanyShareEntry, 'year' | 'geography' | 'segmentType' | 'segment'>): string {
+  return [entry.year, entry.geography ?? 'whole market', entry.segment ?? 'all segments'].join(' / ')
+}
+
+/**
+ * Validate a parsed competitive_intelligence.json file
+ * Returns data only when there are no error-severity issues; warnings are kept alongside it
+ */
+export function validateCompetitiveIntelligence(raw: unknown): Omit<CompetitiveIntelligenceResult, 'error'> {
+  const issues: CompetitiveDataIssue[] = []
+  const error = (message: string, company?: string) => issues.push({ severity: 'error', message, company })
+  const warning = (message: string, company?: string) => issues.push({ severity: 'warning', message, company })
+
+  if (!isRecord(raw)) {
+    error('The file must contain a JSON object with "metadata" and "companies"')
+    return { data: null, issues }
   }
 
-  try {
-    // Return null - no data in clean version
-    return null
-  } catch (error) {
-    console.error('Error loading competitive intelligence data:', error)
-    return null
+  const metadata = isRecord(raw.metadata) ? raw.metadata : {}
+  const market = readString(metadata.market)
+  if (!market) error('metadata.market is required')
+  const year = readNumber(metadata.year)
+  if (year === null) warning('metadata.year is missing; revenue figures will not show a year')
+  const currency = readString(metadata.currency)
+  const revenueUnit = readString(metadata.revenue_unit)
+  if (!currency || !revenueUnit) warning('metadata.currency or metadata.revenue_unit is missing; revenue figures will have no unit')
+
+  if (!Array.isArray(raw.companies) || raw.companies.length === 0) {
+    error('"companies" must be a non-empty array')
+    return { data: null, issues }
   }
-}
 
-// Top pharmaceutical companies in head and neck cancer drugs market
-const companies = [
-  'Gaudron Bedstar',
-  'Kandeltam',
-  'Hebei Xing Chemical',
-  'Hubei Jingchan Chutkan',
-  'Vishno Barium (V.C.)',
-  'Jiaxinxi Anheng Jianghua',
-  'Nippon Chemical Industrial',
-  'Sakai Chemical Industry',
-  'Others'
-]
-
-// Company colors using the enterprise palette
-const companyColors: Record<string, string> = {
-  'Gaudron Bedstar': '#52B69A',      // Teal
-  'Kandeltam': '#34A0A4',             // Medium Teal
-  'Hebei Xing Chemical': '#D9ED92',   // Yellow Green
-  'Hubei Jingchan Chutkan': '#184E77', // Navy Blue
-  'Vishno Barium (V.C.)': '#B5E48C',  // Light Lime
-  'Jiaxinxi Anheng Jianghua': '#1E6091', // Deep Blue
-  'Nippon Chemical Industrial': '#168AAD', // Deep Teal
-  'Sakai Chemical Industry': '#1A759F', // Blue Teal
-  'Others': '#99D98C'                 // Medium Green
-}
+  const companies: CompanyData[] = []
+  const shareHistory: CompanyShareEntry[] = []
+  const seenNames = new Set<string>()
+  raw.companies.forEach((entry, index) => {
+    if (!isRecord(entry)) {
+      error(`companies[${index}] is not an object`)
+      return
+    }
+    const name = readString(entry.name)
+    if (!name) {
+      error(`companies[${index}] has no name`)
+      return
+    }
+    if (seenNames.has(name.toLowerCase())) {
+      error(`Company "${name}" is listed more than once`, name)
+      return
+    }
+    seenNames.add(name.toLowerCase())
 
-// Headquarters locations
-const headquarters: Record<string, string> = {
-  'Gaudron Bedstar': 'New York, USA',
-  'Kandeltam': 'London, UK',
-  'Hebei Xing Chemical': 'Hebei, China',
-  'Hubei Jingchan Chutkan': 'Hubei, China',
-  'Vishno Barium (V.C.)': 'Mumbai, India',
-  'Jiaxinxi Anheng Jianghua': 'Jiangsu, China',
-  'Nippon Chemical Industrial': 'Tokyo, Japan',
-  'Sakai Chemical Industry': 'Osaka, Japan',
-  'Others': 'Various'
-}
+    if (entry.id !== undefined && !readString(entry.id)) error('id must be a non-empty string', name)
 
-// CEOs (simulated names)
-const ceos: Record<string, string> = {
-  'Gaudron Bedstar': 'Michael Anderson',
-  'Kandeltam': 'Sarah Williams',
-  'Hebei Xing Chemical': 'Zhang Wei',
-  'Hubei Jingchan Chutkan': 'Li Ming',
-  'Vishno Barium (V.C.)': 'Rajesh Kumar',
-  'Jiaxinxi Anheng Jianghua': 'Wang Xiaoping',
-  'Nippon Chemical Industrial': 'Takeshi Yamamoto',
-  'Sakai Chemical Industry': 'Hiroshi Tanaka',
-  'Others': 'Multiple'
-}
+    const marketShare = readNumber(entry.marketShare)
+    if (marketShare === null || marketShare < 0 || marketShare > 100) {
+      error('marketShare must be a number between 0 and 100', name)
+      return
+    }
 
-// Year established
-const yearEstablished: Record<string, number> = {
-  'Gaudron Bedstar': 1985,
-  'Kandeltam': 1992,
-  'Hebei Xing Chemical': 2001,
-  'Hubei Jingchan Chutkan': 1998,
-  'Vishno Barium (V.C.)': 1987,
-  'Jiaxinxi Anheng Jianghua': 2003,
-  'Nippon Chemical Industrial': 1978,
-  'Sakai Chemical Industry': 1982,
-  'Others': 0
-}
+    const revenue = (field: 'overallRevenue' | 'segmentalRevenue') => {
+      if (entry[field] === undefined || entry[field] === null) return null
+      const value = readNumber(entry[field])
+      if (value === null || value < 0) error(`${field} must be a non-negative number`, name)
+      return value
+    }
+    const overallRevenue = revenue('overallRevenue')
+    const segmentalRevenue = revenue('segmentalRevenue')
+    if (segmentalRevenue === null && name !== 'Others') warning('segmentalRevenue is missing', name)
+    if (overallRevenue !== null && segmentalRevenue !== null && segmentalRevenue > overallRevenue) {
+      warning('segmentalRevenue is larger than overallRevenue', name)
+    }
 
-// Product portfolios
-const portfolios: Record<string, string> = {
-  'Gaudron Bedstar': 'Immunotherapy, Targeted Therapy',
-  'Kandeltam': 'Chemotherapy, Clinical Trials',
-  'Hebei Xing Chemical': 'Generic Drugs, APIs',
-  'Hubei Jingchan Chutkan': 'Traditional Medicine, Oncology',
-  'Vishno Barium (V.C.)': 'Biosimilars, Generics',
-  'Jiaxinxi Anheng Jianghua': 'APIs, Intermediates',
-  'Nippon Chemical Industrial': 'Innovative Drugs, Biologics',
-  'Sakai Chemical Industry': 'Specialty Chemicals, Oncology',
-  'Others': 'Various Products'
-}
+    const strategies = Array.isArray(entry.strategies)
+      ? entry.strategies.map(readString).filter(Boolean)
+      : []
+    if (entry.strategies !== undefined && !Array.isArray(entry.strategies)) warning('strategies must be an array of strings', name)
 
-// Regional strengths
-const regionalStrengths: Record<string, string> = {
-  'Gaudron Bedstar': 'North America, Europe',
-  'Kandeltam': 'Europe, Asia Pacific',
-  'Hebei Xing Chemical': 'China, Southeast Asia',
-  'Hubei Jingchan Chutkan': 'China, Latin America',
-  'Vishno Barium (V.C.)': 'India, Middle East',
-  'Jiaxinxi Anheng Jianghua': 'China, Africa',
-  'Nippon Chemical Industrial': 'Japan, North America',
-  'Sakai Chemical Industry': 'Japan, Europe',
-  'Others': 'Global'
-}
+    let color = readString(entry.color)
+    if (color && !/^#[0-9a-f]{6}$/i.test(color)) {
+      warning(`color "${color}" is not a #rrggbb hex colour; a palette colour is used instead`, name)
+      color = ''
+    }
 
-// Market share percentages (must sum to 100)
-const marketShares: Record<string, number> = {
-  'Gaudron Bedstar': 25.0,
-  'Kandeltam': 8.0,
-  'Hebei Xing Chemical': 42.0,
-  'Hubei Jingchan Chutkan': 3.0,
-  'Vishno Barium (V.C.)': 5.0,
-  'Jiaxinxi Anheng Jianghua': 4.0,
-  'Nippon Chemical Industrial': 2.0,
-  'Sakai Chemical Industry': 1.0,
-  'Others': 10.0
-}
+    // Optional share history: per year and optionally per geography / segment
+    const seenCells = new Set<string>()
+    const shareEntries = Array.isArray(entry.shares) ? entry.shares : []
+    if (entry.shares !== undefined && !Array.isArray(entry.shares)) error('shares must be an array', name)
+    shareEntries.forEach((shareEntry, shareIndex) => {
+      const shareYear = isRecord(shareEntry) ? readNumber(shareEntry.year) : null
+      const share = isRecord(shareEntry) ? readNumber(shareEntry.share) : null
+      if (!isRecord(shareEntry) || shareYear === null || !Number.isInteger(shareYear) || share === null || share < 0 || share > 100) {
+        error(`shares[${shareIndex}] needs an integer year and a share between 0 and 100`, name)
+        return
+      }
+      const cell = {
+        year: shareYear,
+        geography: readOptionalString(shareEntry.geography),
+        segmentType: readOptionalString(shareEntry.segment_type),
+        segment: readOptionalString(shareEntry.segment)
+      }
+      const key = getShareCellKey(cell)
+      if (seenCells.has(key)) {
+        error(`More than one share for ${describeShareCell(cell)}`, name)
+        return
+      }
+      seenCells.add(key)
+      shareHistory.push({ company: name, ...cell, share })
+    })
 
-// Generate strategies based on company type
-function generateStrategies(company: string): string[] {
-  const strategyMap: Record<string, string[]> = {
-    'Gaudron Bedstar': ['Innovation Focus', 'M&A Strategy', 'Digital Health'],
-    'Kandeltam': ['Clinical Excellence', 'Partnership Model', 'EU Expansion'],
-    'Hebei Xing Chemical': ['Cost Leadership', 'Volume Growth', 'API Integration'],
-    'Hubei Jingchan Chutkan': ['Traditional Integration', 'Local Markets', 'R&D Investment'],
-    'Vishno Barium (V.C.)': ['Biosimilar Development', 'Emerging Markets', 'Affordability'],
-    'Jiaxinxi Anheng Jianghua': ['Supply Chain', 'Manufacturing Scale', 'Export Focus'],
-    'Nippon Chemical Industrial': ['Technology Innovation', 'Quality Excellence', 'Global Partnerships'],
-    'Sakai Chemical Industry': ['Niche Markets', 'Specialty Focus', 'Research Collaboration'],
-    'Others': ['Diverse Strategies', 'Regional Focus', 'Market Specific']
+    companies.push({
+      id: readString(entry.id), // Filled in below for companies without one
+      name,
+      headquarters: readString(entry.headquarters),
+      ceo: readString(entry.ceo),
+      yearEstablished: readNumber(entry.yearEstablished),
+      portfolio: readString(entry.portfolio),
+      strategies,
+      regionalStrength: readString(entry.regionalStrength),
+      overallRevenue,
+      segmentalRevenue,
+      marketShare,
+      color
+    })
+  })
+
+  // Ids are profile URLs, so each has to open one company: explicit ids must be unique, and
+  // slugs of the name get a numeric suffix when two names give the same slug ("Acme Inc." and "Acme, Inc")
+  const usedIds = new Set<string>()
+  companies.forEach(company => {
+    if (!company.id) return
+    if (usedIds.has(company.id)) error(`id "${company.id}" is used by more than one company`, company.name)
+    usedIds.add(company.id)
+  })
+  companies.forEach(company => {
+    if (company.id) return
+    const slug = slugify(company.name) || 'company'
+    let id = slug
+    for (let suffix = 2; usedIds.has(id); suffix++) id = `${slug}-${suffix}`
+    usedIds.add(id)
+    company.id = id
+  })
+
+  const shareTotal = companies.reduce((sum, company) => sum + company.marketShare, 0)
+  if (shareTotal > 100 + SHARE_SUM_TOLERANCE) {
+    error(`Market shares add up to ${shareTotal.toFixed(1)}%, more than 100%`)
+  } else if (shareTotal < 100 - SHARE_SUM_TOLERANCE) {
+    warning(`Market shares add up to ${shareTotal.toFixed(1)}%; the remaining ${(100 - shareTotal).toFixed(1)}% is shown as unattributed`)
   }
-  
-  return strategyMap[company] || ['Market Development', 'Product Innovation', 'Strategic Partnerships']
-}
 
-// Generate revenue based on market share
-function generateRevenue(marketShare: number): { overall: number, segmental: number } {
-  // Total market size approximately 5000 USD Mn
-  const totalMarketSize = 5000
-  const segmentalRevenue = (marketShare / 100) * totalMarketSize
-  
-  // Overall revenue is typically 3-5x the segmental revenue (company has other products)
-  const multiplier = 3 + Math.random() * 2
-  const overallRevenue = segmentalRevenue * multiplier
-  
+  // Every market cell in the share history has to add up to 100% or less, like the snapshot shares
+  const cellTotals = new Map<string, { entry: CompanyShareEntry; total: number }>()
+  shareHistory.forEach(entry => {
+    const key = getShareCellKey(entry)
+    const cell = cellTotals.get(key) ?? { entry, total: 0 }
+    cell.total += entry.share
+    cellTotals.set(key, cell)
+  })
+  cellTotals.forEach(({ entry, total }) => {
+    if (total > 100 + SHARE_SUM_TOLERANCE) {
+      error(`Shares for ${describeShareCell(entry)} add up to ${total.toFixed(1)}%, more than 100%`)
+    }
+  })
+
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { data: null, issues }
+  }
+
+  // The snapshot share is the whole-market share for metadata.year unless the history already has that cell
+  if (year !== null) {
+    const snapshotCell = { year, geography: null, segmentType: null, segment: null }
+    if (!cellTotals.has(getShareCellKey(snapshotCell))) {
+      companies.forEach(company => shareHistory.push({ company: company.name, ...snapshotCell, share: company.marketShare }))
+    }
+  }
+
+  // Companies are kept in share order with "Others" last; the palette follows that order so the leader gets the first colour
+  const sorted = [...companies].sort((a, b) =>
+    Number(a.name === 'Others') - Number(b.name === 'Others') || b.marketShare - a.marketShare
+  )
+  let paletteIndex = 0
+  sorted.forEach(company => {
+    if (company.color) return
+    company.color = company.name === 'Others'
+      ? OTHERS_COLOR
+      : CHART_COLORS.primary[paletteIndex++ % CHART_COLORS.primary.length]
+  })
+
   return {
-    overall: Math.round(overallRevenue),
-    segmental: Math.round(segmentalRevenue)
+    data: {
+      metadata: {
+        market,
+        year,
+        currency,
+        revenue_unit: revenueUnit,
+        total_companies: sorted.filter(company => company.name !== 'Others').length
+      },
+      companies: sorted,
+      market_share_data: sorted.map(company => ({
+        company: company.name,
+        marketShare: company.marketShare,
+        revenue: company.segmentalRevenue,
+        color: company.color
+      })),
+      share_history: shareHistory
+    },
+    issues
   }
 }
 
+const cachedResults = new Map<string, Promise<CompetitiveIntelligenceResult>>()
+
 /**
- * Generate competitive intelligence data for all companies
- * Now loads from JSON file, with fallback to hardcoded data
+ * Load the competitive intelligence file for a market from /api/competitive-intelligence
+ * Results are cached per market; failures are returned as an error message rather than thrown
  */
-export async function generateCompetitiveData(): Promise<CompanyData[]> {
-  const jsonData = await loadCompetitiveIntelligenceData()
-  
-  if (jsonData && jsonData.companies) {
-    return jsonData.companies
-  }
-  
-  // Fallback to hardcoded data
-  return companies.map(company => {
-    const revenue = generateRevenue(marketShares[company])
-    
-    return {
-      id: company.toLowerCase().replace(/\s+/g, '-'),
-      name: company,
-      headquarters: headquarters[company],
-      ceo: ceos[company],
-      yearEstablished: yearEstablished[company],
-      portfolio: portfolios[company],
-      strategies: generateStrategies(company),
-      regionalStrength: regionalStrengths[company],
-      overallRevenue: revenue.overall,
-      segmentalRevenue: revenue.segmental,
-      marketShare: marketShares[company],
-      color: companyColors[company]
+export function loadCompetitiveIntelligence(market: string | undefined): Promise<CompetitiveIntelligenceResult> {
+  const key = market || ''
+  const cached = cachedResults.get(key)
+  if (cached) return cached
+
+  const request = (async (): Promise<CompetitiveIntelligenceResult> => {
+    try {
+      const params = new URLSearchParams()
+      if (market) params.set('market', market)
+      const response = await fetch(`/api/competitive-intelligence?${params.toString()}`)
+      const body = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        return {
+          data: null,
+          issues: Array.isArray(body.issues) ? body.issues : [],
+          error: body.error || `Failed to load competitive intelligence: ${response.statusText}`
+        }
+      }
+      return { data: body.data ?? null, issues: body.issues ?? [], error: null }
+    } catch (error) {
+      console.error('Error loading competitive intelligence data:', error)
+      // Let the next render retry after a network failure
+      cachedResults.delete(key)
+      return { data: null, issues: [], error: error instanceof Error ? error.message : String(error) }
     }
-  })
+  })()
+
+  cachedResults.set(key, request)
+  return request
 }
 
 /**
- * Generate market share data for pie chart
- * Now loads from JSON file, with fallback to hardcoded data
- * Groups smaller companies into "Others" to reduce clutter
+ * Load only the validated data for a market, or null when none is available
  */
-export async function generateMarketShareData(showTopN: number = 10): Promise<MarketShareData[]> {
-  const jsonData = await loadCompetitiveIntelligenceData()
-  
-  let allData: MarketShareData[]
-  
-  if (jsonData && jsonData.market_share_data) {
-    allData = jsonData.market_share_data
-  } else {
-    // Fallback to hardcoded data
-    allData = companies.map(company => ({
-      company,
-      marketShare: marketShares[company],
-      color: companyColors[company]
-    }))
-  }
-  
-  // Sort by market share (descending)
-  const sorted = [...allData].sort((a, b) => b.marketShare - a.marketShare)
-  
-  // Take top N companies
-  const topCompanies = sorted.slice(0, showTopN)
-  
-  // Group the rest into "Others"
-  const othersShare = sorted.slice(showTopN).reduce((sum, c) => sum + c.marketShare, 0)
-  
-  if (othersShare > 0) {
-    topCompanies.push({
+export async function loadCompetitiveIntelligenceData(market: string | undefined): Promise<CompetitiveIntelligenceData | null> {
+  return (await loadCompetitiveIntelligence(market)).data
+}
+
+/**
+ * Market share slices for the pie chart
+ * Companies beyond the top N are grouped into "Others", and any share the file
+ * does not attribute to a company is shown as its own slice so the pie stays honest
+ */
+export function getMarketShareData(data: CompetitiveIntelligenceData, showTopN: number = 10): MarketShareData[] {
+  const named = data.market_share_data.filter(entry => entry.company !== 'Others')
+  const others = [
+    ...named.slice(showTopN),
+    ...data.market_share_data.filter(entry => entry.company === 'Others')
+  ]
+  const slices = named.slice(0, showTopN)
+
+  if (others.length > 0) {
+    slices.push({
       company: 'Others',
-      marketShare: othersShare,
-      color: '#94a3b8' // Gray color for Others
+      marketShare: others.reduce((sum, entry) => sum + entry.marketShare, 0),
+      revenue: others.every(entry => entry.revenue !== null)
+        ? others.reduce((sum, entry) => sum + (entry.revenue ?? 0), 0)
+        : null,
+      color: OTHERS_COLOR
     })
   }
-  
-  return topCompanies
+
+  const unattributed = 100 - data.market_share_data.reduce((sum, entry) => sum + entry.marketShare, 0)
+  if (unattributed > SHARE_SUM_TOLERANCE) {
+    slices.push({ company: 'Unattributed', marketShare: unattributed, revenue: null, color: UNATTRIBUTED_COLOR })
+  }
+
+  return slices
 }
 
 /**
  * Get top companies by market share
  */
-export async function getTopCompanies(limit: number = 5): Promise<CompanyData[]> {
-  const allCompanies = await generateCompetitiveData()
-  return allCompanies
+export function getTopCompanies(data: CompetitiveIntelligenceData, limit: number = 5): CompanyData[] {
+  return data.companies
     .filter(c => c.name !== 'Others')
-    .sort((a, b) => b.marketShare - a.marketShare)
     .slice(0, limit)
 }
 
 /**
- * Calculate market concentration (HHI - Herfindahl-Hirschman Index)
+ * Revenue unit label from the file metadata, e.g. "USD Mn"
  */
-export function calculateMarketConcentration(): { hhi: number; concentration: string } {
-  const shares = Object.values(marketShares)
-  const hhi = shares.reduce((sum, share) => sum + Math.pow(share, 2), 0)
-  
-  let concentration = 'Competitive'
-  if (hhi < 1500) {
-    concentration = 'Competitive'
-  } else if (hhi < 2500) {
-    concentration = 'Moderately Concentrated'
-  } else {
-    concentration = 'Highly Concentrated'
-  }
-  
-  return { hhi: Math.round(hhi), concentration }
+export function getRevenueUnitLabel(data: CompetitiveIntelligenceData): string {
+  return [data.metadata.currency, data.metadata.revenue_unit].filter(Boolean).join(' ')
 }
 
+export const formatRevenue = (value: number | null) =>
+  value === null ? 'N/A' : value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
 /**
  * Get company comparison data for competitive dashboard
  */
-export async function getCompanyComparison(): Promise<{
+export function getCompanyComparison(data: CompetitiveIntelligenceData): {
   headers: string[];
+  ids: string[]; // Company id for each header, for profile links
   rows: { label: string; values: (string | number)[] }[];
-}> {
-  const companies = (await generateCompetitiveData()).slice(0, 10) // Top 10 companies
-  
+} {
+  const companies = getTopCompanies(data, 10)
+  const unit = getRevenueUnitLabel(data)
+  const unitSuffix = unit ? ` (${unit})` : ''
+
   const headers = companies.map(c => c.name)
-  
+  const ids = companies.map(c => c.id)
+
   const rows = [
     {
       label: "Headquarters",
-      values: companies.map(c => c.headquarters)
+      values: companies.map(c => c.headquarters || 'N/A')
     },
     {
       label: "Key Management (CEO)",
-      values: companies.map(c => c.ceo)
+      values: companies.map(c => c.ceo || 'N/A')
     },
     {
       label: "Year of Establishment",
-      values: companies.map(c => c.yearEstablished || 'N/A')
+      values: companies.map(c => c.yearEstablished ?? 'N/A')
     },
     {
       label: "Product/Service Portfolio",
-      values: companies.map(c => c.portfolio)
+      values: companies.map(c => c.portfolio || 'N/A')
     },
     {
       label: "Strategies/Recent Developments",
-      values: companies.map(c => c.strategies.join(', '))
+      values: companies.map(c => c.strategies.join(', ') || 'N/A')
     },
     {
       label: "Regional Strength",
-      values: companies.map(c => c.regionalStrength)
+      values: companies.map(c => c.regionalStrength || 'N/A')
     },
     {
-      label: "Overall Revenue (Cr INR)",
-      values: companies.map(c => c.overallRevenue.toLocaleString())
+      label: `Overall Revenue${unitSuffix}`,
+      values: companies.map(c => formatRevenue(c.overallRevenue))
     },
     {
-      label: "Segmental Revenue (Cr INR), 2024",
-      values: companies.map(c => c.segmentalRevenue.toLocaleString())
+      label: `Segmental Revenue${unitSuffix}${data.metadata.year ? `, ${data.metadata.year}` : ''}`,
+      values: companies.map(c => formatRevenue(c.segmentalRevenue))
     },
     {
       label: "Market Share (%)",
       values: companies.map(c => c.marketShare.toFixed(1) + '%')
     }
   ]
-  
-  return { headers, rows }
+
+  return { headers, ids, rows }
 }
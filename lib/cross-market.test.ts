@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { calculatePeriodCAGR, getUnitMultiplier, reconcileUnits } from './cross-market'
+import type { Metadata } from './types'
+
+function metadata(overrides: Partial<Metadata>): Metadata {
+  return {
+    market_name: 'Market',
+    market_type: 'Market Analysis',
+    industry: 'Industry',
+    years: [2023, 2024],
+    start_year: 2023,
+    base_year: 2023,
+    forecast_year: 2024,
+    historical_years: [2023],
+    forecast_years: [2024],
+    currency: 'USD',
+    value_unit: 'Million',
+    volume_unit: 'Units',
+    has_value: true,
+    has_volume: true,
+    ...overrides
+  }
+}
+
+describe('getUnitMultiplier', () => {
+  it.each([
+    ['Trillion', 1e12],
+    ['USD Bn', 1e9],
+    ['Billion', 1e9],
+    ['Million', 1e6],
+    ['US$ Mn', 1e6],
+    ['Thousand Units', 1e3],
+    ['K', 1e3],
+    ['Units', 1],
+    ['', 1]
+  ])('reads %j as %d', (unit, multiplier) => {
+    expect(getUnitMultiplier(unit)).toBe(multiplier)
+  })
+
+  it('does not read a unit from letters inside a word', () => {
+    expect(getUnitMultiplier('Tonnes')).toBe(1)
+    expect(getUnitMultiplier('Kilograms')).toBe(1)
+  })
+})
+
+describe('reconcileUnits', () => {
+  it('scales secondary values into the primary unit', () => {
+    const result = reconcileUnits(metadata({ value_unit: 'Million' }), metadata({ value_unit: 'Billion' }), 'value')
+    expect(result.factor).toBe(1000)
+    expect(result.sameUnit).toBe(false)
+    expect(result.sameCurrency).toBe(true)
+    expect(result.primaryLabel).toBe('USD Million')
+    expect(result.secondaryLabel).toBe('USD Billion')
+  })
+
+  it('applies the exchange rate only when currencies differ', () => {
+    const primary = metadata({ currency: 'USD' })
+    expect(reconcileUnits(primary, metadata({ currency: 'EUR' }), 'value', 1.1).factor).toBeCloseTo(1.1)
+    expect(reconcileUnits(primary, metadata({ currency: 'USD' }), 'value', 1.1).factor).toBe(1)
+  })
+
+  it('ignores currency for volume data', () => {
+    const result = reconcileUnits(
+      metadata({ currency: 'USD', volume_unit: 'Thousand Units' }),
+      metadata({ currency: 'EUR', volume_unit: 'Million Units' }),
+      'volume',
+      1.1
+    )
+    expect(result.factor).toBe(1000)
+    expect(result.sameCurrency).toBe(true)
+    expect(result.primaryLabel).toBe('Thousand Units')
+  })
+})
+
+describe('calculatePeriodCAGR', () => {
+  it('returns the compound annual growth rate in percent', () => {
+    expect(calculatePeriodCAGR(100, 121, 2)).toBeCloseTo(10)
+  })
+
+  it('returns null when the rate is undefined', () => {
+    expect(calculatePeriodCAGR(0, 100, 2)).toBeNull()
+    expect(calculatePeriodCAGR(100, 0, 2)).toBeNull()
+    expect(calculatePeriodCAGR(100, 121, 0)).toBeNull()
+  })
+})
@@ -0,0 +1,231 @@
+/**
+ * Cross-Market Comparison
+ * Overlays the same geography/segment selection from two markets on common axes
+ */
+
+import type { ComparisonData, DataRecord, FilterState, ChartDataPoint, ComparisonTableRow, Metadata } from './types'
+import { filterData, getRecordIdentity, prepareLineChartData, prepareTableData } from './data-processor'
+
+export interface UnitReconciliation {
+  factor: number // Multiply secondary values by this to express them in the primary market's units
+  sameUnit: boolean
+  sameCurrency: boolean
+  primaryLabel: string
+  secondaryLabel: string
+}
+
+export interface CrossMarketRow {
+  key: string
+  geography: string
+  segment: string
+  segmentPath: string // Hierarchy down to the segment, tells apart segments that share a name
+  primary: ComparisonTableRow | null
+  secondary: ComparisonTableRow | null
+  primaryShare: number | null
+  secondaryShare: number | null
+}
+
+export interface CrossMarketResult {
+  lineData: ChartDataPoint[]
+  primarySeries: string[]
+  secondarySeries: string[]
+  rows: CrossMarketRow[]
+  reconciliation: UnitReconciliation
+  primaryRecordCount: number
+  secondaryRecordCount: number
+}
+
+/**
+ * Convert a unit label (e.g. "Million", "USD Bn", "Thousand Units") into a multiplier
+ */
+export function getUnitMultiplier(unit: string): number {
+  const normalized = (unit || '').toLowerCase()
+  if (/trillion|\btn\b/.test(normalized)) return 1e12
+  if (/billion|\bbn\b|\bb\b/.test(normalized)) return 1e9
+  if (/million|\bmn\b|\bmm\b|\bm\b/.test(normalized)) return 1e6
+  if (/thousand|\bk\b/.test(normalized)) return 1e3
+  return 1
+}
+
+/**
+ * Work out how to express the secondary market's values in the primary market's units
+ * Value data is scaled by unit and converted with the supplied exchange rate
+ * (1 secondary currency unit = fxRate primary currency units); volume data is scaled by unit only
+ */
+export function reconcileUnits(
+  primary: Metadata,
+  secondary: Metadata,
+  dataType: 'value' | 'volume',
+  fxRate: number = 1
+): UnitReconciliation {
+  const primaryUnit = dataType === 'value' ? primary.value_unit : primary.volume_unit
+  const secondaryUnit = dataType === 'value' ? secondary.value_unit : secondary.volume_unit
+  const sameCurrency = dataType === 'volume' || primary.currency === secondary.currency
+  const scale = getUnitMultiplier(secondaryUnit) / getUnitMultiplier(primaryUnit)
+  const rate = sameCurrency ? 1 : fxRate
+
+  return {
+    factor: scale * rate,
+    sameUnit: getUnitMultiplier(primaryUnit) === getUnitMultiplier(secondaryUnit),
+    sameCurrency,
+    primaryLabel: dataType === 'value' ? `${primary.currency} ${primaryUnit}` : primaryUnit,
+    secondaryLabel: dataType === 'value' ? `${secondary.currency} ${secondaryUnit}` : secondaryUnit,
+  }
+}
+
+/**
+ * Build a series key that keeps the two markets apart in a shared chart
+ */
+export function crossMarketSeriesKey(marketName: string, series: string): string {
+  return `${marketName} — ${series}`
+}
+
+/**
+ * CAGR (%) between two values over a number of years
+ */
+export function calculatePeriodCAGR(startValue: number, endValue: number, years: number): number | null {
+  if (startValue <= 0 || endValue <= 0 || years <= 0) return null
+  return (Math.pow(endValue / startValue, 1 / years) - 1) * 100
+}
+
+/**
+ * Scale every numeric value in a record's time series
+ */
+function scaleRecords(records: DataRecord[], factor: number): DataRecord[] {
+  if (factor === 1) return records
+  return records.map(record => {
+    const timeSeries: Record<number, number> = {}
+    Object.entries(record.time_series).forEach(([year, value]) => {
+      timeSeries[Number(year)] = (value || 0) * factor
+    })
+    return { ...record, time_series: timeSeries }
+  })
+}
+
+/**
+ * Sum of leaf records for the segment type in each geography, used as the share denominator
+ */
+function getGeographyTotals(
+  dataset: DataRecord[],
+  segmentType: string,
+  year: number
+): Map<string, number> {
+  const totals = new Map<string, number>()
+  dataset.forEach(record => {
+    if (record.segment_type !== segmentType || record.is_aggregated === true) return
+    totals.set(record.geography, (totals.get(record.geography) || 0) + (record.time_series[year] || 0))
+  })
+  return totals
+}
+
+/**
+ * Compare the current filter selection across two markets
+ * Both datasets are filtered with the same FilterState; secondary values are reconciled to
+ * the primary market's unit/currency so time series share one axis
+ */
+export function prepareCrossMarketData(
+  primary: ComparisonData,
+  secondary: ComparisonData,
+  filters: FilterState,
+  fxRate: number = 1
+): CrossMarketResult {
+  const reconciliation = reconcileUnits(primary.metadata, secondary.metadata, filters.dataType, fxRate)
+  const primaryDataset = primary.data[filters.dataType].geography_segment_matrix
+  const secondaryDataset = scaleRecords(
+    secondary.data[filters.dataType].geography_segment_matrix,
+    reconciliation.factor
+  )
+
+  const primaryFiltered = filterData(primaryDataset, filters)
+  const secondaryFiltered = filterData(secondaryDataset, filters)
+
+  // Line chart: reuse prepareLineChartData per market and merge by year with market-prefixed keys
+  const primaryLines = prepareLineChartData(primaryFiltered, filters)
+  const secondaryLines = prepareLineChartData(secondaryFiltered, filters)
+  const primaryYears = new Set(primary.metadata.years)
+  const secondaryYears = new Set(secondary.metadata.years)
+  const primaryName = primary.metadata.market_name
+  const secondaryName = secondary.metadata.market_name
+
+  const primarySeries = new Set<string>()
+  const secondarySeries = new Set<string>()
+  const lineData: ChartDataPoint[] = primaryLines.map((point, index) => {
+    const merged: ChartDataPoint = { year: point.year }
+    // Years a market doesn't cover are left out rather than drawn as zero
+    if (primaryYears.has(point.year)) {
+      Object.entries(point).forEach(([key, value]) => {
+        if (key === 'year') return
+        const seriesKey = crossMarketSeriesKey(primaryName, key)
+        merged[seriesKey] = value
+        primarySeries.add(seriesKey)
+      })
+    }
+    const secondaryPoint = secondaryLines[index]
+    if (secondaryPoint && secondaryYears.has(point.year)) {
+      Object.entries(secondaryPoint).forEach(([key, value]) => {
+        if (key === 'year') return
+        const seriesKey = crossMarketSeriesKey(secondaryName, key)
+        merged[seriesKey] = value
+        secondarySeries.add(seriesKey)
+      })
+    }
+    return merged
+  })
+
+  // Table: reuse prepareTableData and pair rows by record identity (segment type + hierarchy path),
+  // so a segment name used at two levels or under two parents stays two rows
+  const endYear = filters.yearRange[1]
+  const primaryTotals = getGeographyTotals(primaryDataset, filters.segmentType, endYear)
+  const secondaryTotals = getGeographyTotals(secondaryDataset, filters.segmentType, endYear)
+  const rowMap = new Map<string, CrossMarketRow>()
+
+  const addRows = (
+    records: DataRecord[],
+    side: 'primary' | 'secondary',
+    totals: Map<string, number>
+  ) => {
+    const tableRows = prepareTableData(records, filters)
+    tableRows.forEach((row, index) => {
+      const record = records[index]
+      const key = getRecordIdentity(record)
+      if (!rowMap.has(key)) {
+        const hierarchy = record.segment_hierarchy
+        const path = [hierarchy.level_1, hierarchy.level_2, hierarchy.level_3, hierarchy.level_4, hierarchy.level_5]
+          .filter((level): level is string => Boolean(level))
+        rowMap.set(key, {
+          key,
+          geography: row.geography,
+          segment: row.segment,
+          segmentPath: path.length > 0 ? path.join(' > ') : row.segment,
+          primary: null,
+          secondary: null,
+          primaryShare: null,
+          secondaryShare: null,
+        })
+      }
+      const entry = rowMap.get(key)!
+      const total = totals.get(record.geography) || 0
+      const share = total > 0 ? (row.forecastYear / total) * 100 : null
+      if (side === 'primary') {
+        entry.primary = row
+        entry.primaryShare = share
+      } else {
+        entry.secondary = row
+        entry.secondaryShare = share
+      }
+    })
+  }
+
+  addRows(primaryFiltered, 'primary', primaryTotals)
+  addRows(secondaryFiltered, 'secondary', secondaryTotals)
+
+  return {
+    lineData,
+    primarySeries: Array.from(primarySeries),
+    secondarySeries: Array.from(secondarySeries),
+    rows: Array.from(rowMap.values()),
+    reconciliation,
+    primaryRecordCount: primaryFiltered.length,
+    secondaryRecordCount: secondaryFiltered.length,
+  }
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getCustomerSegmentTypes,
+  getCustomersForCell,
+  getHeatmapRegions,
+  parseCustomerFile,
+  prepareCustomerHeatmap,
+  validateCustomerIntelligence,
+  type CustomerIntelligenceData
+} from './customer-intelligence-data'
+import type { ComparisonData, GeographyDimension } from './types'
+
+function dataset(geographies: Partial<GeographyDimension>): ComparisonData {
+  return {
+    metadata: {
+      market_name: 'Spices',
+      market_type: 'Market Analysis',
+      industry: 'Food',
+      years: [2024],
+      start_year: 2024,
+      base_year: 2024,
+      forecast_year: 2024,
+      historical_years: [2024],
+      forecast_years: [],
+      currency: 'USD',
+      value_unit: 'Million',
+      volume_unit: 'Tons',
+      has_value: true,
+      has_volume: false
+    },
+    dimensions: {
+      geographies: { global: [], regions: [], countries: {}, all_geographies: [], ...geographies },
+      segments: {
+        'By End User': { type: 'flat', items: ['Retail', 'Food Service'], hierarchy: {} },
+        'By Type': { type: 'flat', items: ['Powder'], hierarchy: {} }
+      }
+    },
+    data: { value: { geography_segment_matrix: [] }, volume: { geography_segment_matrix: [] } }
+  }
+}
+
+function customers(rows: Array<[string, string, string | null, string]>): CustomerIntelligenceData {
+  return {
+    metadata: { market: 'Spices', source: null },
+    customers: rows.map(([name, geography, segmentType, segment]) => ({
+      id: name, name, geography, segmentType, segment, customerType: null, website: null
+    }))
+  }
+}
+
+// What the JSON processor builds: every geography listed, no region hierarchy
+const FLAT = dataset({ all_geographies: ['North America', 'Europe', 'U.S.'] })
+const HIERARCHY = dataset({
+  regions: ['North America', 'Europe'],
+  countries: { 'North America': ['U.S.', 'Canada'], Europe: ['Germany'] },
+  all_geographies: ['North America', 'U.S.', 'Canada', 'Europe', 'Germany']
+})
+
+const LIST = customers([
+  ['Acme', 'north america', null, 'retail'],
+  ['Beta', 'U.S.', 'By End User', 'Food Service'],
+  ['Gamma', 'Germany', null, 'Retail'],
+  ['Delta', 'Mars', null, 'Retail'],
+  ['Echo', 'Europe', 'By Type', 'Retail']
+])
+
+describe('getHeatmapRegions', () => {
+  it('uses the region hierarchy when it is populated, otherwise every geography', () => {
+    expect(getHeatmapRegions(HIERARCHY)).toEqual(['North America', 'Europe'])
+    expect(getHeatmapRegions(FLAT)).toEqual(['North America', 'Europe', 'U.S.'])
+  })
+})
+
+describe('prepareCustomerHeatmap', () => {
+  it('places customers in the geographies of a dataset without a region hierarchy', () => {
+    const heatmap = prepareCustomerHeatmap(LIST, FLAT, 'By End User')
+    expect(heatmap.regions).toEqual(['North America', 'Europe', 'U.S.'])
+    expect(heatmap.segments).toEqual(['Retail', 'Food Service'])
+    expect(heatmap.cells).toHaveLength(6)
+    expect(getCustomersForCell(heatmap, 'North America', 'Retail').map(customer => customer.name)).toEqual(['Acme'])
+    expect(getCustomersForCell(heatmap, 'U.S.', 'Food Service').map(customer => customer.name)).toEqual(['Beta'])
+    expect(heatmap.unmatched.map(customer => customer.name)).toEqual(['Gamma', 'Delta', 'Echo'])
+    expect(heatmap.matchedCount).toBe(2)
+    expect(heatmap.maxCount).toBe(1)
+  })
+
+  it('places countries in their parent region when the hierarchy is populated', () => {
+    const heatmap = prepareCustomerHeatmap(LIST, HIERARCHY, 'By End User')
+    expect(heatmap.regions).toEqual(['North America', 'Europe'])
+    expect(getCustomersForCell(heatmap, 'North America', 'Food Service').map(customer => customer.name)).toEqual(['Beta'])
+    expect(getCustomersForCell(heatmap, 'Europe', 'Retail').map(customer => customer.name)).toEqual(['Gamma'])
+    expect(heatmap.unmatched.map(customer => customer.name)).toEqual(['Delta', 'Echo'])
+  })
+})
+
+describe('getCustomerSegmentTypes', () => {
+  it('orders segment types by how many customers they place and leaves out the rest', () => {
+    expect(getCustomerSegmentTypes(LIST, FLAT)).toEqual([{ segmentType: 'By End User', matchedCount: 2 }])
+    expect(getCustomerSegmentTypes(customers([['Zeta', 'Europe', null, 'Powder']]), FLAT))
+      .toEqual([{ segmentType: 'By Type', matchedCount: 1 }])
+  })
+})
+
+describe('validateCustomerIntelligence', () => {
+  it('skips unusable and repeated rows with a warning', () => {
+    const { data, issues } = validateCustomerIntelligence({
+      metadata: { market: 'Spices', segment_type: 'By End User' },
+      customers: [
+        { name: 'Acme', geography: 'Europe', segment: 'Retail' },
+        { name: 'Acme', geography: 'europe', segment: 'retail' },
+        { name: '', geography: 'Europe', segment: 'Retail' },
+        'Beta',
+        { name: 'Other', geography: 'Europe', segment: 'Retail', market: 'Tea' }
+      ]
+    }, 'Spices')
+    expect(data?.customers).toEqual([{
+      id: 'acme|europe|by end user|retail',
+      name: 'Acme',
+      geography: 'Europe',
+      segmentType: 'By End User',
+      segment: 'Retail',
+      customerType: null,
+      website: null
+    }])
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Skipped 1 row repeating an earlier customer: customers[1]',
+      'Skipped 1 row without a name, geography or segment: customers[2]',
+      'Skipped 1 row not written as an object: customers[3]',
+      'Left out 1 row belonging to another market'
+    ])
+  })
+
+  it('fails without usable customers', () => {
+    expect(validateCustomerIntelligence({ customers: [] }, 'Spices')).toEqual({
+      data: null,
+      issues: [{ severity: 'error', message: 'The file has no usable customers for Spices' }]
+    })
+    expect(validateCustomerIntelligence([]).issues[0].message).toBe('The file must contain a JSON object with a "customers" array')
+  })
+})
+
+describe('parseCustomerFile', () => {
+  it('reads CSV columns by their header names', () => {
+    const { data, issues } = parseCustomerFile('Customer Name,Country,End User,Type\nAcme,Germany,Retail,Grocer\n,Germany,Retail,\n', 'customers.csv')
+    expect(data?.customers).toEqual([expect.objectContaining({ name: 'Acme', geography: 'Germany', segment: 'Retail', customerType: 'Grocer' })])
+    expect(issues.map(issue => issue.message)).toEqual(['Skipped 1 row without a name, geography or segment: data row 2'])
+  })
+})
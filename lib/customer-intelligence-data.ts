@@ -1,210 +1,383 @@
 /**
- * Customer Intelligence Data Generator
- * Generates realistic customer data for End User segments across regions
+ * Customer Intelligence Data
+ * Schema, validation, file import and client loader for a market's customer list
+ * (customer_intelligence.json or .csv), plus the region × segment heatmap built from it.
+ * Customers are matched to the geographies and segments of the loaded ComparisonData;
+ * nothing here invents customers: without a file the heatmap is empty.
  */
 
+import type { ComparisonData } from './types'
+import type { ValidationSeverity } from './data-validator'
+import { parseCsv, readTabularFile, type TabularSheet } from './tabular-import'
+
 export interface Customer {
   id: string
   name: string
-  region: string
-  endUserSegment: string
-  type: 'hospital' | 'speciality' | 'research' | 'pharmacy'
+  geography: string // Region or country, as written in the file
+  segmentType: string | null // null: matched against any segment type
+  segment: string
+  customerType: string | null // Free text such as "Hospital" or "Distributor"
+  website: string | null
 }
 
 export interface CustomerIntelligenceData {
+  metadata: {
+    market: string | null // null: the list applies to whichever market is loaded
+    source: string | null
+  }
+  customers: Customer[]
+}
+
+export interface CustomerDataIssue {
+  severity: ValidationSeverity
+  message: string
+}
+
+export interface CustomerIntelligenceResult {
+  data: CustomerIntelligenceData | null
+  issues: CustomerDataIssue[]
+  error: string | null // Why no data is available (file missing, invalid, other market)
+}
+
+export interface CustomerHeatmapCell {
   region: string
-  endUserSegment: string
-  customerCount: number
+  segment: string
   customers: Customer[]
 }
 
-// Realistic customer name generators by type
-const hospitalNames = [
-  'Memorial', 'General', 'Regional', 'Medical Center', 'University Hospital',
-  'Community Hospital', 'City Hospital', 'Metropolitan', 'Central', 'National'
-]
-
-const specialityNames = [
-  'Oncology Center', 'Cancer Institute', 'Specialty Clinic', 'Treatment Center',
-  'Care Center', 'Medical Institute', 'Health Center', 'Therapy Center'
-]
-
-const researchNames = [
-  'Research Institute', 'Medical Research', 'Clinical Research', 'Biomedical Institute',
-  'Cancer Research', 'Oncology Research', 'Medical Foundation', 'Research Center'
-]
-
-const pharmacyNames = [
-  'Pharmacy', 'Drug Store', 'Retail Pharmacy', 'Community Pharmacy',
-  'Health Pharmacy', 'Medical Pharmacy', 'Care Pharmacy', 'Wellness Pharmacy'
-]
-
-const locationSuffixes = [
-  'North', 'South', 'East', 'West', 'Central', 'Metro', 'Downtown', 'Uptown',
-  'Riverside', 'Parkview', 'Hillside', 'Valley', 'Coastal', 'Mountain'
-]
-
-// Region-specific prefixes
-const regionPrefixes: Record<string, string[]> = {
-  'North America': ['American', 'United', 'National', 'Regional', 'Metropolitan'],
-  'Latin America': ['Latino', 'Americas', 'Continental', 'Regional', 'National'],
-  'Europe': ['European', 'Continental', 'Regional', 'National', 'Metropolitan'],
-  'Asia Pacific': ['Asia', 'Pacific', 'Regional', 'National', 'Metropolitan'],
-  'Middle East': ['Middle East', 'Regional', 'National', 'Gulf', 'Continental'],
-  'Africa': ['African', 'Continental', 'Regional', 'National', 'Metropolitan']
-}
-
-function generateCustomerName(region: string, endUserSegment: string, index: number): string {
-  const prefixes = regionPrefixes[region] || ['Regional', 'National']
-  const prefix = prefixes[index % prefixes.length]
-  const location = locationSuffixes[index % locationSuffixes.length]
-  
-  let baseName = ''
-  if (endUserSegment === 'Hospital') {
-    baseName = hospitalNames[index % hospitalNames.length]
-  } else if (endUserSegment === 'Speciality Center') {
-    baseName = specialityNames[index % specialityNames.length]
-  } else if (endUserSegment === 'Research Institute') {
-    baseName = researchNames[index % researchNames.length]
-  } else {
-    baseName = pharmacyNames[index % pharmacyNames.length]
-  }
-  
-  return `${prefix} ${baseName} ${location}`
+export interface CustomerHeatmap {
+  segmentType: string
+  regions: string[]
+  segments: string[]
+  cells: CustomerHeatmapCell[]
+  maxCount: number
+  matchedCount: number
+  unmatched: Customer[] // Customers whose geography or segment is not in the loaded data
+}
+
+// Looked up in this order when no path is given
+export const CUSTOMER_INTELLIGENCE_FILES = ['customer_intelligence.json', 'customer_intelligence.csv']
+export const CUSTOMER_FILE_ACCEPT = '.json,.csv,.tsv,.txt,.xlsx'
+
+// Issues of the same kind beyond this many rows are summarised in one line
+const MAX_ROW_ISSUES = 10
+
+// Accepted column headers for each customer field, compared lower-case with spaces/underscores removed
+const COLUMN_ALIASES: Record<string, string[]> = {
+  id: ['id', 'customerid'],
+  name: ['name', 'customer', 'customername', 'company', 'organization', 'organisation'],
+  geography: ['geography', 'region', 'country'],
+  segment_type: ['segmenttype', 'dimension'],
+  segment: ['segment', 'enduser', 'industrycategory', 'industry'],
+  customer_type: ['customertype', 'type'],
+  website: ['website', 'url'],
+  market: ['market'],
 }
 
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const readString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : ''
+
+const readOptionalString = (value: unknown): string | null => readString(value) || null
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+const sameName = (a: string, b: string) => normalize(a) === normalize(b)
+
 /**
- * Generate realistic customer counts based on region and end user segment
- * Hospitals typically have more customers in developed regions
- * Research institutes are more evenly distributed
+ * Validate a parsed customer file
+ * Rows without a name, geography or segment, and repeated rows, are skipped with a warning;
+ * the file only fails when it has no usable customers. When `market` is given, rows tagged
+ * with another market are left out.
  */
-// Deterministic seed function for consistent data generation
-function seededRandom(seed: number): () => number {
-  let value = seed
-  return () => {
-    value = (value * 9301 + 49297) % 233280
-    return value / 233280
+export function validateCustomerIntelligence(
+  raw: unknown,
+  market?: string,
+  describeRow: (index: number) => string = index => `customers[${index}]`
+): Omit<CustomerIntelligenceResult, 'error'> {
+  const issues: CustomerDataIssue[] = []
+  const error = (message: string) => issues.push({ severity: 'error', message })
+  const warning = (message: string) => issues.push({ severity: 'warning', message })
+
+  if (!isRecord(raw) || !Array.isArray(raw.customers)) {
+    error('The file must contain a JSON object with a "customers" array')
+    return { data: null, issues }
+  }
+
+  const metadata = isRecord(raw.metadata) ? raw.metadata : {}
+  const fileMarket = readOptionalString(metadata.market)
+  const defaultSegmentType = readOptionalString(metadata.segment_type)
+
+  const skipped: Record<string, string[]> = {}
+  const skip = (reason: string, index: number) => {
+    (skipped[reason] ||= []).push(describeRow(index))
+  }
+
+  const customers: Customer[] = []
+  const seenIds = new Set<string>()
+  const seenRows = new Set<string>()
+  let otherMarketRows = 0
+  raw.customers.forEach((entry, index) => {
+    if (!isRecord(entry)) {
+      skip('not written as an object', index)
+      return
+    }
+    const rowMarket = readString(entry.market) || fileMarket
+    if (market && rowMarket && !sameName(rowMarket, market)) {
+      otherMarketRows++
+      return
+    }
+
+    const name = readString(entry.name)
+    const geography = readString(entry.geography)
+    const segment = readString(entry.segment)
+    if (!name || !geography || !segment) {
+      skip('without a name, geography or segment', index)
+      return
+    }
+
+    const segmentType = readOptionalString(entry.segment_type) ?? defaultSegmentType
+    const rowKey = [name, geography, segmentType ?? '', segment].map(normalize).join('|')
+    const id = readString(entry.id) || rowKey
+    if (seenIds.has(id) || seenRows.has(rowKey)) {
+      skip('repeating an earlier customer', index)
+      return
+    }
+    seenIds.add(id)
+    seenRows.add(rowKey)
+
+    customers.push({
+      id,
+      name,
+      geography,
+      segmentType,
+      segment,
+      customerType: readOptionalString(entry.customer_type),
+      website: readOptionalString(entry.website),
+    })
+  })
+
+  Object.entries(skipped).forEach(([reason, rows]) => {
+    const listed = rows.slice(0, MAX_ROW_ISSUES).join(', ')
+    const more = rows.length > MAX_ROW_ISSUES ? ` and ${rows.length - MAX_ROW_ISSUES} more` : ''
+    warning(`Skipped ${rows.length} row${rows.length === 1 ? '' : 's'} ${reason}: ${listed}${more}`)
+  })
+  if (otherMarketRows > 0) {
+    warning(`Left out ${otherMarketRows} row${otherMarketRows === 1 ? '' : 's'} belonging to another market`)
+  }
+
+  if (customers.length === 0) {
+    error(market ? `The file has no usable customers for ${market}` : 'The file has no usable customers')
+    return { data: null, issues }
+  }
+
+  return {
+    data: {
+      metadata: { market: fileMarket, source: readOptionalString(metadata.source) },
+      customers,
+    },
+    issues,
   }
 }
 
-function generateCustomerCount(region: string, endUserSegment: string): number {
-  // Base multipliers by region (reflecting market size)
-  const regionMultipliers: Record<string, number> = {
-    'North America': 1.2,
-    'Europe': 1.0,
-    'Asia Pacific': 1.3,
-    'Latin America': 0.7,
-    'Middle East': 0.6,
-    'Africa': 0.5
+/**
+ * Turn a CSV/XLSX sheet (one customer per row) into the raw JSON shape
+ * Columns are recognised by header name, see COLUMN_ALIASES
+ */
+export function sheetToRawCustomers(sheet: TabularSheet): { customers: Array<Record<string, unknown>> } {
+  const headerKeys = sheet.headers.map(header => header.toLowerCase().replace(/[\s_-]/g, ''))
+  const columns = Object.entries(COLUMN_ALIASES).map(([field, aliases]) => ({
+    field,
+    index: aliases.map(alias => headerKeys.indexOf(alias)).find(index => index >= 0) ?? -1,
+  })).filter(column => column.index >= 0)
+
+  return {
+    customers: sheet.rows.map(row => Object.fromEntries(columns.map(({ field, index }) => [field, row[index] ?? null]))),
   }
-  
-  // Base multipliers by end user type
-  const segmentMultipliers: Record<string, number> = {
-    'Hospital': 1.5,           // Most common
-    'Speciality Center': 1.0,  // Medium
-    'Research Institute': 0.6, // Less common
-    'Retail Pharmacy': 0.8     // Medium-low
+}
+
+// Blank rows are dropped when reading a sheet, so rows are numbered from the first data row
+const validateSheet = (sheet: TabularSheet, market?: string) =>
+  validateCustomerIntelligence(sheetToRawCustomers(sheet), market, index => `data row ${index + 1}`)
+
+/**
+ * Parse a customer file's text by its extension (.json, otherwise delimited text)
+ */
+export function parseCustomerFile(text: string, fileName: string, market?: string): Omit<CustomerIntelligenceResult, 'error'> {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    return validateCustomerIntelligence(JSON.parse(text), market)
   }
-  
-  // Base count range
-  const baseMin = 50
-  const baseMax = 300
-  
-  const regionMulti = regionMultipliers[region] || 1.0
-  const segmentMulti = segmentMultipliers[endUserSegment] || 1.0
-  
-  // Calculate realistic range
-  const min = Math.floor(baseMin * regionMulti * segmentMulti)
-  const max = Math.floor(baseMax * regionMulti * segmentMulti)
-  
-  // Create deterministic seed based on region and segment
-  const seed = (region.charCodeAt(0) * 1000 + endUserSegment.charCodeAt(0) * 100) % 10000
-  const random = seededRandom(seed)
-  
-  // Generate consistent count
-  const count = Math.floor(random() * (max - min + 1)) + min
-  
-  return Math.max(10, count) // Minimum 10 customers
+  return validateSheet(parseCsv(text, fileName), market)
 }
 
+const cachedResults = new Map<string, Promise<CustomerIntelligenceResult>>()
+
 /**
- * Generate all customer intelligence data
+ * Load the customer file for a market from /api/customer-intelligence
+ * Results are cached per market; failures are returned as an error message rather than thrown
  */
-export function generateCustomerIntelligenceData(): CustomerIntelligenceData[] {
-  const regions = [
-    'North America',
-    'Latin America',
-    'Europe',
-    'Asia Pacific',
-    'Middle East',
-    'Africa'
-  ]
-  
-  const endUserSegments = [
-    'Hospital',
-    'Speciality Center',
-    'Research Institute',
-    'Retail Pharmacy'
-  ]
-  
-  const data: CustomerIntelligenceData[] = []
-  
-  regions.forEach(region => {
-    endUserSegments.forEach(endUserSegment => {
-      const customerCount = generateCustomerCount(region, endUserSegment)
-      const customers: Customer[] = []
-      
-      // Generate customer names (deterministic based on region, segment, and index)
-      for (let i = 0; i < customerCount; i++) {
-        customers.push({
-          id: `${region}-${endUserSegment}-${i}`,
-          name: generateCustomerName(region, endUserSegment, i),
-          region,
-          endUserSegment,
-          type: endUserSegment === 'Hospital' ? 'hospital' 
-                : endUserSegment === 'Speciality Center' ? 'speciality' 
-                : endUserSegment === 'Research Institute' ? 'research'
-                : 'pharmacy'
-        })
+export function loadCustomerIntelligence(market: string | undefined): Promise<CustomerIntelligenceResult> {
+  const key = market || ''
+  const cached = cachedResults.get(key)
+  if (cached) return cached
+
+  const request = (async (): Promise<CustomerIntelligenceResult> => {
+    try {
+      const params = new URLSearchParams()
+      if (market) params.set('market', market)
+      const response = await fetch(`/api/customer-intelligence?${params.toString()}`)
+      const body = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        return {
+          data: null,
+          issues: Array.isArray(body.issues) ? body.issues : [],
+          error: body.error || `Failed to load customer intelligence: ${response.statusText}`
+        }
       }
-      
-      data.push({
-        region,
-        endUserSegment,
-        customerCount,
-        customers
-      })
+      return { data: body.data ?? null, issues: body.issues ?? [], error: null }
+    } catch (error) {
+      console.error('Error loading customer intelligence data:', error)
+      // Let the next render retry after a network failure
+      cachedResults.delete(key)
+      return { data: null, issues: [], error: error instanceof Error ? error.message : String(error) }
+    }
+  })()
+
+  cachedResults.set(key, request)
+  return request
+}
+
+/**
+ * Import a customer file chosen in the browser (JSON, CSV/TSV or XLSX) for a market
+ * A valid import replaces the market's loaded list for the rest of the session
+ */
+export async function importCustomerFile(file: File, market: string | undefined): Promise<CustomerIntelligenceResult> {
+  let result: Omit<CustomerIntelligenceResult, 'error'>
+  try {
+    if (file.name.toLowerCase().endsWith('.json')) {
+      result = validateCustomerIntelligence(JSON.parse(await file.text()), market)
+    } else {
+      const [sheet] = await readTabularFile(file)
+      if (!sheet) return { data: null, issues: [], error: `${file.name} has no rows` }
+      result = validateSheet(sheet, market)
+    }
+  } catch (error) {
+    return { data: null, issues: [], error: `Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}` }
+  }
+
+  if (!result.data) {
+    return { ...result, error: `${file.name} failed validation` }
+  }
+  const imported: CustomerIntelligenceResult = {
+    data: { ...result.data, metadata: { ...result.data.metadata, source: result.data.metadata.source ?? file.name } },
+    issues: result.issues,
+    error: null
+  }
+  cachedResults.set(market || '', Promise.resolve(imported))
+  return imported
+}
+
+/**
+ * Heatmap columns: the regions of the geography hierarchy when it is populated, otherwise every
+ * geography of the loaded data (the JSON processor leaves the hierarchy empty and lists them all)
+ */
+export function getHeatmapRegions(data: ComparisonData): string[] {
+  const { regions, all_geographies } = data.dimensions.geographies
+  return regions.length > 0 ? regions : all_geographies || []
+}
+
+/**
+ * Column each customer geography falls in: a column itself, or a country's parent region
+ */
+function getRegionLookup(data: ComparisonData): Map<string, string> {
+  const lookup = new Map<string, string>()
+  const { countries } = data.dimensions.geographies
+  getHeatmapRegions(data).forEach(region => {
+    lookup.set(normalize(region), region)
+    const regionCountries = countries[region] || []
+    regionCountries.forEach(country => {
+      if (!lookup.has(normalize(country))) lookup.set(normalize(country), region)
     })
   })
-  
-  return data
+  return lookup
 }
 
+function getSegmentLookup(data: ComparisonData, segmentType: string): Map<string, string> {
+  const items = data.dimensions.segments[segmentType]?.items || []
+  return new Map(items.map(item => [normalize(item), item]))
+}
+
+const fitsSegmentType = (customer: Customer, segmentType: string) =>
+  customer.segmentType === null || sameName(customer.segmentType, segmentType)
+
 /**
- * Get customers for a specific region and end user segment
+ * Segment types of the loaded data, ordered by how many customers they can place
+ * Types that place no customer are left out
  */
-export function getCustomersForCell(
-  data: CustomerIntelligenceData[],
-  region: string,
-  endUserSegment: string
-): Customer[] {
-  const cell = data.find(
-    d => d.region === region && d.endUserSegment === endUserSegment
-  )
-  return cell?.customers || []
+export function getCustomerSegmentTypes(
+  customers: CustomerIntelligenceData,
+  data: ComparisonData
+): Array<{ segmentType: string; matchedCount: number }> {
+  const regionLookup = getRegionLookup(data)
+  return Object.keys(data.dimensions.segments)
+    .map(segmentType => {
+      const segmentLookup = getSegmentLookup(data, segmentType)
+      const matchedCount = customers.customers.filter(customer =>
+        fitsSegmentType(customer, segmentType) &&
+        segmentLookup.has(normalize(customer.segment)) &&
+        regionLookup.has(normalize(customer.geography))
+      ).length
+      return { segmentType, matchedCount }
+    })
+    .filter(entry => entry.matchedCount > 0)
+    .sort((a, b) => b.matchedCount - a.matchedCount)
 }
 
 /**
- * Get customer count for a specific region and end user segment
+ * Customer counts by region (columns) and segment of one segment type (rows)
+ * Regions (see getHeatmapRegions) and segments come from the loaded data, in its order, so the grid matches the market
  */
-export function getCustomerCountForCell(
-  data: CustomerIntelligenceData[],
-  region: string,
-  endUserSegment: string
-): number {
-  const cell = data.find(
-    d => d.region === region && d.endUserSegment === endUserSegment
-  )
-  return cell?.customerCount || 0
+export function prepareCustomerHeatmap(
+  customers: CustomerIntelligenceData,
+  data: ComparisonData,
+  segmentType: string
+): CustomerHeatmap {
+  const regions = getHeatmapRegions(data)
+  const segments = data.dimensions.segments[segmentType]?.items || []
+  const regionLookup = getRegionLookup(data)
+  const segmentLookup = getSegmentLookup(data, segmentType)
+
+  const cellsByKey = new Map<string, CustomerHeatmapCell>()
+  segments.forEach(segment => regions.forEach(region => {
+    cellsByKey.set(`${region}|${segment}`, { region, segment, customers: [] })
+  }))
+
+  const unmatched: Customer[] = []
+  customers.customers.forEach(customer => {
+    const region = regionLookup.get(normalize(customer.geography))
+    const segment = fitsSegmentType(customer, segmentType) ? segmentLookup.get(normalize(customer.segment)) : undefined
+    const cell = region && segment ? cellsByKey.get(`${region}|${segment}`) : undefined
+    if (cell) cell.customers.push(customer)
+    else unmatched.push(customer)
+  })
+
+  const cells = Array.from(cellsByKey.values())
+  return {
+    segmentType,
+    regions,
+    segments,
+    cells,
+    maxCount: Math.max(0, ...cells.map(cell => cell.customers.length)),
+    matchedCount: customers.customers.length - unmatched.length,
+    unmatched
+  }
 }
 
+/**
+ * Get customers for a specific region and segment
+ */
+export function getCustomersForCell(heatmap: CustomerHeatmap, region: string, segment: string): Customer[] {
+  return heatmap.cells.find(cell => cell.region === region && cell.segment === segment)?.customers || []
+}
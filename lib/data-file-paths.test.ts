@@ -0,0 +1,29 @@
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { getPublicDataFilePath } from './data-file-paths'
+
+const DATA_DIR = path.join(process.cwd(), 'public', 'data')
+
+describe('getPublicDataFilePath', () => {
+  it.each([
+    ['competitive_intelligence.json', 'competitive_intelligence.json'],
+    ['data/customer_intelligence.csv', 'customer_intelligence.csv'],
+    ['markets/spices/value.json', 'markets/spices/value.json'],
+    ['markets/../value.json', 'value.json'],
+    ['..notes.json', '..notes.json']
+  ])('resolves %j inside public/data', (filePath, expected) => {
+    expect(getPublicDataFilePath(filePath)).toBe(path.join(DATA_DIR, expected))
+  })
+
+  it.each([
+    '../package.json',
+    'markets/../../.env',
+    '/etc/passwd',
+    path.join(DATA_DIR, 'value.json'),
+    '.',
+    'markets/..',
+    'value.json\0.png'
+  ])('rejects %j', filePath => {
+    expect(getPublicDataFilePath(filePath)).toBeNull()
+  })
+})
@@ -0,0 +1,54 @@
+/**
+ * Data File Paths
+ * Resolves market JSON paths the same way /api/process-data does:
+ * public/data first (Vercel), then the parent directory (local development)
+ */
+
+import path from 'path'
+import fs from 'fs/promises'
+
+/**
+ * Candidate locations for a data file path
+ */
+export function getDataFileCandidates(filePath: string): string[] {
+  if (path.isAbsolute(filePath)) return [filePath]
+  
+  const currentDir = process.cwd()
+  const cleanPath = filePath.replace(/^data\//, '')
+  return [
+    path.join(currentDir, 'public', 'data', cleanPath),
+    path.join(path.resolve(currentDir, '..'), cleanPath)
+  ]
+}
+
+/**
+ * Resolve a data file path to the first existing candidate, or null if none exists
+ */
+export async function resolveDataFilePath(filePath: string | null | undefined): Promise<string | null> {
+  if (!filePath) return null
+  
+  for (const candidate of getDataFileCandidates(filePath)) {
+    try {
+      await fs.access(candidate)
+      return candidate
+    } catch {
+      // Try the next location
+    }
+  }
+  return null
+}
+
+/**
+ * Location of a file inside public/data, for paths taken from a request
+ * Returns null for absolute paths and for paths that leave public/data, so a request
+ * cannot read other files on the server
+ */
+export function getPublicDataFilePath(filePath: string): string | null {
+  if (path.isAbsolute(filePath) || filePath.includes('\0')) return null
+
+  const dataDir = path.join(process.cwd(), 'public', 'data')
+  const resolved = path.resolve(dataDir, filePath.replace(/^data\//, ''))
+  const relative = path.relative(dataDir, resolved)
+  if (!relative || relative.split(path.sep)[0] === '..' || path.isAbsolute(relative)) return null
+  return resolved
+}
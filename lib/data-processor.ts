@@ -34,6 +34,11 @@ export function filterData(
                                (filters.segments && filters.segments.length > 0)
       
       if (record.is_aggregated === true) {
+        // Derived aggregates are sums of leaves that this mode already includes
+        if (record.is_derived) {
+          return false
+        }
+
         if (!hasSegmentFilter) {
           // No segments selected - exclude aggregated records to prevent double-counting
           return false
@@ -695,6 +700,24 @@ export function getUniqueSegments(records: DataRecord[]): string[] {
   return Array.from(segments)
 }
 
+/**
+ * Identity of a record: geography + segment type + segment + hierarchy
+ * Segments that share a name under different parents get different identities
+ */
+export function getRecordIdentity(record: DataRecord): string {
+  const hierarchy = record.segment_hierarchy
+  return [
+    record.geography,
+    record.segment_type,
+    record.segment,
+    hierarchy.level_1,
+    hierarchy.level_2,
+    hierarchy.level_3,
+    hierarchy.level_4,
+    hierarchy.level_5 ?? '',
+  ].join('|')
+}
+
 /**
  * Prepare data for waterfall chart
  * Shows contribution breakdown from start to end value
@@ -836,3 +859,22 @@ export function findFastestGrowing(
 }
 
 
+
+/**
+ * X-axis span of the forecast period within the plotted years
+ * Returns null when no forecast year is on the chart
+ */
+export function getForecastArea(
+  plottedYears: number[],
+  forecastYears: number[]
+): { x1: number; x2: number } | null {
+  const forecastSet = new Set(forecastYears)
+  const plottedForecast = plottedYears.filter(year => forecastSet.has(year))
+  
+  if (plottedForecast.length === 0) return null
+  
+  return {
+    x1: Math.min(...plottedForecast),
+    x2: Math.max(...plottedForecast)
+  }
+}
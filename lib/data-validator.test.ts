@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { validateMarketData, type ValidationCheckId } from './data-validator'
+import type { RawJsonData } from './json-processor'
+
+// A consistent market: Total = A + B in every year, CAGRs match the 2023-2025 series
+function cleanMarket(): RawJsonData {
+  return {
+    Global: {
+      'By Type': {
+        Total: {
+          '2023': 100, '2024': 110, '2025': 121, CAGR: 10,
+          'Type A': { '2023': 60, '2024': 66, '2025': 72.6, CAGR: 10 },
+          'Type B': { '2023': 40, '2024': 44, '2025': 48.4, CAGR: 10 }
+        }
+      }
+    }
+  }
+}
+
+function checkStatus(report: Awaited<ReturnType<typeof validateMarketData>>, id: ValidationCheckId) {
+  return report.checks.find(check => check.id === id)?.status
+}
+
+describe('validateMarketData', () => {
+  it('passes a consistent market', async () => {
+    const report = await validateMarketData(cleanMarket(), null, cleanMarket())
+    expect(report.valid).toBe(true)
+    expect(report.issues).toEqual([])
+    expect(report.years).toEqual([2023, 2024, 2025])
+    expect(report.summary).toMatchObject({ errors: 0, warnings: 0, dataNodes: 3, geographies: 1 })
+    expect(report.checks.every(check => check.status === 'pass')).toBe(true)
+  })
+
+  it('requires value data', async () => {
+    const report = await validateMarketData(null)
+    expect(report.valid).toBe(false)
+    expect(report.issues[0]).toMatchObject({ check: 'structure', severity: 'error', message: 'Value JSON is required' })
+  })
+
+  it('reports non-numeric and negative cells as errors', async () => {
+    const data = cleanMarket()
+    data.Global['By Type'].Total['Type A']['2024'] = 'n/a'
+    data.Global['By Type'].Total['Type B']['2025'] = -1
+    const report = await validateMarketData(data)
+    expect(report.valid).toBe(false)
+    expect(checkStatus(report, 'non-numeric')).toBe('fail')
+    expect(checkStatus(report, 'negative-value')).toBe('fail')
+    expect(report.issues.find(issue => issue.check === 'non-numeric')).toMatchObject({
+      path: ['Global', 'By Type', 'Total', 'Type A'],
+      year: 2024,
+      message: 'Value for 2024 is the string "n/a"'
+    })
+  })
+
+  it('warns when a parent differs from the sum of its children beyond the tolerance', async () => {
+    const data = cleanMarket()
+    data.Global['By Type'].Total['2024'] = 120
+    const report = await validateMarketData(data)
+    const issue = report.issues.find(entry => entry.check === 'parent-sum')
+    expect(issue).toMatchObject({ severity: 'warning', year: 2024, expected: 110, actual: 120 })
+    expect(report.valid).toBe(true)
+
+    const tolerant = await validateMarketData(data, null, null, { sumTolerance: 0.1 })
+    expect(checkStatus(tolerant, 'parent-sum')).toBe('pass')
+  })
+
+  it('warns when a stated CAGR does not match the series', async () => {
+    const data = cleanMarket()
+    data.Global['By Type'].Total['Type A'].CAGR = '25%'
+    const report = await validateMarketData(data)
+    const issue = report.issues.find(entry => entry.check === 'cagr-mismatch')
+    expect(issue?.path).toEqual(['Global', 'By Type', 'Total', 'Type A'])
+    expect(issue?.actual).toBe(25)
+    expect(issue?.expected).toBeCloseTo(10)
+  })
+
+  it('warns about missing years and gaps in the year range', async () => {
+    const data = cleanMarket()
+    delete data.Global['By Type'].Total['Type B']['2024']
+    const report = await validateMarketData(data)
+    expect(report.issues.filter(issue => issue.check === 'year-coverage').map(issue => issue.message)).toEqual(['Missing 2024'])
+
+    const gap = await validateMarketData({ Global: { 'By Type': { Total: { '2023': 1, '2025': 1 } } } })
+    expect(gap.issues[0].message).toBe('Year range 2023-2025 is missing 2024')
+  })
+
+  it('compares geographies and segment types with the segmentation file', async () => {
+    const segmentation = { Global: { 'By Region': {} }, Europe: { 'By Type': {} } }
+    const report = await validateMarketData(cleanMarket(), null, segmentation)
+    expect(report.issues.filter(issue => issue.check === 'geography-coverage').map(issue => [issue.severity, issue.message])).toEqual([
+      ['warning', 'Segment type "By Type" is not in the segmentation file for Global'],
+      ['info', 'Geography "Europe" has segmentation but no value data']
+    ])
+  })
+
+  it('caps the issues listed per check but keeps exact counts', async () => {
+    const data = cleanMarket()
+    data.Global['By Type'].Total['Type A'] = { '2023': -1, '2024': -1, '2025': -1 }
+    const report = await validateMarketData(data, null, null, { maxIssuesPerCheck: 2 })
+    expect(report.summary.errors).toBe(3)
+    expect(report.issues.filter(issue => issue.check === 'negative-value')).toHaveLength(2)
+    expect(report.truncated).toBe(true)
+  })
+})
@@ -0,0 +1,470 @@
+/**
+ * Market Data Validator
+ * Checks raw value/volume/segmentation JSON before it is published and returns a structured report
+ * Runs on the server (/api/validate-data) and in the browser for uploaded files
+ */
+
+import type { YearConfig } from './types'
+import { yieldToEventLoop, type RawJsonData } from './json-processor'
+import { extractMetadataBlock, resolveYearSplit } from './year-config'
+
+export type ValidationSeverity = 'error' | 'warning' | 'info'
+
+export type ValidationCheckId =
+  | 'structure'
+  | 'year-coverage'
+  | 'non-numeric'
+  | 'negative-value'
+  | 'parent-sum'
+  | 'cagr-mismatch'
+  | 'geography-coverage'
+
+export type ValidationFile = 'value' | 'volume' | 'segmentation'
+
+export interface ValidationIssue {
+  check: ValidationCheckId
+  severity: ValidationSeverity
+  file: ValidationFile
+  message: string
+  path?: string[] // [geography, segmentType, ...segments]
+  year?: number
+  expected?: number
+  actual?: number
+}
+
+export interface ValidationCheckSummary {
+  id: ValidationCheckId
+  label: string
+  status: 'pass' | 'warn' | 'fail'
+  issueCount: number
+}
+
+export interface ValidationReport {
+  valid: boolean // No error-severity issues
+  generatedAt: string
+  years: number[]
+  baseYear: number | null
+  summary: {
+    errors: number
+    warnings: number
+    info: number
+    dataNodes: number
+    geographies: number
+  }
+  checks: ValidationCheckSummary[]
+  issues: ValidationIssue[] // Capped per check; counts in summary/checks are exact
+  truncated: boolean
+}
+
+export interface ValidationOptions {
+  yearConfig?: YearConfig | null // Explicit year split, as accepted by /api/process-data
+  sumTolerance?: number // Relative difference allowed between a parent and the sum of its children
+  cagrTolerance?: number // Percentage points allowed between stated and computed CAGR
+  maxIssuesPerCheck?: number
+  fileErrors?: Array<{ file: ValidationFile; severity: ValidationSeverity; message: string }> // Lookup/parse failures, reported under structure
+}
+
+export const VALIDATION_CHECK_LABELS: Record<ValidationCheckId, string> = {
+  'structure': 'File structure',
+  'year-coverage': 'Year coverage',
+  'non-numeric': 'Non-numeric cells',
+  'negative-value': 'Negative values',
+  'parent-sum': 'Parent equals sum of children',
+  'cagr-mismatch': 'CAGR matches time series',
+  'geography-coverage': 'Geographies in segmentation',
+}
+
+const CHECK_IDS = Object.keys(VALIDATION_CHECK_LABELS) as ValidationCheckId[]
+
+const DEFAULT_SUM_TOLERANCE = 0.005
+const DEFAULT_CAGR_TOLERANCE = 0.5
+const DEFAULT_MAX_ISSUES_PER_CHECK = 200
+
+const YEAR_KEY = /^\d{4}$/
+const RESERVED_KEYS = new Set(['CAGR', '_aggregated', '_level'])
+
+interface DataNode {
+  file: ValidationFile
+  path: string[]
+  years: Record<number, unknown>
+  cagr: unknown
+  children: DataNode[] // Nearest descendants that carry year data
+}
+
+function isDataNode(obj: Record<string, unknown>): boolean {
+  return Object.keys(obj).some(key => YEAR_KEY.test(key) || key === 'CAGR')
+}
+
+function childEntries(obj: Record<string, unknown>): Array<[string, Record<string, unknown>]> {
+  return Object.entries(obj).filter(
+    (entry): entry is [string, Record<string, unknown>] =>
+      !YEAR_KEY.test(entry[0]) &&
+      !RESERVED_KEYS.has(entry[0]) &&
+      !!entry[1] &&
+      typeof entry[1] === 'object' &&
+      !Array.isArray(entry[1])
+  )
+}
+
+/**
+ * Collect the data nodes below a segment type as a forest
+ * Intermediate objects without year data are skipped, linking parents to their nearest data descendants
+ */
+function collectDataNodes(
+  file: ValidationFile,
+  obj: Record<string, unknown>,
+  path: string[],
+  depth: number = 0
+): DataNode[] {
+  if (depth > 20) return []
+
+  const children: DataNode[] = []
+  childEntries(obj).forEach(([key, child]) => {
+    children.push(...collectDataNodes(file, child, [...path, key], depth + 1))
+  })
+
+  if (!isDataNode(obj)) {
+    return children
+  }
+
+  const years: Record<number, unknown> = {}
+  Object.keys(obj).forEach(key => {
+    if (YEAR_KEY.test(key)) years[parseInt(key, 10)] = obj[key]
+  })
+  return [{ file, path, years, cagr: obj.CAGR, children }]
+}
+
+function flattenNodes(nodes: DataNode[], into: DataNode[] = []): DataNode[] {
+  nodes.forEach(node => {
+    into.push(node)
+    flattenNodes(node.children, into)
+  })
+  return into
+}
+
+function parseCagr(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace('%', '').trim())
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+function computeCagr(start: number, end: number, periods: number): number | null {
+  if (start <= 0 || end < 0 || periods <= 0) return null
+  return (Math.pow(end / start, 1 / periods) - 1) * 100
+}
+
+function geographyKeys(data: RawJsonData): string[] {
+  return Object.keys(data).filter(key => {
+    const value = data[key]
+    return value && typeof value === 'object' && !Array.isArray(value)
+  })
+}
+
+/**
+ * Validate raw market JSON files
+ * Value data is required; volume and segmentation are checked when present
+ */
+export async function validateMarketData(
+  rawValueData: RawJsonData | null,
+  rawVolumeData: RawJsonData | null = null,
+  rawSegmentationData: RawJsonData | null = null,
+  options: ValidationOptions = {}
+): Promise<ValidationReport> {
+  const sumTolerance = options.sumTolerance ?? DEFAULT_SUM_TOLERANCE
+  const cagrTolerance = options.cagrTolerance ?? DEFAULT_CAGR_TOLERANCE
+  const maxIssuesPerCheck = options.maxIssuesPerCheck ?? DEFAULT_MAX_ISSUES_PER_CHECK
+
+  const issues: ValidationIssue[] = []
+  const issueCounts = Object.fromEntries(
+    CHECK_IDS.map(id => [id, { error: 0, warning: 0, info: 0 }])
+  ) as Record<ValidationCheckId, Record<ValidationSeverity, number>>
+
+  const report = (issue: ValidationIssue) => {
+    const counts = issueCounts[issue.check]
+    const total = counts.error + counts.warning + counts.info
+    counts[issue.severity]++
+    if (total < maxIssuesPerCheck) {
+      issues.push(issue)
+    }
+  }
+
+  // Metadata blocks are not geographies
+  const value = rawValueData ? extractMetadataBlock(rawValueData) : null
+  const volume = rawVolumeData ? extractMetadataBlock(rawVolumeData) : null
+  const segmentation = rawSegmentationData ? extractMetadataBlock(rawSegmentationData) : null
+
+  const numericFiles: Array<{ file: ValidationFile; data: RawJsonData }> = []
+  if (value) numericFiles.push({ file: 'value', data: value.data })
+  if (volume) numericFiles.push({ file: 'volume', data: volume.data })
+
+  // Structure
+  options.fileErrors?.forEach(fileError => {
+    report({ check: 'structure', ...fileError })
+  })
+  if (!value && !options.fileErrors?.some(fileError => fileError.file === 'value')) {
+    report({ check: 'structure', severity: 'error', file: 'value', message: 'Value JSON is required' })
+  }
+  numericFiles.forEach(({ file, data }) => {
+    const geographies = geographyKeys(data)
+    if (geographies.length === 0) {
+      report({ check: 'structure', severity: 'error', file, message: 'No geographies found at the top level' })
+    }
+    geographies.forEach(geography => {
+      if (childEntries(data[geography]).length === 0) {
+        report({ check: 'structure', severity: 'error', file, path: [geography], message: `Geography "${geography}" has no segment types` })
+      }
+    })
+  })
+
+  // Build data node trees per file
+  const nodesByFile: Array<{ file: ValidationFile; roots: DataNode[]; all: DataNode[] }> = []
+  for (const { file, data } of numericFiles) {
+    const roots: DataNode[] = []
+    const geographies = geographyKeys(data)
+    for (let i = 0; i < geographies.length; i++) {
+      const geography = geographies[i]
+      childEntries(data[geography]).forEach(([segmentType, segmentData]) => {
+        roots.push(...collectDataNodes(file, segmentData, [geography, segmentType]))
+      })
+      if ((i + 1) % 5 === 0) {
+        await yieldToEventLoop()
+      }
+    }
+    const all = flattenNodes(roots)
+    if (all.length === 0 && geographies.length > 0) {
+      report({ check: 'structure', severity: 'error', file, message: 'No nodes with year data found' })
+    }
+    nodesByFile.push({ file, roots, all })
+  }
+
+  // Year coverage: every node should carry every year present in the file set
+  const yearSet = new Set<number>()
+  nodesByFile.forEach(({ all }) => {
+    all.forEach(node => Object.keys(node.years).forEach(year => yearSet.add(Number(year))))
+  })
+  const years = Array.from(yearSet).sort((a, b) => a - b)
+
+  if (years.length > 0) {
+    const gaps: number[] = []
+    for (let year = years[0]; year <= years[years.length - 1]; year++) {
+      if (!yearSet.has(year)) gaps.push(year)
+    }
+    if (gaps.length > 0) {
+      report({
+        check: 'year-coverage',
+        severity: 'warning',
+        file: 'value',
+        message: `Year range ${years[0]}-${years[years.length - 1]} is missing ${gaps.join(', ')}`
+      })
+    }
+  }
+
+  let dataNodes = 0
+  for (const { all } of nodesByFile) {
+    for (let i = 0; i < all.length; i++) {
+      const node = all[i]
+      dataNodes++
+
+      const missing = years.filter(year => !(year in node.years))
+      if (missing.length > 0) {
+        report({
+          check: 'year-coverage',
+          severity: 'warning',
+          file: node.file,
+          path: node.path,
+          message: `Missing ${missing.length === years.length ? 'all years' : missing.join(', ')}`
+        })
+      }
+
+      Object.entries(node.years).forEach(([yearKey, cell]) => {
+        const year = Number(yearKey)
+        if (typeof cell !== 'number' || !Number.isFinite(cell)) {
+          report({
+            check: 'non-numeric',
+            severity: 'error',
+            file: node.file,
+            path: node.path,
+            year,
+            message: `Value for ${year} is ${cell === null ? 'null' : typeof cell === 'string' ? `the string "${cell}"` : typeof cell}`
+          })
+        } else if (cell < 0) {
+          report({
+            check: 'negative-value',
+            severity: 'error',
+            file: node.file,
+            path: node.path,
+            year,
+            actual: cell,
+            message: `Negative value ${cell} in ${year}`
+          })
+        }
+      })
+
+      if (i % 1000 === 0) {
+        await yieldToEventLoop()
+      }
+    }
+  }
+
+  // Parent vs sum of children
+  for (const { all } of nodesByFile) {
+    for (let i = 0; i < all.length; i++) {
+      const node = all[i]
+      if (node.children.length === 0) continue
+
+      for (const year of years) {
+        const parentValue = node.years[year]
+        if (typeof parentValue !== 'number') continue
+        const childValues = node.children.map(child => child.years[year])
+        if (childValues.some(v => typeof v !== 'number')) continue
+
+        const childSum = (childValues as number[]).reduce((sum, v) => sum + v, 0)
+        const scale = Math.max(Math.abs(parentValue), Math.abs(childSum), 1e-9)
+        if (Math.abs(parentValue - childSum) / scale > sumTolerance) {
+          report({
+            check: 'parent-sum',
+            severity: 'warning',
+            file: node.file,
+            path: node.path,
+            year,
+            expected: childSum,
+            actual: parentValue,
+            message: `${year}: parent is ${parentValue.toLocaleString()} but its ${node.children.length} children sum to ${childSum.toLocaleString()}`
+          })
+        }
+      }
+
+      if (i % 1000 === 0) {
+        await yieldToEventLoop()
+      }
+    }
+  }
+
+  // CAGR vs time series (base -> forecast, also accepting the full range)
+  let baseYear: number | null = null
+  if (years.length > 1) {
+    const split = resolveYearSplit(years, [
+      { name: 'request', config: options.yearConfig },
+      { name: 'value metadata', config: value?.yearConfig },
+      { name: 'volume metadata', config: volume?.yearConfig },
+      { name: 'segmentation metadata', config: segmentation?.yearConfig }
+    ])
+    baseYear = split.baseYear
+    const startYear = years[0]
+    const endYear = years[years.length - 1]
+
+    for (const { all } of nodesByFile) {
+      for (const node of all) {
+        const stated = parseCagr(node.cagr)
+        if (stated === null) continue
+
+        const endValue = node.years[endYear]
+        const baseValue = node.years[baseYear]
+        const startValue = node.years[startYear]
+        if (typeof endValue !== 'number') continue
+
+        const fromBase = typeof baseValue === 'number' ? computeCagr(baseValue, endValue, endYear - baseYear) : null
+        const fromStart = typeof startValue === 'number' ? computeCagr(startValue, endValue, endYear - startYear) : null
+        const candidates = [fromBase, fromStart].filter((v): v is number => v !== null)
+        if (candidates.length === 0) continue
+
+        if (candidates.every(computed => Math.abs(computed - stated) > cagrTolerance)) {
+          const expected = fromBase ?? fromStart!
+          report({
+            check: 'cagr-mismatch',
+            severity: 'warning',
+            file: node.file,
+            path: node.path,
+            expected,
+            actual: stated,
+            message: `Stated CAGR ${stated.toFixed(2)}% but ${fromBase !== null ? `${baseYear}-${endYear}` : `${startYear}-${endYear}`} series implies ${expected.toFixed(2)}%`
+          })
+        }
+      }
+      await yieldToEventLoop()
+    }
+  }
+
+  // Geographies and segment types missing from segmentation
+  if (segmentation) {
+    const segmentationGeographies = new Set(geographyKeys(segmentation.data))
+    numericFiles.forEach(({ file, data }) => {
+      geographyKeys(data).forEach(geography => {
+        if (!segmentationGeographies.has(geography)) {
+          report({
+            check: 'geography-coverage',
+            severity: 'warning',
+            file,
+            path: [geography],
+            message: `Geography "${geography}" is not in the segmentation file`
+          })
+          return
+        }
+        const segmentationTypes = new Set(childEntries(segmentation.data[geography]).map(([type]) => type))
+        childEntries(data[geography]).forEach(([segmentType]) => {
+          if (!segmentationTypes.has(segmentType)) {
+            report({
+              check: 'geography-coverage',
+              severity: 'warning',
+              file,
+              path: [geography, segmentType],
+              message: `Segment type "${segmentType}" is not in the segmentation file for ${geography}`
+            })
+          }
+        })
+      })
+    })
+
+    if (value) {
+      const valueGeographies = new Set(geographyKeys(value.data))
+      segmentationGeographies.forEach(geography => {
+        if (!valueGeographies.has(geography)) {
+          report({
+            check: 'geography-coverage',
+            severity: 'info',
+            file: 'segmentation',
+            path: [geography],
+            message: `Geography "${geography}" has segmentation but no value data`
+          })
+        }
+      })
+    }
+  }
+
+  const checks: ValidationCheckSummary[] = CHECK_IDS.map(id => {
+    const counts = issueCounts[id]
+    return {
+      id,
+      label: VALIDATION_CHECK_LABELS[id],
+      status: counts.error > 0 ? 'fail' : counts.warning > 0 ? 'warn' : 'pass',
+      issueCount: counts.error + counts.warning + counts.info
+    }
+  })
+
+  const totals = Object.values(issueCounts).reduce(
+    (sum, counts) => ({
+      errors: sum.errors + counts.error,
+      warnings: sum.warnings + counts.warning,
+      info: sum.info + counts.info
+    }),
+    { errors: 0, warnings: 0, info: 0 }
+  )
+
+  return {
+    valid: totals.errors === 0,
+    generatedAt: new Date().toISOString(),
+    years,
+    baseYear,
+    summary: {
+      ...totals,
+      dataNodes,
+      geographies: value ? geographyKeys(value.data).length : 0
+    },
+    checks,
+    issues,
+    truncated: totals.errors + totals.warnings + totals.info > issues.length
+  }
+}
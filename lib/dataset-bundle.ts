@@ -0,0 +1,159 @@
+/**
+ * Dataset Bundles
+ * Portable export of a processed market: gzipped JSON holding a manifest and the ComparisonData,
+ * so a market can be shared or archived and loaded again without re-processing
+ */
+
+import type { ComparisonData, DatasetSource, DatasetSourceRole, YearConfig } from './types'
+import { PROCESSOR_VERSION } from './json-processor'
+
+export const DATASET_BUNDLE_FORMAT = 'cmi-dataset-bundle'
+export const DATASET_BUNDLE_VERSION = 1
+export const DATASET_BUNDLE_EXTENSION = '.dataset.json.gz'
+
+export interface DatasetBundleManifest {
+  format: typeof DATASET_BUNDLE_FORMAT
+  bundle_version: number
+  market_name: string
+  processor_version: string
+  processed_at: string | null
+  exported_at: string
+  source_files: DatasetSource['files']
+  year_config: YearConfig | null
+  record_counts: { value: number; volume: number }
+  data_sha256: string // Hash of the serialized ComparisonData, checked on import
+}
+
+export interface LoadedDatasetBundle {
+  manifest: DatasetBundleManifest
+  data: ComparisonData
+  warnings: string[]
+}
+
+/**
+ * Hex SHA-256 of bytes or text (Web Crypto, available in browsers and Node)
+ */
+export async function sha256Hex(input: ArrayBuffer | string): Promise<string> {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Name and content hash of a file selected in the browser
+ */
+export async function describeUploadedFile(file: File): Promise<{ name: string; sha256: string }> {
+  return { name: file.name, sha256: await sha256Hex(await file.arrayBuffer()) }
+}
+
+/**
+ * Attach provenance (processor version, processing time, source files) to a processed dataset
+ */
+export function withDatasetSource(
+  data: ComparisonData,
+  files: DatasetSource['files'],
+  yearConfig?: YearConfig | null
+): ComparisonData {
+  return {
+    ...data,
+    source: {
+      processor_version: PROCESSOR_VERSION,
+      processed_at: new Date().toISOString(),
+      files,
+      year_config: yearConfig ?? null,
+    },
+  }
+}
+
+/**
+ * Build source file entries for the roles that have a file
+ */
+export async function describeUploadedFiles(
+  files: Partial<Record<DatasetSourceRole, File | null>>
+): Promise<DatasetSource['files']> {
+  const described: DatasetSource['files'] = {}
+  for (const role of ['value', 'volume', 'segmentation'] as const) {
+    const file = files[role]
+    if (file) described[role] = await describeUploadedFile(file)
+  }
+  return described
+}
+
+export function isDatasetBundleFile(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.gz')
+}
+
+/**
+ * File name for a bundle, e.g. "global-widgets-market-2025-01-31.dataset.json.gz"
+ */
+export function getDatasetBundleFileName(data: ComparisonData): string {
+  const slug = data.metadata.market_name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'market'
+  return `${slug}-${new Date().toISOString().split('T')[0]}${DATASET_BUNDLE_EXTENSION}`
+}
+
+/**
+ * Serialize and gzip a processed dataset together with its manifest
+ */
+export async function createDatasetBundle(data: ComparisonData): Promise<Blob> {
+  const dataJson = JSON.stringify(data)
+  const manifest: DatasetBundleManifest = {
+    format: DATASET_BUNDLE_FORMAT,
+    bundle_version: DATASET_BUNDLE_VERSION,
+    market_name: data.metadata.market_name,
+    processor_version: data.source?.processor_version ?? PROCESSOR_VERSION,
+    processed_at: data.source?.processed_at ?? null,
+    exported_at: new Date().toISOString(),
+    source_files: data.source?.files ?? {},
+    year_config: data.source?.year_config ?? null,
+    record_counts: {
+      value: data.data.value.geography_segment_matrix.length,
+      volume: data.data.volume.geography_segment_matrix.length,
+    },
+    data_sha256: await sha256Hex(dataJson),
+  }
+
+  // Manifest first so it can be read from the head of the decompressed stream
+  const json = `{"manifest":${JSON.stringify(manifest)},"data":${dataJson}}`
+  const compressed = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'))
+  return new Response(compressed).blob()
+}
+
+/**
+ * Decompress and check a bundle
+ * Unknown formats, newer bundle versions and corrupted data are rejected; a different
+ * processor version is only reported as a warning
+ */
+export async function readDatasetBundle(file: Blob): Promise<LoadedDatasetBundle> {
+  let parsed: { manifest?: DatasetBundleManifest; data?: ComparisonData }
+  try {
+    const decompressed = file.stream().pipeThrough(new DecompressionStream('gzip'))
+    parsed = JSON.parse(await new Response(decompressed).text())
+  } catch (error) {
+    throw new Error(`Not a readable dataset bundle: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const { manifest, data } = parsed
+  if (!manifest || manifest.format !== DATASET_BUNDLE_FORMAT || !data) {
+    throw new Error('Not a dataset bundle (missing manifest or data)')
+  }
+  if (manifest.bundle_version > DATASET_BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${manifest.bundle_version} is newer than supported (${DATASET_BUNDLE_VERSION}); update the dashboard`)
+  }
+  if ((await sha256Hex(JSON.stringify(data))) !== manifest.data_sha256) {
+    throw new Error('Bundle data does not match its manifest hash; the file may be corrupted')
+  }
+
+  const warnings: string[] = []
+  if (manifest.processor_version !== PROCESSOR_VERSION) {
+    warnings.push(`Processed with processor ${manifest.processor_version} (current ${PROCESSOR_VERSION})`)
+  }
+
+  console.log(`📦 Loaded dataset bundle "${manifest.market_name}" exported ${manifest.exported_at}`)
+  return { manifest, data, warnings }
+}
@@ -0,0 +1,158 @@
+/**
+ * Processed Dataset Cache
+ * Stores gzipped ComparisonData on local disk, keyed by a hash of the input files and processor version
+ */
+
+import type { ComparisonData, DatasetSource, YearConfig } from './types'
+import { PROCESSOR_VERSION } from './json-processor'
+import { createHash } from 'crypto'
+import { createReadStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { promisify } from 'util'
+import zlib from 'zlib'
+
+const gzip = promisify(zlib.gzip)
+const gunzip = promisify(zlib.gunzip)
+
+const CACHE_DIR = process.env.DATASET_CACHE_DIR || path.join(process.cwd(), '.cache', 'processed-data')
+
+export interface DatasetSourceFiles {
+  valuePath: string
+  volumePath: string | null
+  segmentationPath: string | null
+  yearConfig?: YearConfig | null
+}
+
+// Content hashes keyed by path, reused while size and mtime are unchanged
+const fileHashMemo = new Map<string, { size: number; mtimeMs: number; hash: string }>()
+
+/**
+ * SHA-256 of a file's contents, streamed so large files are not read into memory
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const stats = await fs.stat(filePath)
+  const memo = fileHashMemo.get(filePath)
+  if (memo && memo.size === stats.size && memo.mtimeMs === stats.mtimeMs) {
+    return memo.hash
+  }
+
+  const hash = createHash('sha256')
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer)
+  }
+  const digest = hash.digest('hex')
+  fileHashMemo.set(filePath, { size: stats.size, mtimeMs: stats.mtimeMs, hash: digest })
+  return digest
+}
+
+/**
+ * Hash every source file (missing optional files hash as empty)
+ */
+export async function hashSourceFiles(files: DatasetSourceFiles): Promise<{ value: string; volume: string | null; segmentation: string | null }> {
+  const hashOptional = async (filePath: string | null) => {
+    if (!filePath) return null
+    try {
+      return await hashFile(filePath)
+    } catch {
+      return null
+    }
+  }
+
+  const [value, volume, segmentation] = await Promise.all([
+    hashFile(files.valuePath),
+    hashOptional(files.volumePath),
+    hashOptional(files.segmentationPath)
+  ])
+  return { value, volume, segmentation }
+}
+
+/**
+ * Names and content hashes of the source files, recorded as dataset provenance
+ */
+export async function describeSourceFiles(files: DatasetSourceFiles): Promise<DatasetSource['files']> {
+  const hashes = await hashSourceFiles(files)
+  const described: DatasetSource['files'] = {
+    value: { name: path.basename(files.valuePath), sha256: hashes.value }
+  }
+  if (files.volumePath && hashes.volume) {
+    described.volume = { name: path.basename(files.volumePath), sha256: hashes.volume }
+  }
+  if (files.segmentationPath && hashes.segmentation) {
+    described.segmentation = { name: path.basename(files.segmentationPath), sha256: hashes.segmentation }
+  }
+  return described
+}
+
+/**
+ * Cache key for a set of source files and year configuration under the current processor version
+ */
+export async function computeDatasetCacheKey(files: DatasetSourceFiles): Promise<string> {
+  const hashes = await hashSourceFiles(files)
+  return createHash('sha256')
+    .update(`processor:${PROCESSOR_VERSION}\n`)
+    .update(`value:${hashes.value}\n`)
+    .update(`volume:${hashes.volume ?? ''}\n`)
+    .update(`segmentation:${hashes.segmentation ?? ''}\n`)
+    .update(`years:${JSON.stringify(files.yearConfig ?? null)}\n`)
+    .digest('hex')
+}
+
+function getCachePath(key: string): string {
+  return path.join(CACHE_DIR, `${key}.json.gz`)
+}
+
+/**
+ * Read a cached dataset as gzipped JSON bytes, or null on a miss
+ */
+export async function readCachedDataset(key: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(getCachePath(key))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Store a processed dataset; failures (e.g. read-only deployments) are logged and ignored
+ */
+export async function writeCachedDataset(key: string, data: ComparisonData): Promise<void> {
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true })
+    const compressed = await gzip(Buffer.from(JSON.stringify(data), 'utf-8'))
+    // Write to a temp file first so concurrent readers never see a partial entry
+    const tempPath = `${getCachePath(key)}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, compressed)
+    await fs.rename(tempPath, getCachePath(key))
+    console.log(`Cached processed dataset ${key.slice(0, 12)} (${(compressed.length / 1024 / 1024).toFixed(2)} MB gzipped)`)
+  } catch (error) {
+    console.warn(`Failed to write dataset cache: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Decompress a cached entry to its JSON text
+ */
+export async function decompressDataset(compressed: Buffer): Promise<string> {
+  const buffer = await gunzip(compressed)
+  return buffer.toString('utf-8')
+}
+
+/**
+ * Strong ETag for a cache key
+ */
+export function toETag(key: string): string {
+  return `"${key}"`
+}
+
+/**
+ * Whether an If-None-Match header matches the given ETag
+ */
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false
+  if (ifNoneMatch.trim() === '*') return true
+  return ifNoneMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .includes(etag)
+}
@@ -1,12 +1,11 @@
 /**
  * Export Utilities
- * Functions for exporting charts and generating reports
+ * Functions for exporting charts and shared report helpers
  */
 
 import html2canvas from 'html2canvas'
-import jsPDF from 'jspdf'
 import { saveAs } from 'file-saver'
-import { FilterState } from './types'
+import { ComparisonData, FilterState } from './types'
 
 /**
  * Export a chart element as PNG
@@ -41,153 +40,39 @@ export async function exportChartAsPNG(
 }
 
 /**
- * Generate PDF report with all charts
+ * Analysis parameters printed on report summary pages (PDF and PPTX)
  */
-export async function generatePDFReport(
-  filters: FilterState,
-  marketName: string = 'Market Analysis'
-): Promise<void> {
-  try {
-    const pdf = new jsPDF('p', 'mm', 'a4')
-    const pageWidth = pdf.internal.pageSize.getWidth()
-    const pageHeight = pdf.internal.pageSize.getHeight()
-    const margin = 20
-    const contentWidth = pageWidth - (margin * 2)
-    
-    // Title Page
-    pdf.setFontSize(24)
-    pdf.text(marketName, pageWidth / 2, 40, { align: 'center' })
-    
-    pdf.setFontSize(14)
-    pdf.text('Comparative Analysis Report', pageWidth / 2, 55, { align: 'center' })
-    
-    pdf.setFontSize(10)
-    pdf.text(`Generated: ${new Date().toLocaleDateString()}`, pageWidth / 2, 70, { align: 'center' })
-    
-    // Filter Summary
-    pdf.setFontSize(12)
-    pdf.text('Analysis Parameters', margin, 90)
-    
-    pdf.setFontSize(10)
-    let yPos = 100
-    
-    pdf.text(`• View Mode: ${filters.viewMode}`, margin + 5, yPos)
-    yPos += 7
-    
-    pdf.text(`• Data Type: ${filters.dataType}`, margin + 5, yPos)
-    yPos += 7
-    
-    pdf.text(`• Year Range: ${filters.yearRange[0]} - ${filters.yearRange[1]}`, margin + 5, yPos)
-    yPos += 7
-    
-    if (filters.geographies.length > 0) {
-      const geoText = filters.geographies.length > 3 
-        ? `${filters.geographies.slice(0, 3).join(', ')}... (${filters.geographies.length} total)`
-        : filters.geographies.join(', ')
-      pdf.text(`• Geographies: ${geoText}`, margin + 5, yPos)
-      yPos += 7
-    }
-    
-    if (filters.segments.length > 0) {
-      const segText = filters.segments.length > 3
-        ? `${filters.segments.slice(0, 3).join(', ')}... (${filters.segments.length} total)`
-        : filters.segments.join(', ')
-      pdf.text(`• Segments: ${segText}`, margin + 5, yPos)
-      yPos += 7
-    }
-    
-    // Capture charts if they exist
-    const chartIds = ['grouped-bar-chart', 'line-chart', 'heatmap-chart', 'comparison-table']
-    let currentPage = 1
-    
-    for (const chartId of chartIds) {
-      const element = document.getElementById(chartId)
-      if (element) {
-        // Add new page for each chart
-        if (currentPage > 1) {
-          pdf.addPage()
-        }
-        currentPage++
-        
-        try {
-          const canvas = await html2canvas(element, {
-            backgroundColor: '#ffffff',
-            scale: 2,
-            logging: false,
-          })
-          
-          // Calculate dimensions to fit on page
-          const imgWidth = contentWidth
-          const imgHeight = (canvas.height * imgWidth) / canvas.width
-          
-          // Add chart title
-          pdf.setFontSize(14)
-          const chartTitle = getChartTitle(chartId)
-          pdf.text(chartTitle, pageWidth / 2, margin, { align: 'center' })
-          
-          // Add chart image
-          const imgData = canvas.toDataURL('image/png')
-          pdf.addImage(imgData, 'PNG', margin, margin + 10, imgWidth, Math.min(imgHeight, pageHeight - 60))
-          
-        } catch (error) {
-          console.error(`Error capturing ${chartId}:`, error)
-        }
-      }
-    }
-    
-    // Insights page
-    const insightsElement = document.getElementById('insights-panel')
-    if (insightsElement) {
-      pdf.addPage()
-      
-      pdf.setFontSize(14)
-      pdf.text('Key Insights', pageWidth / 2, margin, { align: 'center' })
-      
-      // Extract insights text
-      const insightElements = insightsElement.querySelectorAll('[data-insight]')
-      let insightY = margin + 15
-      
-      insightElements.forEach((insight, index) => {
-        if (insightY > pageHeight - 30) {
-          pdf.addPage()
-          insightY = margin
-        }
-        
-        pdf.setFontSize(10)
-        const title = insight.querySelector('[data-insight-title]')?.textContent || ''
-        const description = insight.querySelector('[data-insight-description]')?.textContent || ''
-        
-        pdf.setFont('helvetica', 'bold')
-        pdf.text(`${index + 1}. ${title}`, margin, insightY)
-        
-        pdf.setFont('helvetica', 'normal')
-        const lines = pdf.splitTextToSize(description, contentWidth - 10)
-        pdf.text(lines, margin + 5, insightY + 5)
-        
-        insightY += 5 + (lines.length * 5) + 5
-      })
-    }
-    
-    // Save PDF
-    pdf.save(`${marketName.replace(/\s+/g, '-')}-Report-${new Date().toISOString().split('T')[0]}.pdf`)
-    
-  } catch (error) {
-    console.error('Error generating PDF report:', error)
-    throw error
+export function getFilterSummaryLines(filters: FilterState): string[] {
+  const lines = [
+    `View Mode: ${filters.viewMode}`,
+    `Data Type: ${filters.dataType}`,
+    `Year Range: ${filters.yearRange[0]} - ${filters.yearRange[1]}`,
+  ]
+  
+  if (filters.geographies.length > 0) {
+    const geoText = filters.geographies.length > 3 
+      ? `${filters.geographies.slice(0, 3).join(', ')}... (${filters.geographies.length} total)`
+      : filters.geographies.join(', ')
+    lines.push(`Geographies: ${geoText}`)
   }
+  
+  if (filters.segments.length > 0) {
+    const segText = filters.segments.length > 3
+      ? `${filters.segments.slice(0, 3).join(', ')}... (${filters.segments.length} total)`
+      : filters.segments.join(', ')
+    lines.push(`Segments: ${segText}`)
+  }
+  
+  return lines
 }
 
 /**
- * Get chart title based on element ID
+ * Unit of the exported values, e.g. "USD Million" or the volume unit
  */
-function getChartTitle(chartId: string): string {
-  const titles: Record<string, string> = {
-    'grouped-bar-chart': 'Comparative Bar Chart Analysis',
-    'line-chart': 'Trend Analysis Over Time',
-    'heatmap-chart': 'Matrix Heatmap Comparison',
-    'comparison-table': 'Detailed Data Table',
-  }
-  return titles[chartId] || 'Chart'
+export function getUnitLabel(data: ComparisonData, filters: FilterState): string {
+  return filters.dataType === 'value'
+    ? `${data.metadata.currency} ${data.metadata.value_unit}`
+    : data.metadata.volume_unit
 }
 
 /**
@@ -0,0 +1,198 @@
+/**
+ * Saved Filter Presets
+ * Shared shape of custom presets stored by /api/presets and exchanged as preset files
+ */
+
+import type { ComparisonData, FilterState } from './types'
+import { reconcileUrlFilters } from './url-state'
+
+export const PRESET_FILE_FORMAT = 'cmi-filter-presets'
+export const PRESET_FILE_VERSION = 1
+export const PRESET_FILE_EXTENSION = '.presets.json'
+
+export type PresetFilters = Partial<Pick<FilterState,
+  | 'viewMode'
+  | 'geographies'
+  | 'segments'
+  | 'segmentType'
+  | 'yearRange'
+  | 'dataType'
+  | 'businessType'
+  | 'aggregationLevel'
+  | 'advancedSegments'
+>>
+
+export interface SavedFilterPreset {
+  id: string
+  name: string
+  description: string
+  market: string // Market name the preset was saved for
+  filters: PresetFilters
+  created_at: string
+}
+
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT
+  version: number
+  market: string
+  exported_at: string
+  presets: SavedFilterPreset[]
+}
+
+const VIEW_MODES: FilterState['viewMode'][] = ['segment-mode', 'geography-mode', 'matrix']
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+/**
+ * Copy of the filter fields a preset keeps
+ */
+export function pickPresetFilters(filters: FilterState): PresetFilters {
+  return {
+    viewMode: filters.viewMode,
+    geographies: [...filters.geographies],
+    segments: [...filters.segments],
+    segmentType: filters.segmentType,
+    yearRange: [...filters.yearRange] as [number, number],
+    dataType: filters.dataType,
+    businessType: filters.businessType,
+    aggregationLevel: filters.aggregationLevel ?? null,
+    advancedSegments: (filters.advancedSegments || []).map(entry => ({ ...entry })),
+  }
+}
+
+/**
+ * Keep only well-formed preset filter fields from untrusted input (API bodies, imported files)
+ */
+export function sanitizePresetFilters(input: unknown): PresetFilters {
+  const source = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const filters: PresetFilters = {}
+
+  if (VIEW_MODES.includes(source.viewMode as FilterState['viewMode'])) {
+    filters.viewMode = source.viewMode as FilterState['viewMode']
+  }
+  if (isStringArray(source.geographies)) filters.geographies = source.geographies
+  if (isStringArray(source.segments)) filters.segments = source.segments
+  if (typeof source.segmentType === 'string') filters.segmentType = source.segmentType
+  if (
+    Array.isArray(source.yearRange) &&
+    source.yearRange.length === 2 &&
+    source.yearRange.every(year => Number.isInteger(year))
+  ) {
+    filters.yearRange = [source.yearRange[0], source.yearRange[1]]
+  }
+  if (source.dataType === 'value' || source.dataType === 'volume') filters.dataType = source.dataType
+  if (source.businessType === 'B2B' || source.businessType === 'B2C') filters.businessType = source.businessType
+  if (source.aggregationLevel === null || (Number.isInteger(source.aggregationLevel) &&
+    (source.aggregationLevel as number) >= 1 && (source.aggregationLevel as number) <= 6)) {
+    filters.aggregationLevel = source.aggregationLevel as number | null
+  }
+  if (Array.isArray(source.advancedSegments)) {
+    filters.advancedSegments = source.advancedSegments
+      .filter((entry): entry is { type: string; segment: string; id?: unknown } =>
+        !!entry && typeof entry.type === 'string' && typeof entry.segment === 'string')
+      .map(({ type, segment, id }) => ({ type, segment, id: typeof id === 'string' ? id : `${type}::${segment}` }))
+  }
+
+  return filters
+}
+
+/**
+ * Validate one preset from untrusted input, assigning it to the given market
+ * Returns null when the preset has no usable name
+ */
+export function sanitizePreset(input: unknown, market: string): SavedFilterPreset | null {
+  if (!input || typeof input !== 'object') return null
+  const source = input as Record<string, unknown>
+  const name = typeof source.name === 'string' ? source.name.trim().slice(0, 100) : ''
+  if (!name) return null
+
+  return {
+    id: typeof source.id === 'string' && source.id ? source.id : createPresetId(),
+    name,
+    description: typeof source.description === 'string' ? source.description.slice(0, 300) : '',
+    market,
+    filters: sanitizePresetFilters(source.filters),
+    created_at: typeof source.created_at === 'string' ? source.created_at : new Date().toISOString(),
+  }
+}
+
+/**
+ * Unique id for a saved item; the prefix tells presets, views and storyboards apart
+ */
+export function createPresetId(prefix = 'custom'): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Short description for a new preset from its filters
+ */
+export function describePresetFilters(filters: PresetFilters): string {
+  const parts = [
+    `${filters.geographies?.length ?? 0} geographies`,
+    `${filters.advancedSegments?.length || filters.segments?.length || 0} segments`,
+  ]
+  if (filters.businessType) parts.push(filters.businessType)
+  if (filters.aggregationLevel) parts.push(`level ${filters.aggregationLevel}`)
+  return `Custom preset: ${parts.join(', ')}`
+}
+
+/**
+ * Build an export file for the presets of one market
+ */
+export function createPresetFile(market: string, presets: SavedFilterPreset[]): PresetFile {
+  return {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    market,
+    exported_at: new Date().toISOString(),
+    presets,
+  }
+}
+
+/**
+ * Read presets from an exported file's JSON text
+ * Presets are re-assigned to the market they are imported into
+ */
+export function parsePresetFile(text: string, market: string): SavedFilterPreset[] {
+  let parsed: Partial<PresetFile>
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Preset file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (!parsed || parsed.format !== PRESET_FILE_FORMAT || !Array.isArray(parsed.presets)) {
+    throw new Error('Not a filter preset file')
+  }
+  if ((parsed.version ?? 0) > PRESET_FILE_VERSION) {
+    throw new Error(`Preset file version ${parsed.version} is newer than supported (${PRESET_FILE_VERSION})`)
+  }
+  return parsed.presets
+    .map(preset => sanitizePreset(preset, market))
+    .filter((preset): preset is SavedFilterPreset => preset !== null)
+}
+
+/**
+ * File name for exported presets, e.g. "global-widgets-market.presets.json"
+ */
+export function getPresetFileName(market: string): string {
+  const slug = market
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'market'
+  return `${slug}${PRESET_FILE_EXTENSION}`
+}
+
+/**
+ * Fit a preset to the loaded dataset
+ * Returns the filters to apply and what the dataset is missing (geographies, segments, ...)
+ */
+export function resolvePresetFilters(
+  filters: PresetFilters,
+  data: ComparisonData,
+  current: FilterState
+): { filters: Partial<FilterState>; missing: string[] } {
+  const { filters: resolved, dropped } = reconcileUrlFilters(filters, data, current)
+  return { filters: resolved, missing: dropped }
+}
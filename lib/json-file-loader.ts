@@ -0,0 +1,196 @@
+/**
+ * JSON File Loader
+ * Server-side helpers that read market JSON files from disk and hand them to the processor
+ */
+
+import type { ComparisonData, YearConfig } from './types'
+import { processJsonDataAsync, type RawJsonData } from './json-processor'
+import { normalizeYearConfig } from './year-config'
+import { StreamingJsonParser } from './streaming-json-parser'
+import fs from 'fs/promises'
+import { createReadStream } from 'fs'
+
+// Files are streamed in 1 MB chunks so large value.json files are never held as a single string
+const STREAM_CHUNK_SIZE = 1024 * 1024
+
+// Share of overall progress assigned to parsing (the rest covers processing)
+const PARSE_PROGRESS_WEIGHT = 80
+
+export type JsonFileRole = 'value' | 'volume' | 'segmentation'
+
+export interface LoadProgress {
+  stage: 'parsing' | 'processing' | 'complete'
+  percent: number // Overall progress, 0-100
+  message: string
+  file?: JsonFileRole
+  dataNodes?: number // Year-data nodes parsed so far in the current file
+}
+
+export type LoadProgressCallback = (progress: LoadProgress) => void
+
+/**
+ * Parse a JSON file incrementally from disk
+ * Peak memory is the parsed tree plus one chunk, and file size is not capped by the
+ * maximum string length; parsing takes about three times as long as JSON.parse.
+ * Reports bytes read and the number of year-data nodes seen as chunks arrive.
+ */
+export async function readJsonFile(
+  filePath: string,
+  onChunk?: (bytesRead: number, dataNodes: number) => void
+): Promise<RawJsonData> {
+  let dataNodes = 0
+  const parser = new StreamingJsonParser({
+    onYearDataNode: () => {
+      dataNodes++
+    }
+  })
+
+  const stream = createReadStream(filePath, { highWaterMark: STREAM_CHUNK_SIZE })
+  stream.setEncoding('utf-8')
+
+  for await (const chunk of stream) {
+    parser.write(chunk as string)
+    onChunk?.(stream.bytesRead, dataNodes)
+  }
+
+  return parser.end() as RawJsonData
+}
+
+/**
+ * Get the size of a file in bytes, or 0 if it cannot be read
+ */
+async function getFileSize(filePath: string | null): Promise<number> {
+  if (!filePath) return 0
+  try {
+    const stats = await fs.stat(filePath)
+    return stats.size
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Read the year configuration from a dataset manifest file
+ * Returns null when the file is missing or has no year fields
+ */
+export async function readYearManifest(manifestPath: string): Promise<YearConfig | null> {
+  let content: string
+  try {
+    content = await fs.readFile(manifestPath, 'utf-8')
+  } catch {
+    return null
+  }
+  try {
+    return normalizeYearConfig(JSON.parse(content))
+  } catch (error) {
+    throw new Error(`Failed to parse manifest ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Load and process JSON files
+ */
+export async function loadAndProcessJsonFiles(
+  valueJsonPath: string,
+  volumeJsonPath: string | null = null,
+  segmentationJsonPath: string | null = null,
+  onProgress?: LoadProgressCallback,
+  yearConfig?: YearConfig | null
+): Promise<ComparisonData> {
+  try {
+    console.log('Loading JSON files with streaming parser...')
+    
+    const [valueSize, volumeSize, segmentationSize] = await Promise.all([
+      getFileSize(valueJsonPath),
+      getFileSize(volumeJsonPath),
+      getFileSize(segmentationJsonPath)
+    ])
+    
+    if (valueSize === 0) {
+      throw new Error('Value JSON file is required but was not found')
+    }
+    
+    console.log(`Value JSON size: ${(valueSize / 1024 / 1024).toFixed(2)} MB`)
+    
+    // Files are parsed one after another so only one partially built tree is growing at a time
+    const totalBytes = valueSize + volumeSize + segmentationSize
+    let completedBytes = 0
+    const parseWithProgress = async (filePath: string, file: JsonFileRole): Promise<RawJsonData> => {
+      const parsed = await readJsonFile(filePath, (bytesRead, dataNodes) => {
+        onProgress?.({
+          stage: 'parsing',
+          percent: Math.min(PARSE_PROGRESS_WEIGHT, ((completedBytes + bytesRead) / totalBytes) * PARSE_PROGRESS_WEIGHT),
+          message: `Parsing ${file} JSON (${((completedBytes + bytesRead) / 1024 / 1024).toFixed(1)} MB read)`,
+          file,
+          dataNodes
+        })
+      })
+      return parsed
+    }
+    
+    let valueData: RawJsonData
+    try {
+      valueData = await parseWithProgress(valueJsonPath, 'value')
+      console.log('Value JSON parsed successfully')
+    } catch (error) {
+      throw new Error(`Failed to parse value JSON: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    completedBytes += valueSize
+    
+    let volumeData: RawJsonData | null = null
+    if (volumeJsonPath && volumeSize > 0) {
+      try {
+        volumeData = await parseWithProgress(volumeJsonPath, 'volume')
+        console.log('Volume JSON parsed successfully')
+      } catch (error) {
+        console.warn(`Failed to parse volume JSON: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      completedBytes += volumeSize
+    }
+    
+    let segmentationData: RawJsonData = valueData
+    if (segmentationJsonPath && segmentationSize > 0) {
+      try {
+        segmentationData = await parseWithProgress(segmentationJsonPath, 'segmentation')
+        console.log('Segmentation JSON parsed successfully')
+      } catch (error) {
+        console.warn(`Failed to parse segmentation JSON: ${error instanceof Error ? error.message : String(error)}. Using value data.`)
+        segmentationData = valueData
+      }
+      completedBytes += segmentationSize
+    } else {
+      console.log('Using value data structure for segmentation')
+    }
+    
+    // Process asynchronously
+    console.log('Processing JSON data asynchronously...')
+    onProgress?.({
+      stage: 'processing',
+      percent: PARSE_PROGRESS_WEIGHT,
+      message: 'Processing market data...'
+    })
+    const result = await processJsonDataAsync(valueData, volumeData, segmentationData, (fraction, message) => {
+      onProgress?.({
+        stage: 'processing',
+        percent: PARSE_PROGRESS_WEIGHT + fraction * (100 - PARSE_PROGRESS_WEIGHT),
+        message
+      })
+    }, yearConfig)
+    console.log('JSON data processed successfully')
+    onProgress?.({
+      stage: 'complete',
+      percent: 100,
+      message: 'Processing complete'
+    })
+    
+    return result
+  } catch (error) {
+    console.error('Error in loadAndProcessJsonFiles:', error)
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    const errorStack = error instanceof Error ? error.stack : undefined
+    throw new Error(
+      `Failed to load/process JSON files: ${errorMessage}${errorStack ? `\nStack: ${errorStack}` : ''}`
+    )
+  }
+}
+
@@ -3,11 +3,17 @@
  * Processes any market JSON structure and converts it to ComparisonData format
  */
 
-import type { ComparisonData, DataRecord, Metadata, GeographyDimension, SegmentDimension, SegmentHierarchy } from './types'
-import fs from 'fs/promises'
-import path from 'path'
+import type { AggregationDiscrepancy, ComparisonData, DataRecord, Metadata, GeographyDimension, SegmentDimension, SegmentHierarchy, YearConfig } from './types'
+import { extractMetadataBlock, resolveYearSplit } from './year-config'
+import { rollupSegmentRecords } from './aggregation-rollup'
 
-interface RawJsonData {
+// Bump whenever processing output changes so cached/exported datasets are rebuilt
+export const PROCESSOR_VERSION = '1.2.0'
+
+// Largest supplied-vs-rolled-up differences kept in ComparisonData.aggregation
+const MAX_REPORTED_DISCREPANCIES = 200
+
+export interface RawJsonData {
   [geography: string]: {
     [segmentType: string]: {
       [key: string]: any
@@ -19,6 +25,20 @@ interface YearData {
   [year: string]: number | string | boolean | null | undefined
 }
 
+/**
+ * Yield control back to the event loop
+ * Uses setImmediate on the server and falls back to setTimeout in the browser
+ */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => {
+    if (typeof setImmediate === 'function') {
+      setImmediate(resolve)
+    } else {
+      setTimeout(resolve, 0)
+    }
+  })
+}
+
 /**
  * Generator function for async path extraction (memory efficient)
  * This version only yields paths that have year data (for value/volume files)
@@ -116,7 +136,7 @@ async function collectPathsAsync(
     
     // Yield control periodically to avoid blocking
     if (count % chunkSize === 0) {
-      await new Promise(resolve => setImmediate(resolve))
+      await yieldToEventLoop()
     }
   }
   
@@ -147,7 +167,7 @@ async function extractYearsAsync(data: RawJsonData): Promise<number[]> {
       
       // Yield control every 100 keys
       if (i % 100 === 0) {
-        await new Promise(resolve => setImmediate(resolve))
+        await yieldToEventLoop()
       }
     }
   }
@@ -236,6 +256,7 @@ async function processSegmentTypeAsync(
 ): Promise<{
   segmentDimension: SegmentDimension
   records: DataRecord[]
+  recordPaths: string[][] // Full segment path of each record (the hierarchy stops at level 4)
 }> {
   const allPaths: Array<{ path: string[]; data?: YearData }> = []
   
@@ -260,7 +281,7 @@ async function processSegmentTypeAsync(
             allPaths.push(pathObj)
             count++
             if (count % 1000 === 0) {
-              await new Promise(resolve => setImmediate(resolve))
+              await yieldToEventLoop()
             }
           }
         }
@@ -268,7 +289,7 @@ async function processSegmentTypeAsync(
       
       // Yield control every 5 geographies
       if ((i + 1) % 5 === 0) {
-        await new Promise(resolve => setImmediate(resolve))
+        await yieldToEventLoop()
       }
     }
   } else {
@@ -291,7 +312,7 @@ async function processSegmentTypeAsync(
           structurePaths.push(pathObj)
           count++
           if (count % 1000 === 0) {
-            await new Promise(resolve => setImmediate(resolve))
+            await yieldToEventLoop()
           }
         }
         
@@ -341,7 +362,7 @@ async function processSegmentTypeAsync(
       
       // Yield control every 5 geographies
       if ((i + 1) % 5 === 0) {
-        await new Promise(resolve => setImmediate(resolve))
+        await yieldToEventLoop()
       }
     }
   }
@@ -355,6 +376,7 @@ async function processSegmentTypeAsync(
   const b2bItems: string[] = []
   const b2cItems: string[] = []
   const records: DataRecord[] = []
+  const recordPaths: string[][] = []
   
   // First pass: Extract ALL segments from structure (segmentation JSON) to build complete segment list
   // This ensures segments are available in filters even if they don't have matching data in value/volume files
@@ -374,7 +396,7 @@ async function processSegmentTypeAsync(
         structurePaths.push(pathObj)
         count++
         if (count % 1000 === 0) {
-          await new Promise(resolve => setImmediate(resolve))
+          await yieldToEventLoop()
         }
       }
       
@@ -505,10 +527,11 @@ async function processSegmentTypeAsync(
         is_aggregated: isAggregated,
         aggregation_level: aggregationLevel
       })
+      recordPaths.push(segmentPath)
     }
     
     // Yield control between batches
-    await new Promise(resolve => setImmediate(resolve))
+    await yieldToEventLoop()
   }
   
   return {
@@ -521,21 +544,38 @@ async function processSegmentTypeAsync(
       b2b_items: b2bItems.length > 0 ? b2bItems : undefined,
       b2c_items: b2cItems.length > 0 ? b2cItems : undefined,
     },
-    records
+    records,
+    recordPaths
   }
 }
 
+/**
+ * Progress callback for processJsonDataAsync (fraction is 0-1)
+ */
+export type ProcessingProgressCallback = (fraction: number, message: string) => void
+
 /**
  * Process raw JSON data into ComparisonData format (Async version)
+ * yearConfig (query params / manifest) takes precedence over a metadata block embedded in the JSON
  */
 export async function processJsonDataAsync(
-  valueData: RawJsonData,
-  volumeData: RawJsonData | null,
-  segmentationData: RawJsonData | null
+  rawValueData: RawJsonData,
+  rawVolumeData: RawJsonData | null,
+  rawSegmentationData: RawJsonData | null,
+  onProgress?: ProcessingProgressCallback,
+  yearConfig?: YearConfig | null
 ): Promise<ComparisonData> {
   try {
     console.log('Starting async processJsonData...')
     
+    // Strip embedded metadata blocks so they are not treated as geographies
+    const valueSource = extractMetadataBlock(rawValueData)
+    const volumeSource = rawVolumeData ? extractMetadataBlock(rawVolumeData) : null
+    const segmentationSource = rawSegmentationData ? extractMetadataBlock(rawSegmentationData) : null
+    const valueData = valueSource.data
+    const volumeData = volumeSource ? volumeSource.data : null
+    const segmentationData = segmentationSource ? segmentationSource.data : null
+    
     // Use segmentationData for structure (geographies and segments)
     // Use valueData/volumeData for numeric data (years, values, CAGR)
     const structureData = segmentationData || valueData
@@ -561,8 +601,14 @@ export async function processJsonDataAsync(
     }
     const startYear = Math.min(...allYears)
     const forecastYear = Math.max(...allYears)
-    const baseYear = Math.floor((startYear + forecastYear) / 2)
-    console.log(`Years: ${startYear} to ${forecastYear}, base: ${baseYear}`)
+    const yearSplit = resolveYearSplit(allYears, [
+      { name: 'request', config: yearConfig },
+      { name: 'value metadata', config: valueSource.yearConfig },
+      { name: 'volume metadata', config: volumeSource?.yearConfig },
+      { name: 'segmentation metadata', config: segmentationSource?.yearConfig }
+    ])
+    const baseYear = yearSplit.baseYear
+    console.log(`Years: ${startYear} to ${forecastYear}, base: ${baseYear} (from ${yearSplit.source})`)
     
     // Extract geographies from segmentation data (first level keys)
     // This is truly dynamic - works with any structure (global, country, region, etc.)
@@ -627,9 +673,19 @@ export async function processJsonDataAsync(
     const volumeRecords: DataRecord[] = []
     const segmentTypeIndex = 1
     
+    // Parents missing from the JSON are rolled up from their leaves; supplied parents are checked against them
+    const rollupOptions = { years: allYears, baseYear, forecastYear }
+    const derivedCounts = { value: 0, volume: 0 }
+    const discrepancies: AggregationDiscrepancy[] = []
+    
+    // Each segment type is processed once for value and once more for volume (if present)
+    const totalPasses = segmentTypes.size * (volumeData ? 2 : 1)
+    let completedPasses = 0
+    
     for (const segmentType of segmentTypes) {
       console.log(`Processing segment type: ${segmentType}`)
-      const { segmentDimension, records } = await processSegmentTypeAsync(
+      onProgress?.(completedPasses / totalPasses, `Processing ${segmentType}...`)
+      const { segmentDimension, records, recordPaths } = await processSegmentTypeAsync(
         structureData, // Use segmentation data for structure
         valueData,     // Use value data for numeric values
         volumeData,    // Use volume data for volume values
@@ -639,17 +695,22 @@ export async function processJsonDataAsync(
         segmentTypeIndex
       )
       segments[segmentType] = segmentDimension
-      valueRecords.push(...records)
+      const rollup = rollupSegmentRecords(records, recordPaths, rollupOptions)
+      valueRecords.push(...records, ...rollup.derived)
+      derivedCounts.value += rollup.derived.length
+      discrepancies.push(...rollup.discrepancies.map(d => ({ ...d, data_type: 'value' as const })))
+      completedPasses++
       
       // Yield control between segment types
-      await new Promise(resolve => setImmediate(resolve))
+      await yieldToEventLoop()
     }
     
     // Process volume data separately if available
     if (volumeData) {
       console.log('Processing volume data...')
       for (const segmentType of segmentTypes) {
-        const { records: volumeRecs } = await processSegmentTypeAsync(
+        onProgress?.(completedPasses / totalPasses, `Processing ${segmentType} (volume)...`)
+        const { records: volumeRecs, recordPaths } = await processSegmentTypeAsync(
           structureData,
           volumeData,  // Use volume data for numeric values
           null,
@@ -658,7 +719,11 @@ export async function processJsonDataAsync(
           allYears,
           segmentTypeIndex
         )
-        volumeRecords.push(...volumeRecs)
+        const rollup = rollupSegmentRecords(volumeRecs, recordPaths, rollupOptions)
+        volumeRecords.push(...volumeRecs, ...rollup.derived)
+        derivedCounts.volume += rollup.derived.length
+        discrepancies.push(...rollup.discrepancies.map(d => ({ ...d, data_type: 'volume' as const })))
+        completedPasses++
       }
     }
     
@@ -692,8 +757,8 @@ export async function processJsonDataAsync(
       start_year: startYear,
       base_year: baseYear,
       forecast_year: forecastYear,
-      historical_years: allYears.filter(y => y <= baseYear),
-      forecast_years: allYears.filter(y => y > baseYear),
+      historical_years: yearSplit.historicalYears,
+      forecast_years: yearSplit.forecastYears,
       currency: 'USD',
       value_unit: 'Million',
       volume_unit: 'Units',
@@ -702,6 +767,9 @@ export async function processJsonDataAsync(
     }
     
     console.log(`Async processing complete. Records: ${valueRecords.length} value, ${volumeRecords.length} volume`)
+    if (derivedCounts.value + derivedCounts.volume > 0 || discrepancies.length > 0) {
+      console.log(`Aggregation rollup: ${derivedCounts.value} value / ${derivedCounts.volume} volume parents derived, ${discrepancies.length} discrepancies`)
+    }
     
     return {
       metadata,
@@ -717,6 +785,13 @@ export async function processJsonDataAsync(
           geography_segment_matrix: volumeRecords,
         },
       },
+      aggregation: {
+        derived_records: derivedCounts,
+        discrepancies: discrepancies
+          .sort((a, b) => b.difference_pct - a.difference_pct)
+          .slice(0, MAX_REPORTED_DISCREPANCIES),
+        discrepancy_count: discrepancies.length,
+      },
     }
   } catch (error) {
     console.error('Error in processJsonDataAsync:', error)
@@ -740,93 +815,3 @@ export function processJsonData(
   // But kept for any legacy code that might still use it
   throw new Error('Synchronous processJsonData is deprecated. Use processJsonDataAsync instead.')
 }
-
-/**
- * Load and process JSON files
- */
-export async function loadAndProcessJsonFiles(
-  valueJsonPath: string,
-  volumeJsonPath: string | null = null,
-  segmentationJsonPath: string | null = null
-): Promise<ComparisonData> {
-  try {
-    console.log('Loading JSON files asynchronously...')
-    
-    // Read files in parallel using async fs
-    const readPromises = [
-      fs.readFile(valueJsonPath, 'utf-8'),
-      volumeJsonPath ? fs.readFile(volumeJsonPath, 'utf-8').catch(() => null) : Promise.resolve(null),
-      segmentationJsonPath ? fs.readFile(segmentationJsonPath, 'utf-8').catch(() => null) : Promise.resolve(null)
-    ]
-    
-    const [valueContent, volumeContent, segmentationContent] = await Promise.all(readPromises)
-    
-    if (!valueContent) {
-      throw new Error('Value JSON file is required but was not found')
-    }
-    
-    console.log(`Value JSON size: ${(valueContent.length / 1024 / 1024).toFixed(2)} MB`)
-    
-    // Parse JSON asynchronously (using setImmediate to yield)
-    let valueData: RawJsonData
-    await new Promise<void>(resolve => {
-      setImmediate(() => {
-        try {
-          valueData = JSON.parse(valueContent)
-          console.log('Value JSON parsed successfully')
-          resolve()
-        } catch (error) {
-          throw new Error(`Failed to parse value JSON: ${error instanceof Error ? error.message : String(error)}`)
-        }
-      })
-    })
-    
-    let volumeData: RawJsonData | null = null
-    if (volumeContent) {
-      await new Promise<void>(resolve => {
-        setImmediate(() => {
-          try {
-            volumeData = JSON.parse(volumeContent)
-            console.log('Volume JSON parsed successfully')
-          } catch (error) {
-            console.warn(`Failed to parse volume JSON: ${error instanceof Error ? error.message : String(error)}`)
-          }
-          resolve()
-        })
-      })
-    }
-    
-    let segmentationData: RawJsonData = valueData!
-    if (segmentationContent) {
-      await new Promise<void>(resolve => {
-        setImmediate(() => {
-          try {
-            segmentationData = JSON.parse(segmentationContent)
-            console.log('Segmentation JSON parsed successfully')
-          } catch (error) {
-            console.warn(`Failed to parse segmentation JSON: ${error instanceof Error ? error.message : String(error)}. Using value data.`)
-            segmentationData = valueData!
-          }
-          resolve()
-        })
-      })
-    } else {
-      console.log('Using value data structure for segmentation')
-    }
-    
-    // Process asynchronously
-    console.log('Processing JSON data asynchronously...')
-    const result = await processJsonDataAsync(valueData!, volumeData, segmentationData)
-    console.log('JSON data processed successfully')
-    
-    return result
-  } catch (error) {
-    console.error('Error in loadAndProcessJsonFiles:', error)
-    const errorMessage = error instanceof Error ? error.message : String(error)
-    const errorStack = error instanceof Error ? error.stack : undefined
-    throw new Error(
-      `Failed to load/process JSON files: ${errorMessage}${errorStack ? `\nStack: ${errorStack}` : ''}`
-    )
-  }
-}
-
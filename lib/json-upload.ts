@@ -0,0 +1,137 @@
+/**
+ * Browser JSON Upload
+ * Reads market JSON files selected or dropped by the user and processes them client-side
+ */
+
+import type { ComparisonData, YearConfig } from './types'
+import { processJsonDataAsync, type RawJsonData } from './json-processor'
+import { normalizeYearConfig } from './year-config'
+import { describeUploadedFiles, withDatasetSource } from './dataset-bundle'
+import { validateMarketData, type ValidationFile, type ValidationOptions, type ValidationReport } from './data-validator'
+
+export type UploadFileRole = 'value' | 'volume' | 'segmentation' | 'manifest'
+
+export interface UploadedMarketFiles {
+  value: File | null
+  volume: File | null
+  segmentation: File | null
+  manifest: File | null
+}
+
+export const EMPTY_UPLOADED_FILES: UploadedMarketFiles = { value: null, volume: null, segmentation: null, manifest: null }
+
+/**
+ * Guess which input a dropped file belongs to from its name
+ * Files that mention neither volume, segmentation nor manifest are treated as value data
+ */
+export function detectFileRole(fileName: string): UploadFileRole {
+  const name = fileName.toLowerCase()
+  if (name.includes('manifest')) return 'manifest'
+  if (name.includes('segmentation')) return 'segmentation'
+  if (name.includes('volume')) return 'volume'
+  return 'value'
+}
+
+/**
+ * Assign a list of dropped files to value/volume/segmentation/manifest slots
+ * Later files replace earlier ones in the same slot
+ */
+export function assignUploadedFiles(
+  files: File[],
+  current: UploadedMarketFiles
+): UploadedMarketFiles {
+  const assigned: UploadedMarketFiles = { ...current }
+  files
+    .filter(file => file.name.toLowerCase().endsWith('.json'))
+    .forEach(file => {
+      assigned[detectFileRole(file.name)] = file
+    })
+  return assigned
+}
+
+/**
+ * Read and parse a single uploaded JSON file
+ */
+async function readJsonFile(file: File): Promise<RawJsonData> {
+  const content = await file.text()
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    throw new Error(`Failed to parse ${file.name}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Process uploaded value/volume/segmentation files in the browser
+ * Mirrors loadAndProcessJsonFiles: volume and segmentation are optional,
+ * and the value structure is used for segmentation when none is provided.
+ * An uploaded manifest supplies the base/historical/forecast years.
+ * The uploaded file names and hashes are recorded as the dataset's source
+ */
+export async function processUploadedJsonFiles(
+  files: UploadedMarketFiles
+): Promise<ComparisonData> {
+  if (!files.value) {
+    throw new Error('Value JSON file is required')
+  }
+
+  const valueData = await readJsonFile(files.value)
+
+  let volumeData: RawJsonData | null = null
+  if (files.volume) {
+    try {
+      volumeData = await readJsonFile(files.volume)
+    } catch (error) {
+      console.warn(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  let segmentationData: RawJsonData = valueData
+  if (files.segmentation) {
+    try {
+      segmentationData = await readJsonFile(files.segmentation)
+    } catch (error) {
+      console.warn(`${error instanceof Error ? error.message : String(error)}. Using value data.`)
+    }
+  }
+
+  let yearConfig: YearConfig | null = null
+  if (files.manifest) {
+    yearConfig = normalizeYearConfig(await readJsonFile(files.manifest))
+  }
+
+  const data = await processJsonDataAsync(valueData, volumeData, segmentationData, undefined, yearConfig)
+  // Only files that were actually used count as sources
+  const sourceFiles = await describeUploadedFiles({
+    value: files.value,
+    volume: volumeData ? files.volume : null,
+    segmentation: segmentationData !== valueData ? files.segmentation : null,
+  })
+  return withDatasetSource(data, sourceFiles, yearConfig)
+}
+
+/**
+ * Validate uploaded files in the browser
+ * Unreadable files are reported in the validation report instead of throwing
+ */
+export async function validateUploadedJsonFiles(
+  files: UploadedMarketFiles
+): Promise<ValidationReport> {
+  const fileErrors: NonNullable<ValidationOptions['fileErrors']> = []
+  const readForValidation = async (file: File | null, role: ValidationFile): Promise<RawJsonData | null> => {
+    if (!file) return null
+    try {
+      return await readJsonFile(file)
+    } catch (error) {
+      fileErrors.push({ file: role, severity: 'error', message: error instanceof Error ? error.message : String(error) })
+      return null
+    }
+  }
+
+  const valueData = await readForValidation(files.value, 'value')
+  const volumeData = await readForValidation(files.volume, 'volume')
+  const segmentationData = await readForValidation(files.segmentation, 'segmentation')
+  const yearConfig = files.manifest ? normalizeYearConfig(await readJsonFile(files.manifest)) : null
+
+  return validateMarketData(valueData, volumeData, segmentationData, { yearConfig, fileErrors })
+}
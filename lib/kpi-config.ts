@@ -0,0 +1,141 @@
+/**
+ * KPI Card Configuration
+ * Lets users choose which metrics and years appear in the global KPI cards.
+ * Years left as null follow the active market's base and forecast years
+ */
+
+import type { ComparisonData, DataRecord } from './types'
+
+export type KpiMetricId = 'start-size' | 'end-size' | 'cagr' | 'absolute-growth' | 'yoy-growth'
+
+export interface KpiConfig {
+  metrics: KpiMetricId[]
+  startYear: number | null // null = metadata.base_year
+  endYear: number | null // null = metadata.forecast_year
+}
+
+export interface KpiMetricOption {
+  id: KpiMetricId
+  label: string
+}
+
+export const KPI_METRIC_OPTIONS: KpiMetricOption[] = [
+  { id: 'start-size', label: 'Market size (start year)' },
+  { id: 'end-size', label: 'Market size (end year)' },
+  { id: 'cagr', label: 'CAGR' },
+  { id: 'absolute-growth', label: 'Absolute growth' },
+  { id: 'yoy-growth', label: 'YoY growth (end year)' },
+]
+
+export const DEFAULT_KPI_CONFIG: KpiConfig = {
+  metrics: ['start-size', 'end-size', 'cagr', 'absolute-growth'],
+  startYear: null,
+  endYear: null,
+}
+
+const KPI_CONFIG_STORAGE_KEY = 'globalKpiConfig'
+
+export interface KpiValues {
+  startYear: number
+  endYear: number
+  startSize: number
+  endSize: number
+  cagr: number
+  absoluteGrowth: number
+  growthPercentage: number
+  yoyGrowth: number | null
+  currency: string
+  unit: string
+}
+
+/**
+ * Load the saved KPI configuration from localStorage
+ */
+export function loadKpiConfig(): KpiConfig {
+  if (typeof window === 'undefined') return DEFAULT_KPI_CONFIG
+  try {
+    const saved = localStorage.getItem(KPI_CONFIG_STORAGE_KEY)
+    if (!saved) return DEFAULT_KPI_CONFIG
+    const parsed = JSON.parse(saved) as Partial<KpiConfig>
+    const validIds = new Set(KPI_METRIC_OPTIONS.map(option => option.id))
+    return {
+      metrics: Array.isArray(parsed.metrics)
+        ? parsed.metrics.filter(metric => validIds.has(metric))
+        : DEFAULT_KPI_CONFIG.metrics,
+      startYear: typeof parsed.startYear === 'number' ? parsed.startYear : null,
+      endYear: typeof parsed.endYear === 'number' ? parsed.endYear : null,
+    }
+  } catch {
+    return DEFAULT_KPI_CONFIG
+  }
+}
+
+/**
+ * Persist the KPI configuration to localStorage
+ */
+export function saveKpiConfig(config: KpiConfig): void {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(KPI_CONFIG_STORAGE_KEY, JSON.stringify(config))
+}
+
+/**
+ * Resolve the configured years against a dataset
+ * Years the dataset does not contain fall back to its base/forecast years
+ */
+export function resolveKpiYears(data: ComparisonData, config: KpiConfig): [number, number] {
+  const { years, base_year: baseYear, forecast_year: forecastYear } = data.metadata
+  const startYear = config.startYear !== null && years.includes(config.startYear) ? config.startYear : baseYear
+  const endYear = config.endYear !== null && years.includes(config.endYear) ? config.endYear : forecastYear
+  return startYear <= endYear ? [startYear, endYear] : [endYear, startYear]
+}
+
+/**
+ * Records the KPI cards are computed from
+ * Uses the global geography (or the first one) and leaf records only, so aggregated rows are not double-counted
+ */
+function getKpiRecords(data: ComparisonData): DataRecord[] {
+  const allGeographies = data.dimensions.geographies.all_geographies || []
+  const targetGeo = data.dimensions.geographies.global?.[0] || allGeographies[0] || null
+
+  const records = targetGeo
+    ? data.data.value.geography_segment_matrix.filter(record => record.geography === targetGeo)
+    : data.data.value.geography_segment_matrix
+
+  return records.filter(record => record.is_aggregated === false)
+}
+
+/**
+ * Calculate KPI values for the configured years
+ */
+export function calculateKpiValues(data: ComparisonData, config: KpiConfig): KpiValues | null {
+  const records = getKpiRecords(data)
+  if (records.length === 0) return null
+
+  const [startYear, endYear] = resolveKpiYears(data, config)
+  const sumForYear = (year: number) =>
+    records.reduce((sum, record) => sum + (record.time_series[year] || 0), 0)
+
+  const startSize = sumForYear(startYear)
+  const endSize = sumForYear(endYear)
+  const period = endYear - startYear
+
+  const cagr = startSize > 0 && period > 0
+    ? (Math.pow(endSize / startSize, 1 / period) - 1) * 100
+    : 0
+
+  const previousSize = data.metadata.years.includes(endYear - 1) ? sumForYear(endYear - 1) : 0
+  const yoyGrowth = previousSize > 0 ? ((endSize - previousSize) / previousSize) * 100 : null
+
+  return {
+    startYear,
+    endYear,
+    startSize,
+    endSize,
+    cagr,
+    absoluteGrowth: endSize - startSize,
+    growthPercentage: startSize > 0 ? ((endSize - startSize) / startSize) * 100 : 0,
+    yoyGrowth,
+    currency: data.metadata.currency,
+    unit: data.metadata.value_unit,
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { calculateConcentrationMetrics, getConcentrationLabel, simulateMerger } from './market-concentration'
+
+describe('getConcentrationLabel', () => {
+  it.each([
+    [0, 'Competitive'],
+    [1499, 'Competitive'],
+    [1500, 'Moderately Concentrated'],
+    [2499, 'Moderately Concentrated'],
+    [2500, 'Highly Concentrated'],
+    [10000, 'Highly Concentrated']
+  ])('labels an HHI of %i as %s', (hhi, label) => {
+    expect(getConcentrationLabel(hhi)).toBe(label)
+  })
+})
+
+describe('calculateConcentrationMetrics', () => {
+  it('computes concentration ratios, HHI and Gini', () => {
+    const metrics = calculateConcentrationMetrics([20, 50, 30])
+    expect(metrics).toMatchObject({ cr3: 100, cr5: 100, cr10: 100, hhi: 3800, companyCount: 3, concentration: 'Highly Concentrated' })
+    expect(metrics.gini).toBeCloseTo(0.2)
+  })
+
+  it('sums only the largest companies into each ratio', () => {
+    const shares = [30, 5, 20, 4, 10, 3, 8, 2, 6, 1, 7, 4]
+    const metrics = calculateConcentrationMetrics(shares)
+    expect(metrics.cr3).toBe(60)
+    expect(metrics.cr5).toBe(75)
+    expect(metrics.cr10).toBe(97)
+    expect(metrics.companyCount).toBe(12)
+  })
+
+  it('gives equal shares a Gini of zero', () => {
+    expect(calculateConcentrationMetrics([25, 25, 25, 25])).toMatchObject({ gini: 0, hhi: 2500 })
+  })
+
+  it('leaves out zero shares', () => {
+    expect(calculateConcentrationMetrics([60, 40, 0])).toEqual(calculateConcentrationMetrics([60, 40]))
+  })
+
+  it('returns zeros for no companies', () => {
+    expect(calculateConcentrationMetrics([])).toEqual({
+      cr3: 0, cr5: 0, cr10: 0, hhi: 0, gini: 0, companyCount: 0, concentration: 'Competitive'
+    })
+  })
+})
+
+describe('simulateMerger', () => {
+  const shares = (values: number[]) => values.map((share, index) => ({ company: String.fromCharCode(65 + index), share }))
+
+  it('adds twice the product of the merging shares to HHI', () => {
+    const result = simulateMerger(shares([30, 20, 25, 25]), 'A', 'B')
+    expect(result).toEqual({
+      companies: ['A', 'B'],
+      combinedShare: 50,
+      preHhi: 2550,
+      postHhi: 3750,
+      deltaHhi: 1200,
+      preConcentration: 'Highly Concentrated',
+      postConcentration: 'Highly Concentrated',
+      assessment: 'Presumed likely to enhance market power'
+    })
+  })
+
+  it('follows the HHI screens in its assessment', () => {
+    expect(simulateMerger(shares(Array(12).fill(100 / 12)), 'A', 'B')?.assessment)
+      .toBe('Unlikely to have adverse competitive effects')
+    expect(simulateMerger(shares([20, 20, 15, 15, 10, 10, 10]), 'A', 'C')).toMatchObject({
+      postHhi: 2150,
+      deltaHhi: 600,
+      assessment: 'Potentially raises significant competitive concerns'
+    })
+  })
+
+  it('needs two different listed companies', () => {
+    expect(simulateMerger(shares([50, 50]), 'A', 'A')).toBeNull()
+    expect(simulateMerger(shares([50, 50]), 'A', 'Z')).toBeNull()
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * Market Concentration
+ * Concentration ratios (CR3/CR5/CR10), HHI and Gini of company shares per geography and year,
+ * plus a post-merger HHI estimate for two companies. Shares come from the competitive
+ * intelligence share history, weighted by market value through company-share-analysis.
+ * "Others" is not a single firm, so it is left out: HHI is then a lower bound.
+ */
+
+import type { ComparisonData, FilterState } from './types'
+import type { CompetitiveIntelligenceData } from './competitive-intelligence-data'
+import { getScopedShares, getShareScope } from './company-share-analysis'
+
+export interface ConcentrationMetrics {
+  cr3: number // Combined share of the three largest companies (%)
+  cr5: number
+  cr10: number
+  hhi: number // Sum of squared shares (0-10,000)
+  gini: number // Inequality of the listed companies' shares (0 = equal, 1 = one company)
+  companyCount: number
+  concentration: string
+}
+
+export interface ConcentrationRow {
+  geography: string
+  year: number
+  metrics: ConcentrationMetrics | null // null when there is no share data for the cell
+  coverage: number // Fraction of the market value with share data (0-1)
+}
+
+export interface ConcentrationResult {
+  years: number[]
+  geographies: string[]
+  rows: ConcentrationRow[]
+}
+
+export interface MergerSimulation {
+  companies: [string, string]
+  combinedShare: number
+  preHhi: number
+  postHhi: number
+  deltaHhi: number
+  preConcentration: string
+  postConcentration: string
+  assessment: string
+}
+
+// HHI bands of the 2010 US Horizontal Merger Guidelines
+const MODERATE_HHI = 1500
+const HIGH_HHI = 2500
+
+const isSingleFirm = (company: string) => company !== 'Others'
+
+/**
+ * Concentration band for an HHI value
+ */
+export function getConcentrationLabel(hhi: number): string {
+  if (hhi < MODERATE_HHI) return 'Competitive'
+  if (hhi < HIGH_HHI) return 'Moderately Concentrated'
+  return 'Highly Concentrated'
+}
+
+/**
+ * Gini coefficient of a list of shares
+ */
+function calculateGini(shares: number[]): number {
+  const n = shares.length
+  const total = shares.reduce((sum, share) => sum + share, 0)
+  if (n < 2 || total === 0) return 0
+  // Sorted ascending: G = sum((2i - n - 1) * x_i) / (n * sum(x))
+  const sorted = [...shares].sort((a, b) => a - b)
+  const weighted = sorted.reduce((sum, share, index) => sum + (2 * (index + 1) - n - 1) * share, 0)
+  return weighted / (n * total)
+}
+
+/**
+ * Concentration metrics for a set of company shares in percent
+ */
+export function calculateConcentrationMetrics(shares: number[]): ConcentrationMetrics {
+  const sorted = [...shares].filter(share => share > 0).sort((a, b) => b - a)
+  const topShare = (count: number) => sorted.slice(0, count).reduce((sum, share) => sum + share, 0)
+  const hhi = sorted.reduce((sum, share) => sum + share * share, 0)
+
+  return {
+    cr3: topShare(3),
+    cr5: topShare(5),
+    cr10: topShare(10),
+    hhi: Math.round(hhi),
+    gini: calculateGini(sorted),
+    companyCount: sorted.length,
+    concentration: getConcentrationLabel(hhi)
+  }
+}
+
+/**
+ * Geographies with share data in the filter's years, whole market first
+ * Uses the selected geographies when the filters name any
+ */
+function getConcentrationGeographies(
+  competitive: CompetitiveIntelligenceData,
+  data: ComparisonData,
+  filters: FilterState
+): Array<string | null> {
+  const scope = getShareScope(data, filters)
+  if (scope.geographies.some(geography => geography !== null)) return scope.geographies
+
+  const [startYear, endYear] = filters.yearRange
+  const regions = new Set<string>()
+  competitive.share_history.forEach(entry => {
+    if (entry.geography !== null && entry.year >= startYear && entry.year <= endYear) regions.add(entry.geography)
+  })
+  return [null, ...Array.from(regions)]
+}
+
+/**
+ * Concentration metrics per geography and year for the current filters
+ */
+export function prepareConcentrationData(
+  competitive: CompetitiveIntelligenceData,
+  data: ComparisonData,
+  filters: FilterState
+): ConcentrationResult {
+  const scope = getShareScope(data, filters)
+  const globalGeography = data.dimensions.geographies.global[0] || 'Whole market'
+  const geographies = getConcentrationGeographies(competitive, data, filters)
+  const years: number[] = []
+  for (let year = filters.yearRange[0]; year <= filters.yearRange[1]; year++) years.push(year)
+
+  const rows: ConcentrationRow[] = []
+  geographies.forEach(geography => {
+    years.forEach(year => {
+      const scoped = getScopedShares(competitive, data, { ...scope, geographies: [geography] }, year)
+      const shares = scoped.companies.filter(entry => isSingleFirm(entry.company)).map(entry => entry.share)
+      rows.push({
+        geography: geography ?? globalGeography,
+        year,
+        metrics: scoped.coverage > 0 && shares.length > 0 ? calculateConcentrationMetrics(shares) : null,
+        coverage: scoped.coverage
+      })
+    })
+  })
+
+  return { years, geographies: geographies.map(geography => geography ?? globalGeography), rows }
+}
+
+/**
+ * Company shares for one geography and year, for picking merger parties
+ */
+export function getMergerCandidates(
+  competitive: CompetitiveIntelligenceData,
+  data: ComparisonData,
+  filters: FilterState,
+  geography: string,
+  year: number
+): Array<{ company: string; share: number }> {
+  const scope = getShareScope(data, filters)
+  const globalGeography = data.dimensions.geographies.global[0] || 'Whole market'
+  const scoped = getScopedShares(
+    competitive,
+    data,
+    { ...scope, geographies: [geography === globalGeography ? null : geography] },
+    year
+  )
+  return scoped.companies
+    .filter(entry => isSingleFirm(entry.company))
+    .map(({ company, share }) => ({ company, share }))
+}
+
+/**
+ * Estimate HHI after two companies merge, assuming the merged firm keeps their combined share
+ * The change is 2 × shareA × shareB; the assessment follows the 2010 guidelines' HHI screens
+ */
+export function simulateMerger(
+  shares: Array<{ company: string; share: number }>,
+  companyA: string,
+  companyB: string
+): MergerSimulation | null {
+  if (companyA === companyB) return null
+  const shareA = shares.find(entry => entry.company === companyA)?.share
+  const shareB = shares.find(entry => entry.company === companyB)?.share
+  if (shareA === undefined || shareB === undefined) return null
+
+  const pre = calculateConcentrationMetrics(shares.map(entry => entry.share))
+  const post = calculateConcentrationMetrics([
+    ...shares.filter(entry => entry.company !== companyA && entry.company !== companyB).map(entry => entry.share),
+    shareA + shareB
+  ])
+  const deltaHhi = Math.round(2 * shareA * shareB)
+
+  let assessment = 'Potentially raises significant competitive concerns'
+  if (deltaHhi < 100 || post.hhi < MODERATE_HHI) {
+    assessment = 'Unlikely to have adverse competitive effects'
+  } else if (post.hhi >= HIGH_HHI && deltaHhi > 200) {
+    assessment = 'Presumed likely to enhance market power'
+  }
+
+  return {
+    companies: [companyA, companyB],
+    combinedShare: shareA + shareB,
+    preHhi: pre.hhi,
+    postHhi: post.hhi,
+    deltaHhi,
+    preConcentration: pre.concentration,
+    postConcentration: post.concentration,
+    assessment
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { diffMarketVersions, getVersionLabel } from './market-diff'
+import type { ComparisonData, DataRecord } from './types'
+
+function record(path: string[], base: number, forecast: number, cagr: number, extra: Partial<DataRecord> = {}): DataRecord {
+  return {
+    geography: 'Europe',
+    geography_level: 'region',
+    parent_geography: null,
+    segment_type: 'By Type',
+    segment: path[path.length - 1],
+    segment_level: 'leaf',
+    segment_hierarchy: { level_1: path[0] || '', level_2: path[1] || '', level_3: '', level_4: '' },
+    time_series: { 2024: base, 2030: forecast },
+    cagr,
+    market_share: 0,
+    ...extra
+  }
+}
+
+function release(records: DataRecord[], baseYear = 2024, forecastYear = 2030): ComparisonData {
+  return {
+    metadata: {
+      market_name: 'Spices',
+      market_type: 'Market Analysis',
+      industry: 'Food',
+      years: [baseYear, forecastYear],
+      start_year: baseYear,
+      base_year: baseYear,
+      forecast_year: forecastYear,
+      historical_years: [baseYear],
+      forecast_years: [forecastYear],
+      currency: 'USD',
+      value_unit: 'Million',
+      volume_unit: 'Tons',
+      has_value: true,
+      has_volume: false
+    },
+    dimensions: { geographies: { global: [], regions: [], countries: {}, all_geographies: ['Europe'] }, segments: {} },
+    data: { value: { geography_segment_matrix: records }, volume: { geography_segment_matrix: [] } }
+  }
+}
+
+describe('diffMarketVersions', () => {
+  const previous = release([
+    record(['Powder'], 100, 200, 12.25),
+    record(['Liquid'], 50, 80, 8.15),
+    record(['Paste'], 10, 20, 12.25),
+    record(['Powder', 'Fine'], 40, 90, 14.5)
+  ])
+  const current = release([
+    record(['Powder'], 100, 200.05, 12.25),
+    record(['Liquid'], 55, 80, 8.15),
+    record(['Flakes'], 5, 9, 10.3),
+    record(['Powder', 'Fine'], 40, 90, 14.6)
+  ])
+
+  it('classifies each record and counts the statuses', () => {
+    const result = diffMarketVersions(current, previous, { dataType: 'value' })
+    expect(result.rows.map(row => [row.path, row.status])).toEqual([
+      ['Powder', 'unchanged'],
+      ['Liquid', 'changed'],
+      ['Flakes', 'added'],
+      ['Powder > Fine', 'changed'],
+      ['Paste', 'removed']
+    ])
+    expect(result.summary).toEqual({ added: 1, removed: 1, changed: 2, unchanged: 1 })
+  })
+
+  it('reports value and CAGR changes', () => {
+    const rows = diffMarketVersions(current, previous, { dataType: 'value' }).rows
+    expect(rows.find(row => row.path === 'Liquid')).toMatchObject({
+      basePrevious: 50,
+      baseCurrent: 55,
+      baseChangePct: 10,
+      forecastChangePct: 0,
+      cagrChange: 0
+    })
+    expect(rows.find(row => row.path === 'Powder > Fine')?.cagrChange).toBeCloseTo(0.1)
+    expect(rows.find(row => row.path === 'Paste')).toMatchObject({ baseCurrent: null, baseChangePct: null, cagrChange: null })
+  })
+
+  it('uses the tolerance for values', () => {
+    const result = diffMarketVersions(current, previous, { dataType: 'value', tolerance: 0.2 })
+    expect(result.rows.find(row => row.path === 'Liquid')?.status).toBe('unchanged')
+    expect(diffMarketVersions(current, previous, { dataType: 'value', tolerance: 0 }).rows[0].status).toBe('changed')
+  })
+
+  it('keeps records of other geographies and segment types apart', () => {
+    const older = release([record(['Powder'], 1, 2, 0)])
+    const newer = release([
+      record(['Powder'], 1, 2, 0),
+      record(['Powder'], 1, 2, 0, { geography: 'Asia' }),
+      record(['Powder'], 1, 2, 0, { segment_type: 'By Use' })
+    ])
+    expect(diffMarketVersions(newer, older, { dataType: 'value' }).summary).toEqual({ added: 2, removed: 0, changed: 0, unchanged: 1 })
+    expect(diffMarketVersions(newer, older, { dataType: 'value', segmentType: 'By Use' }).rows.map(row => row.status)).toEqual(['added'])
+  })
+
+  it('compares at the current release years and reports the previous ones', () => {
+    const result = diffMarketVersions(release([record(['Powder'], 1, 2, 0)], 2024, 2030), release([], 2023, 2029), { dataType: 'value' })
+    expect(result).toMatchObject({ baseYear: 2024, forecastYear: 2030, previousBaseYear: 2023, previousForecastYear: 2029 })
+  })
+})
+
+describe('getVersionLabel', () => {
+  it('prefers the processing time of the release', () => {
+    const data = { ...release([]), source: { processor_version: '1', processed_at: '2025-03-04T05:06:07.000Z', files: {} } }
+    expect(getVersionLabel(data, 0)).toBe('2025-03-04 05:06')
+    expect(getVersionLabel(release([]), Date.UTC(2024, 0, 2, 3, 4))).toBe('2024-01-02 03:04')
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Market Version Diff
+ * Compares two releases of the same market record by record
+ */
+
+import type { ComparisonData, DataRecord } from './types'
+import { getRecordIdentity } from './data-processor'
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export interface MarketDiffRow {
+  key: string
+  geography: string
+  segmentType: string
+  segment: string
+  path: string // Segment hierarchy, e.g. "Hardware > Phones"
+  status: DiffStatus
+  basePrevious: number | null
+  baseCurrent: number | null
+  baseChangePct: number | null
+  forecastPrevious: number | null
+  forecastCurrent: number | null
+  forecastChangePct: number | null
+  cagrPrevious: number | null
+  cagrCurrent: number | null
+  cagrChange: number | null // Percentage points
+}
+
+export interface MarketDiffResult {
+  rows: MarketDiffRow[]
+  summary: Record<DiffStatus, number>
+  baseYear: number
+  forecastYear: number
+  previousBaseYear: number
+  previousForecastYear: number
+}
+
+export interface MarketDiffOptions {
+  dataType: 'value' | 'volume'
+  segmentType?: string | null // Limit to one segment type; all types when omitted
+  tolerance?: number // Relative change below which a value counts as unchanged
+}
+
+const DEFAULT_TOLERANCE = 0.0005
+
+function getHierarchyPath(record: DataRecord): string {
+  const hierarchy = record.segment_hierarchy
+  return [hierarchy.level_1, hierarchy.level_2, hierarchy.level_3, hierarchy.level_4, hierarchy.level_5]
+    .filter(Boolean)
+    .join(' > ')
+}
+
+function yearValue(record: DataRecord | undefined, year: number): number | null {
+  if (!record) return null
+  const value = record.time_series[year]
+  return value === undefined ? null : value
+}
+
+function changePct(previous: number | null, current: number | null): number | null {
+  if (previous === null || current === null || previous === 0) return null
+  return ((current - previous) / Math.abs(previous)) * 100
+}
+
+function hasChanged(previous: number | null, current: number | null, tolerance: number): boolean {
+  if (previous === null || current === null) return previous !== current
+  const scale = Math.max(Math.abs(previous), Math.abs(current))
+  return scale > 0 && Math.abs(current - previous) / scale > tolerance
+}
+
+/**
+ * Diff two releases of a market
+ * Values are compared at the current release's base and forecast years; a record
+ * counts as changed when either value or the CAGR moved beyond the tolerance
+ */
+export function diffMarketVersions(
+  current: ComparisonData,
+  previous: ComparisonData,
+  options: MarketDiffOptions
+): MarketDiffResult {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE
+  const baseYear = current.metadata.base_year
+  const forecastYear = current.metadata.forecast_year
+
+  const collect = (data: ComparisonData) => {
+    const byKey = new Map<string, DataRecord>()
+    data.data[options.dataType].geography_segment_matrix.forEach(record => {
+      if (options.segmentType && record.segment_type !== options.segmentType) return
+      byKey.set(getRecordIdentity(record), record)
+    })
+    return byKey
+  }
+  const currentRecords = collect(current)
+  const previousRecords = collect(previous)
+
+  const summary: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 }
+  const rows: MarketDiffRow[] = []
+  const keys = new Set([...currentRecords.keys(), ...previousRecords.keys()])
+
+  keys.forEach(key => {
+    const currentRecord = currentRecords.get(key)
+    const previousRecord = previousRecords.get(key)
+    const record = (currentRecord ?? previousRecord)!
+
+    const basePrevious = yearValue(previousRecord, baseYear)
+    const baseCurrent = yearValue(currentRecord, baseYear)
+    const forecastPrevious = yearValue(previousRecord, forecastYear)
+    const forecastCurrent = yearValue(currentRecord, forecastYear)
+    const cagrPrevious = previousRecord ? previousRecord.cagr : null
+    const cagrCurrent = currentRecord ? currentRecord.cagr : null
+
+    let status: DiffStatus
+    if (!previousRecord) {
+      status = 'added'
+    } else if (!currentRecord) {
+      status = 'removed'
+    } else if (
+      hasChanged(basePrevious, baseCurrent, tolerance) ||
+      hasChanged(forecastPrevious, forecastCurrent, tolerance) ||
+      Math.abs((cagrCurrent ?? 0) - (cagrPrevious ?? 0)) > 0.005
+    ) {
+      status = 'changed'
+    } else {
+      status = 'unchanged'
+    }
+    summary[status]++
+
+    rows.push({
+      key,
+      geography: record.geography,
+      segmentType: record.segment_type,
+      segment: record.segment,
+      path: getHierarchyPath(record),
+      status,
+      basePrevious,
+      baseCurrent,
+      baseChangePct: changePct(basePrevious, baseCurrent),
+      forecastPrevious,
+      forecastCurrent,
+      forecastChangePct: changePct(forecastPrevious, forecastCurrent),
+      cagrPrevious,
+      cagrCurrent,
+      cagrChange: cagrPrevious !== null && cagrCurrent !== null ? cagrCurrent - cagrPrevious : null,
+    })
+  })
+
+  return {
+    rows,
+    summary,
+    baseYear,
+    forecastYear,
+    previousBaseYear: previous.metadata.base_year,
+    previousForecastYear: previous.metadata.forecast_year,
+  }
+}
+
+/**
+ * Short label for a release: when it was processed (from its source) or loaded
+ */
+export function getVersionLabel(data: ComparisonData, loadedAt: number): string {
+  const timestamp = data.source?.processed_at ?? new Date(loadedAt).toISOString()
+  return `${timestamp.split('T')[0]} ${timestamp.slice(11, 16)}`
+}
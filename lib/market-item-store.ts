@@ -0,0 +1,88 @@
+/**
+ * Market Item Store
+ * Items saved by users (filter presets, views, storyboards) kept in JSON files on the server,
+ * grouped by market name
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+
+const STORE_DIR = process.env.SAVED_ITEMS_DIR || path.join(process.cwd(), '.data')
+
+// A Map so market names such as "__proto__" or "constructor" are plain keys
+type MarketItemFile<T> = Map<string, T[]>
+
+export interface MarketItemStore<T extends { id: string }> {
+  list: (market: string) => Promise<T[]>
+  save: (market: string, items: T[]) => Promise<T[]> // Adds items, replacing any with the same id
+  remove: (market: string, id: string) => Promise<T[]>
+  update: (market: string, update: (items: T[]) => T[]) => Promise<T[]>
+}
+
+// Serializes writes per file within this process so concurrent requests do not lose updates
+const writeQueues = new Map<string, Promise<unknown>>()
+
+/**
+ * Store for one kind of item, in <SAVED_ITEMS_DIR>/<fileName> unless a full path is given
+ */
+export function createMarketItemStore<T extends { id: string }>(fileName: string, storePath?: string): MarketItemStore<T> {
+  const filePath = storePath || path.join(STORE_DIR, fileName)
+
+  // A file that exists but can't be read is an error rather than an empty store,
+  // so the next write doesn't replace what is in it
+  const read = async (): Promise<MarketItemFile<T>> => {
+    let content: string
+    try {
+      content = await fs.readFile(filePath, 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Map()
+      throw new Error(`Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(content)
+    } catch (error) {
+      throw new Error(`${filePath} is not valid JSON, fix or remove it before saving: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    const entries = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? Object.entries(parsed) : null
+    if (!entries || entries.some(([, items]) => !Array.isArray(items))) {
+      throw new Error(`${filePath} should map market names to lists, fix or remove it before saving`)
+    }
+    return new Map(entries as Array<[string, T[]]>)
+  }
+
+  const write = async (file: MarketItemFile<T>): Promise<void> => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    // Write to a temp file first so readers never see a partial store
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(file), null, 2))
+    await fs.rename(tempPath, filePath)
+  }
+
+  const update = (market: string, change: (items: T[]) => T[]): Promise<T[]> => {
+    const next = (writeQueues.get(filePath) ?? Promise.resolve()).then(async () => {
+      const file = await read()
+      const items = change(file.get(market) ?? [])
+      if (items.length > 0) {
+        file.set(market, items)
+      } else {
+        file.delete(market)
+      }
+      await write(file)
+      return items
+    })
+    writeQueues.set(filePath, next.catch(() => undefined))
+    return next
+  }
+
+  return {
+    list: async (market) => (await read()).get(market) ?? [],
+    save: (market, saved) => update(market, items => {
+      const ids = new Set(saved.map(item => item.id))
+      return [...items.filter(item => !ids.has(item.id)), ...saved]
+    }),
+    remove: (market, id) => update(market, items => items.filter(item => item.id !== id)),
+    update,
+  }
+}
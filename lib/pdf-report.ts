@@ -0,0 +1,514 @@
+/**
+ * PDF Report Builder
+ * Builds a landscape A4 report from the sections a user picks: cover, table of contents,
+ * analysis parameters, generated insights and one section per chart. Tabular views are
+ * drawn as real PDF tables; charts are captured from the page when they are on screen,
+ * and bar, line and waterfall charts fall back to their data tables when they are not.
+ * Every page after the cover carries the market name in the header and page numbers in the footer
+ */
+
+import html2canvas from 'html2canvas'
+import jsPDF from 'jspdf'
+import type { ComparisonData, DataRecord, FilterState } from './types'
+import { CHART_ELEMENT_IDS } from './chart-groups'
+import { getHeatmapColor } from './chart-theme'
+import {
+  filterData,
+  getUniqueGeographies,
+  getUniqueSegments,
+  prepareGroupedBarData,
+  prepareLineChartData,
+  prepareTableData,
+  prepareWaterfallData
+} from './data-processor'
+import { getFilterSummaryLines, getUnitLabel } from './export-utils'
+import { REPORT_SECTIONS, type ReportSectionId } from './report-sections'
+import { findCrossovers, generateInsights } from './insights-generator'
+import { formatRevenue, getRevenueUnitLabel, loadCompetitiveIntelligenceData } from './competitive-intelligence-data'
+import { getCustomerSegmentTypes, getCustomersForCell, loadCustomerIntelligence, prepareCustomerHeatmap } from './customer-intelligence-data'
+
+export interface PdfReportResult {
+  fileName: string
+  skipped: string[] // Sections left out (chart not on screen and no table fallback)
+}
+
+// Landscape A4 in mm
+const PAGE = { width: 297, height: 210, margin: 15, top: 24, bottom: 192 }
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2
+const HEADER_COLOR = '#1E6091'
+const ROW_HEIGHT = 7
+const MAX_TABLE_COLUMNS = 14
+
+interface ReportColumn {
+  header: string
+  weight?: number
+  align?: 'left' | 'right' | 'center'
+}
+
+type ReportCell = string | { text: string; fill?: string; textColor?: string; bold?: boolean }
+
+interface ReportContext {
+  pdf: jsPDF
+  data: ComparisonData
+  filters: FilterState
+  records: DataRecord[]
+  unit: string
+  y: number
+  toc: Array<{ title: string; page: number }>
+}
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+function addPage(ctx: ReportContext) {
+  ctx.pdf.addPage()
+  ctx.y = PAGE.top
+}
+
+function ensureSpace(ctx: ReportContext, height: number) {
+  if (ctx.y + height > PAGE.bottom) addPage(ctx)
+}
+
+/**
+ * Start a section on a new page and record it for the table of contents
+ */
+function startSection(ctx: ReportContext, title: string, subtitle?: string) {
+  addPage(ctx)
+  ctx.toc.push({ title, page: ctx.pdf.getNumberOfPages() })
+  ctx.pdf.setFont('helvetica', 'bold')
+  ctx.pdf.setFontSize(16)
+  ctx.pdf.setTextColor('#000000')
+  ctx.pdf.text(title, PAGE.margin, ctx.y + 4)
+  ctx.y += 10
+  if (subtitle) {
+    ctx.pdf.setFont('helvetica', 'normal')
+    ctx.pdf.setFontSize(10)
+    ctx.pdf.setTextColor('#4B5563')
+    ctx.pdf.text(subtitle, PAGE.margin, ctx.y)
+    ctx.y += 7
+  }
+  ctx.y += 2
+}
+
+function addParagraph(ctx: ReportContext, text: string, options: { bold?: boolean; size?: number; indent?: number } = {}) {
+  const size = options.size ?? 10
+  const indent = options.indent ?? 0
+  ctx.pdf.setFont('helvetica', options.bold ? 'bold' : 'normal')
+  ctx.pdf.setFontSize(size)
+  ctx.pdf.setTextColor('#000000')
+  const lines: string[] = ctx.pdf.splitTextToSize(text, CONTENT_WIDTH - indent)
+  const lineHeight = size * 0.45
+  lines.forEach(line => {
+    ensureSpace(ctx, lineHeight)
+    ctx.pdf.text(line, PAGE.margin + indent, ctx.y + lineHeight * 0.8)
+    ctx.y += lineHeight
+  })
+  ctx.y += 2
+}
+
+function fitText(pdf: jsPDF, text: string, width: number): string {
+  if (pdf.getTextWidth(text) <= width) return text
+  let fitted = text
+  while (fitted.length > 1 && pdf.getTextWidth(`${fitted}...`) > width) fitted = fitted.slice(0, -1)
+  return `${fitted}...`
+}
+
+/**
+ * Draw a table, repeating the header row on each page it spans
+ */
+function addTable(ctx: ReportContext, columns: ReportColumn[], rows: ReportCell[][]) {
+  const { pdf } = ctx
+  const totalWeight = columns.reduce((sum, column) => sum + (column.weight ?? 1), 0)
+  const widths = columns.map(column => (CONTENT_WIDTH * (column.weight ?? 1)) / totalWeight)
+
+  const drawRow = (cells: ReportCell[], isHeader: boolean, striped: boolean) => {
+    let x = PAGE.margin
+    cells.forEach((cell, index) => {
+      const content = typeof cell === 'string' ? { text: cell } : cell
+      const fill = isHeader ? HEADER_COLOR : content.fill ?? (striped ? '#F9FAFB' : '#FFFFFF')
+      pdf.setFillColor(fill)
+      pdf.setDrawColor('#D1D5DB')
+      pdf.rect(x, ctx.y, widths[index], ROW_HEIGHT, 'FD')
+
+      pdf.setFont('helvetica', isHeader || content.bold ? 'bold' : 'normal')
+      pdf.setFontSize(8)
+      pdf.setTextColor(isHeader ? '#FFFFFF' : content.textColor ?? '#111827')
+      const align = isHeader ? 'left' : columns[index].align ?? 'left'
+      const text = fitText(pdf, content.text, widths[index] - 3)
+      const textX = align === 'right' ? x + widths[index] - 1.5 : align === 'center' ? x + widths[index] / 2 : x + 1.5
+      pdf.text(text, textX, ctx.y + ROW_HEIGHT / 2 + 1, { align })
+      x += widths[index]
+    })
+    ctx.y += ROW_HEIGHT
+  }
+
+  const header = columns.map(column => column.header)
+  ensureSpace(ctx, ROW_HEIGHT * 2)
+  drawRow(header, true, false)
+  rows.forEach((row, index) => {
+    if (ctx.y + ROW_HEIGHT > PAGE.bottom) {
+      addPage(ctx)
+      drawRow(header, true, false)
+    }
+    drawRow(row, false, index % 2 === 1)
+  })
+  ctx.y += 4
+}
+
+/**
+ * Series by year table for chart data points ({ year, [series]: value })
+ */
+function addSeriesTable(ctx: ReportContext, points: Array<Record<string, string | number>>) {
+  if (points.length === 0) return addParagraph(ctx, 'No data for the current filters.')
+  const years = points.map(point => Number(point.year)).slice(0, MAX_TABLE_COLUMNS - 1)
+  const series = [...new Set(points.flatMap(point => Object.keys(point).filter(key => key !== 'year')))]
+  const rows = series.map(name => [
+    { text: name.replace('::', ' / '), bold: true },
+    ...years.map(year => {
+      const value = points.find(point => Number(point.year) === year)?.[name]
+      return typeof value === 'number' ? formatNumber(value) : '-'
+    }),
+  ])
+  addTable(ctx, [{ header: 'Series', weight: 3 }, ...years.map(year => ({ header: String(year), align: 'right' as const }))], rows)
+  if (points.length > years.length) {
+    addParagraph(ctx, `Showing ${years.length} of ${points.length} years.`, { size: 8 })
+  }
+}
+
+/**
+ * Image of a chart that is rendered on the page; returns false when it is not on screen
+ */
+async function addCapturedChart(ctx: ReportContext, chartId: string): Promise<boolean> {
+  const elementId = CHART_ELEMENT_IDS[chartId]
+  const element = elementId ? document.getElementById(elementId) : null
+  if (!element) return false
+  const canvas = await html2canvas(element, { backgroundColor: '#ffffff', scale: 2, logging: false })
+  ensureSpace(ctx, 90)
+  const maxHeight = PAGE.bottom - ctx.y
+  const ratio = canvas.height / canvas.width
+  const width = Math.min(CONTENT_WIDTH, maxHeight / ratio)
+  ctx.pdf.addImage(canvas.toDataURL('image/png'), 'PNG', PAGE.margin + (CONTENT_WIDTH - width) / 2, ctx.y, width, width * ratio)
+  ctx.y += width * ratio + 4
+  return true
+}
+
+function addCoverPage(ctx: ReportContext) {
+  const { pdf, data } = ctx
+  pdf.setFillColor(HEADER_COLOR)
+  pdf.rect(0, 0, PAGE.width, 70, 'F')
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(26)
+  pdf.setTextColor('#FFFFFF')
+  pdf.text(data.metadata.market_name, PAGE.width / 2, 40, { align: 'center' })
+  pdf.setFont('helvetica', 'normal')
+  pdf.setFontSize(14)
+  pdf.text('Comparative Analysis Report', PAGE.width / 2, 55, { align: 'center' })
+
+  pdf.setTextColor('#000000')
+  pdf.setFontSize(11)
+  const details = [
+    [data.metadata.industry, data.metadata.market_type].filter(Boolean).join(' · '),
+    `Years ${data.metadata.start_year}-${data.metadata.forecast_year} (base year ${data.metadata.base_year})`,
+    `Generated ${new Date().toLocaleDateString()}`,
+  ].filter(Boolean)
+  details.forEach((line, index) => pdf.text(line, PAGE.width / 2, 95 + index * 8, { align: 'center' }))
+}
+
+/**
+ * Fill the reserved contents page once section pages are known
+ */
+function drawTableOfContents(ctx: ReportContext, tocPage: number) {
+  const { pdf } = ctx
+  pdf.setPage(tocPage)
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(16)
+  pdf.setTextColor('#000000')
+  pdf.text('Contents', PAGE.margin, PAGE.top + 4)
+
+  pdf.setFontSize(11)
+  ctx.toc.forEach((entry, index) => {
+    const y = PAGE.top + 18 + index * 9
+    pdf.setFont('helvetica', 'normal')
+    pdf.setTextColor('#1E6091')
+    pdf.textWithLink(`${index + 1}. ${entry.title}`, PAGE.margin, y, { pageNumber: entry.page })
+    pdf.setTextColor('#000000')
+    pdf.text(String(entry.page), PAGE.width - PAGE.margin, y, { align: 'right' })
+    pdf.setDrawColor('#D1D5DB')
+    pdf.setLineDashPattern([0.5, 1], 0)
+    pdf.line(PAGE.margin + pdf.getTextWidth(`${index + 1}. ${entry.title}`) + 3, y, PAGE.width - PAGE.margin - 10, y)
+    pdf.setLineDashPattern([], 0)
+  })
+}
+
+function drawHeadersAndFooters(ctx: ReportContext) {
+  const { pdf, data } = ctx
+  const pageCount = pdf.getNumberOfPages()
+  const generated = new Date().toLocaleDateString()
+  for (let page = 2; page <= pageCount; page++) {
+    pdf.setPage(page)
+    pdf.setFont('helvetica', 'bold')
+    pdf.setFontSize(9)
+    pdf.setTextColor('#1E6091')
+    pdf.text(data.metadata.market_name, PAGE.margin, 12)
+    pdf.setFont('helvetica', 'normal')
+    pdf.setTextColor('#4B5563')
+    pdf.text('Comparative Analysis Report', PAGE.width - PAGE.margin, 12, { align: 'right' })
+    pdf.setDrawColor('#1E6091')
+    pdf.line(PAGE.margin, 15, PAGE.width - PAGE.margin, 15)
+
+    pdf.setDrawColor('#D1D5DB')
+    pdf.line(PAGE.margin, PAGE.height - 12, PAGE.width - PAGE.margin, PAGE.height - 12)
+    pdf.setFontSize(8)
+    pdf.text(`${data.metadata.market_name} · Generated ${generated}`, PAGE.margin, PAGE.height - 7)
+    pdf.text(`Page ${page} of ${pageCount}`, PAGE.width - PAGE.margin, PAGE.height - 7, { align: 'right' })
+  }
+}
+
+function addSummarySection(ctx: ReportContext) {
+  const { metadata } = ctx.data
+  startSection(ctx, 'Analysis Parameters')
+  addTable(ctx, [{ header: 'Filter', weight: 1 }, { header: 'Value', weight: 4 }],
+    getFilterSummaryLines(ctx.filters).map(line => {
+      const [field, ...rest] = line.split(': ')
+      return [{ text: field, bold: true }, rest.join(': ')]
+    }).concat([[{ text: 'Records', bold: true }, String(ctx.records.length)]]))
+  addTable(ctx, [{ header: 'Dataset', weight: 1 }, { header: 'Value', weight: 4 }], [
+    [{ text: 'Market', bold: true }, metadata.market_name],
+    [{ text: 'Industry', bold: true }, metadata.industry || '-'],
+    [{ text: 'Historical Years', bold: true }, metadata.historical_years.join(', ')],
+    [{ text: 'Forecast Years', bold: true }, metadata.forecast_years.join(', ')],
+    [{ text: 'Unit', bold: true }, ctx.unit],
+  ])
+}
+
+function addInsightsSection(ctx: ReportContext) {
+  startSection(ctx, 'Key Insights', 'Generated from the filtered data')
+  const priorityOrder = { high: 0, medium: 1, low: 2 }
+  const insights = [...generateInsights(ctx.records, ctx.filters), ...findCrossovers(ctx.records, ctx.filters)]
+    .sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority])
+  if (insights.length === 0) return addParagraph(ctx, 'No insights for the current filters.')
+  insights.forEach((insight, index) => {
+    ensureSpace(ctx, 16)
+    addParagraph(ctx, `${index + 1}. ${insight.title}${insight.value !== undefined ? ` (${insight.value})` : ''}`, { bold: true, size: 11 })
+    addParagraph(ctx, insight.description, { indent: 5 })
+  })
+}
+
+function addComparisonTableSection(ctx: ReportContext, title: string) {
+  const [startYear, endYear] = ctx.filters.yearRange
+  startSection(ctx, title, `Values in ${ctx.unit}`)
+  const rows = prepareTableData(ctx.records, ctx.filters).map(row => [
+    row.geography,
+    row.segment === '__ALL_SEGMENTS__' ? 'All segments' : row.segment,
+    formatNumber(row.baseYear),
+    formatNumber(row.forecastYear),
+    `${row.cagr.toFixed(2)}%`,
+    `${row.growth.toFixed(1)}%`,
+  ])
+  if (rows.length === 0) return addParagraph(ctx, 'No data for the current filters.')
+  addTable(ctx, [
+    { header: 'Geography', weight: 2 },
+    { header: 'Segment', weight: 3 },
+    { header: String(startYear), align: 'right' },
+    { header: String(endYear), align: 'right' },
+    { header: 'CAGR', align: 'right' },
+    { header: 'Growth', align: 'right' },
+  ], rows)
+}
+
+/**
+ * Heatmap as a table of geography-year rows by segment, shaded like MatrixHeatmap
+ */
+function addHeatmapSection(ctx: ReportContext, title: string) {
+  startSection(ctx, title, `Values in ${ctx.unit}`)
+  const geographies = getUniqueGeographies(ctx.records).sort()
+  const segments = getUniqueSegments(ctx.records).filter(segment => segment !== '__ALL_SEGMENTS__').sort()
+  const visibleSegments = segments.slice(0, MAX_TABLE_COLUMNS - 1)
+  const [startYear, endYear] = ctx.filters.yearRange
+
+  const values: Array<{ label: string; cells: number[] }> = []
+  geographies.forEach(geography => {
+    for (let year = startYear; year <= endYear; year++) {
+      values.push({
+        label: `${geography} - ${year}`,
+        cells: visibleSegments.map(segment =>
+          ctx.records.find(r => r.geography === geography && r.segment === segment)?.time_series[year] || 0),
+      })
+    }
+  })
+  if (values.length === 0 || visibleSegments.length === 0) return addParagraph(ctx, 'No data for the current filters.')
+  const all = values.flatMap(row => row.cells)
+  const max = Math.max(0, ...all)
+  const positive = all.filter(value => value > 0)
+  const min = positive.length > 0 ? Math.min(...positive) : 0
+
+  addTable(ctx, [{ header: 'Geography - Year', weight: 2 }, ...visibleSegments.map(segment => ({ header: segment, align: 'right' as const }))],
+    values.map(row => [
+      { text: row.label, bold: true },
+      ...row.cells.map(value => {
+        const dark = value > 0 && max > min && (value - min) / (max - min) >= 0.6
+        return { text: value ? formatNumber(value) : '-', fill: getHeatmapColor(value, min, max), textColor: dark ? '#FFFFFF' : '#111827' }
+      }),
+    ]))
+  if (segments.length > visibleSegments.length) {
+    addParagraph(ctx, `Showing ${visibleSegments.length} of ${segments.length} segments.`, { size: 8 })
+  }
+}
+
+function addWaterfallTable(ctx: ReportContext) {
+  const steps = prepareWaterfallData(ctx.records, ctx.filters)
+  if (ctx.records.length === 0) return addParagraph(ctx, 'No data for the current filters.')
+  const labels: Record<string, string> = { start: 'Start total', end: 'End total', positive: 'Increase', negative: 'Decrease' }
+  addTable(ctx, [{ header: 'Step', weight: 3 }, { header: 'Type' }, { header: 'Value', align: 'right' }],
+    steps.map(step => [
+      { text: step.name, bold: step.type === 'start' || step.type === 'end' },
+      labels[step.type] ?? step.type,
+      `${step.type === 'negative' ? '-' : ''}${formatNumber(step.value)}`,
+    ]))
+}
+
+async function addCompetitiveSection(ctx: ReportContext, title: string) {
+  startSection(ctx, title)
+  const competitive = await loadCompetitiveIntelligenceData(ctx.data.metadata.market_name)
+  if (!competitive) {
+    addParagraph(ctx, 'No competitive intelligence data is available for this market.')
+  } else {
+    const { metadata } = competitive
+    const unit = getRevenueUnitLabel(competitive)
+    addParagraph(ctx, `${metadata.total_companies} companies${metadata.year ? `, ${metadata.year}` : ''}${unit ? ` (${unit})` : ''}`, { size: 9 })
+    addTable(ctx, [
+      { header: 'Company', weight: 3 },
+      { header: 'Headquarters', weight: 2 },
+      { header: 'Regional Strength', weight: 2 },
+      { header: 'Overall Revenue', align: 'right', weight: 1.5 },
+      { header: 'Segment Revenue', align: 'right', weight: 1.5 },
+      { header: 'Market Share', align: 'right' },
+    ], competitive.companies.map(company => [
+      { text: company.name, bold: true },
+      company.headquarters,
+      company.regionalStrength,
+      formatRevenue(company.overallRevenue),
+      formatRevenue(company.segmentalRevenue),
+      `${company.marketShare.toFixed(1)}%`,
+    ]))
+  }
+}
+
+async function addCustomerSection(ctx: ReportContext, title: string) {
+  const customers = (await loadCustomerIntelligence(ctx.data.metadata.market_name)).data
+  const segmentTypes = customers ? getCustomerSegmentTypes(customers, ctx.data) : []
+  const segmentType = segmentTypes.some(entry => entry.segmentType === ctx.filters.segmentType)
+    ? ctx.filters.segmentType
+    : segmentTypes[0]?.segmentType
+  startSection(ctx, title, `Customer count by region and ${segmentType ? segmentType.replace(/^By /, '').toLowerCase() : 'segment'}`)
+  if (!customers || !segmentType) {
+    addParagraph(ctx, 'No customer intelligence data is loaded for this market.')
+    return
+  }
+  const heatmap = prepareCustomerHeatmap(customers, ctx.data, segmentType)
+  const counts = heatmap.cells.map(cell => cell.customers.length)
+  const max = Math.max(...counts)
+  const min = Math.min(...counts)
+  addTable(ctx, [{ header: 'Region', weight: 2 }, ...heatmap.segments.map(segment => ({ header: segment, align: 'right' as const })), { header: 'Total', align: 'right' }],
+    heatmap.regions.map(region => {
+      const row = heatmap.segments.map(segment => getCustomersForCell(heatmap, region, segment).length)
+      return [
+        { text: region, bold: true },
+        ...row.map(count => ({ text: String(count), fill: getHeatmapColor(count, min, max) })),
+        { text: String(row.reduce((sum, count) => sum + count, 0)), bold: true },
+      ]
+    }))
+  if (heatmap.unmatched.length > 0) {
+    addParagraph(ctx, `${heatmap.unmatched.length} of ${customers.customers.length} customers are not in a region and ${segmentType} segment of this market and are not counted.`)
+  }
+}
+
+/**
+ * Build the report for the chosen sections and download it
+ */
+export async function generatePDFReport(
+  data: ComparisonData,
+  filters: FilterState,
+  sections: ReportSectionId[]
+): Promise<PdfReportResult> {
+  const pdf = new jsPDF('l', 'mm', 'a4')
+  const dataset = filters.dataType === 'value'
+    ? data.data.value.geography_segment_matrix
+    : data.data.volume.geography_segment_matrix
+  const ctx: ReportContext = {
+    pdf, data, filters, records: filterData(dataset, filters), unit: getUnitLabel(data, filters), y: PAGE.top, toc: [],
+  }
+
+  addCoverPage(ctx)
+  addPage(ctx) // Contents, filled in once section pages are known
+  const tocPage = pdf.getNumberOfPages()
+
+  const selected = REPORT_SECTIONS.filter(section => sections.includes(section.id))
+  const skipped: string[] = []
+  for (const section of selected) {
+    const title = section.label
+    switch (section.id) {
+      case 'summary':
+        addSummarySection(ctx)
+        break
+      case 'insights':
+        addInsightsSection(ctx)
+        break
+      case 'comparison-table':
+        addComparisonTableSection(ctx, title)
+        break
+      case 'heatmap':
+        addHeatmapSection(ctx, title)
+        break
+      case 'grouped-bar':
+      case 'multi-line':
+      case 'waterfall': {
+        startSection(ctx, title, `Values in ${ctx.unit}`)
+        const captured = await addCapturedChart(ctx, section.id).catch(error => {
+          console.error(`Error capturing ${section.id}:`, error)
+          return false
+        })
+        if (!captured) ensureSpace(ctx, 40)
+        if (section.id === 'waterfall') addWaterfallTable(ctx)
+        else addSeriesTable(ctx, section.id === 'grouped-bar'
+          ? prepareGroupedBarData(ctx.records, ctx.filters)
+          : prepareLineChartData(ctx.records, ctx.filters))
+        break
+      }
+      case 'competitive-intelligence':
+      case 'customer-intelligence':
+        if (section.id === 'competitive-intelligence') await addCompetitiveSection(ctx, title)
+        else await addCustomerSection(ctx, title)
+        // The dashboard view follows the table when it is on screen
+        await addCapturedChart(ctx, section.id).catch(error => {
+          console.error(`Error capturing ${section.id}:`, error)
+          return false
+        })
+        break
+      default: {
+        // Views with no tabular equivalent need to be on screen
+        const elementId = CHART_ELEMENT_IDS[section.id]
+        if (!elementId || !document.getElementById(elementId)) {
+          skipped.push(title)
+          break
+        }
+        startSection(ctx, title)
+        const captured = await addCapturedChart(ctx, section.id).catch(error => {
+          console.error(`Error capturing ${section.id}:`, error)
+          return false
+        })
+        if (!captured) {
+          addParagraph(ctx, 'This chart could not be captured.')
+          skipped.push(title)
+        }
+      }
+    }
+  }
+
+  drawTableOfContents(ctx, tocPage)
+  drawHeadersAndFooters(ctx)
+
+  const fileName = `${data.metadata.market_name.replace(/\s+/g, '-')}-Report-${new Date().toISOString().split('T')[0]}.pdf`
+  pdf.save(fileName)
+  console.log(`📄 Exported ${selected.length - skipped.length} report sections to ${fileName}`)
+  return { fileName, skipped }
+}
@@ -0,0 +1,364 @@
+/**
+ * PowerPoint Export
+ * Builds a PPTX deck for the current chart group: a title slide from the dataset metadata,
+ * the analysis parameters, then one slide per chart. Bar, line and waterfall charts are
+ * native (editable) PowerPoint charts and the heatmap and data table are native tables;
+ * other charts are captured as images when they are on screen
+ */
+
+import html2canvas from 'html2canvas'
+import type PptxGenJS from 'pptxgenjs'
+import type { ComparisonData, DataRecord, FilterState } from './types'
+import { CHART_ELEMENT_IDS, getChartGroup, getChartTitle, getChartsForGroup, type ChartGroupId } from './chart-groups'
+import { CHART_COLORS, getHeatmapColor } from './chart-theme'
+import {
+  filterData,
+  getUniqueGeographies,
+  getUniqueSegments,
+  prepareGroupedBarData,
+  prepareLineChartData,
+  prepareTableData,
+  prepareWaterfallData
+} from './data-processor'
+import { getFilterSummaryLines, getUnitLabel } from './export-utils'
+
+export interface PptxExportResult {
+  fileName: string
+  skipped: string[] // Charts that could not be exported (not on screen to capture)
+}
+
+// Slide geometry for LAYOUT_WIDE (13.33 x 7.5 in)
+const SLIDE = { width: 13.33, margin: 0.5, titleY: 0.3, bodyY: 1.1, bodyHeight: 5.9 }
+const MAX_CHART_SERIES = 12
+const TABLE_ROWS_PER_SLIDE = 14
+const FONT = 'Arial'
+
+const hex = (color: string) => color.replace('#', '').toUpperCase()
+const PALETTE = CHART_COLORS.primary.map(hex)
+
+interface SlideContext {
+  pptx: PptxGenJS
+  data: ComparisonData
+  filters: FilterState
+  records: DataRecord[]
+  unit: string
+}
+
+function addSlideTitle(slide: PptxGenJS.Slide, title: string, subtitle?: string) {
+  slide.addText(title, {
+    x: SLIDE.margin, y: SLIDE.titleY, w: SLIDE.width - SLIDE.margin * 2, h: 0.5,
+    fontFace: FONT, fontSize: 22, bold: true, color: hex(CHART_COLORS.palette.navyBlue),
+  })
+  if (subtitle) {
+    slide.addText(subtitle, {
+      x: SLIDE.margin, y: SLIDE.titleY + 0.45, w: SLIDE.width - SLIDE.margin * 2, h: 0.3,
+      fontFace: FONT, fontSize: 11, color: '6B7280',
+    })
+  }
+}
+
+function addFootnote(slide: PptxGenJS.Slide, text: string) {
+  slide.addText(text, {
+    x: SLIDE.margin, y: 7.05, w: SLIDE.width - SLIDE.margin * 2, h: 0.3,
+    fontFace: FONT, fontSize: 9, italic: true, color: '6B7280',
+  })
+}
+
+function addNoDataNote(slide: PptxGenJS.Slide) {
+  slide.addText('No data for the current filters', {
+    x: SLIDE.margin, y: 3, w: SLIDE.width - SLIDE.margin * 2, h: 0.8,
+    fontFace: FONT, fontSize: 16, color: '6B7280', align: 'center',
+  })
+}
+
+function addTitleSlide(pptx: PptxGenJS, data: ComparisonData) {
+  const { metadata } = data
+  const slide = pptx.addSlide()
+  slide.background = { color: hex(CHART_COLORS.palette.navyBlue) }
+  slide.addText(metadata.market_name, {
+    x: SLIDE.margin, y: 2.2, w: SLIDE.width - SLIDE.margin * 2, h: 1.2,
+    fontFace: FONT, fontSize: 36, bold: true, color: 'FFFFFF', align: 'center',
+  })
+  slide.addText('Comparative Analysis Report', {
+    x: SLIDE.margin, y: 3.4, w: SLIDE.width - SLIDE.margin * 2, h: 0.5,
+    fontFace: FONT, fontSize: 18, color: hex(CHART_COLORS.palette.yellowGreen), align: 'center',
+  })
+  const details = [
+    [metadata.industry, metadata.market_type].filter(Boolean).join(' · '),
+    `${metadata.start_year}-${metadata.forecast_year} · Base year ${metadata.base_year}`,
+    `Values in ${metadata.currency} ${metadata.value_unit}${metadata.has_volume ? ` · Volume in ${metadata.volume_unit}` : ''}`,
+    `Generated: ${new Date().toLocaleDateString()}`,
+  ].filter(Boolean)
+  slide.addText(details.join('\n'), {
+    x: SLIDE.margin, y: 4.3, w: SLIDE.width - SLIDE.margin * 2, h: 1.5,
+    fontFace: FONT, fontSize: 13, color: 'FFFFFF', align: 'center', valign: 'top',
+  })
+}
+
+function addFilterSummarySlide(pptx: PptxGenJS, filters: FilterState, groupLabel: string) {
+  const slide = pptx.addSlide()
+  addSlideTitle(slide, 'Analysis Parameters', groupLabel)
+  slide.addText(
+    getFilterSummaryLines(filters).map(line => ({ text: line, options: { bullet: true, breakLine: true } })),
+    {
+      x: SLIDE.margin, y: SLIDE.bodyY + 0.2, w: SLIDE.width - SLIDE.margin * 2, h: 4,
+      fontFace: FONT, fontSize: 16, color: '111827', valign: 'top', paraSpaceAfter: 8,
+    }
+  )
+}
+
+/**
+ * Series for a native chart from Recharts-style points ({ year, [series]: value })
+ * Series beyond MAX_CHART_SERIES are left out and reported in a footnote
+ */
+function toChartSeries(points: Array<Record<string, number | string>>, labelKey: string) {
+  const names: string[] = []
+  points.forEach(point => Object.keys(point).forEach(key => {
+    if (key !== labelKey && !names.includes(key)) names.push(key)
+  }))
+  const labels = points.map(point => String(point[labelKey]))
+  const series = names.slice(0, MAX_CHART_SERIES).map(name => ({
+    name: name.replace('::', ' · '),
+    labels,
+    values: points.map(point => Number(point[name]) || 0),
+  }))
+  return { series, omitted: Math.max(0, names.length - MAX_CHART_SERIES) }
+}
+
+function chartOptions(ctx: SlideContext, extra: PptxGenJS.IChartOpts = {}): PptxGenJS.IChartOpts {
+  return {
+    x: SLIDE.margin, y: SLIDE.bodyY, w: SLIDE.width - SLIDE.margin * 2, h: SLIDE.bodyHeight,
+    chartColors: PALETTE,
+    showLegend: true,
+    legendPos: 'b',
+    legendFontFace: FONT,
+    legendFontSize: 10,
+    catAxisLabelFontFace: FONT,
+    catAxisLabelFontSize: 10,
+    valAxisLabelFontFace: FONT,
+    valAxisLabelFontSize: 10,
+    valAxisLabelFormatCode: '#,##0.0',
+    showValAxisTitle: true,
+    valAxisTitle: ctx.unit,
+    valAxisTitleFontSize: 10,
+    ...extra,
+  }
+}
+
+function addBarChartSlide(ctx: SlideContext, title: string) {
+  const slide = ctx.pptx.addSlide()
+  addSlideTitle(slide, title, `${ctx.filters.dataType === 'value' ? 'Market value' : 'Volume'} by year (${ctx.unit})`)
+  const { series, omitted } = toChartSeries(prepareGroupedBarData(ctx.records, ctx.filters), 'year')
+  if (series.length === 0) return addNoDataNote(slide)
+  slide.addChart(ctx.pptx.ChartType.bar, series, chartOptions(ctx, { barDir: 'col', barGrouping: 'clustered', barGapWidthPct: 60 }))
+  if (omitted > 0) addFootnote(slide, `Showing the first ${MAX_CHART_SERIES} series; ${omitted} more in the dashboard.`)
+}
+
+function addLineChartSlide(ctx: SlideContext, title: string) {
+  const slide = ctx.pptx.addSlide()
+  addSlideTitle(slide, title, `${ctx.filters.yearRange[0]}-${ctx.filters.yearRange[1]} (${ctx.unit})`)
+  const { series, omitted } = toChartSeries(prepareLineChartData(ctx.records, ctx.filters), 'year')
+  if (series.length === 0) return addNoDataNote(slide)
+  slide.addChart(ctx.pptx.ChartType.line, series, chartOptions(ctx, { lineSize: 2, lineDataSymbolSize: 6 }))
+  if (omitted > 0) addFootnote(slide, `Showing the first ${MAX_CHART_SERIES} series; ${omitted} more in the dashboard.`)
+}
+
+/**
+ * Waterfall as a stacked column chart: an invisible base series lifts each step to its running total
+ */
+function addWaterfallSlide(ctx: SlideContext, title: string) {
+  const slide = ctx.pptx.addSlide()
+  const [startYear, endYear] = ctx.filters.yearRange
+  addSlideTitle(slide, title, `Change in ${ctx.filters.dataType} from ${startYear} to ${endYear} (${ctx.unit})`)
+
+  const steps = prepareWaterfallData(ctx.records, ctx.filters)
+  if (ctx.records.length === 0) return addNoDataNote(slide)
+  const labels = steps.map(step => step.name)
+  const base: number[] = []
+  const totals: number[] = []
+  const increases: number[] = []
+  const decreases: number[] = []
+  let running = 0
+  steps.forEach(step => {
+    const isTotal = step.type === 'start' || step.type === 'end'
+    if (step.type === 'start') running = step.value
+    if (step.type === 'negative') running -= step.value
+    base.push(isTotal ? 0 : running) // Before an increase, after a decrease
+    totals.push(isTotal ? step.value : 0)
+    increases.push(step.type === 'positive' ? step.value : 0)
+    decreases.push(step.type === 'negative' ? step.value : 0)
+    if (step.type === 'positive') running += step.value
+  })
+
+  slide.addChart(ctx.pptx.ChartType.bar, [
+    { name: 'Base', labels, values: base },
+    { name: 'Total', labels, values: totals },
+    { name: 'Increase', labels, values: increases },
+    { name: 'Decrease', labels, values: decreases },
+  ], chartOptions(ctx, {
+    barDir: 'col',
+    barGrouping: 'stacked',
+    barGapWidthPct: 40,
+    chartColors: ['FFFFFF', hex(CHART_COLORS.palette.deepBlue), hex(CHART_COLORS.palette.teal), hex(CHART_COLORS.palette.yellowGreen)],
+    valGridLine: { style: 'none' },
+    showLegend: false,
+  }))
+  addFootnote(slide, 'Dark blue: start and end totals · Teal: increases · Yellow-green: decreases')
+}
+
+type TableRow = PptxGenJS.TableRow
+
+function addTableSlides(
+  ctx: SlideContext,
+  title: string,
+  header: string[],
+  rows: TableRow[],
+  columnWidths?: number[]
+) {
+  const pages = Math.max(1, Math.ceil(rows.length / TABLE_ROWS_PER_SLIDE))
+  const headerRow: TableRow = header.map(text => ({
+    text,
+    options: { bold: true, color: 'FFFFFF', fill: { color: hex(CHART_COLORS.palette.navyBlue) } },
+  }))
+  for (let page = 0; page < pages; page++) {
+    const slide = ctx.pptx.addSlide()
+    addSlideTitle(slide, pages > 1 ? `${title} (${page + 1}/${pages})` : title, ctx.unit)
+    slide.addTable([headerRow, ...rows.slice(page * TABLE_ROWS_PER_SLIDE, (page + 1) * TABLE_ROWS_PER_SLIDE)], {
+      x: SLIDE.margin, y: SLIDE.bodyY, w: SLIDE.width - SLIDE.margin * 2,
+      colW: columnWidths,
+      fontFace: FONT, fontSize: 10, color: '111827',
+      border: { type: 'solid', pt: 0.5, color: 'E5E7EB' },
+      autoPage: false,
+    })
+  }
+}
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+function addComparisonTableSlides(ctx: SlideContext, title: string) {
+  const [startYear, endYear] = ctx.filters.yearRange
+  const rows = prepareTableData(ctx.records, ctx.filters).map<TableRow>(row => [
+    { text: row.geography },
+    { text: row.segment === '__ALL_SEGMENTS__' ? 'All segments' : row.segment },
+    { text: formatNumber(row.baseYear), options: { align: 'right' } },
+    { text: formatNumber(row.forecastYear), options: { align: 'right' } },
+    { text: `${row.cagr.toFixed(2)}%`, options: { align: 'right' } },
+    { text: `${row.growth.toFixed(1)}%`, options: { align: 'right' } },
+  ])
+  addTableSlides(ctx, title, ['Geography', 'Segment', String(startYear), String(endYear), 'CAGR', 'Growth'], rows,
+    [3, 3.83, 1.3, 1.3, 1.0, 1.9])
+}
+
+/**
+ * Heatmap as a table of geography-year rows by segment, shaded like MatrixHeatmap
+ */
+function addHeatmapSlides(ctx: SlideContext, title: string) {
+  const geographies = getUniqueGeographies(ctx.records).sort()
+  const segments = getUniqueSegments(ctx.records).filter(segment => segment !== '__ALL_SEGMENTS__').sort()
+  const [startYear, endYear] = ctx.filters.yearRange
+  const visibleSegments = segments.slice(0, 8)
+
+  const values: Array<{ label: string; cells: number[] }> = []
+  geographies.forEach(geography => {
+    for (let year = startYear; year <= endYear; year++) {
+      values.push({
+        label: `${geography} - ${year}`,
+        cells: visibleSegments.map(segment => {
+          const record = ctx.records.find(r => r.geography === geography && r.segment === segment)
+          return record?.time_series[year] || 0
+        }),
+      })
+    }
+  })
+  const all = values.flatMap(row => row.cells)
+  const max = Math.max(0, ...all)
+  const positive = all.filter(value => value > 0)
+  const min = positive.length > 0 ? Math.min(...positive) : 0
+
+  const rows = values.map<TableRow>(row => [
+    { text: row.label, options: { bold: true } },
+    ...row.cells.map(value => {
+      const fill = hex(getHeatmapColor(value, min, max))
+      const dark = value > 0 && max > min && (value - min) / (max - min) >= 0.6
+      return { text: formatNumber(value), options: { align: 'right' as const, fill: { color: fill }, color: dark ? 'FFFFFF' : '111827' } }
+    }),
+  ])
+  addTableSlides(ctx, title, ['Geography - Year', ...visibleSegments], rows)
+}
+
+/**
+ * Image slide for charts without a native equivalent; needs the chart to be rendered on the page
+ */
+async function addCapturedChartSlide(pptx: PptxGenJS, elementId: string, title: string): Promise<boolean> {
+  const element = document.getElementById(elementId)
+  if (!element) return false
+  const canvas = await html2canvas(element, { backgroundColor: '#ffffff', scale: 2, logging: false })
+  const slide = pptx.addSlide()
+  addSlideTitle(slide, title)
+  const maxWidth = SLIDE.width - SLIDE.margin * 2
+  const ratio = canvas.height / canvas.width
+  const width = Math.min(maxWidth, SLIDE.bodyHeight / ratio)
+  slide.addImage({
+    data: canvas.toDataURL('image/png'),
+    x: (SLIDE.width - width) / 2, y: SLIDE.bodyY, w: width, h: width * ratio,
+  })
+  return true
+}
+
+/**
+ * Build and download the PPTX deck for a chart group
+ */
+export async function generatePPTXDeck(
+  data: ComparisonData,
+  filters: FilterState,
+  chartGroup: ChartGroupId
+): Promise<PptxExportResult> {
+  const { default: PptxGenJSClass } = await import('pptxgenjs')
+  const pptx = new PptxGenJSClass()
+  pptx.layout = 'LAYOUT_WIDE'
+  pptx.title = `${data.metadata.market_name} - Comparative Analysis`
+
+  const groupLabel = getChartGroup(chartGroup)?.label ?? chartGroup
+  const dataset = filters.dataType === 'value'
+    ? data.data.value.geography_segment_matrix
+    : data.data.volume.geography_segment_matrix
+  const ctx: SlideContext = { pptx, data, filters, records: filterData(dataset, filters), unit: getUnitLabel(data, filters) }
+
+  addTitleSlide(pptx, data)
+  addFilterSummarySlide(pptx, filters, groupLabel)
+
+  const skipped: string[] = []
+  for (const chartId of getChartsForGroup(chartGroup)) {
+    const elementId = CHART_ELEMENT_IDS[chartId]
+    const title = getChartTitle(elementId)
+    switch (chartId) {
+      case 'grouped-bar':
+        addBarChartSlide(ctx, title)
+        break
+      case 'multi-line':
+        addLineChartSlide(ctx, title)
+        break
+      case 'waterfall':
+        addWaterfallSlide(ctx, title)
+        break
+      case 'comparison-table':
+        addComparisonTableSlides(ctx, title)
+        break
+      case 'heatmap':
+        addHeatmapSlides(ctx, title)
+        break
+      default:
+        try {
+          if (!elementId || !(await addCapturedChartSlide(pptx, elementId, title))) skipped.push(title)
+        } catch (error) {
+          console.error(`Error capturing ${chartId}:`, error)
+          skipped.push(title)
+        }
+    }
+  }
+
+  const fileName = `${data.metadata.market_name.replace(/\s+/g, '-')}-${groupLabel.replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.pptx`
+  await pptx.writeFile({ fileName })
+  console.log(`📽️ Exported ${groupLabel} deck to ${fileName}`)
+  return { fileName, skipped }
+}
@@ -0,0 +1,30 @@
+/**
+ * Filter Preset Store
+ * Custom filter presets kept in a JSON file on the server, grouped by market name
+ */
+
+import type { SavedFilterPreset } from './filter-presets'
+import { createMarketItemStore } from './market-item-store'
+
+const presetStore = createMarketItemStore<SavedFilterPreset>('filter-presets.json', process.env.PRESET_STORE_PATH)
+
+/**
+ * Presets saved for a market
+ */
+export function listPresets(market: string): Promise<SavedFilterPreset[]> {
+  return presetStore.list(market)
+}
+
+/**
+ * Add presets to a market, replacing any with the same id
+ */
+export function savePresets(market: string, presets: SavedFilterPreset[]): Promise<SavedFilterPreset[]> {
+  return presetStore.save(market, presets)
+}
+
+/**
+ * Remove a preset from a market
+ */
+export function deletePreset(market: string, id: string): Promise<SavedFilterPreset[]> {
+  return presetStore.remove(market, id)
+}
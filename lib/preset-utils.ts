@@ -8,16 +8,17 @@ import type { ComparisonData, DataRecord, FilterState } from './types'
 /**
  * Calculate top regions based on market value for a specific year
  * @param data - The comparison data
- * @param year - The year to evaluate (default 2024)
+ * @param year - The year to evaluate (defaults to the dataset's base year)
  * @param topN - Number of top regions to return (default 3)
  * @returns Array of top region names
  */
 export function getTopRegionsByMarketValue(
   data: ComparisonData | null,
-  year: number = 2024,
+  year?: number,
   topN: number = 3
 ): string[] {
   if (!data) return []
+  const targetYear = year ?? data.metadata.base_year
 
   // Get all value data records
   const records = data.data.value.geography_segment_matrix
@@ -28,7 +29,7 @@ export function getTopRegionsByMarketValue(
 
   records.forEach((record: DataRecord) => {
     const geography = record.geography
-    const value = record.time_series[year] || 0
+    const value = record.time_series[targetYear] || 0
 
     // Skip global level
     if (geography === 'Global') return
@@ -194,13 +195,30 @@ export function getTopCountriesByCAGR(
   return sortedGeographies
 }
 
+/**
+ * Year ranges used by the built-in presets, derived from the dataset's base and forecast years
+ * @param data - The comparison data
+ * @returns Short-term range (base year + 4) and full forecast range, or null without data
+ */
+export function getPresetYearRanges(
+  data: ComparisonData | null
+): { shortTerm: [number, number]; fullForecast: [number, number] } | null {
+  if (!data) return null
+  const { base_year: baseYear, forecast_year: forecastYear } = data.metadata
+  return {
+    shortTerm: [baseYear, Math.min(baseYear + 4, forecastYear)],
+    fullForecast: [baseYear, forecastYear]
+  }
+}
+
 /**
  * Create dynamic filter configuration for Top Market preset
  * @param data - The comparison data
  * @returns Partial FilterState with dynamic values
  */
 export function createTopMarketFilters(data: ComparisonData | null): Partial<FilterState> {
-  const topRegions = getTopRegionsByMarketValue(data, 2024, 3)
+  const topRegions = getTopRegionsByMarketValue(data, undefined, 3)
+  const yearRanges = getPresetYearRanges(data)
   const firstSegmentType = getFirstSegmentType(data)
   const firstLevelSegments = firstSegmentType 
     ? getFirstLevelSegments(data, firstSegmentType)
@@ -211,7 +229,7 @@ export function createTopMarketFilters(data: ComparisonData | null): Partial<Fil
     geographies: topRegions,
     segments: firstLevelSegments,
     segmentType: firstSegmentType || 'By Drug Class',
-    yearRange: [2024, 2028],
+    ...(yearRanges && { yearRange: yearRanges.shortTerm }),
     dataType: 'value'
   }
 }
@@ -223,7 +241,6 @@ export function createTopMarketFilters(data: ComparisonData | null): Partial<Fil
 export function createGrowthLeadersFilters(data: ComparisonData | null): Partial<FilterState> {
   if (!data) return {
     viewMode: 'geography-mode',
-    yearRange: [2024, 2032],
     dataType: 'value'
   }
 
@@ -239,7 +256,7 @@ export function createGrowthLeadersFilters(data: ComparisonData | null): Partial
     geographies: topRegions,
     segments: firstLevelSegments,
     segmentType: firstSegmentType || 'By Drug Class',
-    yearRange: [2024, 2032],
+    yearRange: [data.metadata.base_year, data.metadata.forecast_year],
     dataType: 'value'
   }
 }
@@ -251,7 +268,6 @@ export function createGrowthLeadersFilters(data: ComparisonData | null): Partial
 export function createEmergingMarketsFilters(data: ComparisonData | null): Partial<FilterState> {
   if (!data) return {
     viewMode: 'geography-mode',
-    yearRange: [2024, 2032],
     dataType: 'value'
   }
 
@@ -267,7 +283,7 @@ export function createEmergingMarketsFilters(data: ComparisonData | null): Parti
     geographies: topCountries,
     segments: firstLevelSegments,
     segmentType: firstSegmentType || 'By Drug Class',
-    yearRange: [2024, 2032],
+    yearRange: [data.metadata.base_year, data.metadata.forecast_year],
     dataType: 'value'
   }
 }
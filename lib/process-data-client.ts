@@ -0,0 +1,100 @@
+/**
+ * Client for /api/process-data and /api/validate-data
+ * Requests the NDJSON progress stream and resolves with the processed ComparisonData
+ */
+
+import type { ComparisonData } from './types'
+import type { ValidationReport } from './data-validator'
+
+export type ProcessDataProgressCallback = (progress: number, message: string) => void
+
+interface ProcessDataEvent {
+  type: 'progress' | 'result' | 'error'
+  progress?: number
+  message?: string
+  data?: ComparisonData
+  error?: string
+  details?: string
+}
+
+/**
+ * Build an error message from a failed (non-streamed) response body
+ */
+async function readErrorResponse(response: Response): Promise<Error> {
+  const errorData = await response.json().catch(() => ({}))
+  const errorMessage = errorData.error || errorData.details || `Failed to load data: ${response.statusText}`
+  const debugInfo = errorData.debug ? `\nDebug: ${JSON.stringify(errorData.debug, null, 2)}` : ''
+  const stackInfo = errorData.stack ? `\nStack: ${errorData.stack}` : ''
+  return new Error(`${errorMessage}${debugInfo}${stackInfo}`)
+}
+
+/**
+ * Fetch processed data while reporting worker progress
+ */
+export async function fetchProcessedDataWithProgress(
+  params: URLSearchParams,
+  onProgress?: ProcessDataProgressCallback
+): Promise<ComparisonData> {
+  const streamParams = new URLSearchParams(params)
+  streamParams.set('stream', '1')
+
+  const response = await fetch(`/api/process-data?${streamParams.toString()}`)
+
+  // Path errors (404 etc.) are returned as regular JSON before streaming starts
+  if (!response.ok) {
+    throw await readErrorResponse(response)
+  }
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+  let result: ComparisonData | null = null
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return
+    const event = JSON.parse(line) as ProcessDataEvent
+    if (event.type === 'progress') {
+      onProgress?.(event.progress ?? 0, event.message || '')
+    } else if (event.type === 'result' && event.data) {
+      result = event.data
+    } else if (event.type === 'error') {
+      throw new Error(event.details ? `${event.error}: ${event.details}` : event.error || 'Processing failed')
+    }
+  }
+
+  // The result line can be very large, so only scan newly received text for newlines
+  let searchFrom = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffered += decoder.decode(value, { stream: true })
+
+    let newlineIndex = buffered.indexOf('\n', searchFrom)
+    while (newlineIndex !== -1) {
+      handleLine(buffered.slice(0, newlineIndex))
+      buffered = buffered.slice(newlineIndex + 1)
+      newlineIndex = buffered.indexOf('\n')
+    }
+    searchFrom = buffered.length
+  }
+  handleLine(buffered + decoder.decode())
+
+  if (!result) {
+    throw new Error('Processing finished without returning data')
+  }
+  return result
+}
+
+/**
+ * Fetch a validation report for server-side data files
+ */
+export async function fetchValidationReport(params: URLSearchParams): Promise<ValidationReport> {
+  const response = await fetch(`/api/validate-data?${params.toString()}`)
+  if (!response.ok) {
+    throw await readErrorResponse(response)
+  }
+  return response.json()
+}
@@ -0,0 +1,35 @@
+/**
+ * PDF Report Sections
+ * What the report builder can include; kept apart from lib/pdf-report.ts so the picker
+ * does not pull jsPDF and html2canvas into the main bundle
+ */
+
+import { CHART_ELEMENT_IDS, CHART_GROUPS, getChartTitle, getChartsForGroup, type ChartGroupId } from './chart-groups'
+
+export type ReportSectionId = string // 'summary', 'insights' or a chart id from chart-groups.ts
+
+export interface ReportSection {
+  id: ReportSectionId
+  label: string
+  group?: string // Chart group label, for grouping the picker
+}
+
+/**
+ * Every section the builder can produce, in report order
+ */
+export const REPORT_SECTIONS: ReportSection[] = [
+  { id: 'summary', label: 'Analysis Parameters' },
+  { id: 'insights', label: 'Key Insights' },
+  ...CHART_GROUPS.flatMap(group => group.charts.map(chartId => ({
+    id: chartId,
+    label: getChartTitle(CHART_ELEMENT_IDS[chartId]),
+    group: group.label,
+  }))),
+]
+
+/**
+ * Sections selected when the builder opens: parameters, insights and the active group's charts
+ */
+export function getDefaultReportSections(chartGroup: ChartGroupId): ReportSectionId[] {
+  return ['summary', 'insights', ...getChartsForGroup(chartGroup)]
+}
@@ -0,0 +1,152 @@
+/**
+ * Saved Views and Storyboards
+ * A view is a named snapshot of what the dashboard shows (chart group, tab, filters and
+ * chart settings); a storyboard is an ordered list of views played back slide by slide
+ */
+
+import type { ChartSettings, FilterState } from './types'
+import { CHART_GROUPS, type ChartGroupId } from './chart-groups'
+import { DASHBOARD_TABS, type DashboardTab } from './url-state'
+import { createPresetId, pickPresetFilters, sanitizePresetFilters, type PresetFilters } from './filter-presets'
+
+export interface SavedView {
+  id: string
+  name: string
+  market: string
+  chartGroup: ChartGroupId
+  tab: DashboardTab
+  filters: PresetFilters
+  opportunityFilters: PresetFilters // Used by the opportunity matrix
+  chartSettings: Partial<ChartSettings>
+  created_at: string
+}
+
+export interface StoryboardSlide {
+  viewId: string
+  caption: string // Talking point shown under the slide title during playback
+}
+
+export interface Storyboard {
+  id: string
+  name: string
+  market: string
+  slides: StoryboardSlide[]
+  created_at: string
+}
+
+export type SavedItemKind = 'view' | 'storyboard'
+
+/**
+ * Snapshot the current dashboard state as a view
+ */
+export function captureView(
+  name: string,
+  market: string,
+  state: {
+    chartGroup: ChartGroupId
+    tab: DashboardTab
+    filters: FilterState
+    opportunityFilters: FilterState
+    chartSettings: ChartSettings
+  }
+): SavedView {
+  return {
+    id: createPresetId('view'),
+    name: name.trim(),
+    market,
+    chartGroup: state.chartGroup,
+    tab: state.tab,
+    filters: pickPresetFilters(state.filters),
+    opportunityFilters: pickPresetFilters(state.opportunityFilters),
+    chartSettings: { ...state.chartSettings },
+    created_at: new Date().toISOString(),
+  }
+}
+
+function sanitizeChartSettings(input: unknown): Partial<ChartSettings> {
+  const source = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const settings: Partial<ChartSettings> = {}
+  if (Number.isInteger(source.bubbleMaxBubbles) && (source.bubbleMaxBubbles as number) > 0) {
+    settings.bubbleMaxBubbles = source.bubbleMaxBubbles as number
+  }
+  return settings
+}
+
+/**
+ * Validate a view from untrusted input; null when it has no name or an unknown chart group
+ */
+export function sanitizeView(input: unknown, market: string): SavedView | null {
+  if (!input || typeof input !== 'object') return null
+  const source = input as Record<string, unknown>
+  const name = typeof source.name === 'string' ? source.name.trim().slice(0, 100) : ''
+  const chartGroup = CHART_GROUPS.find(group => group.id === source.chartGroup)?.id
+  const tab = DASHBOARD_TABS.find(tab => tab === source.tab)
+  if (!name || !chartGroup || !tab) return null
+
+  return {
+    id: typeof source.id === 'string' && source.id ? source.id : createPresetId('view'),
+    name,
+    market,
+    chartGroup,
+    tab,
+    filters: sanitizePresetFilters(source.filters),
+    opportunityFilters: sanitizePresetFilters(source.opportunityFilters),
+    chartSettings: sanitizeChartSettings(source.chartSettings),
+    created_at: typeof source.created_at === 'string' ? source.created_at : new Date().toISOString(),
+  }
+}
+
+/**
+ * Validate a storyboard from untrusted input; null when it has no name
+ */
+export function sanitizeStoryboard(input: unknown, market: string): Storyboard | null {
+  if (!input || typeof input !== 'object') return null
+  const source = input as Record<string, unknown>
+  const name = typeof source.name === 'string' ? source.name.trim().slice(0, 100) : ''
+  if (!name) return null
+
+  const slides = Array.isArray(source.slides) ? source.slides : []
+  return {
+    id: typeof source.id === 'string' && source.id ? source.id : createPresetId('storyboard'),
+    name,
+    market,
+    slides: slides
+      .filter((slide): slide is { viewId: string; caption?: unknown } => !!slide && typeof slide.viewId === 'string')
+      .map(slide => ({ viewId: slide.viewId, caption: typeof slide.caption === 'string' ? slide.caption.slice(0, 500) : '' })),
+    created_at: typeof source.created_at === 'string' ? source.created_at : new Date().toISOString(),
+  }
+}
+
+export function createStoryboard(name: string, market: string): Storyboard {
+  return {
+    id: createPresetId('storyboard'),
+    name: name.trim(),
+    market,
+    slides: [],
+    created_at: new Date().toISOString(),
+  }
+}
+
+/**
+ * Move a slide up (-1) or down (+1), returning a new storyboard
+ */
+export function moveStoryboardSlide(storyboard: Storyboard, index: number, offset: -1 | 1): Storyboard {
+  const target = index + offset
+  if (target < 0 || target >= storyboard.slides.length) return storyboard
+  const slides = [...storyboard.slides]
+  ;[slides[index], slides[target]] = [slides[target], slides[index]]
+  return { ...storyboard, slides }
+}
+
+/**
+ * Slides paired with their views; slides whose view was deleted are left out
+ */
+export function getStoryboardSlides(
+  storyboard: Storyboard,
+  views: SavedView[]
+): Array<{ slide: StoryboardSlide; view: SavedView }> {
+  const byId = new Map(views.map(view => [view.id, view]))
+  return storyboard.slides
+    .map(slide => ({ slide, view: byId.get(slide.viewId) }))
+    .filter((entry): entry is { slide: StoryboardSlide; view: SavedView } => entry.view !== undefined)
+}
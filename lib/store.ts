@@ -1,10 +1,40 @@
 import { create } from 'zustand'
-import type { FilterState, ComparisonData } from './types'
+import type { FilterState, ComparisonData, ChartSettings } from './types'
 import type { ChartGroupId } from './chart-groups'
 import { DEFAULT_CHART_GROUP } from './chart-groups'
+import { DEFAULT_KPI_CONFIG, saveKpiConfig, type KpiConfig } from './kpi-config'
+
+// Earlier release of a market, kept so revisions can be diffed
+export interface MarketVersion {
+  data: ComparisonData
+  loadedAt: number
+}
+
+export const DEFAULT_CHART_SETTINGS: ChartSettings = {
+  bubbleMaxBubbles: 50,
+}
+
+// Previous releases kept per market (newest first)
+const MAX_MARKET_VERSIONS = 3
+
+// Per-market snapshot kept in the market registry
+// Filters are stored separately for each market so switching preserves each market's view
+export interface MarketWorkspace {
+  data: ComparisonData
+  filters: FilterState
+  opportunityFilters: FilterState
+  defaultFiltersLoaded: boolean
+  opportunityFiltersLoaded: boolean
+  geographyFiltersBySegmentType: Record<string, string[]>
+  loadedAt: number
+  previousVersions: MarketVersion[] // Releases replaced by reloading the same market, newest first
+}
 
 interface DashboardStore {
   data: ComparisonData | null
+  markets: Record<string, MarketWorkspace> // Market registry keyed by metadata.market_name
+  activeMarket: string | null // Key of the market currently shown
+  comparisonMarket: string | null // Key of the market overlaid in the cross-market view
   filteredData: any[] // Will hold filtered records
   filters: FilterState // Market analysis filters
   opportunityFilters: FilterState // Opportunity matrix filters (separate)
@@ -14,9 +44,16 @@ interface DashboardStore {
   defaultFiltersLoaded: boolean // Track if default filters are loaded
   opportunityFiltersLoaded: boolean // Track if opportunity filters are loaded
   geographyFiltersBySegmentType: Record<string, string[]> // Store geography filters per segment type
+  kpiConfig: KpiConfig // Metrics and years shown in the global KPI cards (shared across markets)
+  chartSettings: ChartSettings // Chart options such as the bubble count (shared across markets)
   
   // Actions
   setData: (data: ComparisonData) => void
+  addMarket: (data: ComparisonData) => void // Register a market without switching to it
+  addMarketVersion: (marketName: string, data: ComparisonData) => void // Keep an earlier release for diffing
+  switchMarket: (marketName: string) => void
+  setComparisonMarket: (marketName: string | null) => void
+  removeMarket: (marketName: string) => void
   updateFilters: (filters: Partial<FilterState>) => void
   updateOpportunityFilters: (filters: Partial<FilterState>) => void
   setLoading: (loading: boolean) => void
@@ -28,6 +65,8 @@ interface DashboardStore {
   loadDefaultOpportunityFilters: () => void // Load default opportunity filters
   saveGeographyFiltersForSegmentType: (segmentType: string, geographies: string[]) => void
   getGeographyFiltersForSegmentType: (segmentType: string) => string[] | undefined
+  setKpiConfig: (config: KpiConfig) => void
+  updateChartSettings: (settings: Partial<ChartSettings>) => void
 }
 
 // Helper function to check if data has B2B/B2C segmentation
@@ -42,6 +81,33 @@ export function hasB2BSegmentation(data: ComparisonData | null, segmentType: str
   ))
 }
 
+// Helper function to build the version history when a market is loaded again
+// The outgoing release becomes the newest previous version
+function getPreviousVersions(existing: MarketWorkspace | undefined, incoming: ComparisonData): MarketVersion[] {
+  if (!existing) return []
+  if (existing.data === incoming) return existing.previousVersions
+  return [{ data: existing.data, loadedAt: existing.loadedAt }, ...existing.previousVersions].slice(0, MAX_MARKET_VERSIONS)
+}
+
+// Helper function to snapshot the active market's state into its workspace
+function snapshotActiveMarket(state: DashboardStore): Record<string, MarketWorkspace> {
+  if (!state.activeMarket || !state.data) return state.markets
+  const existing = state.markets[state.activeMarket]
+  return {
+    ...state.markets,
+    [state.activeMarket]: {
+      data: state.data,
+      filters: state.filters,
+      opportunityFilters: state.opportunityFilters,
+      defaultFiltersLoaded: state.defaultFiltersLoaded,
+      opportunityFiltersLoaded: state.opportunityFiltersLoaded,
+      geographyFiltersBySegmentType: { ...state.geographyFiltersBySegmentType },
+      loadedAt: existing?.loadedAt ?? Date.now(),
+      previousVersions: existing?.previousVersions ?? []
+    }
+  }
+}
+
 // Helper function to get default filters based on data
 function getDefaultFilters(data: ComparisonData | null): FilterState {
   if (!data) {
@@ -49,7 +115,7 @@ function getDefaultFilters(data: ComparisonData | null): FilterState {
       geographies: [],
       segments: [],
       segmentType: '',
-      yearRange: [2020, 2024],
+      yearRange: [2020, 2024], // Placeholder until data loads; replaced by metadata years in setData
       dataType: 'value',
       viewMode: 'segment-mode',
       businessType: undefined,
@@ -95,7 +161,7 @@ function getDefaultOpportunityFilters(data: ComparisonData | null): FilterState
       geographies: [],
       segments: [],
       segmentType: '',
-      yearRange: [2024, 2032], // Focus on forecast period for CAGR analysis
+      yearRange: [2024, 2032], // Placeholder until data loads; replaced by base/forecast years in setData
       dataType: 'value',
       viewMode: 'segment-mode',
       businessType: undefined,
@@ -134,6 +200,9 @@ function getDefaultOpportunityFilters(data: ComparisonData | null): FilterState
 
 export const useDashboardStore = create<DashboardStore>((set, get) => ({
   data: null,
+  markets: {},
+  activeMarket: null,
+  comparisonMarket: null,
   filteredData: [],
   filters: getDefaultFilters(null),
   opportunityFilters: getDefaultOpportunityFilters(null),
@@ -143,17 +212,131 @@ export const useDashboardStore = create<DashboardStore>((set, get) => ({
   defaultFiltersLoaded: false,
   opportunityFiltersLoaded: false,
   geographyFiltersBySegmentType: {},
+  kpiConfig: DEFAULT_KPI_CONFIG,
+  chartSettings: DEFAULT_CHART_SETTINGS,
   
   setData: (data) => {
     const defaultFilters = getDefaultFilters(data)
     const defaultOpportunityFilters = getDefaultOpportunityFilters(data)
-    set({ 
-      data, 
-      error: null,
-      filters: defaultFilters,
-      opportunityFilters: defaultOpportunityFilters,
-      defaultFiltersLoaded: true,
-      opportunityFiltersLoaded: true
+    const marketName = data.metadata.market_name || 'Unknown Market'
+    set((state) => {
+      // Keep the outgoing market's filters, then register (or replace) the incoming market
+      const markets = snapshotActiveMarket(state)
+      const workspace: MarketWorkspace = {
+        data,
+        filters: defaultFilters,
+        opportunityFilters: defaultOpportunityFilters,
+        defaultFiltersLoaded: true,
+        opportunityFiltersLoaded: true,
+        geographyFiltersBySegmentType: {},
+        loadedAt: Date.now(),
+        previousVersions: getPreviousVersions(markets[marketName], data)
+      }
+      return {
+        data,
+        markets: { ...markets, [marketName]: workspace },
+        activeMarket: marketName,
+        error: null,
+        filters: defaultFilters,
+        opportunityFilters: defaultOpportunityFilters,
+        defaultFiltersLoaded: true,
+        opportunityFiltersLoaded: true,
+        geographyFiltersBySegmentType: {}
+      }
+    })
+  },
+
+  addMarket: (data) => {
+    const marketName = data.metadata.market_name || 'Unknown Market'
+    if (marketName === get().activeMarket) {
+      get().setData(data)
+      return
+    }
+    set((state) => ({
+      markets: {
+        ...state.markets,
+        [marketName]: {
+          data,
+          filters: getDefaultFilters(data),
+          opportunityFilters: getDefaultOpportunityFilters(data),
+          defaultFiltersLoaded: true,
+          opportunityFiltersLoaded: true,
+          geographyFiltersBySegmentType: {},
+          loadedAt: Date.now(),
+          previousVersions: getPreviousVersions(state.markets[marketName], data)
+        }
+      }
+    }))
+  },
+
+  addMarketVersion: (marketName, data) => {
+    set((state) => {
+      const workspace = state.markets[marketName]
+      if (!workspace) return {}
+      const version: MarketVersion = { data, loadedAt: Date.now() }
+      return {
+        markets: {
+          ...state.markets,
+          [marketName]: {
+            ...workspace,
+            previousVersions: [version, ...workspace.previousVersions].slice(0, MAX_MARKET_VERSIONS)
+          }
+        }
+      }
+    })
+  },
+
+  setComparisonMarket: (marketName) => set({ comparisonMarket: marketName }),
+
+  switchMarket: (marketName) => {
+    console.log('🔧 Store: switchMarket called with:', marketName)
+    set((state) => {
+      if (marketName === state.activeMarket || !state.markets[marketName]) {
+        return {}
+      }
+      const markets = snapshotActiveMarket(state)
+      const target = markets[marketName]
+      return {
+        markets,
+        activeMarket: marketName,
+        data: target.data,
+        filters: target.filters,
+        opportunityFilters: target.opportunityFilters,
+        defaultFiltersLoaded: target.defaultFiltersLoaded,
+        opportunityFiltersLoaded: target.opportunityFiltersLoaded,
+        geographyFiltersBySegmentType: { ...target.geographyFiltersBySegmentType },
+        error: null
+      }
+    })
+  },
+
+  removeMarket: (marketName) => {
+    set((state) => {
+      if (!state.markets[marketName]) return {}
+      const remaining = { ...state.markets }
+      delete remaining[marketName]
+      const comparisonMarket = state.comparisonMarket === marketName ? null : state.comparisonMarket
+      if (marketName !== state.activeMarket) {
+        return { markets: remaining, comparisonMarket }
+      }
+      // Removing the active market: fall back to the most recently loaded remaining market
+      const next = Object.entries(remaining).sort((a, b) => b[1].loadedAt - a[1].loadedAt)[0]
+      if (!next) {
+        // Never leave the dashboard empty - keep the last market loaded
+        return {}
+      }
+      const [nextName, target] = next
+      return {
+        markets: remaining,
+        activeMarket: nextName,
+        comparisonMarket: comparisonMarket === nextName ? null : comparisonMarket,
+        data: target.data,
+        filters: target.filters,
+        opportunityFilters: target.opportunityFilters,
+        defaultFiltersLoaded: target.defaultFiltersLoaded,
+        opportunityFiltersLoaded: target.opportunityFiltersLoaded,
+        geographyFiltersBySegmentType: { ...target.geographyFiltersBySegmentType }
+      }
     })
   },
   
@@ -220,7 +403,7 @@ export const useDashboardStore = create<DashboardStore>((set, get) => ({
           geographies: newGeographies,
           ...(newFilters.segments !== undefined && { segments: newFilters.segments || [] }),
           segmentType: newSegmentType,
-          ...(newFilters.yearRange !== undefined && { yearRange: newFilters.yearRange || [2020, 2024] }),
+          ...(newFilters.yearRange !== undefined && { yearRange: newFilters.yearRange || getDefaultFilters(state.data).yearRange }),
           ...(newFilters.dataType !== undefined && { dataType: newFilters.dataType || 'value' }),
           ...(newFilters.viewMode !== undefined && { viewMode: newFilters.viewMode || 'segment-mode' }),
           ...(newFilters.businessType !== undefined && { businessType: newFilters.businessType }),
@@ -257,7 +440,7 @@ export const useDashboardStore = create<DashboardStore>((set, get) => ({
         ...(newFilters.geographies !== undefined && { geographies: newFilters.geographies || [] }),
         ...(newFilters.segments !== undefined && { segments: newFilters.segments || [] }),
         ...(newFilters.segmentType !== undefined && { segmentType: newFilters.segmentType || '' }),
-        ...(newFilters.yearRange !== undefined && { yearRange: newFilters.yearRange || [2020, 2024] }),
+        ...(newFilters.yearRange !== undefined && { yearRange: newFilters.yearRange || getDefaultFilters(state.data).yearRange }),
         ...(newFilters.dataType !== undefined && { dataType: newFilters.dataType || 'value' }),
         ...(newFilters.viewMode !== undefined && { viewMode: newFilters.viewMode || 'segment-mode' }),
         ...(newFilters.businessType !== undefined && { businessType: newFilters.businessType }),
@@ -288,6 +471,11 @@ export const useDashboardStore = create<DashboardStore>((set, get) => ({
     return get().geographyFiltersBySegmentType[segmentType]
   },
   
+  setKpiConfig: (config) => {
+    saveKpiConfig(config)
+    set({ kpiConfig: config })
+  },
+  
   setLoading: (loading) => set({ isLoading: loading }),
   
   setError: (error) => set({ error, isLoading: false }),
@@ -306,6 +494,10 @@ export const useDashboardStore = create<DashboardStore>((set, get) => ({
     })
   },
   
+  updateChartSettings: (settings) => {
+    set((state) => ({ chartSettings: { ...state.chartSettings, ...settings } }))
+  },
+  
   setSelectedChartGroup: (groupId) => {
     set({ selectedChartGroup: groupId })
     // Load default opportunity filters when switching to opportunity matrix
@@ -328,7 +520,7 @@ export const useDashboardStore = create<DashboardStore>((set, get) => ({
         ...(newFilters.geographies !== undefined && { geographies: newFilters.geographies || [] }),
         ...(newFilters.segments !== undefined && { segments: newFilters.segments || [] }),
         ...(newFilters.segmentType !== undefined && { segmentType: newFilters.segmentType || '' }),
-        ...(newFilters.yearRange !== undefined && { yearRange: newFilters.yearRange || [2024, 2032] }),
+        ...(newFilters.yearRange !== undefined && { yearRange: newFilters.yearRange || getDefaultOpportunityFilters(state.data).yearRange }),
         ...(newFilters.dataType !== undefined && { dataType: newFilters.dataType || 'value' }),
         ...(newFilters.viewMode !== undefined && { viewMode: newFilters.viewMode || 'segment-mode' }),
         ...(newFilters.businessType !== undefined && { businessType: newFilters.businessType }),
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { StreamingJsonParser, type StreamedNode } from './streaming-json-parser'
+
+function parseInChunks(text: string, chunkSize: number, onYearDataNode?: (node: StreamedNode) => void): unknown {
+  const parser = new StreamingJsonParser({ onYearDataNode })
+  for (let i = 0; i < text.length; i += chunkSize) {
+    parser.write(text.slice(i, i + chunkSize))
+  }
+  return parser.end()
+}
+
+function parseError(text: string, chunkSize = text.length || 1): string {
+  try {
+    parseInChunks(text, chunkSize)
+  } catch (error) {
+    expect(error).toBeInstanceOf(SyntaxError)
+    return (error as Error).message
+  }
+  throw new Error(`${JSON.stringify(text)} parsed without an error`)
+}
+
+const SAMPLE = JSON.stringify({
+  'North America': {
+    'By Type': {
+      'Type A': { '2023': 10.5, '2024': 12, CAGR: 14.3, 'Sub A': { '2023': 1e3, '2024': -2.5e-3 } },
+      'Type B': { '2023': 0, '2024': null }
+    }
+  },
+  list: [true, false, null, [], {}, '', 'tab\there', 'quote " and \\ backslash', 'é ✓ 😀', '\u0001'],
+  ['__proto__']: { polluted: true }
+}, null, 2)
+
+describe('StreamingJsonParser', () => {
+  it.each([1, 2, 3, 7, 64, SAMPLE.length])('matches JSON.parse with %i-character chunks', chunkSize => {
+    expect(parseInChunks(SAMPLE, chunkSize)).toEqual(JSON.parse(SAMPLE))
+  })
+
+  it.each(['0', '-0', '12.5e+3', '1E-2', '"text"', 'true', 'null', ' [1, 2] '])('parses the root value %s', text => {
+    expect(parseInChunks(text, 1)).toEqual(JSON.parse(text))
+  })
+
+  it('keeps __proto__ as an own property like JSON.parse', () => {
+    const parsed = parseInChunks('{"__proto__": {"polluted": true}}', 4) as Record<string, unknown>
+    expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype)
+    expect(Object.keys(parsed)).toEqual(['__proto__'])
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+
+  it('reports objects with year keys with their path as they close', () => {
+    const nodes: StreamedNode[] = []
+    parseInChunks(SAMPLE, 5, node => nodes.push(node))
+    expect(nodes.map(node => node.path)).toEqual([
+      ['North America', 'By Type', 'Type A', 'Sub A'],
+      ['North America', 'By Type', 'Type A'],
+      ['North America', 'By Type', 'Type B']
+    ])
+    expect(nodes[0].data).toEqual({ '2023': 1e3, '2024': -2.5e-3 })
+  })
+
+  it('counts the characters parsed', () => {
+    const parser = new StreamingJsonParser()
+    parser.write('{"a": [1, 2')
+    parser.write('3]}')
+    parser.end()
+    expect(parser.charactersRead).toBe(14)
+  })
+
+  it.each([
+    ['[1 2]', 'Unexpected character "2" at position 3 (line 1 column 4)'],
+    ['{"a": 1,}', 'Unexpected character "}" at position 8 (line 1 column 9)'],
+    ['{\n  "a": tru\n}', 'Unexpected character "\\n" at position 12 (line 2 column 11)'],
+    ['[01]', 'Unexpected character "1" at position 2 (line 1 column 3)'],
+    ['[1.]', 'Unexpected character "]" at position 3 (line 1 column 4)'],
+    ['["a\\x"]', 'Bad escaped character at position 4 (line 1 column 5)'],
+    ['["\\u12G4"]', 'Bad Unicode escape at position 2 (line 1 column 3)'],
+    ['["a\nb"]', 'Bad control character in string literal at position 3 (line 1 column 4)'],
+    ['{"a": 1', 'Unexpected end of JSON input at position 7 (line 1 column 8)'],
+    ['', 'Unexpected end of JSON input at position 0 (line 1 column 1)'],
+    ['{} {}', 'Unexpected character "{" at position 3 (line 1 column 4)']
+  ])('rejects %j', (text, message) => {
+    expect(parseError(text)).toBe(message)
+    expect(parseError(text, 1)).toBe(message)
+  })
+
+  it.each(['[-]', '[+1]', '[.5]', '[1e]', "['a']", '{a: 1}', '[NaN]', '[1,]', '{"a" 1}'])('rejects %s like JSON.parse', text => {
+    expect(() => JSON.parse(text)).toThrow(SyntaxError)
+    expect(() => parseInChunks(text, 1)).toThrow(SyntaxError)
+  })
+
+  it.each(['"\\u00e9"', '[1e5]', '{"":""}', '[-0.0e-0]'])('accepts %s like JSON.parse', text => {
+    expect(parseInChunks(text, 1)).toEqual(JSON.parse(text))
+  })
+})
@@ -0,0 +1,360 @@
+/**
+ * Streaming JSON Parser
+ * Strict JSON parser fed one text chunk at a time. Only a token cut off at the end of a chunk
+ * is carried into the next one, so a file is never held as a single string: the tree is built
+ * as tokens arrive, and objects with year keys are reported as they close, in the { path, data }
+ * shape produced by extractPathsGenerator. Malformed input throws a SyntaxError with the
+ * character position, line and column.
+ */
+
+export interface StreamedNode {
+  path: string[]
+  data: Record<string, unknown>
+}
+
+export interface StreamingJsonParserOptions {
+  /** Called when an object containing year keys (or CAGR) closes */
+  onYearDataNode?: (node: StreamedNode) => void
+}
+
+interface ParserFrame {
+  container: Record<string, unknown> | unknown[]
+  isArray: boolean
+  name: string // Key (or array index) of this container within its parent
+  key: string // Object key waiting for its value
+}
+
+// What the parser expects next (whitespace aside)
+const Expect = {
+  Value: 0, // Root value, or a value after ':' or after ',' in an array
+  ValueOrClose: 1, // After '['
+  KeyOrClose: 2, // After '{'
+  Key: 3, // After ',' in an object
+  Colon: 4,
+  CommaOrClose: 5, // After a value inside a container
+  End: 6 // After the root value
+} as const
+
+type ExpectState = typeof Expect[keyof typeof Expect]
+
+// Characters that need the slow path: escapes, and control characters (which are errors)
+const SPECIAL_STRING_CHARACTER = /[\u0000-\u001f\\]/
+const HEX4 = /^[0-9a-fA-F]{4}$/
+const YEAR_KEY = /^\d{4}$/
+
+const ESCAPES: Record<number, string> = {
+  0x22: '"', 0x5c: '\\', 0x2f: '/', 0x62: '\b', 0x66: '\f', 0x6e: '\n', 0x72: '\r', 0x74: '\t'
+}
+
+function isDigit(code: number): boolean {
+  return code >= 0x30 && code <= 0x39
+}
+
+function hasYearKeys(obj: Record<string, unknown>): boolean {
+  for (const key in obj) {
+    if (key === 'CAGR' || YEAR_KEY.test(key)) return true
+  }
+  return false
+}
+
+function setKey(obj: Record<string, unknown>, key: string, value: unknown) {
+  if (key === '__proto__') {
+    // Plain assignment would replace the prototype; JSON.parse makes it an own property
+    Object.defineProperty(obj, key, { value, writable: true, enumerable: true, configurable: true })
+  } else {
+    obj[key] = value
+  }
+}
+
+/**
+ * Push-based JSON parser: call write() with each text chunk, then end() for the root value
+ */
+export class StreamingJsonParser {
+  private stack: ParserFrame[] = []
+  private expect: ExpectState = Expect.Value
+  private root: unknown = undefined
+  private pending = '' // Start of a token cut off by the end of the last chunk
+  private consumed = 0 // Characters before `pending`
+  private line = 1
+  private lineStart = 0 // Position of the first character of the current line
+  private stringValue = ''
+  private onYearDataNode?: (node: StreamedNode) => void
+
+  constructor(options: StreamingJsonParserOptions = {}) {
+    this.onYearDataNode = options.onYearDataNode
+  }
+
+  /**
+   * Number of characters parsed so far
+   */
+  get charactersRead(): number {
+    return this.consumed
+  }
+
+  /**
+   * Feed the next chunk of JSON text
+   */
+  write(chunk: string): void {
+    this.parse(this.pending + chunk, false)
+  }
+
+  /**
+   * Finish parsing and return the root value
+   */
+  end(): unknown {
+    this.parse(this.pending, true)
+    if (this.expect !== Expect.End) this.fail('', 0)
+    return this.root
+  }
+
+  private parse(text: string, final: boolean): void {
+    const length = text.length
+    let i = 0
+
+    while (i < length) {
+      const code = text.charCodeAt(i)
+      if (code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09) {
+        if (code === 0x0a) {
+          this.line++
+          this.lineStart = this.consumed + i + 1
+        }
+        i++
+        continue
+      }
+
+      let next = -1 // Index after the token, or -1 when the token continues in the next chunk
+      switch (this.expect) {
+        case Expect.Colon:
+          if (code !== 0x3a) this.fail(text, i)
+          this.expect = Expect.Value
+          next = i + 1
+          break
+
+        case Expect.CommaOrClose: {
+          const frame = this.stack[this.stack.length - 1]
+          if (code === 0x2c) {
+            this.expect = frame.isArray ? Expect.Value : Expect.Key
+          } else if (code === (frame.isArray ? 0x5d : 0x7d)) {
+            this.closeContainer()
+          } else {
+            this.fail(text, i)
+          }
+          next = i + 1
+          break
+        }
+
+        case Expect.KeyOrClose:
+        case Expect.Key:
+          if (code === 0x7d && this.expect === Expect.KeyOrClose) {
+            this.closeContainer()
+            next = i + 1
+            break
+          }
+          if (code !== 0x22) this.fail(text, i)
+          next = this.readString(text, i)
+          if (next !== -1) {
+            this.stack[this.stack.length - 1].key = this.stringValue
+            this.expect = Expect.Colon
+          }
+          break
+
+        case Expect.ValueOrClose:
+        case Expect.Value:
+          if (code === 0x5d && this.expect === Expect.ValueOrClose) {
+            this.closeContainer()
+            next = i + 1
+            break
+          }
+          next = this.readValue(text, i, code, final)
+          break
+
+        case Expect.End:
+          this.fail(text, i)
+      }
+
+      if (next === -1) {
+        if (final) this.fail(text, length)
+        this.pending = text.slice(i)
+        this.consumed += i
+        return
+      }
+      i = next
+    }
+
+    this.pending = ''
+    this.consumed += length
+  }
+
+  private readValue(text: string, start: number, code: number, final: boolean): number {
+    if (code === 0x7b) {
+      this.openContainer({}, false)
+      return start + 1
+    }
+    if (code === 0x5b) {
+      this.openContainer([], true)
+      return start + 1
+    }
+    if (code === 0x22) {
+      const next = this.readString(text, start)
+      if (next !== -1) this.addValue(this.stringValue)
+      return next
+    }
+
+    if (code === 0x2d || isDigit(code)) {
+      const end = this.scanNumber(text, start, final)
+      if (end !== -1) this.addValue(Number(text.slice(start, end)))
+      return end
+    }
+
+    const literal = code === 0x74 ? 'true' : code === 0x66 ? 'false' : code === 0x6e ? 'null' : null
+    if (literal === null) this.fail(text, start)
+    if (text.startsWith(literal, start)) {
+      this.addValue(literal === 'true' ? true : literal === 'false' ? false : null)
+      return start + literal.length
+    }
+    if (text.length - start < literal.length && literal.startsWith(text.slice(start))) return -1
+    // Point at the first character that differs from the literal
+    let offset = 1
+    while (text[start + offset] === literal[offset]) offset++
+    return this.fail(text, start + offset)
+  }
+
+  /**
+   * Walk the number grammar from `start`; the number ends at the first character that can't extend it
+   * Returns the index after the number, or -1 when it may continue in the next chunk
+   */
+  private scanNumber(text: string, start: number, final: boolean): number {
+    const length = text.length
+    // A digit is required at i; fails there, or waits for the next chunk
+    const requireDigit = (i: number): number => {
+      if (i < length && isDigit(text.charCodeAt(i))) return i + 1
+      if (i >= length && !final) return -1
+      return this.fail(text, i)
+    }
+    const skipDigits = (i: number): number => {
+      while (i < length && isDigit(text.charCodeAt(i))) i++
+      return i
+    }
+
+    let i = start
+    if (text.charCodeAt(i) === 0x2d) i++
+    i = requireDigit(i)
+    if (i === -1) return -1
+    if (text.charCodeAt(i - 1) !== 0x30) i = skipDigits(i)
+
+    if (text.charCodeAt(i) === 0x2e) {
+      i = requireDigit(i + 1)
+      if (i === -1) return -1
+      i = skipDigits(i)
+    }
+    const exponent = text.charCodeAt(i)
+    if (exponent === 0x65 || exponent === 0x45) {
+      i++
+      const sign = text.charCodeAt(i)
+      if (sign === 0x2b || sign === 0x2d) i++
+      i = requireDigit(i)
+      if (i === -1) return -1
+      i = skipDigits(i)
+    }
+    return i === length && !final ? -1 : i
+  }
+
+  /**
+   * Read the string starting at the quote at `start` into stringValue
+   * Returns the index after the closing quote, or -1 when the string continues in the next chunk
+   */
+  private readString(text: string, start: number): number {
+    const close = text.indexOf('"', start + 1)
+    if (close !== -1) {
+      const value = text.slice(start + 1, close)
+      if (!SPECIAL_STRING_CHARACTER.test(value)) {
+        this.stringValue = value
+        return close + 1
+      }
+    }
+
+    // Escapes, or a string cut off by the end of the chunk
+    let value = ''
+    let i = start + 1
+    while (i < text.length) {
+      const code = text.charCodeAt(i)
+      if (code === 0x22) {
+        this.stringValue = value
+        return i + 1
+      }
+      if (code === 0x5c) {
+        if (i + 1 >= text.length) return -1
+        const escaped = text.charCodeAt(i + 1)
+        if (escaped === 0x75) {
+          if (i + 6 > text.length) return -1
+          const hex = text.slice(i + 2, i + 6)
+          if (!HEX4.test(hex)) this.fail(text, i, 'Bad Unicode escape')
+          value += String.fromCharCode(parseInt(hex, 16))
+          i += 6
+        } else {
+          const replacement = ESCAPES[escaped]
+          if (replacement === undefined) this.fail(text, i + 1, 'Bad escaped character')
+          value += replacement
+          i += 2
+        }
+        continue
+      }
+      if (code < 0x20) this.fail(text, i, 'Bad control character in string literal')
+
+      let end = i + 1
+      while (end < text.length) {
+        const next = text.charCodeAt(end)
+        if (next === 0x22 || next === 0x5c || next < 0x20) break
+        end++
+      }
+      value += text.slice(i, end)
+      i = end
+    }
+    return -1
+  }
+
+  private addValue(value: unknown) {
+    const frame = this.stack[this.stack.length - 1]
+    if (!frame) {
+      this.root = value
+      this.expect = Expect.End
+      return
+    }
+    if (frame.isArray) {
+      (frame.container as unknown[]).push(value)
+    } else {
+      setKey(frame.container as Record<string, unknown>, frame.key, value)
+    }
+    this.expect = Expect.CommaOrClose
+  }
+
+  private openContainer(container: Record<string, unknown> | unknown[], isArray: boolean) {
+    const parent = this.stack[this.stack.length - 1]
+    const name = !parent ? '' : parent.isArray ? String((parent.container as unknown[]).length) : parent.key
+    this.addValue(container)
+    this.stack.push({ container, isArray, name, key: '' })
+    this.expect = isArray ? Expect.ValueOrClose : Expect.KeyOrClose
+  }
+
+  private closeContainer() {
+    const frame = this.stack.pop()!
+    if (!frame.isArray && this.onYearDataNode) {
+      const data = frame.container as Record<string, unknown>
+      if (hasYearKeys(data)) {
+        // The root frame has no name, so the path starts below it
+        const path = this.stack.slice(1).map(parent => parent.name)
+        if (this.stack.length > 0) path.push(frame.name)
+        this.onYearDataNode({ path, data })
+      }
+    }
+    this.expect = this.stack.length > 0 ? Expect.CommaOrClose : Expect.End
+  }
+
+  private fail(text: string, index: number, message?: string): never {
+    const position = this.consumed + index
+    const column = position - this.lineStart + 1
+    const description = message
+      ?? (index >= text.length ? 'Unexpected end of JSON input' : `Unexpected character ${JSON.stringify(text[index])}`)
+    throw new SyntaxError(`${description} at position ${position} (line ${this.line} column ${column})`)
+  }
+}
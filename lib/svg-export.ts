@@ -0,0 +1,332 @@
+/**
+ * Vector Chart Export
+ * Turns a rendered Recharts/D3 <svg> into a standalone SVG file: computed styles are inlined,
+ * web fonts are embedded as data URLs, and the title and legend (HTML in the dashboard) are
+ * drawn as SVG. PNG export rasterizes that SVG at a chosen scale for print-quality images
+ */
+
+import { saveAs } from 'file-saver'
+
+export interface SvgLegendItem {
+  label: string
+  color: string
+  shape?: 'square' | 'circle' | 'line'
+}
+
+export interface SvgExportOptions {
+  title?: string
+  subtitle?: string
+  legend?: SvgLegendItem[]
+  footnote?: string
+}
+
+export interface SvgGridData {
+  rowHeader: string
+  rowLabels: string[]
+  columnLabels: string[]
+  values: number[][] // [row][column]
+  cellColor: (value: number) => string
+  formatValue: (value: number) => string
+}
+
+// Presentation properties copied from computed styles so the file renders without the page's CSS
+const INLINED_STYLE_PROPERTIES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'opacity', 'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor',
+  'dominant-baseline', 'visibility',
+]
+
+const FONT_STACK = 'Arial, Helvetica, sans-serif'
+const PADDING = 16
+const TITLE_SIZE = 18
+const SUBTITLE_SIZE = 12
+const LEGEND_SIZE = 12
+const LEGEND_ROW_HEIGHT = 20
+const MAX_LEGEND_ITEMS = 40
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Approximate text width; good enough to wrap legends without a layout engine
+const estimateTextWidth = (text: string, fontSize: number) => text.length * fontSize * 0.58
+
+/**
+ * Copy of an SVG element with computed styles inlined and hidden parts removed
+ */
+function cloneWithInlineStyles(source: SVGSVGElement): SVGSVGElement {
+  const clone = source.cloneNode(true) as SVGSVGElement
+  const sourceNodes = [source, ...Array.from(source.querySelectorAll('*'))]
+  const cloneNodes = [clone, ...Array.from(clone.querySelectorAll('*'))]
+
+  sourceNodes.forEach((node, index) => {
+    const target = cloneNodes[index] as SVGElement
+    const computed = window.getComputedStyle(node)
+    if (computed.display === 'none') {
+      target.setAttribute('data-export-remove', 'true')
+      return
+    }
+    const styles = INLINED_STYLE_PROPERTIES
+      .map(property => [property, computed.getPropertyValue(property)] as const)
+      .filter(([, value]) => value !== '')
+      .map(([property, value]) => `${property}:${value}`)
+    target.setAttribute('style', styles.join(';'))
+    target.removeAttribute('class')
+  })
+  clone.querySelectorAll('[data-export-remove]').forEach(node => node.remove())
+  return clone
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  let binary = ''
+  const bytes = new Uint8Array(buffer)
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * @font-face rules for the given families with their font files inlined
+ * System fonts have no @font-face rule and are left to the font stack
+ */
+async function getEmbeddedFontCss(families: Set<string>): Promise<string> {
+  const rules: CSSFontFaceRule[] = []
+  Array.from(document.styleSheets).forEach(sheet => {
+    try {
+      Array.from(sheet.cssRules).forEach(rule => {
+        if (rule instanceof CSSFontFaceRule) {
+          const family = rule.style.getPropertyValue('font-family').replace(/["']/g, '').trim()
+          if (families.has(family)) rules.push(rule)
+        }
+      })
+    } catch {
+      // Cross-origin stylesheets cannot be read
+    }
+  })
+
+  const faces = await Promise.all(rules.map(async rule => {
+    const src = rule.style.getPropertyValue('src')
+    const url = /url\(["']?([^"')]+)["']?\)/.exec(src)?.[1]
+    if (!url) return ''
+    try {
+      const response = await fetch(new URL(url, rule.parentStyleSheet?.href || window.location.href))
+      if (!response.ok) return ''
+      const format = url.endsWith('.woff2') ? 'woff2' : url.endsWith('.woff') ? 'woff' : 'truetype'
+      const data = toBase64(await response.arrayBuffer())
+      const descriptors = ['font-family', 'font-weight', 'font-style', 'unicode-range']
+        .map(property => [property, rule.style.getPropertyValue(property)] as const)
+        .filter(([, value]) => value)
+        .map(([property, value]) => `${property}:${value};`)
+        .join('')
+      return `@font-face{${descriptors}src:url(data:font/${format};base64,${data}) format('${format}');}`
+    } catch (error) {
+      console.warn('Could not embed font', url, error)
+      return ''
+    }
+  }))
+  return faces.filter(Boolean).join('\n')
+}
+
+function getUsedFontFamilies(svg: SVGSVGElement): Set<string> {
+  const families = new Set<string>()
+  svg.querySelectorAll('text, tspan').forEach(node => {
+    const family = window.getComputedStyle(node).fontFamily.split(',')[0]?.replace(/["']/g, '').trim()
+    if (family) families.add(family)
+  })
+  return families
+}
+
+function legendShape(item: SvgLegendItem, x: number, y: number): string {
+  const color = escapeXml(item.color)
+  if (item.shape === 'line') {
+    return `<line x1="${x}" y1="${y}" x2="${x + 14}" y2="${y}" stroke="${color}" stroke-width="2"/>` +
+      `<circle cx="${x + 7}" cy="${y}" r="3" fill="${color}"/>`
+  }
+  if (item.shape === 'circle') {
+    return `<circle cx="${x + 6}" cy="${y}" r="6" fill="${color}" fill-opacity="0.7" stroke="${color}"/>`
+  }
+  return `<rect x="${x}" y="${y - 6}" width="12" height="12" rx="2" fill="${color}"/>`
+}
+
+/**
+ * Lay out title, chart body, legend and footnote into one SVG document
+ */
+function composeSvg(
+  body: { markup: string; width: number; height: number },
+  options: SvgExportOptions,
+  fontCss = ''
+): string {
+  const width = Math.max(body.width + PADDING * 2, 320)
+  const parts: string[] = []
+  let y = PADDING
+
+  if (options.title) {
+    y += TITLE_SIZE
+    parts.push(`<text x="${PADDING}" y="${y}" font-size="${TITLE_SIZE}" font-weight="600" fill="#000000">${escapeXml(options.title)}</text>`)
+    y += 6
+  }
+  if (options.subtitle) {
+    y += SUBTITLE_SIZE + 2
+    parts.push(`<text x="${PADDING}" y="${y}" font-size="${SUBTITLE_SIZE}" fill="#4B5563">${escapeXml(options.subtitle)}</text>`)
+    y += 6
+  }
+  if (options.title || options.subtitle) y += 8
+
+  parts.push(`<g transform="translate(${PADDING},${y})">${body.markup}</g>`)
+  y += body.height
+
+  const legend = (options.legend || []).slice(0, MAX_LEGEND_ITEMS)
+  if (legend.length > 0) {
+    y += 12
+    // Wrap items into centered rows
+    const rows: Array<{ items: Array<{ item: SvgLegendItem; width: number }>; width: number }> = [{ items: [], width: 0 }]
+    legend.forEach(item => {
+      const itemWidth = 20 + estimateTextWidth(item.label, LEGEND_SIZE) + 20
+      const row = rows[rows.length - 1]
+      if (row.items.length > 0 && row.width + itemWidth > width - PADDING * 2) {
+        rows.push({ items: [{ item, width: itemWidth }], width: itemWidth })
+      } else {
+        row.items.push({ item, width: itemWidth })
+        row.width += itemWidth
+      }
+    })
+    rows.forEach(row => {
+      y += LEGEND_ROW_HEIGHT / 2
+      let x = (width - row.width) / 2
+      row.items.forEach(({ item, width: itemWidth }) => {
+        parts.push(legendShape(item, x, y))
+        parts.push(`<text x="${x + 20}" y="${y}" font-size="${LEGEND_SIZE}" dominant-baseline="central" fill="#000000">${escapeXml(item.label)}</text>`)
+        x += itemWidth
+      })
+      y += LEGEND_ROW_HEIGHT / 2
+    })
+    if ((options.legend || []).length > MAX_LEGEND_ITEMS) {
+      y += LEGEND_ROW_HEIGHT
+      parts.push(`<text x="${width / 2}" y="${y}" font-size="11" text-anchor="middle" fill="#6B7280">+${(options.legend || []).length - MAX_LEGEND_ITEMS} more</text>`)
+    }
+  }
+
+  if (options.footnote) {
+    y += 22
+    parts.push(`<text x="${width / 2}" y="${y}" font-size="11" font-style="italic" text-anchor="middle" fill="#4B5563">${escapeXml(options.footnote)}</text>`)
+  }
+  const height = Math.ceil(y + PADDING)
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_STACK}">`,
+    fontCss ? `<defs><style>${fontCss}</style></defs>` : '',
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    ...parts,
+    `</svg>`,
+  ].filter(Boolean).join('\n')
+}
+
+/**
+ * Standalone SVG for a rendered chart
+ */
+export async function buildChartSvg(source: SVGSVGElement, options: SvgExportOptions = {}): Promise<string> {
+  const rect = source.getBoundingClientRect()
+  const width = Math.round(rect.width || Number(source.getAttribute('width')) || 800)
+  const height = Math.round(rect.height || Number(source.getAttribute('height')) || 400)
+
+  const clone = cloneWithInlineStyles(source)
+  clone.setAttribute('width', String(width))
+  clone.setAttribute('height', String(height))
+  if (!clone.getAttribute('viewBox')) clone.setAttribute('viewBox', `0 0 ${width} ${height}`)
+  clone.removeAttribute('style')
+
+  const fontCss = await getEmbeddedFontCss(getUsedFontFamilies(source))
+  const markup = new XMLSerializer().serializeToString(clone)
+  return composeSvg({ markup, width, height }, options, fontCss)
+}
+
+/**
+ * The chart <svg> inside a Recharts container (legend icons are separate, smaller SVGs)
+ */
+export function findRechartsSvg(container: HTMLElement | null): SVGSVGElement | null {
+  return container?.querySelector<SVGSVGElement>('.recharts-wrapper > svg') ?? null
+}
+
+/**
+ * Standalone SVG for a grid chart that is rendered as HTML (the matrix heatmap)
+ */
+export function buildGridSvg(grid: SvgGridData, options: SvgExportOptions = {}): string {
+  const rowHeaderWidth = Math.max(140, ...grid.rowLabels.map(label => estimateTextWidth(label, 12) + 16))
+  const cellWidth = 110
+  const cellHeight = 28
+  const headerHeight = 32
+  const width = rowHeaderWidth + cellWidth * grid.columnLabels.length
+  const height = headerHeight + cellHeight * grid.rowLabels.length
+  const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text
+
+  const cells: string[] = []
+  cells.push(`<rect x="0" y="0" width="${rowHeaderWidth}" height="${headerHeight}" fill="#F3F4F6" stroke="#D1D5DB"/>`)
+  cells.push(`<text x="8" y="${headerHeight / 2}" font-size="12" font-weight="600" dominant-baseline="central" fill="#000000">${escapeXml(grid.rowHeader)}</text>`)
+  grid.columnLabels.forEach((label, column) => {
+    const x = rowHeaderWidth + column * cellWidth
+    cells.push(`<rect x="${x}" y="0" width="${cellWidth}" height="${headerHeight}" fill="#F3F4F6" stroke="#D1D5DB"/>`)
+    cells.push(`<text x="${x + cellWidth / 2}" y="${headerHeight / 2}" font-size="11" font-weight="600" text-anchor="middle" dominant-baseline="central" fill="#000000"><title>${escapeXml(label)}</title>${escapeXml(truncate(label, 16))}</text>`)
+  })
+  grid.rowLabels.forEach((label, row) => {
+    const y = headerHeight + row * cellHeight
+    cells.push(`<rect x="0" y="${y}" width="${rowHeaderWidth}" height="${cellHeight}" fill="#F3F4F6" stroke="#D1D5DB"/>`)
+    cells.push(`<text x="8" y="${y + cellHeight / 2}" font-size="12" dominant-baseline="central" fill="#000000">${escapeXml(label)}</text>`)
+    grid.columnLabels.forEach((_, column) => {
+      const value = grid.values[row]?.[column] ?? 0
+      const x = rowHeaderWidth + column * cellWidth
+      cells.push(`<rect x="${x}" y="${y}" width="${cellWidth}" height="${cellHeight}" fill="${escapeXml(grid.cellColor(value))}" stroke="#D1D5DB"/>`)
+      cells.push(`<text x="${x + cellWidth / 2}" y="${y + cellHeight / 2}" font-size="11" font-weight="500" text-anchor="middle" dominant-baseline="central" fill="#000000">${escapeXml(grid.formatValue(value))}</text>`)
+    })
+  })
+
+  return composeSvg({ markup: cells.join(''), width, height }, options)
+}
+
+/**
+ * File name for a chart export, e.g. "global-widgets-market-grouped-bar-2025-01-31"
+ */
+export function getChartExportFileName(marketName: string, chartName: string): string {
+  const slug = `${marketName}-${chartName}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+  return `${slug}-${new Date().toISOString().split('T')[0]}`
+}
+
+export function downloadSvg(svg: string, fileName: string): void {
+  saveAs(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), `${fileName}.svg`)
+}
+
+/**
+ * Rasterize an SVG document to PNG at the given scale (3 = roughly 300 DPI at print size)
+ */
+export async function downloadSvgAsPng(svg: string, fileName: string, scale = 3): Promise<void> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }))
+  try {
+    const image = new Image()
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve()
+      image.onerror = () => reject(new Error('The SVG could not be rendered'))
+      image.src = url
+    })
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(image.width * scale)
+    canvas.height = Math.round(image.height * scale)
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas is not available')
+    context.scale(scale, scale)
+    context.drawImage(image, 0, 0)
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+    if (!blob) throw new Error('PNG encoding failed')
+    saveAs(blob, `${fileName}.png`)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import {
+  alignColumnMapping,
+  parseCsv,
+  parseNumericCell,
+  parseYearHeader,
+  processTabularData,
+  suggestColumnMapping,
+  tabularToRawJson
+} from './tabular-import'
+
+const CSV = [
+  'Region,Segment,Sub-segment,2023,2024E,CAGR (%)',
+  'Europe,Powder,,40,45,12.5%',
+  'Europe,Powder,Fine,10,12,20',
+  'Europe,Powder,Coarse,30,33,10',
+  'Asia,Liquid,,"1,200",n/a,',
+].join('\n')
+
+describe('parseYearHeader', () => {
+  it.each([
+    ['2024', 2024],
+    ['FY2024', 2024],
+    ["CY '2025", 2025],
+    ['2025E', 2025],
+    ['2026 (F)', 2026],
+    ['Revenue 2024', null],
+    ['1850', null],
+    ['CAGR', null]
+  ])('reads %j as %s', (header, year) => {
+    expect(parseYearHeader(header)).toBe(year)
+  })
+})
+
+describe('parseNumericCell', () => {
+  it.each([
+    [12, 12],
+    ['1,234.5', 1234.5],
+    ['$ 12', 12],
+    ['€3', 3],
+    ['12.5%', 12.5],
+    ['-4', -4],
+    ['n/a', null],
+    ['--', null],
+    ['', null],
+    [null, null],
+    ['twelve', null],
+    [Number.NaN, null]
+  ])('reads %j as %s', (cell, value) => {
+    expect(parseNumericCell(cell)).toBe(value)
+  })
+})
+
+describe('parseCsv', () => {
+  it('parses quoted fields, escaped quotes and CRLF line endings', () => {
+    const sheet = parseCsv('﻿Name,Note\r\n"Acme, Inc.","Say ""hi""\nthere"\r\n\r\nBeta,\n', 'companies.csv')
+    expect(sheet).toEqual({
+      name: 'companies.csv',
+      headers: ['Name', 'Note'],
+      rows: [['Acme, Inc.', 'Say "hi"\nthere'], ['Beta', '']]
+    })
+  })
+
+  it('detects semicolon and tab delimiters from the header line', () => {
+    expect(parseCsv('a;b;c\n1;2,5;3', 'x').rows).toEqual([['1', '2,5', '3']])
+    expect(parseCsv('a\tb\n1\t2', 'x').rows).toEqual([['1', '2']])
+  })
+
+  it('names missing headers after their column', () => {
+    expect(parseCsv('a,\n1,2,3', 'x').headers).toEqual(['a', 'Column 2', 'Column 3'])
+  })
+})
+
+describe('suggestColumnMapping', () => {
+  it('finds the geography, segment levels, years and CAGR columns', () => {
+    expect(suggestColumnMapping(parseCsv(CSV, 'value.csv').headers)).toEqual({
+      geography: 0,
+      segmentType: null,
+      defaultSegmentType: 'By Segment',
+      segmentLevels: [1, 2],
+      years: [{ column: 3, year: 2023 }, { column: 4, year: 2024 }],
+      cagr: 5
+    })
+  })
+
+  it('finds a segment type column apart from the geography', () => {
+    const mapping = suggestColumnMapping(['Segment Type', 'Country', 'Segment', '2024'])
+    expect(mapping).toMatchObject({ segmentType: 0, geography: 1, segmentLevels: [2] })
+  })
+})
+
+describe('alignColumnMapping', () => {
+  it('moves a mapping to the same headers in another order', () => {
+    const mapping = suggestColumnMapping(['Region', 'Segment', '2023', '2024'])
+    expect(alignColumnMapping(mapping, ['Region', 'Segment', '2023', '2024'], ['2024', '2023', 'Segment', 'Region'])).toMatchObject({
+      geography: 3,
+      segmentLevels: [2],
+      years: [{ column: 1, year: 2023 }, { column: 0, year: 2024 }]
+    })
+  })
+
+  it('fails when a mapped header is missing', () => {
+    const mapping = suggestColumnMapping(['Region', 'Segment', '2023'])
+    expect(() => alignColumnMapping(mapping, ['Region', 'Segment', '2023'], ['Region', '2023']))
+      .toThrow('Column "Segment" not found in the volume sheet')
+  })
+})
+
+describe('tabularToRawJson', () => {
+  it('nests rows by geography, segment type and level and marks parents as aggregates', () => {
+    const sheet = parseCsv(CSV, 'value.csv')
+    const result = tabularToRawJson(sheet, suggestColumnMapping(sheet.headers))
+    expect(result.rowCount).toBe(4)
+    expect(result.warnings).toEqual([])
+    expect(result.data).toEqual({
+      Europe: {
+        'By Segment': {
+          Powder: {
+            '2023': 40, '2024': 45, CAGR: 12.5, _aggregated: true, _level: 2,
+            Fine: { '2023': 10, '2024': 12, CAGR: 20 },
+            Coarse: { '2023': 30, '2024': 33, CAGR: 10 }
+          }
+        }
+      },
+      Asia: { 'By Segment': { Liquid: { '2023': 1200 } } }
+    })
+  })
+
+  it('skips unusable rows with a warning naming the sheet row', () => {
+    const sheet = parseCsv([
+      'Region,Segment,Sub-segment,2023',
+      ',Powder,,1',
+      'Europe,,Fine,1',
+      'Europe,Powder,,n/a',
+      'Europe,Powder,,2',
+      'Europe,Powder,,3'
+    ].join('\n'), 'value.csv')
+    const result = tabularToRawJson(sheet, suggestColumnMapping(sheet.headers))
+    expect(result.rowCount).toBe(2)
+    expect(result.warnings).toEqual([
+      'value.csv row 2: no geography, skipped',
+      'value.csv row 3: gap in the segment levels, skipped',
+      'value.csv row 4: no numeric year values, skipped',
+      'value.csv row 6: duplicate row for Europe > By Segment > Powder, replacing the earlier one'
+    ])
+    expect(result.data.Europe['By Segment'].Powder).toEqual({ '2023': 3 })
+  })
+
+  it('requires a geography column and at least one year column', () => {
+    const sheet = parseCsv('Region,Segment\nEurope,Powder', 'value.csv')
+    expect(() => tabularToRawJson(sheet, { ...suggestColumnMapping(sheet.headers), geography: null }))
+      .toThrow('value.csv: select the geography column')
+    expect(() => tabularToRawJson(sheet, suggestColumnMapping(sheet.headers)))
+      .toThrow('value.csv: select at least one year column')
+  })
+})
+
+describe('processTabularData', () => {
+  it('produces a dataset from a mapped sheet', async () => {
+    const sheet = parseCsv(CSV, 'value.csv')
+    const { data, warnings } = await processTabularData({ sheet, mapping: suggestColumnMapping(sheet.headers) }, null)
+    expect(warnings).toEqual([])
+    expect(data.metadata.years).toEqual([2023, 2024])
+    expect(data.dimensions.geographies.all_geographies).toEqual(['Europe', 'Asia'])
+    const fine = data.data.value.geography_segment_matrix.find(record => record.segment === 'Fine')
+    expect(fine?.time_series).toEqual({ 2023: 10, 2024: 12 })
+  })
+
+  it('rejects a sheet without importable rows', async () => {
+    const sheet = parseCsv('Region,Segment,2023\n,Powder,1', 'value.csv')
+    await expect(processTabularData({ sheet, mapping: suggestColumnMapping(sheet.headers) }, null))
+      .rejects.toThrow('value.csv: no rows could be imported')
+  })
+})
@@ -0,0 +1,353 @@
+/**
+ * Tabular Import
+ * Maps wide CSV/XLSX sheets (one row per geography/segment path, one column per year)
+ * into the nested RawJsonData shape understood by json-processor
+ */
+
+import type { ComparisonData, YearConfig } from './types'
+import { processJsonDataAsync, type RawJsonData } from './json-processor'
+
+export type TabularCell = string | number | null
+
+export interface TabularSheet {
+  name: string
+  headers: string[]
+  rows: TabularCell[][]
+}
+
+/**
+ * Which columns hold what; all columns are referenced by index into `TabularSheet.headers`
+ */
+export interface TabularColumnMapping {
+  geography: number | null
+  segmentType: number | null // null: every row belongs to defaultSegmentType
+  defaultSegmentType: string
+  segmentLevels: number[] // Level 1 first; trailing empty cells make a row a parent aggregate
+  years: Array<{ column: number; year: number }>
+  cagr: number | null
+}
+
+export interface TabularConversionResult {
+  data: RawJsonData
+  rowCount: number
+  warnings: string[]
+}
+
+export const TABULAR_FILE_ACCEPT = '.csv,.tsv,.txt,.xlsx'
+
+const YEAR_HEADER = /^\s*(?:FY|CY)?\s*'?((?:19|20)\d{2})\s*(?:[AEFP]|\([^)]*\))?\s*$/i
+const EMPTY_MARKERS = new Set(['', '-', '--', 'n/a', 'na', '#n/a'])
+const MAX_WARNINGS = 50
+
+/**
+ * Read the year from a header such as "2024", "FY2024", "2025E" or "2026 (F)"
+ */
+export function parseYearHeader(header: string): number | null {
+  const match = YEAR_HEADER.exec(header)
+  return match ? parseInt(match[1], 10) : null
+}
+
+function cellText(cell: TabularCell | undefined): string {
+  if (cell === null || cell === undefined) return ''
+  return String(cell).trim()
+}
+
+/**
+ * Convert a cell to a number, accepting thousands separators, currency symbols and percentages
+ */
+export function parseNumericCell(cell: TabularCell | undefined): number | null {
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null
+  const text = cellText(cell)
+  if (EMPTY_MARKERS.has(text.toLowerCase())) return null
+  const cleaned = text.replace(/[,\s$€£¥%]/g, '')
+  const parsed = Number(cleaned)
+  return cleaned !== '' && Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * Parse delimited text (RFC 4180 quoting); the delimiter is detected from the header line
+ */
+export function parseCsv(text: string, name: string): TabularSheet {
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const firstLine = content.slice(0, content.search(/\r?\n|$/))
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return toSheet(name, rows)
+}
+
+/**
+ * Use the first non-empty row as headers and drop blank rows
+ */
+function toSheet(name: string, rawRows: TabularCell[][]): TabularSheet {
+  const rows = rawRows.filter(row => row.some(cell => cellText(cell) !== ''))
+  const [headerRow = [], ...dataRows] = rows
+  const width = Math.max(headerRow.length, ...dataRows.map(row => row.length))
+  const headers = Array.from({ length: width }, (_, index) => cellText(headerRow[index]) || `Column ${index + 1}`)
+  return { name, headers, rows: dataRows }
+}
+
+/**
+ * Read every worksheet of an .xlsx workbook
+ * exceljs is loaded on demand so it stays out of the main bundle
+ */
+export async function readXlsxSheets(buffer: ArrayBuffer): Promise<TabularSheet[]> {
+  const ExcelJS = await import('exceljs')
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer)
+
+  const sheets: TabularSheet[] = []
+  workbook.eachSheet(worksheet => {
+    const rows: TabularCell[][] = []
+    worksheet.eachRow({ includeEmpty: true }, row => {
+      const cells: TabularCell[] = []
+      for (let column = 1; column <= worksheet.columnCount; column++) {
+        const cell = row.getCell(column)
+        let value: unknown = cell.value
+        if (value instanceof Date) {
+          value = value.getFullYear()
+        } else if (value && typeof value === 'object') {
+          if ('result' in value) value = value.result // Formula
+          else if ('richText' in value) value = (value.richText as Array<{ text: string }>).map(part => part.text).join('')
+          else if ('text' in value) value = value.text // Hyperlink
+          else value = null
+        }
+        // Percent-formatted cells hold fractions (0.052 for 5.2%)
+        if (typeof value === 'number' && cell.numFmt?.includes('%')) {
+          value = value * 100
+        }
+        cells.push(typeof value === 'number' || typeof value === 'string' ? value : null)
+      }
+      rows.push(cells)
+    })
+    if (rows.length > 0) {
+      sheets.push(toSheet(worksheet.name, rows))
+    }
+  })
+  return sheets
+}
+
+/**
+ * Read a CSV/TSV or XLSX file selected in the browser into sheets
+ */
+export async function readTabularFile(file: File): Promise<TabularSheet[]> {
+  const name = file.name.toLowerCase()
+  if (name.endsWith('.xlsx')) {
+    return readXlsxSheets(await file.arrayBuffer())
+  }
+  if (name.endsWith('.xls')) {
+    throw new Error(`${file.name}: legacy .xls workbooks are not supported, save it as .xlsx or CSV`)
+  }
+  return [parseCsv(await file.text(), file.name)]
+}
+
+/**
+ * Guess a column mapping from header names
+ * Year columns are detected from the header; text columns before the first year
+ * that are not geography/segment type/CAGR become the segment levels
+ */
+export function suggestColumnMapping(headers: string[]): TabularColumnMapping {
+  const years = headers
+    .map((header, column) => ({ column, year: parseYearHeader(header) }))
+    .filter((entry): entry is { column: number; year: number } => entry.year !== null)
+  const yearColumns = new Set(years.map(entry => entry.column))
+
+  const findColumn = (pattern: RegExp, exclude: Array<number | null> = []) => {
+    const index = headers.findIndex(
+      (header, column) => !yearColumns.has(column) && !exclude.includes(column) && pattern.test(header)
+    )
+    return index >= 0 ? index : null
+  }
+
+  const segmentType = findColumn(/segment\s*type|dimension/i)
+  const geography = findColumn(/geograph|region|country|market/i, [segmentType])
+  const cagr = findColumn(/cagr/i, [segmentType, geography])
+  const firstYearColumn = years.length > 0 ? years[0].column : headers.length
+  const segmentLevels = headers
+    .map((_, column) => column)
+    .filter(column => column < firstYearColumn && ![geography, segmentType, cagr].includes(column))
+
+  return {
+    geography,
+    segmentType,
+    defaultSegmentType: 'By Segment',
+    segmentLevels,
+    years,
+    cagr,
+  }
+}
+
+/**
+ * Re-target a mapping made for one sheet at another sheet with the same header names
+ * (e.g. apply the value sheet's mapping to the volume sheet)
+ */
+export function alignColumnMapping(
+  mapping: TabularColumnMapping,
+  fromHeaders: string[],
+  toHeaders: string[]
+): TabularColumnMapping {
+  const remap = (column: number): number => {
+    const index = toHeaders.indexOf(fromHeaders[column])
+    if (index < 0) {
+      throw new Error(`Column "${fromHeaders[column]}" not found in the volume sheet`)
+    }
+    return index
+  }
+  const remapOptional = (column: number | null) => (column === null ? null : remap(column))
+
+  return {
+    ...mapping,
+    geography: remapOptional(mapping.geography),
+    segmentType: remapOptional(mapping.segmentType),
+    segmentLevels: mapping.segmentLevels.map(remap),
+    years: mapping.years.map(entry => ({ column: remap(entry.column), year: entry.year })),
+    cagr: remapOptional(mapping.cagr),
+  }
+}
+
+/**
+ * Flag nodes that carry year data and also have child segments as aggregates,
+ * matching the `_aggregated`/`_level` convention of the JSON exports
+ */
+function markAggregates(node: Record<string, unknown>, level: number): void {
+  const childKeys = Object.keys(node).filter(key => node[key] && typeof node[key] === 'object')
+  const hasYearData = Object.keys(node).some(key => /^\d{4}$/.test(key))
+  if (hasYearData && childKeys.length > 0 && node._aggregated === undefined) {
+    node._aggregated = true
+    node._level = level
+  }
+  childKeys.forEach(key => markAggregates(node[key] as Record<string, unknown>, level + 1))
+}
+
+/**
+ * Convert a mapped sheet into nested RawJsonData (geography -> segment type -> levels -> years)
+ */
+export function tabularToRawJson(sheet: TabularSheet, mapping: TabularColumnMapping): TabularConversionResult {
+  if (mapping.geography === null) {
+    throw new Error(`${sheet.name}: select the geography column`)
+  }
+  if (mapping.years.length === 0) {
+    throw new Error(`${sheet.name}: select at least one year column`)
+  }
+
+  const data: RawJsonData = {}
+  const warnings: string[] = []
+  let rowCount = 0
+  const warn = (rowIndex: number, message: string) => {
+    if (warnings.length < MAX_WARNINGS) {
+      // +2: one for the header row, one for 1-based row numbers
+      warnings.push(`${sheet.name} row ${rowIndex + 2}: ${message}`)
+    }
+  }
+
+  sheet.rows.forEach((row, rowIndex) => {
+    const geography = cellText(row[mapping.geography!])
+    if (!geography) {
+      warn(rowIndex, 'no geography, skipped')
+      return
+    }
+
+    const segmentType = (mapping.segmentType !== null && cellText(row[mapping.segmentType])) || mapping.defaultSegmentType
+    const levels = mapping.segmentLevels.map(column => cellText(row[column]))
+    while (levels.length > 0 && levels[levels.length - 1] === '') levels.pop()
+    if (levels.includes('')) {
+      warn(rowIndex, 'gap in the segment levels, skipped')
+      return
+    }
+
+    const yearValues: Record<string, number> = {}
+    mapping.years.forEach(({ column, year }) => {
+      const value = parseNumericCell(row[column])
+      if (value !== null) yearValues[String(year)] = value
+    })
+    if (Object.keys(yearValues).length === 0) {
+      warn(rowIndex, 'no numeric year values, skipped')
+      return
+    }
+
+    data[geography] ??= {}
+    data[geography][segmentType] ??= {}
+    let node: Record<string, unknown> = data[geography][segmentType]
+    for (const level of levels) {
+      node[level] ??= {}
+      node = node[level] as Record<string, unknown>
+    }
+    if (Object.keys(node).some(key => /^\d{4}$/.test(key))) {
+      warn(rowIndex, `duplicate row for ${[geography, segmentType, ...levels].join(' > ')}, replacing the earlier one`)
+    }
+
+    Object.assign(node, yearValues)
+    const cagr = mapping.cagr !== null ? parseNumericCell(row[mapping.cagr]) : null
+    if (cagr !== null) node.CAGR = cagr
+    rowCount++
+  })
+
+  Object.values(data).forEach(segmentTypes => {
+    Object.values(segmentTypes).forEach(node => markAggregates(node, 1))
+  })
+
+  return { data, rowCount, warnings }
+}
+
+/**
+ * Convert mapped value (and optional volume) sheets and run them through the JSON processor
+ * The value structure doubles as the segmentation structure
+ */
+export async function processTabularData(
+  value: { sheet: TabularSheet; mapping: TabularColumnMapping },
+  volume: { sheet: TabularSheet; mapping: TabularColumnMapping } | null,
+  yearConfig?: YearConfig | null
+): Promise<{ data: ComparisonData; warnings: string[] }> {
+  const valueResult = tabularToRawJson(value.sheet, value.mapping)
+  if (valueResult.rowCount === 0) {
+    throw new Error(`${value.sheet.name}: no rows could be imported`)
+  }
+  const volumeResult = volume ? tabularToRawJson(volume.sheet, volume.mapping) : null
+
+  const data = await processJsonDataAsync(
+    valueResult.data,
+    volumeResult && volumeResult.rowCount > 0 ? volumeResult.data : null,
+    valueResult.data,
+    undefined,
+    yearConfig
+  )
+  console.log(`📄 Imported ${valueResult.rowCount} value rows${volumeResult ? ` and ${volumeResult.rowCount} volume rows` : ''} from tables`)
+  return { data, warnings: [...valueResult.warnings, ...(volumeResult?.warnings ?? [])] }
+}
@@ -17,6 +17,13 @@ export interface Metadata {
   has_volume: boolean;
 }
 
+// Explicit year split for a dataset (embedded metadata block, query params or manifest file)
+export interface YearConfig {
+  base_year?: number;
+  historical_years?: number[];
+  forecast_years?: number[];
+}
+
 export interface GeographyDimension {
   global: string[];
   regions: string[];
@@ -55,6 +62,36 @@ export interface DataRecord {
   market_share: number;
   aggregation_level?: number | null; // Level at which this record is aggregated (from _level in JSON)
   is_aggregated?: boolean; // Whether this record is an aggregation (from _aggregated in JSON)
+  is_derived?: boolean; // Aggregate computed from leaf records because the JSON had no node for it
+}
+
+// Supplied parent aggregate whose values disagree with the sum of its leaf records
+export interface AggregationDiscrepancy {
+  data_type: 'value' | 'volume';
+  geography: string;
+  segment_type: string;
+  segment_path: string[]; // Empty for the segment type total
+  year: number; // Year with the largest relative difference
+  supplied: number;
+  rolled_up: number;
+  difference_pct: number;
+  years_affected: number;
+}
+
+export interface AggregationReport {
+  derived_records: { value: number; volume: number };
+  discrepancies: AggregationDiscrepancy[];
+  discrepancy_count: number; // Total found; the list itself is capped
+}
+
+export type DatasetSourceRole = 'value' | 'volume' | 'segmentation';
+
+// Provenance of a processed dataset, recorded when it is processed and carried into exported bundles
+export interface DatasetSource {
+  processor_version: string;
+  processed_at: string; // ISO timestamp
+  files: Partial<Record<DatasetSourceRole, { name: string; sha256: string }>>;
+  year_config?: YearConfig | null;
 }
 
 export interface ComparisonData {
@@ -71,6 +108,8 @@ export interface ComparisonData {
       geography_segment_matrix: DataRecord[];
     };
   };
+  aggregation?: AggregationReport;
+  source?: DatasetSource;
 }
 
 export interface FilterState {
@@ -85,6 +124,11 @@ export interface FilterState {
   advancedSegments?: Array<{ type: string; segment: string; id: string }>; // Advanced segment selection with type info
 }
 
+// Chart options that are not filters, kept in the store so saved views can restore them
+export interface ChartSettings {
+  bubbleMaxBubbles: number; // Bubble count limit in the opportunity matrix
+}
+
 export interface ChartDataPoint {
   year: number;
   [key: string]: number | string;
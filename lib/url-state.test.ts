@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import { hasDashboardState, parseDashboardState, reconcileUrlFilters, serializeDashboardState } from './url-state'
+import type { ComparisonData, FilterState } from './types'
+
+const FILTERS: FilterState = {
+  geographies: ['North America', 'Europe'],
+  segments: ['Powder, fine'],
+  segmentType: 'By Type',
+  yearRange: [2024, 2030],
+  dataType: 'value',
+  viewMode: 'segment-mode',
+  businessType: undefined,
+  aggregationLevel: null,
+  advancedSegments: []
+}
+
+function dataset(overrides: { hasVolume?: boolean; years?: number[] } = {}): ComparisonData {
+  const years = overrides.years ?? [2020, 2024, 2030]
+  return {
+    metadata: {
+      market_name: 'Spices',
+      market_type: 'Market Analysis',
+      industry: 'Food',
+      years,
+      start_year: years[0],
+      base_year: 2024,
+      forecast_year: years[years.length - 1],
+      historical_years: [],
+      forecast_years: [],
+      currency: 'USD',
+      value_unit: 'Million',
+      volume_unit: 'Tons',
+      has_value: true,
+      has_volume: overrides.hasVolume ?? false
+    },
+    dimensions: {
+      geographies: { global: [], regions: [], countries: {}, all_geographies: ['North America', 'Europe'] },
+      segments: {
+        'By Type': { type: 'hierarchical', items: ['Powder, fine', 'Liquid'], hierarchy: { Powder: ['Powder, fine'] } },
+        'By Use': { type: 'flat', items: ['Retail'], hierarchy: {}, b2b_items: ['Industrial'] }
+      }
+    },
+    data: { value: { geography_segment_matrix: [] }, volume: { geography_segment_matrix: [] } }
+  }
+}
+
+describe('serializeDashboardState / parseDashboardState', () => {
+  it('round-trips filters, chart group and tab, including names with commas', () => {
+    const search = serializeDashboardState({ market: 'Spices & Herbs', chartGroup: 'market-analysis', tab: 'line', filters: { ...FILTERS, aggregationLevel: 2 } })
+    expect(search).toContain('geo=North+America&geo=Europe')
+    expect(parseDashboardState(search)).toEqual({
+      market: 'Spices & Herbs',
+      chartGroup: 'market-analysis',
+      tab: 'line',
+      filters: {
+        geographies: ['North America', 'Europe'],
+        segments: ['Powder, fine'],
+        segmentType: 'By Type',
+        yearRange: [2024, 2030],
+        dataType: 'value',
+        viewMode: 'segment-mode',
+        aggregationLevel: 2
+      }
+    })
+  })
+
+  it('writes advanced segments with their segment type instead of plain segments', () => {
+    const filters = { ...FILTERS, advancedSegments: [{ type: 'By Use', segment: 'Retail', id: 'By Use::Retail' }] }
+    const search = serializeDashboardState({ market: null, chartGroup: 'market-analysis', tab: 'bar', filters })
+    expect(search).not.toContain('seg=')
+    expect(parseDashboardState(search).filters).toMatchObject({
+      advancedSegments: [{ type: 'By Use', segment: 'Retail', id: 'By Use::Retail' }],
+      segments: ['Retail']
+    })
+  })
+
+  it('ignores malformed values', () => {
+    expect(parseDashboardState('group=nope&tab=pie&years=2024&data=price&view=grid&biz=B2X&level=9&adv=::x')).toEqual({
+      market: null,
+      chartGroup: null,
+      tab: null,
+      filters: {}
+    })
+  })
+
+  it('orders a reversed year range', () => {
+    expect(parseDashboardState('years=2030-2024').filters.yearRange).toEqual([2024, 2030])
+  })
+
+  it('keeps an explicitly empty segment selection', () => {
+    expect(parseDashboardState('seg=').filters.segments).toEqual([])
+  })
+})
+
+describe('hasDashboardState', () => {
+  it('looks only for dashboard parameters', () => {
+    expect(hasDashboardState('?geo=Europe')).toBe(true)
+    expect(hasDashboardState('?utm_source=mail')).toBe(false)
+  })
+})
+
+describe('reconcileUrlFilters', () => {
+  it('drops what the dataset does not contain and lists it', () => {
+    const { filters, dropped } = reconcileUrlFilters({
+      segmentType: 'By Region',
+      geographies: ['Europe', 'Mars'],
+      segments: ['Liquid', 'Gel'],
+      yearRange: [2018, 2040],
+      dataType: 'volume',
+      businessType: 'B2B'
+    }, dataset(), FILTERS)
+
+    expect(filters).toEqual({ geographies: ['Europe'], segments: ['Liquid'], advancedSegments: [], yearRange: [2020, 2030] })
+    expect(dropped).toEqual([
+      'segment type "By Region"',
+      'geography "Mars"',
+      'segment "Gel"',
+      'years outside 2020-2030',
+      'volume data',
+      'business type B2B'
+    ])
+  })
+
+  it('keeps the current geographies when none from the link exist', () => {
+    expect(reconcileUrlFilters({ geographies: ['Mars'] }, dataset(), FILTERS).filters.geographies).toBeUndefined()
+  })
+
+  it('checks segments against the segment type from the link, including hierarchy parents', () => {
+    const { filters, dropped } = reconcileUrlFilters({ segmentType: 'By Use', segments: ['Industrial', 'Powder'], businessType: 'B2B' }, dataset(), FILTERS)
+    expect(filters).toMatchObject({ segmentType: 'By Use', segments: ['Industrial'], businessType: 'B2B' })
+    expect(dropped).toEqual(['segment "Powder"'])
+    expect(reconcileUrlFilters({ segments: ['Powder'] }, dataset(), FILTERS).filters.segments).toEqual(['Powder'])
+  })
+
+  it('checks advanced segments against their own segment type', () => {
+    const { filters, dropped } = reconcileUrlFilters({
+      advancedSegments: [
+        { type: 'By Use', segment: 'Retail', id: 'By Use::Retail' },
+        { type: 'By Type', segment: 'Retail', id: 'By Type::Retail' }
+      ]
+    }, dataset(), FILTERS)
+    expect(filters.advancedSegments?.map(entry => entry.id)).toEqual(['By Use::Retail'])
+    expect(filters.segments).toEqual(['Retail'])
+    expect(dropped).toEqual(['segment "Retail" (By Type)'])
+  })
+
+  it('keeps volume when the dataset has it', () => {
+    expect(reconcileUrlFilters({ dataType: 'volume' }, dataset({ hasVolume: true }), FILTERS)).toEqual({ filters: { dataType: 'volume' }, dropped: [] })
+  })
+})
@@ -0,0 +1,251 @@
+/**
+ * Shareable URL State
+ * Serializes filters, chart group and active tab into the query string and restores them,
+ * dropping anything the loaded dataset does not contain
+ */
+
+import type { ComparisonData, FilterState } from './types'
+import { CHART_GROUPS, type ChartGroupId } from './chart-groups'
+
+export const DASHBOARD_TABS = [
+  'bar',
+  'line',
+  'heatmap',
+  'table',
+  'waterfall',
+  'bubble',
+  'competitive-intelligence',
+  'customer-intelligence',
+  'cross-market',
+  'version-diff',
+] as const
+
+export type DashboardTab = typeof DASHBOARD_TABS[number]
+
+export interface DashboardUrlState {
+  market: string | null
+  chartGroup: ChartGroupId | null
+  tab: DashboardTab | null
+  filters: Partial<FilterState>
+}
+
+// Query parameter names (short, so links stay readable)
+const PARAMS = {
+  market: 'market',
+  chartGroup: 'group',
+  tab: 'tab',
+  geographies: 'geo',
+  segments: 'seg',
+  advancedSegments: 'adv',
+  segmentType: 'segType',
+  yearRange: 'years',
+  dataType: 'data',
+  viewMode: 'view',
+  businessType: 'biz',
+  aggregationLevel: 'level',
+} as const
+
+const VIEW_MODES: FilterState['viewMode'][] = ['segment-mode', 'geography-mode', 'matrix']
+
+/**
+ * Query string (without "?") for the given dashboard state
+ * Lists use repeated parameters so names containing commas survive
+ */
+export function serializeDashboardState(state: {
+  market: string | null
+  chartGroup: ChartGroupId
+  tab: DashboardTab
+  filters: FilterState
+}): string {
+  const params = new URLSearchParams()
+  const { filters } = state
+
+  if (state.market) params.set(PARAMS.market, state.market)
+  params.set(PARAMS.chartGroup, state.chartGroup)
+  params.set(PARAMS.tab, state.tab)
+  filters.geographies.forEach(geography => params.append(PARAMS.geographies, geography))
+  if (filters.advancedSegments && filters.advancedSegments.length > 0) {
+    filters.advancedSegments.forEach(({ type, segment }) => params.append(PARAMS.advancedSegments, `${type}::${segment}`))
+  } else {
+    filters.segments.forEach(segment => params.append(PARAMS.segments, segment))
+  }
+  if (filters.segmentType) params.set(PARAMS.segmentType, filters.segmentType)
+  params.set(PARAMS.yearRange, `${filters.yearRange[0]}-${filters.yearRange[1]}`)
+  params.set(PARAMS.dataType, filters.dataType)
+  params.set(PARAMS.viewMode, filters.viewMode)
+  if (filters.businessType) params.set(PARAMS.businessType, filters.businessType)
+  if (filters.aggregationLevel !== null && filters.aggregationLevel !== undefined) {
+    params.set(PARAMS.aggregationLevel, String(filters.aggregationLevel))
+  }
+
+  return params.toString()
+}
+
+/**
+ * Read dashboard state from a query string
+ * Only syntax is checked here; see reconcileUrlFilters for checks against the dataset
+ */
+export function parseDashboardState(search: string): DashboardUrlState {
+  const params = new URLSearchParams(search)
+  const filters: Partial<FilterState> = {}
+
+  const geographies = params.getAll(PARAMS.geographies).filter(Boolean)
+  if (geographies.length > 0) filters.geographies = geographies
+
+  const advancedSegments = params.getAll(PARAMS.advancedSegments)
+    .map(id => {
+      const separator = id.indexOf('::')
+      return separator > 0 ? { type: id.slice(0, separator), segment: id.slice(separator + 2), id } : null
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+  if (advancedSegments.length > 0) {
+    filters.advancedSegments = advancedSegments
+    filters.segments = advancedSegments.map(entry => entry.segment)
+  } else if (params.has(PARAMS.segments)) {
+    filters.segments = params.getAll(PARAMS.segments).filter(Boolean)
+  }
+
+  const segmentType = params.get(PARAMS.segmentType)
+  if (segmentType) filters.segmentType = segmentType
+
+  const years = /^(\d{4})-(\d{4})$/.exec(params.get(PARAMS.yearRange) || '')
+  if (years) {
+    const start = parseInt(years[1], 10)
+    const end = parseInt(years[2], 10)
+    filters.yearRange = [Math.min(start, end), Math.max(start, end)]
+  }
+
+  const dataType = params.get(PARAMS.dataType)
+  if (dataType === 'value' || dataType === 'volume') filters.dataType = dataType
+
+  const viewMode = params.get(PARAMS.viewMode) as FilterState['viewMode'] | null
+  if (viewMode && VIEW_MODES.includes(viewMode)) filters.viewMode = viewMode
+
+  const businessType = params.get(PARAMS.businessType)
+  if (businessType === 'B2B' || businessType === 'B2C') filters.businessType = businessType
+
+  const level = parseInt(params.get(PARAMS.aggregationLevel) || '', 10)
+  if (level >= 1 && level <= 6) filters.aggregationLevel = level
+
+  const chartGroup = params.get(PARAMS.chartGroup)
+  const tab = params.get(PARAMS.tab)
+
+  return {
+    market: params.get(PARAMS.market),
+    chartGroup: CHART_GROUPS.some(group => group.id === chartGroup) ? chartGroup as ChartGroupId : null,
+    tab: DASHBOARD_TABS.includes(tab as DashboardTab) ? tab as DashboardTab : null,
+    filters,
+  }
+}
+
+/**
+ * Whether the URL carries any dashboard state worth restoring
+ */
+export function hasDashboardState(search: string): boolean {
+  const params = new URLSearchParams(search)
+  return Object.values(PARAMS).some(name => params.has(name))
+}
+
+function getSegmentNames(data: ComparisonData, segmentType: string): Set<string> {
+  const dimension = data.dimensions.segments[segmentType]
+  const names = new Set<string>()
+  if (!dimension) return names
+  const add = (items?: string[]) => items?.forEach(item => names.add(item))
+  const addHierarchy = (hierarchy?: Record<string, string[]>) => {
+    Object.entries(hierarchy || {}).forEach(([parent, children]) => {
+      names.add(parent)
+      add(children)
+    })
+  }
+  add(dimension.items)
+  add(dimension.b2b_items)
+  add(dimension.b2c_items)
+  addHierarchy(dimension.hierarchy)
+  addHierarchy(dimension.b2b_hierarchy)
+  addHierarchy(dimension.b2c_hierarchy)
+  return names
+}
+
+/**
+ * Fit filters from a link to the loaded dataset
+ * Unknown geographies, segment types and segments are dropped (and listed), years are
+ * clamped to the dataset's range, and volume or B2B/B2C are ignored when the dataset has none
+ */
+export function reconcileUrlFilters(
+  filters: Partial<FilterState>,
+  data: ComparisonData,
+  current: FilterState
+): { filters: Partial<FilterState>; dropped: string[] } {
+  const result: Partial<FilterState> = {}
+  const dropped: string[] = []
+
+  const segmentTypes = Object.keys(data.dimensions.segments)
+  if (filters.segmentType !== undefined) {
+    if (segmentTypes.includes(filters.segmentType)) {
+      result.segmentType = filters.segmentType
+    } else {
+      dropped.push(`segment type "${filters.segmentType}"`)
+    }
+  }
+  const segmentType = result.segmentType ?? current.segmentType
+
+  if (filters.geographies) {
+    const available = new Set(data.dimensions.geographies.all_geographies)
+    const kept = filters.geographies.filter(geography => available.has(geography))
+    // Keep the current selection rather than leaving the charts without any geography
+    if (kept.length > 0) result.geographies = kept
+    filters.geographies
+      .filter(geography => !available.has(geography))
+      .forEach(geography => dropped.push(`geography "${geography}"`))
+  }
+
+  if (filters.advancedSegments) {
+    result.advancedSegments = filters.advancedSegments.filter(({ type, segment }) => {
+      const valid = getSegmentNames(data, type).has(segment)
+      if (!valid) dropped.push(`segment "${segment}" (${type})`)
+      return valid
+    })
+    result.segments = result.advancedSegments.map(entry => entry.segment)
+  } else if (filters.segments) {
+    const available = getSegmentNames(data, segmentType)
+    result.segments = filters.segments.filter(segment => available.has(segment))
+    filters.segments
+      .filter(segment => !available.has(segment))
+      .forEach(segment => dropped.push(`segment "${segment}"`))
+    result.advancedSegments = []
+  }
+
+  if (filters.yearRange) {
+    const years = data.metadata.years
+    const minYear = Math.min(...years)
+    const maxYear = Math.max(...years)
+    const clamp = (year: number) => Math.min(maxYear, Math.max(minYear, year))
+    result.yearRange = [clamp(filters.yearRange[0]), clamp(filters.yearRange[1])]
+    if (result.yearRange[0] !== filters.yearRange[0] || result.yearRange[1] !== filters.yearRange[1]) {
+      dropped.push(`years outside ${minYear}-${maxYear}`)
+    }
+  }
+
+  if (filters.dataType) {
+    if (filters.dataType === 'volume' && !data.metadata.has_volume) {
+      dropped.push('volume data')
+    } else {
+      result.dataType = filters.dataType
+    }
+  }
+
+  if (filters.viewMode) result.viewMode = filters.viewMode
+  if (filters.businessType) {
+    const dimension = data.dimensions.segments[segmentType]
+    const hasBusinessTypes = !!(dimension?.b2b_items?.length || dimension?.b2c_items?.length ||
+      dimension?.b2b_hierarchy || dimension?.b2c_hierarchy)
+    if (hasBusinessTypes) {
+      result.businessType = filters.businessType
+    } else {
+      dropped.push(`business type ${filters.businessType}`)
+    }
+  }
+  if (filters.aggregationLevel !== undefined) result.aggregationLevel = filters.aggregationLevel
+
+  return { filters: result, dropped }
+}
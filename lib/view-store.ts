@@ -0,0 +1,22 @@
+/**
+ * Saved View Store
+ * Views and storyboards kept in JSON files on the server, grouped by market name
+ */
+
+import type { SavedView, Storyboard } from './saved-views'
+import { createMarketItemStore } from './market-item-store'
+
+export const viewStore = createMarketItemStore<SavedView>('saved-views.json')
+export const storyboardStore = createMarketItemStore<Storyboard>('storyboards.json')
+
+/**
+ * Delete a view and drop it from the market's storyboards
+ */
+export async function deleteView(market: string, id: string): Promise<{ views: SavedView[]; storyboards: Storyboard[] }> {
+  const views = await viewStore.remove(market, id)
+  const storyboards = await storyboardStore.update(market, items => items.map(storyboard => ({
+    ...storyboard,
+    slides: storyboard.slides.filter(slide => slide.viewId !== id),
+  })))
+  return { views, storyboards }
+}
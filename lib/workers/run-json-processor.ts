@@ -0,0 +1,74 @@
+/**
+ * Main-thread side of the JSON processing worker
+ * Spawns the worker, relays its progress messages and resolves with the ComparisonData
+ *
+ * Node cannot run json-processor.worker.ts directly, so `npm run build:worker` (the first step
+ * of the dev and build scripts) bundles it with its imports into dist/json-processor.worker.js.
+ * The bundler copies that file next to the server output, standalone output included, because
+ * it is referenced through `new URL`; without the bundle the route fails to compile.
+ */
+
+import { Worker } from 'worker_threads'
+import type { ComparisonData } from '../types'
+import type { ProcessingRequest, ProcessingResult } from './json-processor.worker'
+
+export type WorkerProgressCallback = (progress: number, message: string) => void
+
+/**
+ * Run JSON processing off the request thread
+ * The worker is terminated once it reports a result or an error, or when `signal` aborts
+ */
+export function runJsonProcessingWorker(
+  request: ProcessingRequest,
+  onProgress?: WorkerProgressCallback,
+  signal?: AbortSignal
+): Promise<ComparisonData> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Processing was cancelled'))
+      return
+    }
+
+    let worker: Worker
+    try {
+      worker = new Worker(new URL('./dist/json-processor.worker.js', import.meta.url))
+    } catch (error) {
+      reject(new Error(`Could not start the processing worker (run npm run build:worker): ${error instanceof Error ? error.message : String(error)}`))
+      return
+    }
+    let settled = false
+
+    const onAbort = () => finish(() => reject(new Error('Processing was cancelled')))
+    const finish = (callback: () => void) => {
+      if (settled) return
+      settled = true
+      signal?.removeEventListener('abort', onAbort)
+      worker.terminate().catch(() => undefined)
+      callback()
+    }
+    signal?.addEventListener('abort', onAbort)
+
+    worker.on('message', (message: ProcessingResult) => {
+      if (!message.success) {
+        finish(() => reject(new Error(message.error || 'Processing failed in worker')))
+        return
+      }
+
+      if (message.type === 'progress' || message.type === 'status') {
+        if (!settled) onProgress?.(message.progress ?? 0, message.message || '')
+      } else if (message.type === 'result') {
+        finish(() => resolve(message.data as ComparisonData))
+      }
+    })
+
+    worker.on('error', (error) => {
+      finish(() => reject(error))
+    })
+
+    worker.on('exit', (code) => {
+      finish(() => reject(new Error(`Processing worker exited unexpectedly with code ${code}`)))
+    })
+
+    worker.postMessage(request)
+  })
+}
@@ -0,0 +1,249 @@
+/**
+ * Excel Export
+ * Writes the current filtered view as an XLSX workbook: the filtered records' time series,
+ * a growth and share summary, the active filters and the dataset metadata.
+ * Values are numeric cells; the unit lives in the number format so the numbers stay usable in formulas
+ */
+
+import { saveAs } from 'file-saver'
+import type { Workbook, Worksheet } from 'exceljs'
+import type { ComparisonData, DataRecord, FilterState } from './types'
+import { filterData } from './data-processor'
+import { getUnitLabel } from './export-utils'
+
+export interface XlsxExportResult {
+  fileName: string
+  recordCount: number
+}
+
+const HEADER_FILL = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FF1E6091' } }
+const FORECAST_HEADER_FILL = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FF168AAD' } }
+const HEADER_FONT = { bold: true, color: { argb: 'FFFFFFFF' } }
+const PERCENT_FORMAT = '0.00%'
+
+/**
+ * Number format showing the unit after the value, e.g. #,##0.00 "USD Million"
+ */
+function getValueFormat(unit: string): string {
+  return unit ? `#,##0.00 "${unit.replace(/"/g, '')}"` : '#,##0.00'
+}
+
+function getYears(filters: FilterState): number[] {
+  const [startYear, endYear] = filters.yearRange
+  const years: number[] = []
+  for (let year = startYear; year <= endYear; year++) years.push(year)
+  return years
+}
+
+function getSegmentPath(record: DataRecord): string {
+  const { level_1, level_2, level_3, level_4, level_5 } = record.segment_hierarchy || {}
+  return [level_1, level_2, level_3, level_4, level_5].filter(Boolean).join(' > ')
+}
+
+/**
+ * Compound annual growth between two values, as a fraction (0.052 for 5.2%)
+ */
+function getCagr(startValue: number, endValue: number, periods: number): number | null {
+  if (startValue <= 0 || endValue < 0 || periods <= 0) return null
+  return Math.pow(endValue / startValue, 1 / periods) - 1
+}
+
+function styleHeaderRow(sheet: Worksheet) {
+  const header = sheet.getRow(1)
+  header.font = HEADER_FONT
+  header.fill = HEADER_FILL
+  header.alignment = { vertical: 'middle' }
+  sheet.views = [{ state: 'frozen', ySplit: 1 }]
+}
+
+function addDataSheet(
+  workbook: Workbook,
+  records: DataRecord[],
+  years: number[],
+  forecastYears: Set<number>,
+  unit: string
+) {
+  const sheet = workbook.addWorksheet('Data')
+  const labelColumns = [
+    { header: 'Geography', key: 'geography', width: 22 },
+    { header: 'Geography Level', key: 'geographyLevel', width: 14 },
+    { header: 'Parent Geography', key: 'parentGeography', width: 18 },
+    { header: 'Segment Type', key: 'segmentType', width: 20 },
+    { header: 'Segment', key: 'segment', width: 28 },
+    { header: 'Segment Level', key: 'segmentLevel', width: 12 },
+    { header: 'Segment Path', key: 'segmentPath', width: 40 },
+    { header: 'Aggregated', key: 'aggregated', width: 11 },
+  ]
+  sheet.columns = [
+    ...labelColumns,
+    ...years.map(year => ({ header: String(year), key: `y${year}`, width: 16, style: { numFmt: getValueFormat(unit) } })),
+  ]
+
+  records.forEach(record => {
+    const row: Record<string, string | number | null> = {
+      geography: record.geography,
+      geographyLevel: record.geography_level,
+      parentGeography: record.parent_geography ?? '',
+      segmentType: record.segment_type,
+      segment: record.segment,
+      segmentLevel: record.segment_level,
+      segmentPath: getSegmentPath(record),
+      aggregated: record.is_aggregated || record.is_derived ? 'Yes' : 'No',
+    }
+    years.forEach(year => {
+      const value = record.time_series[year]
+      row[`y${year}`] = typeof value === 'number' && Number.isFinite(value) ? value : null
+    })
+    sheet.addRow(row)
+  })
+
+  styleHeaderRow(sheet)
+  // Forecast years get a lighter header so they stand out from actuals
+  years.forEach((year, index) => {
+    if (forecastYears.has(year)) sheet.getRow(1).getCell(labelColumns.length + index + 1).fill = FORECAST_HEADER_FILL
+  })
+  sheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }]
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columnCount } }
+}
+
+function addSummarySheet(
+  workbook: Workbook,
+  records: DataRecord[],
+  filters: FilterState,
+  unit: string
+) {
+  const [startYear, endYear] = filters.yearRange
+  const sheet = workbook.addWorksheet('Summary')
+  sheet.columns = [
+    { header: 'Geography', key: 'geography', width: 22 },
+    { header: 'Segment Type', key: 'segmentType', width: 20 },
+    { header: 'Segment', key: 'segment', width: 28 },
+    { header: `${startYear} Value`, key: 'startValue', width: 18, style: { numFmt: getValueFormat(unit) } },
+    { header: `${endYear} Value`, key: 'endValue', width: 18, style: { numFmt: getValueFormat(unit) } },
+    { header: 'Absolute Growth', key: 'absoluteGrowth', width: 18, style: { numFmt: getValueFormat(unit) } },
+    { header: 'Total Growth', key: 'growth', width: 14, style: { numFmt: PERCENT_FORMAT } },
+    { header: `CAGR ${startYear}-${endYear}`, key: 'cagr', width: 16, style: { numFmt: PERCENT_FORMAT } },
+    { header: 'Dataset CAGR', key: 'datasetCagr', width: 14, style: { numFmt: PERCENT_FORMAT } },
+    { header: `Share of Geography ${endYear}`, key: 'share', width: 22, style: { numFmt: PERCENT_FORMAT } },
+    { header: 'Dataset Market Share', key: 'marketShare', width: 20, style: { numFmt: PERCENT_FORMAT } },
+  ]
+
+  // Shares compare rows at the same level within one geography and segment type,
+  // so parent aggregates are not counted alongside their own children
+  const shareKey = (record: DataRecord) =>
+    `${record.geography}|${record.segment_type}|${record.segment_level}|${record.aggregation_level ?? ''}`
+  const endTotals = new Map<string, number>()
+  records.forEach(record => {
+    const key = shareKey(record)
+    endTotals.set(key, (endTotals.get(key) || 0) + (record.time_series[endYear] || 0))
+  })
+
+  records.forEach(record => {
+    const startValue = record.time_series[startYear] || 0
+    const endValue = record.time_series[endYear] || 0
+    const endTotal = endTotals.get(shareKey(record)) || 0
+    sheet.addRow({
+      geography: record.geography,
+      segmentType: record.segment_type,
+      segment: record.segment,
+      startValue,
+      endValue,
+      absoluteGrowth: endValue - startValue,
+      growth: startValue > 0 ? (endValue - startValue) / startValue : null,
+      cagr: getCagr(startValue, endValue, endYear - startYear),
+      datasetCagr: typeof record.cagr === 'number' && Number.isFinite(record.cagr) ? record.cagr / 100 : null,
+      share: endTotal > 0 ? endValue / endTotal : null,
+      marketShare: typeof record.market_share === 'number' && Number.isFinite(record.market_share) ? record.market_share / 100 : null,
+    })
+  })
+
+  styleHeaderRow(sheet)
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columnCount } }
+}
+
+function addKeyValueSheet(workbook: Workbook, name: string, rows: Array<[string, string | number]>) {
+  const sheet = workbook.addWorksheet(name)
+  sheet.columns = [
+    { header: 'Field', key: 'field', width: 26 },
+    { header: 'Value', key: 'value', width: 80 },
+  ]
+  rows.forEach(([field, value]) => sheet.addRow({ field, value }))
+  sheet.getColumn('value').alignment = { wrapText: true, vertical: 'top' }
+  styleHeaderRow(sheet)
+}
+
+function getFilterRows(filters: FilterState, recordCount: number): Array<[string, string | number]> {
+  const rows: Array<[string, string | number]> = [
+    ['View Mode', filters.viewMode],
+    ['Data Type', filters.dataType],
+    ['Year Range', `${filters.yearRange[0]} - ${filters.yearRange[1]}`],
+    ['Geographies', filters.geographies.join(', ') || 'All'],
+    ['Segment Type', filters.segmentType],
+    ['Segments', filters.segments.join(', ') || 'All'],
+    ['Business Type', filters.businessType || 'All'],
+    ['Aggregation Level', filters.aggregationLevel ?? 'All levels'],
+  ]
+  if (filters.advancedSegments && filters.advancedSegments.length > 0) {
+    rows.push(['Advanced Segments', filters.advancedSegments.map(entry => `${entry.type}: ${entry.segment}`).join('; ')])
+  }
+  rows.push(['Records Exported', recordCount])
+  rows.push(['Exported At', new Date().toISOString()])
+  return rows
+}
+
+function getMetadataRows(data: ComparisonData): Array<[string, string | number]> {
+  const { metadata, source } = data
+  const rows: Array<[string, string | number]> = [
+    ['Market Name', metadata.market_name],
+    ['Market Type', metadata.market_type],
+    ['Industry', metadata.industry],
+    ['Years', metadata.years.join(', ')],
+    ['Start Year', metadata.start_year],
+    ['Base Year', metadata.base_year],
+    ['Forecast Year', metadata.forecast_year],
+    ['Historical Years', metadata.historical_years.join(', ')],
+    ['Forecast Years', metadata.forecast_years.join(', ')],
+    ['Currency', metadata.currency],
+    ['Value Unit', metadata.value_unit],
+    ['Volume Unit', metadata.volume_unit],
+  ]
+  if (source) {
+    rows.push(['Processor Version', source.processor_version])
+    rows.push(['Processed At', source.processed_at])
+    Object.entries(source.files).forEach(([role, file]) => {
+      if (file) rows.push([`Source File (${role})`, `${file.name} (sha256 ${file.sha256})`])
+    })
+  }
+  return rows
+}
+
+/**
+ * Build and download the workbook for the current filters
+ * exceljs is loaded on demand so it stays out of the main bundle
+ */
+export async function generateXLSXWorkbook(data: ComparisonData, filters: FilterState): Promise<XlsxExportResult> {
+  const ExcelJS = await import('exceljs')
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = 'Coherent Market Insights Dashboard'
+  workbook.created = new Date()
+
+  const dataset = filters.dataType === 'value'
+    ? data.data.value.geography_segment_matrix
+    : data.data.volume.geography_segment_matrix
+  const records = filterData(dataset, filters)
+  const unit = getUnitLabel(data, filters)
+
+  addDataSheet(workbook, records, getYears(filters), new Set(data.metadata.forecast_years), unit)
+  addSummarySheet(workbook, records, filters, unit)
+  addKeyValueSheet(workbook, 'Filters', getFilterRows(filters, records.length))
+  addKeyValueSheet(workbook, 'Metadata', getMetadataRows(data))
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  const fileName = `${data.metadata.market_name.replace(/\s+/g, '-')}-${filters.dataType}-${new Date().toISOString().split('T')[0]}.xlsx`
+  saveAs(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    fileName
+  )
+  console.log(`📗 Exported ${records.length} records to ${fileName}`)
+  return { fileName, recordCount: records.length }
+}
@@ -0,0 +1,160 @@
+/**
+ * Year Configuration
+ * Resolves base, historical and forecast years for a dataset from explicit sources,
+ * falling back to the midpoint of the year range only when nothing is configured
+ */
+
+import type { YearConfig } from './types'
+import type { RawJsonData } from './json-processor'
+
+// Top-level keys that hold dataset metadata rather than a geography
+const METADATA_BLOCK_KEYS = ['_metadata', 'metadata']
+
+export interface ResolvedYearSplit {
+  baseYear: number
+  historicalYears: number[]
+  forecastYears: number[]
+  source: string
+}
+
+function isValidYear(year: number): boolean {
+  return Number.isInteger(year) && year >= 1900 && year <= 2100
+}
+
+/**
+ * Parse a list of years
+ * Accepts number arrays, comma lists ("2019,2020") and ranges ("2019-2024")
+ */
+export function parseYearList(input: unknown): number[] | undefined {
+  const parts: unknown[] = Array.isArray(input)
+    ? input
+    : typeof input === 'string'
+      ? input.split(',')
+      : typeof input === 'number'
+        ? [input]
+        : []
+
+  const years = new Set<number>()
+  parts.forEach(part => {
+    if (typeof part === 'number') {
+      if (isValidYear(part)) years.add(part)
+      return
+    }
+    if (typeof part !== 'string') return
+    const range = part.trim().match(/^(\d{4})\s*-\s*(\d{4})$/)
+    if (range) {
+      const start = parseInt(range[1], 10)
+      const end = parseInt(range[2], 10)
+      for (let year = Math.min(start, end); year <= Math.max(start, end); year++) {
+        if (isValidYear(year)) years.add(year)
+      }
+      return
+    }
+    const year = parseInt(part.trim(), 10)
+    if (isValidYear(year)) years.add(year)
+  })
+
+  return years.size > 0 ? Array.from(years).sort((a, b) => a - b) : undefined
+}
+
+/**
+ * Normalize a year configuration from JSON (snake_case or camelCase keys)
+ * Returns null when no year fields are present
+ */
+export function normalizeYearConfig(raw: unknown): YearConfig | null {
+  if (!raw || typeof raw !== 'object') return null
+  const source = raw as Record<string, unknown>
+
+  const baseYearValue = source.base_year ?? source.baseYear
+  const baseYear = typeof baseYearValue === 'string' ? parseInt(baseYearValue, 10) : baseYearValue
+  const config: YearConfig = {}
+
+  if (typeof baseYear === 'number' && isValidYear(baseYear)) {
+    config.base_year = baseYear
+  }
+  const historicalYears = parseYearList(source.historical_years ?? source.historicalYears)
+  if (historicalYears) config.historical_years = historicalYears
+  const forecastYears = parseYearList(source.forecast_years ?? source.forecastYears)
+  if (forecastYears) config.forecast_years = forecastYears
+
+  return Object.keys(config).length > 0 ? config : null
+}
+
+/**
+ * Read a year configuration from /api/process-data query parameters
+ * (baseYear, historicalYears, forecastYears)
+ */
+export function parseYearConfigParams(searchParams: URLSearchParams): YearConfig | null {
+  return normalizeYearConfig({
+    baseYear: searchParams.get('baseYear') ?? undefined,
+    historicalYears: searchParams.get('historicalYears') ?? undefined,
+    forecastYears: searchParams.get('forecastYears') ?? undefined
+  })
+}
+
+/**
+ * Split an embedded metadata block off a raw JSON file
+ * The returned data never contains the block, so it is not mistaken for a geography
+ */
+export function extractMetadataBlock(data: RawJsonData): { data: RawJsonData; yearConfig: YearConfig | null } {
+  const blockKey = METADATA_BLOCK_KEYS.find(key => key in data)
+  if (!blockKey) {
+    return { data, yearConfig: null }
+  }
+
+  const { [blockKey]: block, ...rest } = data
+  return { data: rest, yearConfig: normalizeYearConfig(block) }
+}
+
+/**
+ * Resolve the base/historical/forecast split for a set of years
+ * Sources are checked in order and the first non-empty one wins as a whole
+ */
+export function resolveYearSplit(
+  allYears: number[],
+  sources: Array<{ name: string; config: YearConfig | null | undefined }>
+): ResolvedYearSplit {
+  const startYear = Math.min(...allYears)
+  const endYear = Math.max(...allYears)
+  const inRange = (years: number[] | undefined) => (years || []).filter(year => allYears.includes(year))
+
+  for (const { name, config } of sources) {
+    if (!config) continue
+
+    const historical = inRange(config.historical_years)
+    const forecast = inRange(config.forecast_years)
+    let baseYear: number | undefined
+
+    if (config.base_year !== undefined && config.base_year >= startYear && config.base_year <= endYear) {
+      baseYear = config.base_year
+    } else if (historical.length > 0) {
+      baseYear = Math.max(...historical)
+    } else if (forecast.length > 0) {
+      const beforeForecast = allYears.filter(year => year < Math.min(...forecast))
+      baseYear = beforeForecast.length > 0 ? Math.max(...beforeForecast) : startYear
+    }
+
+    if (baseYear === undefined) {
+      console.warn(`Ignoring ${name} year configuration: no years fall within ${startYear}-${endYear}`)
+      continue
+    }
+
+    const resolvedBase = baseYear
+    return {
+      baseYear: resolvedBase,
+      historicalYears: historical.length > 0 ? historical : allYears.filter(year => year <= resolvedBase),
+      forecastYears: forecast.length > 0 ? forecast : allYears.filter(year => year > resolvedBase),
+      source: name
+    }
+  }
+
+  // Last resort: no configuration anywhere
+  const baseYear = Math.floor((startYear + endYear) / 2)
+  console.warn(`No base year configured; guessing ${baseYear} from the midpoint of ${startYear}-${endYear}`)
+  return {
+    baseYear,
+    historicalYears: allYears.filter(year => year <= baseYear),
+    forecastYears: allYears.filter(year => year > baseYear),
+    source: 'midpoint'
+  }
+}